@@ -0,0 +1,222 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 库存配置管理
+ * 配置以JSON文件形式保存在 config 目录下，文件不存在时使用默认配置
+ */
+
+export function getInventoryConfig() {
+  const defaultConfig = {
+    alertThresholds: {
+      globalLowStockThreshold: 10,
+      globalOutOfStockThreshold: 0,
+      enableGlobalAlerts: true,
+      enableItemSpecificAlerts: true
+    },
+    autoRestock: {
+      enabled: false,
+      defaultRestockQuantity: 50,
+      restockTriggerThreshold: 5,
+      // 按最近 consumptionLookbackDays 天的日均消耗量，补足 coverageDays 天的用量
+      consumptionLookbackDays: 90,
+      coverageDays: 30,
+      enableEmailNotifications: true,
+      notificationEmails: []
+    },
+    batchTracking: {
+      // 出库扣减批次的顺序：fefo 先到期先出（无保质期的批次最后），fifo 先进先出
+      deductionStrategy: 'fefo',
+      // 批次在到期前 expiryAlertDays 天内发出临期警报
+      expiryAlertDays: 30
+    },
+    costing: {
+      // 库存计价方法：fifo 按批次先进先出，moving_average 移动加权平均，latest 按最新采购单价（含到岸成本）
+      method: 'latest'
+    },
+    display: {
+      defaultPageSize: 20,
+      showLowStockFirst: true,
+      highlightCriticalItems: true,
+      showStockValue: true,
+      defaultSortField: 'item_name',
+      defaultSortOrder: 'asc'
+    },
+    validation: {
+      maxItemNameLength: 100,
+      minStockQuantity: 0,
+      maxStockQuantity: 999999,
+      requireCategory: false,
+      requireTags: false
+    }
+  };
+
+  try {
+    const configFile = path.join(process.cwd(), 'config', 'inventory-config.json');
+    if (fs.existsSync(configFile)) {
+      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+      return { ...defaultConfig, ...savedConfig };
+    }
+  } catch (error) {
+    console.error('读取库存配置失败:', error);
+  }
+
+  return defaultConfig;
+}
+
+export function saveInventoryConfig(config: any) {
+  try {
+    const configDir = path.join(process.cwd(), 'config');
+    const configFile = path.join(configDir, 'inventory-config.json');
+    
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
+    }
+    
+    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  } catch (error) {
+    console.error('保存库存配置失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 旧版分类配置（config/inventory-categories.json，不存在时使用默认分类）
+ * 分类现保存在数据库中，此配置仅在分类表为空时用于初始化
+ */
+export function getInventoryCategories() {
+  const defaultCategories = [
+    { id: 1, name: '食品', description: '各类食品商品', color: '#52c41a' },
+    { id: 2, name: '饮料', description: '各类饮品', color: '#1890ff' },
+    { id: 3, name: '日用品', description: '日常生活用品', color: '#faad14' },
+    { id: 4, name: '化妆品', description: '美容护肤产品', color: '#eb2f96' },
+    { id: 5, name: '电子产品', description: '电子设备及配件', color: '#722ed1' },
+    { id: 6, name: '服装', description: '各类服装商品', color: '#13c2c2' },
+    { id: 7, name: '其他', description: '其他类别商品', color: '#8c8c8c' }
+  ];
+
+  try {
+    const categoriesFile = path.join(process.cwd(), 'config', 'inventory-categories.json');
+    if (fs.existsSync(categoriesFile)) {
+      return JSON.parse(fs.readFileSync(categoriesFile, 'utf8'));
+    }
+  } catch (error) {
+    console.error('读取库存分类失败:', error);
+  }
+
+  return defaultCategories;
+}
+
+/**
+ * 旧版标签配置，仅在标签表为空时用于初始化
+ */
+export function getInventoryTags() {
+  const defaultTags = [
+    { id: 1, name: '热销', color: '#f50' },
+    { id: 2, name: '新品', color: '#2db7f5' },
+    { id: 3, name: '促销', color: '#87d068' },
+    { id: 4, name: '季节性', color: '#108ee9' },
+    { id: 5, name: '限量', color: '#f56a00' },
+    { id: 6, name: '进口', color: '#722ed1' },
+    { id: 7, name: '有机', color: '#52c41a' },
+    { id: 8, name: '高端', color: '#eb2f96' }
+  ];
+
+  try {
+    const tagsFile = path.join(process.cwd(), 'config', 'inventory-tags.json');
+    if (fs.existsSync(tagsFile)) {
+      return JSON.parse(fs.readFileSync(tagsFile, 'utf8'));
+    }
+  } catch (error) {
+    console.error('读取库存标签失败:', error);
+  }
+
+  return defaultTags;
+}
+
+export function getInventoryReportConfig() {
+  const defaultConfig = {
+    reports: [
+      {
+        id: 'low-stock',
+        name: '低库存报表',
+        description: '显示库存不足的商品',
+        enabled: true,
+        schedule: 'daily',
+        recipients: [],
+        filters: {
+          threshold: 10,
+          includeOutOfStock: true
+        }
+      },
+      {
+        id: 'stock-value',
+        name: '库存价值报表',
+        description: '显示库存总价值统计',
+        enabled: true,
+        schedule: 'weekly',
+        recipients: [],
+        filters: {
+          groupByCategory: true,
+          includeZeroValue: false
+        }
+      },
+      {
+        id: 'movement-analysis',
+        name: '库存流动分析',
+        description: '分析库存变动趋势',
+        enabled: false,
+        schedule: 'monthly',
+        recipients: [],
+        filters: {
+          period: 30,
+          includeInactive: false
+        }
+      }
+    ],
+    exportFormats: ['excel', 'csv', 'pdf'],
+    defaultFormat: 'excel',
+    autoExport: false,
+    exportPath: './exports',
+    // PDF 报表使用的中文字体文件，留空时自动查找系统中已安装的 CJK 字体
+    // fontFamily 仅在字体文件为 .ttc 字体集合时需要，用于指定其中的字体名称
+    fontPath: '',
+    fontFamily: ''
+  };
+
+  try {
+    const configFile = path.join(process.cwd(), 'config', 'inventory-report-config.json');
+    if (fs.existsSync(configFile)) {
+      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+      return { ...defaultConfig, ...savedConfig };
+    }
+  } catch (error) {
+    console.error('读取库存报表配置失败:', error);
+  }
+
+  return defaultConfig;
+}
+
+export function saveInventoryReportConfig(config: any) {
+  try {
+    const configDir = path.join(process.cwd(), 'config');
+    const configFile = path.join(configDir, 'inventory-report-config.json');
+    
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
+    }
+    
+    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  } catch (error) {
+    console.error('保存库存报表配置失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 获取全局低库存阈值（商品未设置自定义阈值时使用）
+ */
+export function getGlobalLowStockThreshold(): number {
+  const threshold = Number(getInventoryConfig().alertThresholds?.globalLowStockThreshold);
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : 10;
+}
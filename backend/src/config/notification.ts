@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 邮件通知配置管理
+ * 配置以JSON文件形式保存在 config 目录下，文件不存在时使用默认配置；SMTP 连接信息默认读取环境变量
+ */
+
+export function getNotificationConfig() {
+  const defaultConfig = {
+    enabled: true,
+    smtp: {
+      host: process.env.SMTP_HOST || '',
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      pass: process.env.SMTP_PASS || '',
+      from: process.env.SMTP_FROM || '代购管理系统 <noreply@localhost>'
+    },
+    retry: {
+      // 发送失败后按 baseDelaySeconds 指数退避重试，达到 maxAttempts 次后标记为失败
+      maxAttempts: 5,
+      baseDelaySeconds: 60,
+      maxDelaySeconds: 3600
+    },
+    // 待审核收据和系统监控警报的收件人；低库存通知发送到库存配置的 autoRestock.notificationEmails，报表发送到报表定义的 recipients
+    alertEmails: [] as string[],
+    events: {
+      lowStock: true,
+      reports: true,
+      reviewQueue: true,
+      monitoringAlerts: true
+    },
+    // 同一警报（同一商品或同一类型的监控警报）在冷却时间内只发送一次
+    alertCooldownMinutes: 60
+  };
+
+  try {
+    const configFile = path.join(process.cwd(), 'config', 'notification-config.json');
+    if (fs.existsSync(configFile)) {
+      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+      return { ...defaultConfig, ...savedConfig };
+    }
+  } catch (error) {
+    console.error('读取通知配置失败:', error);
+  }
+
+  return defaultConfig;
+}
+
+export function saveNotificationConfig(config: any) {
+  try {
+    const configDir = path.join(process.cwd(), 'config');
+    const configFile = path.join(configDir, 'notification-config.json');
+
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
+    }
+
+    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  } catch (error) {
+    console.error('保存通知配置失败:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * OCR配置管理
+ * 配置以JSON文件形式保存在 config 目录下，文件不存在时使用默认配置
+ */
+
+export function getOCRConfig() {
+  const defaultConfig = {
+    imageProcessing: {
+      maxWidth: 2048,
+      maxHeight: 2048,
+      quality: 85,
+      format: 'jpeg',
+      enhanceForOCR: true,
+      preserveAspectRatio: true
+    },
+    recognition: {
+      maxRetries: 3,
+      baseDelay: 2000,
+      maxDelay: 60000,
+      timeoutMs: 60000,
+      confidenceThreshold: 0.7,
+      enableFallback: true
+    },
+    review: {
+      // 置信度低于 recognition.confidenceThreshold、行金额计算不符或总额不符时进入人工审核
+      enabled: true
+    },
+    duplicateDetection: {
+      // 相似度达到 threshold 的历史收据视为疑似重复，保存时需确认；hashDistance 为图像感知哈希判定相近的最大汉明距离
+      // 图像相近（非完全相同）的比对只针对最近 imageLookbackDays 天内上传的收据
+      enabled: true,
+      threshold: 0.85,
+      hashDistance: 10,
+      imageLookbackDays: 90
+    },
+    productMatching: {
+      // 每个商品行返回的候选商品数量，以及候选商品的最低相似度
+      suggestionLimit: 3,
+      minScore: 0.5
+    },
+    validation: {
+      maxItemNameLength: 100,
+      minPrice: 0.01,
+      maxPrice: 99999.99,
+      priceTolerancePercent: 1
+    }
+  };
+
+  try {
+    const configFile = path.join(process.cwd(), 'config', 'ocr-config.json');
+    if (fs.existsSync(configFile)) {
+      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+      return { ...defaultConfig, ...savedConfig };
+    }
+  } catch (error) {
+    console.error('读取OCR配置失败:', error);
+  }
+
+  return defaultConfig;
+}
+
+export function saveOCRConfig(config: any) {
+  try {
+    const configDir = path.join(process.cwd(), 'config');
+    const configFile = path.join(configDir, 'ocr-config.json');
+    
+    if (!fs.existsSync(configDir)) {
+      fs.mkdirSync(configDir, { recursive: true });
+    }
+    
+    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
+  } catch (error) {
+    console.error('保存OCR配置失败:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,14 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 
+export interface TransactionContext {
+  query<T = any>(sql: string, params?: any[]): Promise<T[]>;
+  get<T = any>(sql: string, params?: any[]): Promise<T | undefined>;
+  run(sql: string, params?: any[]): Promise<{ lastID: number; changes: number }>;
+  /** 注册事务提交成功后执行的回调（回滚时不会执行） */
+  afterCommit(callback: () => void | Promise<void>): void;
+}
+
 interface ConnectionPoolConfig {
   maxConnections: number;
   acquireTimeout: number;
@@ -154,6 +162,64 @@ class DatabaseConnectionPool {
     });
   }
 
+  /**
+   * 在同一个连接上执行事务（成功自动提交，失败自动回滚）
+   */
+  async transaction<T>(work: (tx: TransactionContext) => Promise<T>): Promise<T> {
+    const db = await this.acquire();
+    const commitCallbacks: Array<() => void | Promise<void>> = [];
+
+    const tx: TransactionContext = {
+      query: <R = any>(sql: string, params: any[] = []) => new Promise<R[]>((resolve, reject) => {
+        db.all(sql, params, (err, rows) => {
+          if (err) reject(new Error(`数据库查询失败: ${err.message}`));
+          else resolve(rows as R[]);
+        });
+      }),
+      get: <R = any>(sql: string, params: any[] = []) => new Promise<R | undefined>((resolve, reject) => {
+        db.get(sql, params, (err, row) => {
+          if (err) reject(new Error(`数据库查询失败: ${err.message}`));
+          else resolve(row as R | undefined);
+        });
+      }),
+      run: (sql: string, params: any[] = []) => new Promise((resolve, reject) => {
+        db.run(sql, params, function(err) {
+          if (err) reject(new Error(`数据库操作失败: ${err.message}`));
+          else resolve({ lastID: this.lastID, changes: this.changes });
+        });
+      }),
+      afterCommit: (callback) => {
+        commitCallbacks.push(callback);
+      }
+    };
+
+    let result: T;
+    try {
+      // IMMEDIATE 事务在开始时即获取写锁，避免先读后写时被其他连接抢先修改
+      await tx.run('BEGIN IMMEDIATE TRANSACTION');
+      result = await work(tx);
+      await tx.run('COMMIT');
+    } catch (error) {
+      await new Promise<void>((resolve) => {
+        db.run('ROLLBACK', () => resolve());
+      });
+      throw error;
+    } finally {
+      this.release(db);
+    }
+
+    // 提交后的回调失败不影响事务结果
+    for (const callback of commitCallbacks) {
+      try {
+        await callback();
+      } catch (error) {
+        console.error('事务提交回调执行失败:', error);
+      }
+    }
+
+    return result;
+  }
+
   /**
    * 获取连接池状态
    */
@@ -11,6 +11,17 @@ export function getDatabase(): sqlite3.Database {
 
 export { connectionPool };
 
+/**
+ * 为已存在的表补充新增字段（字段已存在时忽略）
+ */
+function addColumnIfMissing(db: sqlite3.Database, table: string, columnDefinition: string): void {
+  db.run(`ALTER TABLE ${table} ADD COLUMN ${columnDefinition}`, (err) => {
+    if (err && !err.message.includes('duplicate column name')) {
+      console.error(`添加字段失败 (${table}.${columnDefinition}):`, err.message);
+    }
+  });
+}
+
 export async function initDatabase(): Promise<void> {
   // 确保数据库目录存在
   const dbDir = path.dirname(DB_PATH);
@@ -41,12 +52,74 @@ export async function initDatabase(): Promise<void> {
           user_id INTEGER NOT NULL,
           image_path TEXT,
           total_amount REAL,
+          currency TEXT DEFAULT 'CNY',
+          exchange_rate REAL DEFAULT 1,
+          shipment_id INTEGER,
+          store_id INTEGER,
+          merchant_name TEXT,
+          merchant_address TEXT,
+          receipt_number TEXT,
+          purchased_at DATETIME,
+          subtotal REAL,
+          discount_amount REAL DEFAULT 0,
+          tax_amount REAL DEFAULT 0,
+          grand_total REAL,
+          tax_mode TEXT DEFAULT 'inclusive',
+          status TEXT DEFAULT 'approved',
+          ocr_confidence REAL,
+          review_reasons TEXT,
+          reviewed_by INTEGER,
+          reviewed_at DATETIME,
+          review_notes TEXT,
+          image_hash TEXT,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users (id)
         )
       `);
 
+      // 收据币种及保存时的汇率快照（1单位收据币种折合人民币）
+      addColumnIfMissing(db, 'receipts', "currency TEXT DEFAULT 'CNY'");
+      addColumnIfMissing(db, 'receipts', 'exchange_rate REAL DEFAULT 1');
+      // 收据所属的发货批次
+      addColumnIfMissing(db, 'receipts', 'shipment_id INTEGER');
+      // 收据门店信息（OCR识别的原始店名、地址和收据编号，以及匹配到的门店）
+      addColumnIfMissing(db, 'receipts', 'store_id INTEGER');
+      addColumnIfMissing(db, 'receipts', 'merchant_name TEXT');
+      addColumnIfMissing(db, 'receipts', 'merchant_address TEXT');
+      addColumnIfMissing(db, 'receipts', 'receipt_number TEXT');
+      // 收据上打印的购买时间，缺失时以上传时间代替
+      addColumnIfMissing(db, 'receipts', 'purchased_at DATETIME');
+      db.run('UPDATE receipts SET purchased_at = created_at WHERE purchased_at IS NULL');
+      // 商品小计、折扣、税额及计算出的应付总额，total_amount 为收据上打印的总额
+      addColumnIfMissing(db, 'receipts', 'subtotal REAL');
+      addColumnIfMissing(db, 'receipts', 'discount_amount REAL DEFAULT 0');
+      addColumnIfMissing(db, 'receipts', 'tax_amount REAL DEFAULT 0');
+      addColumnIfMissing(db, 'receipts', 'grand_total REAL');
+      addColumnIfMissing(db, 'receipts', "tax_mode TEXT DEFAULT 'inclusive'");
+      // 审核状态：approved (已入库)、pending_review (待审核，未入库)、rejected (已驳回)
+      addColumnIfMissing(db, 'receipts', "status TEXT DEFAULT 'approved'");
+      addColumnIfMissing(db, 'receipts', 'ocr_confidence REAL');
+      addColumnIfMissing(db, 'receipts', 'review_reasons TEXT');
+      addColumnIfMissing(db, 'receipts', 'reviewed_by INTEGER');
+      addColumnIfMissing(db, 'receipts', 'reviewed_at DATETIME');
+      addColumnIfMissing(db, 'receipts', 'review_notes TEXT');
+      // 收据图像感知哈希，用于检测重复上传
+      addColumnIfMissing(db, 'receipts', 'image_hash TEXT');
+
+      // 收据折扣、优惠券和税额行
+      db.run(`
+        CREATE TABLE IF NOT EXISTS receipt_adjustments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receipt_id INTEGER NOT NULL,
+          adjustment_type TEXT NOT NULL,
+          description TEXT,
+          amount REAL NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (receipt_id) REFERENCES receipts (id) ON DELETE CASCADE
+        )
+      `);
+
       // 收据项目表
       db.run(`
         CREATE TABLE IF NOT EXISTS receipt_items (
@@ -56,11 +129,23 @@ export async function initDatabase(): Promise<void> {
           unit_price REAL NOT NULL,
           quantity INTEGER NOT NULL,
           total_price REAL NOT NULL,
+          landed_cost REAL DEFAULT 0,
+          product_id INTEGER,
+          expiry_date DATE,
+          batch_number TEXT,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (receipt_id) REFERENCES receipts (id) ON DELETE CASCADE
         )
       `);
 
+      // 分摊到收据项目的附加成本合计（人民币）
+      addColumnIfMissing(db, 'receipt_items', 'landed_cost REAL DEFAULT 0');
+      // 收据项目对应的商品，item_name 为商品名称快照
+      addColumnIfMissing(db, 'receipt_items', 'product_id INTEGER');
+      // 收据项目的保质期和批号，入库时写入对应批次
+      addColumnIfMissing(db, 'receipt_items', 'expiry_date DATE');
+      addColumnIfMissing(db, 'receipt_items', 'batch_number TEXT');
+
       // 库存表
       db.run(`
         CREATE TABLE IF NOT EXISTS inventory (
@@ -68,10 +153,23 @@ export async function initDatabase(): Promise<void> {
           item_name TEXT UNIQUE NOT NULL,
           current_stock INTEGER DEFAULT 0,
           unit_price REAL,
+          low_stock_threshold INTEGER,
+          landed_unit_cost REAL,
+          product_id INTEGER,
+          average_unit_cost REAL,
           last_updated DATETIME DEFAULT CURRENT_TIMESTAMP
         )
       `);
 
+      // 商品自定义低库存阈值，为空时使用全局阈值
+      addColumnIfMissing(db, 'inventory', 'low_stock_threshold INTEGER');
+      // 含运费、关税等附加成本的单位到岸成本（人民币），为空时按单价估值
+      addColumnIfMissing(db, 'inventory', 'landed_unit_cost REAL');
+      // 库存对应的商品，每个商品只有一条库存记录
+      addColumnIfMissing(db, 'inventory', 'product_id INTEGER');
+      // 移动加权平均单位成本，入库时按加权平均更新
+      addColumnIfMissing(db, 'inventory', 'average_unit_cost REAL');
+
       // 操作日志表
       db.run(`
         CREATE TABLE IF NOT EXISTS operation_logs (
@@ -88,6 +186,522 @@ export async function initDatabase(): Promise<void> {
         )
       `);
 
+      // 客户表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          phone TEXT,
+          wechat TEXT,
+          address TEXT,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 客户订单表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS customer_orders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          customer_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          total_amount REAL DEFAULT 0,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (customer_id) REFERENCES customers (id),
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        )
+      `);
+
+      // 客户订单项目表（可关联到具体的采购收据项目）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS customer_order_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          quantity INTEGER NOT NULL,
+          unit_price REAL NOT NULL DEFAULT 0,
+          total_price REAL NOT NULL DEFAULT 0,
+          receipt_item_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (order_id) REFERENCES customer_orders (id) ON DELETE CASCADE,
+          FOREIGN KEY (receipt_item_id) REFERENCES receipt_items (id)
+        )
+      `);
+
+      // 销售出库表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sales (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          customer_id INTEGER,
+          order_id INTEGER,
+          total_amount REAL NOT NULL DEFAULT 0,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id),
+          FOREIGN KEY (customer_id) REFERENCES customers (id),
+          FOREIGN KEY (order_id) REFERENCES customer_orders (id)
+        )
+      `);
+
+      // 销售出库项目表（记录售价和出库时的成本单价）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sale_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sale_id INTEGER NOT NULL,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          quantity INTEGER NOT NULL,
+          unit_price REAL NOT NULL,
+          total_price REAL NOT NULL,
+          unit_cost REAL,
+          order_item_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (sale_id) REFERENCES sales (id) ON DELETE CASCADE,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (order_item_id) REFERENCES customer_order_items (id)
+        )
+      `);
+
+      // 库存变动流水表（每次库存变化都记录来源、变动量和变动后结存）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_movements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          source TEXT NOT NULL,
+          delta INTEGER NOT NULL,
+          balance_after INTEGER NOT NULL,
+          unit_price REAL,
+          reference_id INTEGER,
+          user_id INTEGER,
+          notes TEXT,
+          location_id INTEGER,
+          unit_cost REAL,
+          cost_amount REAL,
+          average_cost_after REAL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        )
+      `);
+
+      // 库存流水发生的存放位置
+      addColumnIfMissing(db, 'inventory_movements', 'location_id INTEGER');
+      // 按计价方法计算的单位成本和成本金额（与 delta 同号，出库即销货成本），以及变动后的移动加权平均成本
+      addColumnIfMissing(db, 'inventory_movements', 'unit_cost REAL');
+      addColumnIfMissing(db, 'inventory_movements', 'cost_amount REAL');
+      addColumnIfMissing(db, 'inventory_movements', 'average_cost_after REAL');
+
+      // 汇率表（1单位外币折合人民币，支持手工录入和批量导入）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS exchange_rates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          currency TEXT NOT NULL,
+          rate REAL NOT NULL,
+          rate_date DATE NOT NULL,
+          source TEXT DEFAULT 'manual',
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (currency, rate_date),
+          FOREIGN KEY (created_by) REFERENCES users (id)
+        )
+      `);
+
+      // 商品目录表（SKU、JAN/EAN条码、品牌、规格和分类），name 与库存的 item_name 一致
+      db.run(`
+        CREATE TABLE IF NOT EXISTS products (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          sku TEXT UNIQUE,
+          barcode TEXT UNIQUE,
+          brand TEXT,
+          spec TEXT,
+          category TEXT,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 商品别名表（OCR识别的不同写法，normalized_alias 用于匹配）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS product_aliases (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          product_id INTEGER NOT NULL,
+          alias TEXT NOT NULL,
+          normalized_alias TEXT UNIQUE NOT NULL,
+          source TEXT DEFAULT 'manual',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (product_id) REFERENCES products (id)
+        )
+      `);
+
+      // 库存分类表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          description TEXT,
+          color TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 库存标签表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          color TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 库存项目与分类、标签的多对多关联
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_categories (
+          inventory_id INTEGER NOT NULL,
+          category_id INTEGER NOT NULL,
+          PRIMARY KEY (inventory_id, category_id),
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (category_id) REFERENCES categories (id)
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_tags (
+          inventory_id INTEGER NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (inventory_id, tag_id),
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (tag_id) REFERENCES tags (id)
+        )
+      `);
+
+      // 门店表（采购门店登记，normalized_name 用于匹配OCR识别的店名）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stores (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          normalized_name TEXT NOT NULL,
+          address TEXT,
+          country TEXT,
+          notes TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 发货批次表（多张收据合并发货时共同承担运费等成本）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS shipments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          tracking_number TEXT,
+          notes TEXT,
+          user_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        )
+      `);
+
+      // 附加成本表（运费、关税、代购费等），挂在收据或发货批次上
+      db.run(`
+        CREATE TABLE IF NOT EXISTS landed_costs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          receipt_id INTEGER,
+          shipment_id INTEGER,
+          cost_type TEXT NOT NULL,
+          amount REAL NOT NULL,
+          currency TEXT DEFAULT 'CNY',
+          exchange_rate REAL DEFAULT 1,
+          allocation_method TEXT DEFAULT 'value',
+          description TEXT,
+          created_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (receipt_id) REFERENCES receipts (id),
+          FOREIGN KEY (shipment_id) REFERENCES shipments (id),
+          FOREIGN KEY (created_by) REFERENCES users (id)
+        )
+      `);
+
+      // 定时报表任务表（每个报表一行，保存下次运行时间，服务重启后按此继续调度）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS report_jobs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          report_id TEXT NOT NULL UNIQUE,
+          schedule TEXT NOT NULL,
+          next_run_at DATETIME,
+          last_run_at DATETIME,
+          last_status TEXT,
+          last_error TEXT,
+          consecutive_failures INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 报表运行记录表（status: running/success/failed，trigger_type: schedule/manual）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS report_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          report_id TEXT NOT NULL,
+          trigger_type TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'running',
+          format TEXT NOT NULL,
+          file_path TEXT,
+          file_size INTEGER,
+          recipients TEXT,
+          error TEXT,
+          user_id INTEGER,
+          started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finished_at DATETIME,
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        )
+      `);
+
+      // 通知发件箱（status: pending/sent/failed，发送失败时按 next_attempt_at 重试）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS notification_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_type TEXT NOT NULL,
+          recipients TEXT NOT NULL,
+          subject TEXT NOT NULL,
+          body_text TEXT NOT NULL,
+          body_html TEXT,
+          attachments TEXT,
+          dedupe_key TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER DEFAULT 0,
+          max_attempts INTEGER DEFAULT 5,
+          next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_error TEXT,
+          sent_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 采购清单表（低于补货触发阈值时生成的草稿，status: draft/purchased/dismissed，按门店分组给采购人员）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS shopping_list_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          store_id INTEGER,
+          suggested_quantity INTEGER NOT NULL,
+          quantity INTEGER NOT NULL,
+          stock_at_creation INTEGER,
+          daily_consumption REAL DEFAULT 0,
+          quantity_basis TEXT,
+          last_unit_price REAL,
+          currency TEXT,
+          status TEXT NOT NULL DEFAULT 'draft',
+          source TEXT NOT NULL DEFAULT 'auto',
+          notes TEXT,
+          created_by INTEGER,
+          updated_by INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (store_id) REFERENCES stores (id),
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (updated_by) REFERENCES users (id)
+        )
+      `);
+
+      // 盘点单表（status: open/posted/cancelled，过账后按盘点差异调整库存）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stocktakes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'open',
+          notes TEXT,
+          created_by INTEGER,
+          posted_by INTEGER,
+          posted_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (posted_by) REFERENCES users (id)
+        )
+      `);
+
+      // 盘点明细表（每个商品一行，system_quantity 和 unit_cost 为首次盘点该商品时的账面库存和单位成本快照）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stocktake_lines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          stocktake_id INTEGER NOT NULL,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          system_quantity INTEGER NOT NULL,
+          counted_quantity INTEGER NOT NULL DEFAULT 0,
+          unit_cost REAL DEFAULT 0,
+          reason_code TEXT,
+          notes TEXT,
+          movement_id INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (stocktake_id, inventory_id),
+          FOREIGN KEY (stocktake_id) REFERENCES stocktakes (id) ON DELETE CASCADE,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id),
+          FOREIGN KEY (movement_id) REFERENCES inventory_movements (id)
+        )
+      `);
+
+      // 盘点计数表（每人对每个商品一条，商品的盘点数量为各人计数之和）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stocktake_counts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          line_id INTEGER NOT NULL,
+          user_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL,
+          counted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (line_id, user_id),
+          FOREIGN KEY (line_id) REFERENCES stocktake_lines (id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users (id)
+        )
+      `);
+
+      // 存放位置表（海外采购住处、转运仓库、国内办公室等），is_default 为未指定位置时的出入库位置
+      db.run(`
+        CREATE TABLE IF NOT EXISTS locations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT UNIQUE NOT NULL,
+          location_type TEXT DEFAULT 'other',
+          address TEXT,
+          notes TEXT,
+          is_default INTEGER DEFAULT 0,
+          is_active INTEGER DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // 各位置的库存数量；inventory.current_stock 为各位置数量与调拨在途数量之和
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_locations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          inventory_id INTEGER NOT NULL,
+          location_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (inventory_id, location_id),
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id) ON DELETE CASCADE,
+          FOREIGN KEY (location_id) REFERENCES locations (id)
+        )
+      `);
+
+      // 调拨单表（status: draft/in_transit/received/cancelled，发出后到接收前商品处于在途状态）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stock_transfers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          from_location_id INTEGER NOT NULL,
+          to_location_id INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'draft',
+          tracking_number TEXT,
+          notes TEXT,
+          created_by INTEGER,
+          shipped_by INTEGER,
+          shipped_at DATETIME,
+          received_by INTEGER,
+          received_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (from_location_id) REFERENCES locations (id),
+          FOREIGN KEY (to_location_id) REFERENCES locations (id),
+          FOREIGN KEY (created_by) REFERENCES users (id),
+          FOREIGN KEY (shipped_by) REFERENCES users (id),
+          FOREIGN KEY (received_by) REFERENCES users (id)
+        )
+      `);
+
+      // 调拨单明细表
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stock_transfer_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transfer_id INTEGER NOT NULL,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          quantity INTEGER NOT NULL,
+          FOREIGN KEY (transfer_id) REFERENCES stock_transfers (id) ON DELETE CASCADE,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id)
+        )
+      `);
+
+      // 默认位置，升级前的库存全部计入默认位置
+      db.run(`
+        INSERT INTO locations (name, location_type, is_default)
+        SELECT '默认仓库', 'warehouse', 1
+        WHERE NOT EXISTS (SELECT 1 FROM locations WHERE is_default = 1)
+      `);
+      db.run(`
+        INSERT INTO inventory_locations (inventory_id, location_id, quantity)
+        SELECT i.id, (SELECT id FROM locations WHERE is_default = 1), i.current_stock
+        FROM inventory i
+        WHERE i.current_stock > 0
+          AND NOT EXISTS (SELECT 1 FROM inventory_locations il WHERE il.inventory_id = i.id)
+          AND NOT EXISTS (SELECT 1 FROM stock_transfer_items ti WHERE ti.inventory_id = i.id)
+      `);
+
+      // 库存批次表：每次入库生成一个批次，出库按先到期先出 (FEFO) 或先进先出 (FIFO) 扣减 remaining_quantity
+      // source 为生成批次的库存流水来源，opening 为升级前的库存；alert_level 记录已发出的到期警报 (expiring/expired)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          inventory_id INTEGER NOT NULL,
+          item_name TEXT NOT NULL,
+          source TEXT NOT NULL,
+          receipt_id INTEGER,
+          receipt_item_id INTEGER,
+          batch_number TEXT,
+          expiry_date DATE,
+          received_quantity INTEGER NOT NULL,
+          remaining_quantity INTEGER NOT NULL,
+          unit_cost REAL,
+          alert_level TEXT,
+          received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (inventory_id) REFERENCES inventory (id) ON DELETE CASCADE,
+          FOREIGN KEY (receipt_id) REFERENCES receipts (id)
+        )
+      `);
+
+      // 库存流水与批次的对应关系（quantity 为该批次的变动量）
+      db.run(`
+        CREATE TABLE IF NOT EXISTS inventory_batch_movements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id INTEGER NOT NULL,
+          movement_id INTEGER NOT NULL,
+          quantity INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (batch_id) REFERENCES inventory_batches (id),
+          FOREIGN KEY (movement_id) REFERENCES inventory_movements (id)
+        )
+      `);
+
+      // 升级前的库存计入一个无保质期的期初批次
+      db.run(`
+        INSERT INTO inventory_batches (inventory_id, item_name, source, received_quantity, remaining_quantity, unit_cost)
+        SELECT i.id, i.item_name, 'opening', i.current_stock, i.current_stock, COALESCE(i.landed_unit_cost, i.unit_price)
+        FROM inventory i
+        WHERE i.current_stock > 0
+          AND NOT EXISTS (SELECT 1 FROM inventory_batches b WHERE b.inventory_id = i.id)
+      `);
+
+      // 升级前的库存以当前单价作为移动加权平均成本的起点
+      db.run(`
+        UPDATE inventory SET average_unit_cost = COALESCE(landed_unit_cost, unit_price)
+        WHERE average_unit_cost IS NULL
+      `);
+
       // 添加数据库索引优化
       // 为receipts表的created_at字段添加索引以优化日期范围查询
       db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_created_at ON receipts (created_at)`);
@@ -107,6 +721,64 @@ export async function initDatabase(): Promise<void> {
       // 为operation_logs表的user_id字段添加索引
       db.run(`CREATE INDEX IF NOT EXISTS idx_operation_logs_user_id ON operation_logs (user_id)`);
 
+      // 为客户订单的客户和状态字段添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_customer_orders_customer_id ON customer_orders (customer_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_customer_orders_status ON customer_orders (status)`);
+
+      // 为订单项目的订单和收据项目关联字段添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_customer_order_items_order_id ON customer_order_items (order_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_customer_order_items_receipt_item_id ON customer_order_items (receipt_item_id)`);
+
+      // 为销售记录的日期和关联字段添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales (created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sales_order_id ON sales (order_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sale_items_sale_id ON sale_items (sale_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_sale_items_inventory_id ON sale_items (inventory_id)`);
+
+      // 为库存流水的商品和时间字段添加复合索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_movements_inventory_created ON inventory_movements (inventory_id, created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_movements_source_reference ON inventory_movements (source, reference_id)`);
+
+      // 为收据发货批次和附加成本关联字段添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_shipment_id ON receipts (shipment_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_landed_costs_receipt_id ON landed_costs (receipt_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_landed_costs_shipment_id ON landed_costs (shipment_id)`);
+
+      // 为门店匹配和按门店统计添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_stores_normalized_name ON stores (normalized_name)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_store_id ON receipts (store_id)`);
+
+      // 为按购买时间统计添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_purchased_at ON receipts (purchased_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipt_adjustments_receipt_id ON receipt_adjustments (receipt_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_status ON receipts (status)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_image_hash ON receipts (image_hash)`);
+
+      // 为商品目录添加索引
+      db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_product_id ON inventory (product_id) WHERE product_id IS NOT NULL`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_receipt_items_product_id ON receipt_items (product_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_product_aliases_product_id ON product_aliases (product_id)`);
+
+      // 为分类和标签关联添加索引（按分类、标签筛选库存）
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_categories_category_id ON inventory_categories (category_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_tags_tag_id ON inventory_tags (tag_id)`);
+
+      // 为报表运行记录查询添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_report_runs_report_started ON report_runs (report_id, started_at)`);
+
+      // 为发件箱待发送查询和警报去重添加索引
+      db.run(`CREATE INDEX IF NOT EXISTS idx_notification_outbox_status_next ON notification_outbox (status, next_attempt_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_notification_outbox_dedupe_key ON notification_outbox (dedupe_key, created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_shopping_list_items_status_store ON shopping_list_items (status, store_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_shopping_list_items_inventory ON shopping_list_items (inventory_id, status)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON stocktakes (status, created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_locations_location ON inventory_locations (location_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers (status, created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON stock_transfer_items (transfer_id)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_batches_inventory ON inventory_batches (inventory_id, remaining_quantity)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_batches_expiry ON inventory_batches (expiry_date)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_inventory_batch_movements_movement ON inventory_batch_movements (movement_id)`);
+
       // 创建默认管理员账户
       db.run(`
         INSERT OR IGNORE INTO users (username, password, role) 
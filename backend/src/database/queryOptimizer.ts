@@ -1,4 +1,5 @@
 import { connectionPool } from './connectionPool';
+import { CostingService } from '../services/costingService';
 
 /**
  * 数据库查询优化器
@@ -18,8 +19,10 @@ export class QueryOptimizer {
     endDate?: string;
     userId?: number;
     itemName?: string;
+    storeId?: number;
+    status?: string;
   }) {
-    const { page = 1, limit = 20, startDate, endDate, userId, itemName } = params;
+    const { page = 1, limit = 20, startDate, endDate, userId, itemName, storeId, status } = params;
     const offset = (page - 1) * limit;
 
     let whereConditions: string[] = [];
@@ -42,6 +45,16 @@ export class QueryOptimizer {
       queryParams.push(userId);
     }
     
+    if (storeId) {
+      whereConditions.push(`r.store_id = ?`);
+      queryParams.push(storeId);
+    }
+
+    if (status) {
+      whereConditions.push(`r.status = ?`);
+      queryParams.push(status);
+    }
+
     if (itemName) {
       whereConditions.push(`EXISTS (
         SELECT 1 FROM receipt_items ri 
@@ -64,9 +77,14 @@ export class QueryOptimizer {
         r.total_amount,
         r.created_at,
         r.updated_at,
+        r.purchased_at,
+        r.status,
+        r.store_id,
+        COALESCE(s.name, r.merchant_name) as store_name,
         u.username
       FROM receipts r
       LEFT JOIN users u ON r.user_id = u.id
+      LEFT JOIN stores s ON r.store_id = s.id
       ${whereClause}
       ORDER BY r.created_at DESC
       LIMIT ? OFFSET ?
@@ -138,20 +156,47 @@ export class QueryOptimizer {
     limit?: number;
     lowStockOnly?: boolean;
     stockThreshold?: number;
+    categoryId?: number | string;
+    tagId?: number | string;
+    locationId?: number | string;
   }) {
-    const { search, page = 1, limit = 20, lowStockOnly = false, stockThreshold = 10 } = params;
+    const { search, page = 1, limit = 20, lowStockOnly = false, stockThreshold = 10, categoryId, tagId, locationId } = params;
     const offset = (page - 1) * limit;
 
     let whereConditions: string[] = [];
     let queryParams: any[] = [];
 
+    // 支持按商品名称、SKU或条码搜索
     if (search) {
-      whereConditions.push(`item_name LIKE ?`);
-      queryParams.push(`%${search}%`);
+      whereConditions.push(`(i.item_name LIKE ? OR p.sku LIKE ? OR p.barcode = ?)`);
+      queryParams.push(`%${search}%`, `%${search}%`, search);
+    }
+
+    // 按分类筛选，categoryId=none 时筛选未设置分类的项目
+    if (categoryId === 'none') {
+      whereConditions.push(`i.id NOT IN (SELECT inventory_id FROM inventory_categories)`);
+    } else if (categoryId) {
+      whereConditions.push(`i.id IN (SELECT inventory_id FROM inventory_categories WHERE category_id = ?)`);
+      queryParams.push(Number(categoryId));
     }
 
+    // tagId=none 时筛选未设置标签的项目
+    if (tagId === 'none') {
+      whereConditions.push(`i.id NOT IN (SELECT inventory_id FROM inventory_tags)`);
+    } else if (tagId) {
+      whereConditions.push(`i.id IN (SELECT inventory_id FROM inventory_tags WHERE tag_id = ?)`);
+      queryParams.push(Number(tagId));
+    }
+
+    // 按存放位置筛选在该位置有库存的项目
+    if (locationId) {
+      whereConditions.push(`i.id IN (SELECT inventory_id FROM inventory_locations WHERE location_id = ? AND quantity > 0)`);
+      queryParams.push(Number(locationId));
+    }
+
+    // 商品未设置自定义阈值时使用传入的全局阈值
     if (lowStockOnly) {
-      whereConditions.push(`current_stock <= ?`);
+      whereConditions.push(`i.current_stock <= COALESCE(i.low_stock_threshold, ?)`);
       queryParams.push(stockThreshold);
     }
 
@@ -162,29 +207,58 @@ export class QueryOptimizer {
     // 主查询
     const inventoryQuery = `
       SELECT 
-        id,
-        item_name,
-        current_stock,
-        unit_price,
-        (current_stock * unit_price) as total_value,
-        last_updated,
+        i.id,
+        i.item_name,
+        i.current_stock,
+        i.unit_price,
+        i.landed_unit_cost,
+        (i.current_stock * ${CostingService.getInstance().getUnitCostExpression()}) as total_value,
+        i.last_updated,
+        i.low_stock_threshold,
+        i.product_id,
+        p.sku,
+        p.barcode,
+        p.brand,
+        p.spec,
+        p.category,
+        (SELECT json_group_array(json_object('id', c.id, 'name', c.name, 'color', c.color))
+         FROM inventory_categories ic JOIN categories c ON ic.category_id = c.id
+         WHERE ic.inventory_id = i.id) as categories,
+        (SELECT json_group_array(json_object('id', t.id, 'name', t.name, 'color', t.color))
+         FROM inventory_tags it JOIN tags t ON it.tag_id = t.id
+         WHERE it.inventory_id = i.id) as tags,
+        (SELECT json_group_array(json_object('id', l.id, 'name', l.name, 'quantity', il.quantity))
+         FROM inventory_locations il JOIN locations l ON il.location_id = l.id
+         WHERE il.inventory_id = i.id AND il.quantity > 0) as locations,
+        (SELECT COALESCE(SUM(quantity), 0) FROM inventory_locations
+         WHERE inventory_id = i.id AND location_id = ?) as location_stock,
         CASE 
-          WHEN current_stock <= ? THEN 1 
+          WHEN i.current_stock <= COALESCE(i.low_stock_threshold, ?) THEN 1 
           ELSE 0 
         END as is_low_stock
-      FROM inventory
+      FROM inventory i
+      LEFT JOIN products p ON i.product_id = p.id
       ${whereClause}
-      ORDER BY item_name
+      ORDER BY i.item_name
       LIMIT ? OFFSET ?
     `;
 
-    const allParams = [stockThreshold, ...queryParams, limit, offset];
-    const inventory = await connectionPool.query(inventoryQuery, allParams);
+    const allParams = [locationId ? Number(locationId) : null, stockThreshold, ...queryParams, limit, offset];
+    const rows = await connectionPool.query(inventoryQuery, allParams);
+    // location_stock 为指定位置上的数量，未指定位置时为 null
+    const inventory = rows.map(row => ({
+      ...row,
+      categories: JSON.parse(row.categories || '[]'),
+      tags: JSON.parse(row.tags || '[]'),
+      locations: JSON.parse(row.locations || '[]'),
+      location_stock: locationId ? row.location_stock : null
+    }));
 
     // 获取总数
     const countQuery = `
       SELECT COUNT(*) as total
-      FROM inventory
+      FROM inventory i
+      LEFT JOIN products p ON i.product_id = p.id
       ${whereClause}
     `;
     
@@ -0,0 +1,12 @@
+import multer from 'multer';
+
+/**
+ * 导入文件上传（XLSX/CSV），文件保存在内存中，格式由导入接口校验
+ */
+export const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024,
+    files: 1
+  }
+});
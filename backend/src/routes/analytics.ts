@@ -2,13 +2,23 @@ import express from 'express';
 import { getDatabase, connectionPool } from '../database/init';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { logOperation } from '../middleware/logger';
+import { ExchangeRateService } from '../services/exchangeRateService';
+import { CostingService } from '../services/costingService';
+import { SpreadsheetService, MONEY_FORMAT, XLSX_CONTENT_TYPE } from '../services/spreadsheetService';
+import { BusinessError } from '../utils/businessError';
+import { resolveReceiptDateField } from '../utils/receiptDate';
 
 const router = express.Router();
+const exchangeRateService = ExchangeRateService.getInstance();
 
 // 获取采购趋势分析数据
 router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分析'), async (req: AuthRequest, res) => {
   try {
-    const { period = 'month', startDate, endDate } = req.query;
+    const { period = 'month', startDate, endDate, reportCurrency, dateField } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
+    // 默认按收据上的购买时间统计，dateField=created_at 时按上传时间
+    const field = resolveReceiptDateField(dateField);
+    const dateColumn = `r.${field}`;
     
     const db = await connectionPool.acquire();
     
@@ -39,17 +49,17 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
           dateLabel = 'month';
       }
       
-      // 构建WHERE条件
-      let whereClause = '1=1';
+      // 构建WHERE条件，待审核和已驳回的收据不计入统计
+      let whereClause = "r.status = 'approved'";
       const params: any[] = [];
       
       if (startDate) {
-        whereClause += ' AND r.created_at >= ?';
+        whereClause += ` AND ${dateColumn} >= ?`;
         params.push(startDate);
       }
       
       if (endDate) {
-        whereClause += ' AND r.created_at <= ?';
+        whereClause += ` AND ${dateColumn} <= ?`;
         params.push(endDate);
       }
       
@@ -57,14 +67,14 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
       const amountTrends = await new Promise<any[]>((resolve, reject) => {
         db.all(`
           SELECT 
-            strftime('${dateFormat}', r.created_at) as period,
+            strftime('${dateFormat}', ${dateColumn}) as period,
             COUNT(*) as receipt_count,
-            SUM(r.total_amount) as total_amount,
-            AVG(r.total_amount) as avg_amount,
+            SUM(r.total_amount * r.exchange_rate) as total_amount,
+            AVG(r.total_amount * r.exchange_rate) as avg_amount,
             COUNT(DISTINCT r.user_id) as unique_users
           FROM receipts r
           WHERE ${whereClause}
-          GROUP BY strftime('${dateFormat}', r.created_at)
+          GROUP BY strftime('${dateFormat}', ${dateColumn})
           ORDER BY period ASC
         `, params, (err, rows) => {
           if (err) reject(err);
@@ -76,14 +86,14 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
       const quantityTrends = await new Promise<any[]>((resolve, reject) => {
         db.all(`
           SELECT 
-            strftime('${dateFormat}', r.created_at) as period,
+            strftime('${dateFormat}', ${dateColumn}) as period,
             SUM(ri.quantity) as total_quantity,
             COUNT(DISTINCT ri.item_name) as unique_items,
             AVG(ri.quantity) as avg_quantity_per_item
           FROM receipts r
           JOIN receipt_items ri ON r.id = ri.receipt_id
           WHERE ${whereClause}
-          GROUP BY strftime('${dateFormat}', r.created_at)
+          GROUP BY strftime('${dateFormat}', ${dateColumn})
           ORDER BY period ASC
         `, params, (err, rows) => {
           if (err) reject(err);
@@ -94,20 +104,21 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
       connectionPool.release(db);
       
       res.json({
+        reportCurrency: report.currency,
+        dateField: field,
         period: period,
         dateLabel: dateLabel,
         amountTrends: amountTrends.map(row => ({
           period: row.period,
           receiptCount: row.receipt_count,
-          totalAmount: parseFloat(row.total_amount || 0),
-          avgAmount: parseFloat(row.avg_amount || 0),
+          totalAmount: report.convert(row.total_amount),
+          avgAmount: report.convert(row.avg_amount),
           uniqueUsers: row.unique_users
         })),
         quantityTrends: quantityTrends.map(row => ({
           period: row.period,
           totalQuantity: row.total_quantity,
-          uniqueItems: row.unique_items,
-          avgQuantityPerItem: parseFloat(row.avg_quantity_per_item || 0)
+            avgQuantityPerItem: parseFloat(row.avg_quantity_per_item || 0)
         }))
       });
       
@@ -117,6 +128,9 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取采购趋势失败:', error);
     res.status(500).json({ 
       error: '获取采购趋势失败',
@@ -128,12 +142,13 @@ router.get('/trends', authenticateToken, logOperation('查看', '采购趋势分
 // 获取商品采购频率分析
 router.get('/item-frequency', authenticateToken, logOperation('查看', '商品采购频率'), async (req: AuthRequest, res) => {
   try {
-    const { limit = 20, startDate, endDate, minFrequency = 1 } = req.query;
+    const { limit = 20, startDate, endDate, minFrequency = 1, reportCurrency } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
     
     const db = await connectionPool.acquire();
     
     try {
-      let whereClause = '1=1';
+      let whereClause = "r.status = 'approved'";
       const params: any[] = [];
       
       if (startDate) {
@@ -152,10 +167,10 @@ router.get('/item-frequency', authenticateToken, logOperation('查看', '商品
             ri.item_name,
             COUNT(*) as purchase_frequency,
             SUM(ri.quantity) as total_quantity,
-            SUM(ri.total_price) as total_value,
-            AVG(ri.unit_price) as avg_unit_price,
-            MIN(ri.unit_price) as min_unit_price,
-            MAX(ri.unit_price) as max_unit_price,
+            SUM(ri.total_price * r.exchange_rate) as total_value,
+            AVG(ri.unit_price * r.exchange_rate) as avg_unit_price,
+            MIN(ri.unit_price * r.exchange_rate) as min_unit_price,
+            MAX(ri.unit_price * r.exchange_rate) as max_unit_price,
             COUNT(DISTINCT r.user_id) as purchased_by_users,
             MIN(r.created_at) as first_purchase,
             MAX(r.created_at) as last_purchase
@@ -175,18 +190,19 @@ router.get('/item-frequency', authenticateToken, logOperation('查看', '商品
       connectionPool.release(db);
       
       res.json({
+        reportCurrency: report.currency,
         items: itemFrequency.map(row => ({
           itemName: row.item_name,
           purchaseFrequency: row.purchase_frequency,
           totalQuantity: row.total_quantity,
-          totalValue: parseFloat(row.total_value || 0),
-          avgUnitPrice: parseFloat(row.avg_unit_price || 0),
-          minUnitPrice: parseFloat(row.min_unit_price || 0),
-          maxUnitPrice: parseFloat(row.max_unit_price || 0),
+          totalValue: report.convert(row.total_value),
+          avgUnitPrice: report.convert(row.avg_unit_price),
+          minUnitPrice: report.convert(row.min_unit_price),
+          maxUnitPrice: report.convert(row.max_unit_price),
           purchasedByUsers: row.purchased_by_users,
           firstPurchase: row.first_purchase,
           lastPurchase: row.last_purchase,
-          priceVariation: parseFloat(row.max_unit_price || 0) - parseFloat(row.min_unit_price || 0)
+          priceVariation: report.convert(row.max_unit_price) - report.convert(row.min_unit_price)
         }))
       });
       
@@ -196,6 +212,9 @@ router.get('/item-frequency', authenticateToken, logOperation('查看', '商品
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取商品频率分析失败:', error);
     res.status(500).json({ 
       error: '获取商品频率分析失败',
@@ -207,16 +226,19 @@ router.get('/item-frequency', authenticateToken, logOperation('查看', '商品
 // 获取季节性采购模式分析
 router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季节性采购模式'), async (req: AuthRequest, res) => {
   try {
-    const { year } = req.query;
+    const { year, reportCurrency, dateField } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
+    const field = resolveReceiptDateField(dateField);
+    const dateColumn = `r.${field}`;
     
     const db = await connectionPool.acquire();
     
     try {
-      let whereClause = '1=1';
+      let whereClause = "r.status = 'approved'";
       const params: any[] = [];
       
       if (year) {
-        whereClause += ' AND strftime("%Y", r.created_at) = ?';
+        whereClause += ` AND strftime('%Y', ${dateColumn}) = ?`;
         params.push(year);
       }
       
@@ -224,16 +246,16 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
       const monthlyPatterns = await new Promise<any[]>((resolve, reject) => {
         db.all(`
           SELECT 
-            CAST(strftime('%m', r.created_at) AS INTEGER) as month,
+            CAST(strftime('%m', ${dateColumn}) AS INTEGER) as month,
             COUNT(*) as receipt_count,
-            SUM(r.total_amount) as total_amount,
-            AVG(r.total_amount) as avg_amount,
+            SUM(r.total_amount * r.exchange_rate) as total_amount,
+            AVG(r.total_amount * r.exchange_rate) as avg_amount,
             SUM(ri.quantity) as total_quantity,
             COUNT(DISTINCT ri.item_name) as unique_items
           FROM receipts r
           JOIN receipt_items ri ON r.id = ri.receipt_id
           WHERE ${whereClause}
-          GROUP BY strftime('%m', r.created_at)
+          GROUP BY strftime('%m', ${dateColumn})
           ORDER BY month ASC
         `, params, (err, rows) => {
           if (err) reject(err);
@@ -246,14 +268,14 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
         db.all(`
           SELECT 
             CASE 
-              WHEN CAST(strftime('%m', r.created_at) AS INTEGER) IN (1,2,3) THEN 1
-              WHEN CAST(strftime('%m', r.created_at) AS INTEGER) IN (4,5,6) THEN 2
-              WHEN CAST(strftime('%m', r.created_at) AS INTEGER) IN (7,8,9) THEN 3
+              WHEN CAST(strftime('%m', ${dateColumn}) AS INTEGER) IN (1,2,3) THEN 1
+              WHEN CAST(strftime('%m', ${dateColumn}) AS INTEGER) IN (4,5,6) THEN 2
+              WHEN CAST(strftime('%m', ${dateColumn}) AS INTEGER) IN (7,8,9) THEN 3
               ELSE 4
             END as quarter,
             COUNT(*) as receipt_count,
-            SUM(r.total_amount) as total_amount,
-            AVG(r.total_amount) as avg_amount,
+            SUM(r.total_amount * r.exchange_rate) as total_amount,
+            AVG(r.total_amount * r.exchange_rate) as avg_amount,
             SUM(ri.quantity) as total_quantity
           FROM receipts r
           JOIN receipt_items ri ON r.id = ri.receipt_id
@@ -270,13 +292,13 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
       const weekdayPatterns = await new Promise<any[]>((resolve, reject) => {
         db.all(`
           SELECT 
-            CAST(strftime('%w', r.created_at) AS INTEGER) as weekday,
+            CAST(strftime('%w', ${dateColumn}) AS INTEGER) as weekday,
             COUNT(*) as receipt_count,
-            SUM(r.total_amount) as total_amount,
-            AVG(r.total_amount) as avg_amount
+            SUM(r.total_amount * r.exchange_rate) as total_amount,
+            AVG(r.total_amount * r.exchange_rate) as avg_amount
           FROM receipts r
           WHERE ${whereClause}
-          GROUP BY strftime('%w', r.created_at)
+          GROUP BY strftime('%w', ${dateColumn})
           ORDER BY weekday ASC
         `, params, (err, rows) => {
           if (err) reject(err);
@@ -292,13 +314,15 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
       const quarterNames = ['第一季度', '第二季度', '第三季度', '第四季度'];
       
       res.json({
+        reportCurrency: report.currency,
+        dateField: field,
         year: year || '全部年份',
         monthly: monthlyPatterns.map(row => ({
           month: row.month,
           monthName: monthNames[row.month - 1],
           receiptCount: row.receipt_count,
-          totalAmount: parseFloat(row.total_amount || 0),
-          avgAmount: parseFloat(row.avg_amount || 0),
+          totalAmount: report.convert(row.total_amount),
+          avgAmount: report.convert(row.avg_amount),
           totalQuantity: row.total_quantity,
           uniqueItems: row.unique_items
         })),
@@ -306,16 +330,16 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
           quarter: row.quarter,
           quarterName: quarterNames[row.quarter - 1],
           receiptCount: row.receipt_count,
-          totalAmount: parseFloat(row.total_amount || 0),
-          avgAmount: parseFloat(row.avg_amount || 0),
+          totalAmount: report.convert(row.total_amount),
+          avgAmount: report.convert(row.avg_amount),
           totalQuantity: row.total_quantity
         })),
         weekday: weekdayPatterns.map(row => ({
           weekday: row.weekday,
           weekdayName: weekdayNames[row.weekday],
           receiptCount: row.receipt_count,
-          totalAmount: parseFloat(row.total_amount || 0),
-          avgAmount: parseFloat(row.avg_amount || 0)
+          totalAmount: report.convert(row.total_amount),
+          avgAmount: report.convert(row.avg_amount)
         }))
       });
       
@@ -325,6 +349,9 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取季节性模式分析失败:', error);
     res.status(500).json({ 
       error: '获取季节性模式分析失败',
@@ -336,12 +363,13 @@ router.get('/seasonal-patterns', authenticateToken, logOperation('查看', '季
 // 获取用户采购行为分析
 router.get('/user-behavior', authenticateToken, logOperation('查看', '用户采购行为'), async (req: AuthRequest, res) => {
   try {
-    const { startDate, endDate, limit = 10 } = req.query;
+    const { startDate, endDate, limit = 10, reportCurrency } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
     
     const db = await connectionPool.acquire();
     
     try {
-      let whereClause = '1=1';
+      let whereClause = "r.status = 'approved'";
       const params: any[] = [];
       
       if (startDate) {
@@ -360,10 +388,10 @@ router.get('/user-behavior', authenticateToken, logOperation('查看', '用户
             u.username,
             u.role,
             COUNT(r.id) as total_receipts,
-            SUM(r.total_amount) as total_spent,
-            AVG(r.total_amount) as avg_per_receipt,
-            MIN(r.total_amount) as min_receipt,
-            MAX(r.total_amount) as max_receipt,
+            SUM(r.total_amount * r.exchange_rate) as total_spent,
+            AVG(r.total_amount * r.exchange_rate) as avg_per_receipt,
+            MIN(r.total_amount * r.exchange_rate) as min_receipt,
+            MAX(r.total_amount * r.exchange_rate) as max_receipt,
             SUM(ri.quantity) as total_items_purchased,
             COUNT(DISTINCT ri.item_name) as unique_items,
             MIN(r.created_at) as first_purchase,
@@ -386,14 +414,15 @@ router.get('/user-behavior', authenticateToken, logOperation('查看', '用户
       connectionPool.release(db);
       
       res.json({
+        reportCurrency: report.currency,
         users: userBehavior.map(row => ({
           username: row.username,
           role: row.role,
           totalReceipts: row.total_receipts,
-          totalSpent: parseFloat(row.total_spent || 0),
-          avgPerReceipt: parseFloat(row.avg_per_receipt || 0),
-          minReceipt: parseFloat(row.min_receipt || 0),
-          maxReceipt: parseFloat(row.max_receipt || 0),
+          totalSpent: report.convert(row.total_spent),
+          avgPerReceipt: report.convert(row.avg_per_receipt),
+          minReceipt: report.convert(row.min_receipt),
+          maxReceipt: report.convert(row.max_receipt),
           totalItemsPurchased: row.total_items_purchased,
           uniqueItems: row.unique_items,
           firstPurchase: row.first_purchase,
@@ -409,6 +438,9 @@ router.get('/user-behavior', authenticateToken, logOperation('查看', '用户
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取用户行为分析失败:', error);
     res.status(500).json({ 
       error: '获取用户行为分析失败',
@@ -420,7 +452,8 @@ router.get('/user-behavior', authenticateToken, logOperation('查看', '用户
 // 获取价格趋势分析
 router.get('/price-trends', authenticateToken, logOperation('查看', '价格趋势分析'), async (req: AuthRequest, res) => {
   try {
-    const { itemName, period = 'month', limit = 12 } = req.query;
+    const { itemName, period = 'month', limit = 12, reportCurrency } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
     
     if (!itemName) {
       return res.status(400).json({ error: '请指定商品名称' });
@@ -452,14 +485,14 @@ router.get('/price-trends', authenticateToken, logOperation('查看', '价格趋
         db.all(`
           SELECT 
             strftime('${dateFormat}', r.created_at) as period,
-            AVG(ri.unit_price) as avg_price,
-            MIN(ri.unit_price) as min_price,
-            MAX(ri.unit_price) as max_price,
+            AVG(ri.unit_price * r.exchange_rate) as avg_price,
+            MIN(ri.unit_price * r.exchange_rate) as min_price,
+            MAX(ri.unit_price * r.exchange_rate) as max_price,
             COUNT(*) as purchase_count,
             SUM(ri.quantity) as total_quantity
           FROM receipt_items ri
           JOIN receipts r ON ri.receipt_id = r.id
-          WHERE ri.item_name = ?
+          WHERE ri.item_name = ? AND r.status = 'approved'
           GROUP BY strftime('${dateFormat}', r.created_at)
           ORDER BY period DESC
           LIMIT ?
@@ -472,16 +505,17 @@ router.get('/price-trends', authenticateToken, logOperation('查看', '价格趋
       connectionPool.release(db);
       
       res.json({
+        reportCurrency: report.currency,
         itemName: itemName,
         period: period,
         trends: priceTrends.map(row => ({
           period: row.period,
-          avgPrice: parseFloat(row.avg_price || 0),
-          minPrice: parseFloat(row.min_price || 0),
-          maxPrice: parseFloat(row.max_price || 0),
+          avgPrice: report.convert(row.avg_price),
+          minPrice: report.convert(row.min_price),
+          maxPrice: report.convert(row.max_price),
           purchaseCount: row.purchase_count,
           totalQuantity: row.total_quantity,
-          priceVariation: parseFloat(row.max_price || 0) - parseFloat(row.min_price || 0)
+          priceVariation: report.convert(row.max_price) - report.convert(row.min_price)
         })).reverse() // 按时间正序排列
       });
       
@@ -491,6 +525,9 @@ router.get('/price-trends', authenticateToken, logOperation('查看', '价格趋
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取价格趋势分析失败:', error);
     res.status(500).json({ 
       error: '获取价格趋势分析失败',
@@ -499,15 +536,71 @@ router.get('/price-trends', authenticateToken, logOperation('查看', '价格趋
   }
 });
 
+/**
+ * 综合分析报告导出为 XLSX，概览、热门商品、活跃用户和近7天趋势各占一个工作表
+ */
+function buildSummaryWorkbook(summary: any): Promise<Buffer> {
+  const money = `金额 (${summary.reportCurrency})`;
+  return SpreadsheetService.getInstance().buildWorkbook([
+    {
+      name: '概览',
+      columns: [
+        { header: '指标', key: 'metric', width: 20 },
+        { header: '数值', key: 'value', width: 16, numFmt: '#,##0.##' }
+      ],
+      rows: [
+        { metric: '统计开始', value: summary.period.startDate },
+        { metric: '统计结束', value: summary.period.endDate },
+        { metric: '收据数', value: summary.basicStats.totalReceipts },
+        { metric: '活跃用户数', value: summary.basicStats.activeUsers },
+        { metric: '商品种类', value: summary.basicStats.uniqueItems },
+        { metric: `采购总额 (${summary.reportCurrency})`, value: summary.basicStats.totalAmount },
+        { metric: `平均每单金额 (${summary.reportCurrency})`, value: summary.basicStats.avgReceiptAmount },
+        { metric: '采购总数量', value: summary.basicStats.totalQuantity },
+        { metric: `平均单价 (${summary.reportCurrency})`, value: summary.basicStats.avgUnitPrice }
+      ]
+    },
+    {
+      name: '热门商品',
+      columns: [
+        { header: '商品名称', key: 'itemName', width: 32 },
+        { header: '采购次数', key: 'frequency', numFmt: '0' },
+        { header: '采购数量', key: 'totalQuantity', numFmt: '0' },
+        { header: money, key: 'totalValue', numFmt: MONEY_FORMAT }
+      ],
+      rows: summary.topItems
+    },
+    {
+      name: '活跃用户',
+      columns: [
+        { header: '用户', key: 'username' },
+        { header: '收据数', key: 'receiptCount', numFmt: '0' },
+        { header: money, key: 'totalSpent', numFmt: MONEY_FORMAT }
+      ],
+      rows: summary.topUsers
+    },
+    {
+      name: '近7天趋势',
+      columns: [
+        { header: '日期', key: 'date' },
+        { header: '收据数', key: 'receiptCount', numFmt: '0' },
+        { header: money, key: 'dailyAmount', numFmt: MONEY_FORMAT }
+      ],
+      rows: summary.recentTrends
+    }
+  ]);
+}
+
 // 获取综合分析报告
 router.get('/summary', authenticateToken, logOperation('查看', '综合分析报告'), async (req: AuthRequest, res) => {
   try {
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, reportCurrency, format } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
     
     const db = await connectionPool.acquire();
     
     try {
-      let whereClause = '1=1';
+      let whereClause = "r.status = 'approved'";
       const params: any[] = [];
       
       if (startDate) {
@@ -527,10 +620,10 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
             COUNT(DISTINCT r.id) as total_receipts,
             COUNT(DISTINCT r.user_id) as active_users,
             COUNT(DISTINCT ri.item_name) as unique_items,
-            SUM(r.total_amount) as total_amount,
-            AVG(r.total_amount) as avg_receipt_amount,
+            SUM(r.total_amount * r.exchange_rate) as total_amount,
+            AVG(r.total_amount * r.exchange_rate) as avg_receipt_amount,
             SUM(ri.quantity) as total_quantity,
-            AVG(ri.unit_price) as avg_unit_price
+            AVG(ri.unit_price * r.exchange_rate) as avg_unit_price
           FROM receipts r
           LEFT JOIN receipt_items ri ON r.id = ri.receipt_id
           WHERE ${whereClause}
@@ -547,7 +640,7 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
             ri.item_name,
             COUNT(*) as frequency,
             SUM(ri.quantity) as total_quantity,
-            SUM(ri.total_price) as total_value
+            SUM(ri.total_price * r.exchange_rate) as total_value
           FROM receipt_items ri
           JOIN receipts r ON ri.receipt_id = r.id
           WHERE ${whereClause}
@@ -566,7 +659,7 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
           SELECT 
             u.username,
             COUNT(r.id) as receipt_count,
-            SUM(r.total_amount) as total_spent
+            SUM(r.total_amount * r.exchange_rate) as total_spent
           FROM users u
           JOIN receipts r ON u.id = r.user_id
           WHERE ${whereClause}
@@ -585,9 +678,9 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
           SELECT 
             DATE(r.created_at) as date,
             COUNT(*) as receipt_count,
-            SUM(r.total_amount) as daily_amount
+            SUM(r.total_amount * r.exchange_rate) as daily_amount
           FROM receipts r
-          WHERE r.created_at >= date('now', '-7 days')
+          WHERE r.created_at >= date('now', '-7 days') AND r.status = 'approved'
           GROUP BY DATE(r.created_at)
           ORDER BY date ASC
         `, (err, rows) => {
@@ -598,7 +691,8 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
       
       connectionPool.release(db);
       
-      res.json({
+      const summary = {
+        reportCurrency: report.currency,
         period: {
           startDate: startDate || '全部时间',
           endDate: endDate || '至今'
@@ -607,28 +701,37 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
           totalReceipts: basicStats.total_receipts || 0,
           activeUsers: basicStats.active_users || 0,
           uniqueItems: basicStats.unique_items || 0,
-          totalAmount: parseFloat(basicStats.total_amount || 0),
-          avgReceiptAmount: parseFloat(basicStats.avg_receipt_amount || 0),
+          totalAmount: report.convert(basicStats.total_amount),
+          avgReceiptAmount: report.convert(basicStats.avg_receipt_amount),
           totalQuantity: basicStats.total_quantity || 0,
-          avgUnitPrice: parseFloat(basicStats.avg_unit_price || 0)
+          avgUnitPrice: report.convert(basicStats.avg_unit_price)
         },
         topItems: topItems.map(item => ({
           itemName: item.item_name,
           frequency: item.frequency,
           totalQuantity: item.total_quantity,
-          totalValue: parseFloat(item.total_value || 0)
+          totalValue: report.convert(item.total_value)
         })),
         topUsers: topUsers.map(user => ({
           username: user.username,
           receiptCount: user.receipt_count,
-          totalSpent: parseFloat(user.total_spent || 0)
+          totalSpent: report.convert(user.total_spent)
         })),
         recentTrends: recentTrends.map(trend => ({
           date: trend.date,
           receiptCount: trend.receipt_count,
-          dailyAmount: parseFloat(trend.daily_amount || 0)
+          dailyAmount: report.convert(trend.daily_amount)
         }))
-      });
+      };
+
+      if (format === 'xlsx') {
+        const buffer = await buildSummaryWorkbook(summary);
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', `attachment; filename="analytics_summary_${new Date().toISOString().split('T')[0]}.xlsx"`);
+        return res.send(buffer);
+      }
+
+      res.json(summary);
       
     } catch (error) {
       connectionPool.release(db);
@@ -636,6 +739,9 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
     }
     
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('获取综合分析报告失败:', error);
     res.status(500).json({ 
       error: '获取综合分析报告失败',
@@ -644,4 +750,302 @@ router.get('/summary', authenticateToken, logOperation('查看', '综合分析
   }
 });
 
+// 获取门店采购分析（按收据关联的门店汇总采购金额）
+router.get('/stores', authenticateToken, logOperation('查看', '门店采购分析'), async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate, limit = 20, reportCurrency } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
+
+    let whereClause = "r.status = 'approved'";
+    const params: any[] = [];
+
+    if (startDate) {
+      whereClause += ' AND r.created_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND r.created_at <= ?';
+      params.push(endDate);
+    }
+
+    const stores = await connectionPool.query(`
+      SELECT
+        r.store_id,
+        COALESCE(s.name, '未关联门店') as store_name,
+        s.address,
+        COUNT(*) as receipt_count,
+        SUM(r.total_amount * r.exchange_rate) as total_spent,
+        AVG(r.total_amount * r.exchange_rate) as avg_receipt_amount,
+        MIN(r.created_at) as first_purchase,
+        MAX(r.created_at) as last_purchase
+      FROM receipts r
+      LEFT JOIN stores s ON r.store_id = s.id
+      WHERE ${whereClause}
+      GROUP BY r.store_id
+      ORDER BY total_spent DESC
+      LIMIT ?
+    `, [...params, Number(limit)]);
+
+    res.json({
+      reportCurrency: report.currency,
+      stores: stores.map(row => ({
+        storeId: row.store_id,
+        storeName: row.store_name,
+        address: row.address,
+        receiptCount: row.receipt_count,
+        totalSpent: report.convert(row.total_spent),
+        avgReceiptAmount: report.convert(row.avg_receipt_amount),
+        uniqueItems: row.unique_items,
+        firstPurchase: row.first_purchase,
+        lastPurchase: row.last_purchase
+      }))
+    });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取门店采购分析失败:', error);
+    res.status(500).json({
+      error: '获取门店采购分析失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 按分类统计库存和采购（项目属于多个分类时在各分类中分别计入，未设置分类的归入「未分类」）
+router.get('/categories', authenticateToken, logOperation('查看', '分类统计'), async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate, reportCurrency, dateField } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
+    const field = resolveReceiptDateField(dateField);
+    const dateColumn = `r.${field}`;
+
+    let whereClause = "r.status = 'approved'";
+    const params: any[] = [];
+
+    if (startDate) {
+      whereClause += ` AND ${dateColumn} >= ?`;
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ` AND ${dateColumn} <= ?`;
+      params.push(endDate);
+    }
+
+    const stock = await connectionPool.query(`
+      SELECT
+        ic.category_id,
+        COUNT(i.id) as item_count,
+        COALESCE(SUM(i.current_stock), 0) as total_stock,
+        COALESCE(SUM(i.current_stock * ${CostingService.getInstance().getUnitCostExpression()}), 0) as stock_value
+      FROM inventory i
+      LEFT JOIN inventory_categories ic ON ic.inventory_id = i.id
+      GROUP BY ic.category_id
+    `);
+
+    const purchases = await connectionPool.query(`
+      SELECT
+        ic.category_id,
+        COUNT(DISTINCT r.id) as receipt_count,
+        SUM(ri.quantity) as purchased_quantity,
+        SUM(ri.total_price * r.exchange_rate) as total_spent
+      FROM receipt_items ri
+      JOIN receipts r ON ri.receipt_id = r.id
+      LEFT JOIN inventory i ON i.product_id = ri.product_id
+      LEFT JOIN inventory_categories ic ON ic.inventory_id = i.id
+      WHERE ${whereClause}
+      GROUP BY ic.category_id
+    `, params);
+
+    const categories = await connectionPool.query('SELECT id, name, color FROM categories ORDER BY id');
+    const stockByCategory = new Map(stock.map(row => [row.category_id, row]));
+    const purchasesByCategory = new Map(purchases.map(row => [row.category_id, row]));
+
+    const breakdown = [...categories, { id: null, name: '未分类', color: null }].map(category => {
+      const stockRow = stockByCategory.get(category.id) || {};
+      const purchaseRow = purchasesByCategory.get(category.id) || {};
+      return {
+        categoryId: category.id,
+        categoryName: category.name,
+        color: category.color,
+        itemCount: stockRow.item_count || 0,
+        totalStock: stockRow.total_stock || 0,
+        stockValue: report.convert(stockRow.stock_value || 0),
+        receiptCount: purchaseRow.receipt_count || 0,
+        purchasedQuantity: purchaseRow.purchased_quantity || 0,
+        totalSpent: report.convert(purchaseRow.total_spent || 0)
+      };
+    });
+
+    res.json({
+      reportCurrency: report.currency,
+      dateField: field,
+      categories: breakdown
+        .filter(row => row.categoryId !== null || row.itemCount > 0 || row.receiptCount > 0)
+        .sort((a, b) => b.totalSpent - a.totalSpent || b.stockValue - a.stockValue)
+    });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取分类统计失败:', error);
+    res.status(500).json({
+      error: '获取分类统计失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 销售明细及其采购成本：订单项目关联了采购收据项目时使用该项目的到岸单价，否则使用出库时记录的库存成本
+const SALE_LINES_SQL = `
+  SELECT
+    si.id,
+    si.sale_id,
+    si.inventory_id,
+    si.item_name,
+    si.quantity,
+    si.total_price as revenue,
+    si.quantity * COALESCE(
+      (SELECT ri.unit_price * r.exchange_rate + COALESCE(ri.landed_cost, 0) / ri.quantity
+       FROM customer_order_items coi
+       JOIN receipt_items ri ON coi.receipt_item_id = ri.id
+       JOIN receipts r ON ri.receipt_id = r.id
+       WHERE coi.id = si.order_item_id AND ri.quantity > 0),
+      si.unit_cost,
+      0
+    ) as cost,
+    (SELECT r.store_id
+     FROM customer_order_items coi
+     JOIN receipt_items ri ON coi.receipt_item_id = ri.id
+     JOIN receipts r ON ri.receipt_id = r.id
+     WHERE coi.id = si.order_item_id) as store_id,
+    s.customer_id,
+    s.order_id,
+    s.created_at as sold_at
+  FROM sale_items si
+  JOIN sales s ON si.sale_id = s.id
+`;
+
+/**
+ * 计算毛利、毛利率和加价率
+ */
+function profitMetrics(revenue: number, cost: number) {
+  const grossProfit = revenue - cost;
+  return {
+    revenue,
+    cost,
+    grossProfit,
+    marginPercent: revenue > 0 ? parseFloat((grossProfit / revenue * 100).toFixed(2)) : 0,
+    markupPercent: cost > 0 ? parseFloat((grossProfit / cost * 100).toFixed(2)) : 0
+  };
+}
+
+// 获取毛利分析（按商品、客户、订单、门店或时间段分组）
+router.get('/profit', authenticateToken, logOperation('查看', '毛利分析'), async (req: AuthRequest, res) => {
+  try {
+    const { groupBy = 'item', period = 'month', startDate, endDate, customerId, limit = 50, reportCurrency } = req.query;
+    const report = await exchangeRateService.getReportConverter(reportCurrency as string);
+
+    let groupExpression: string;
+    let labelExpression: string;
+    let joinClause = '';
+
+    switch (groupBy) {
+      case 'item':
+        groupExpression = 'sl.item_name';
+        labelExpression = 'sl.item_name';
+        break;
+      case 'customer':
+        groupExpression = 'sl.customer_id';
+        labelExpression = "COALESCE(c.name, '散客')";
+        joinClause = 'LEFT JOIN customers c ON sl.customer_id = c.id';
+        break;
+      case 'order':
+        groupExpression = 'sl.order_id';
+        labelExpression = "COALESCE('订单#' || sl.order_id, '非订单销售')";
+        break;
+      case 'store':
+        groupExpression = 'sl.store_id';
+        labelExpression = "COALESCE(st.name, '未关联门店')";
+        joinClause = 'LEFT JOIN stores st ON sl.store_id = st.id';
+        break;
+      case 'period': {
+        const formats: Record<string, string> = { day: '%Y-%m-%d', week: '%Y-W%W', month: '%Y-%m', year: '%Y' };
+        groupExpression = `strftime('${formats[period as string] || formats.month}', sl.sold_at)`;
+        labelExpression = groupExpression;
+        break;
+      }
+      default:
+        return res.status(400).json({ error: '无效的分组方式，可选值: item, customer, order, store, period' });
+    }
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (startDate) {
+      whereClause += ' AND sl.sold_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND sl.sold_at <= ?';
+      params.push(endDate);
+    }
+
+    if (customerId) {
+      whereClause += ' AND sl.customer_id = ?';
+      params.push(customerId);
+    }
+
+    const groups = await connectionPool.query(`
+      SELECT
+        ${groupExpression} as group_key,
+        ${labelExpression} as label,
+        COUNT(DISTINCT sl.sale_id) as sale_count,
+        SUM(sl.quantity) as total_quantity,
+        SUM(sl.revenue) as revenue,
+        SUM(sl.cost) as cost
+      FROM (${SALE_LINES_SQL}) sl
+      ${joinClause}
+      WHERE ${whereClause}
+      GROUP BY ${groupExpression}
+      ORDER BY ${groupBy === 'period' ? 'group_key ASC' : 'SUM(sl.revenue) - SUM(sl.cost) DESC'}
+      LIMIT ?
+    `, [...params, Number(limit)]);
+
+    const [totals] = await connectionPool.query(`
+      SELECT SUM(sl.revenue) as revenue, SUM(sl.cost) as cost, SUM(sl.quantity) as total_quantity
+      FROM (${SALE_LINES_SQL}) sl
+      WHERE ${whereClause}
+    `, params);
+
+    res.json({
+      reportCurrency: report.currency,
+      groupBy,
+      summary: {
+        totalQuantity: totals.total_quantity || 0,
+        ...profitMetrics(report.convert(totals.revenue), report.convert(totals.cost))
+      },
+      groups: groups.map(row => ({
+        key: row.group_key,
+        label: row.label,
+        saleCount: row.sale_count,
+        totalQuantity: row.total_quantity,
+        ...profitMetrics(report.convert(row.revenue), report.convert(row.cost))
+      }))
+    });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取毛利分析失败:', error);
+    res.status(500).json({
+      error: '获取毛利分析失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
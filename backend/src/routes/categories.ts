@@ -0,0 +1,86 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { CategoryService } from '../services/categoryService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const categoryService = CategoryService.getInstance();
+
+// 获取分类列表（含关联的库存项目数量）
+router.get('/list', authenticateToken, logOperation('查看', '库存分类'), async (req: AuthRequest, res) => {
+  try {
+    const categories = await categoryService.list('category');
+    res.json({ categories, required: categoryService.isRequired('category') });
+  } catch (error) {
+    console.error('获取分类列表失败:', error);
+    res.status(500).json({
+      error: '获取分类列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 添加分类 (仅管理员)
+router.post('/add', authenticateToken, requireAdmin, logOperation('添加', '库存分类'), async (req: AuthRequest, res) => {
+  const { name, description, color } = req.body;
+
+  try {
+    const id = await connectionPool.transaction(tx => categoryService.create(tx, 'category', { name, description, color }));
+    res.status(201).json({ message: '分类添加成功', id });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('添加分类失败:', error);
+    res.status(500).json({ error: '添加分类失败' });
+  }
+});
+
+// 更新分类 (仅管理员)
+router.put('/:id', authenticateToken, requireAdmin, logOperation('更新', '库存分类'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, description, color } = req.body;
+
+  try {
+    const updated = await connectionPool.transaction(tx =>
+      categoryService.update(tx, 'category', Number(id), { name, description, color })
+    );
+
+    if (!updated) {
+      return res.status(404).json({ error: '分类不存在' });
+    }
+
+    res.json({ message: '分类更新成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新分类失败:', error);
+    res.status(500).json({ error: '更新分类失败' });
+  }
+});
+
+// 删除分类及其与库存项目的关联 (仅管理员)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '库存分类'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const unlinked = await connectionPool.transaction(tx => categoryService.remove(tx, 'category', Number(id)));
+
+    if (unlinked === null) {
+      return res.status(404).json({ error: '分类不存在' });
+    }
+
+    res.json({ message: '分类删除成功', unlinkedItems: unlinked });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('删除分类失败:', error);
+    res.status(500).json({ error: '删除分类失败' });
+  }
+});
+
+export default router;
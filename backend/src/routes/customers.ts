@@ -0,0 +1,159 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+
+const router = express.Router();
+
+// 获取客户列表
+router.get('/list', authenticateToken, logOperation('查看', '客户列表'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, search } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (c.name LIKE ? OR c.phone LIKE ? OR c.wechat LIKE ?)';
+      params.push(`%${search}%`, `%${search}%`, `%${search}%`);
+    }
+
+    const customers = await connectionPool.query(`
+      SELECT
+        c.*,
+        COUNT(o.id) as order_count,
+        SUM(o.total_amount) as total_order_amount,
+        MAX(o.created_at) as last_order_at
+      FROM customers c
+      LEFT JOIN customer_orders o ON o.customer_id = c.id AND o.status != 'cancelled'
+      WHERE ${whereClause}
+      GROUP BY c.id
+      ORDER BY c.created_at DESC
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM customers c WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      customers,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取客户列表失败:', error);
+    res.status(500).json({
+      error: '获取客户列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 添加客户
+router.post('/add', authenticateToken, logOperation('添加', '客户'), async (req: AuthRequest, res) => {
+  const { name, phone, wechat, address, notes } = req.body;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: '客户名称不能为空' });
+  }
+
+  try {
+    const result = await connectionPool.run(
+      'INSERT INTO customers (name, phone, wechat, address, notes) VALUES (?, ?, ?, ?, ?)',
+      [name.trim(), phone, wechat, address, notes]
+    );
+
+    res.status(201).json({
+      message: '客户添加成功',
+      id: result.lastID
+    });
+  } catch (error) {
+    console.error('添加客户失败:', error);
+    res.status(500).json({ error: '添加客户失败' });
+  }
+});
+
+// 获取客户详情（包含订单记录）
+router.get('/:id', authenticateToken, logOperation('查看', '客户详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const customers = await connectionPool.query('SELECT * FROM customers WHERE id = ?', [id]);
+
+    if (customers.length === 0) {
+      return res.status(404).json({ error: '客户不存在' });
+    }
+
+    const orders = await connectionPool.query(`
+      SELECT id, status, total_amount, notes, created_at, updated_at
+      FROM customer_orders
+      WHERE customer_id = ?
+      ORDER BY created_at DESC
+    `, [id]);
+
+    res.json({ ...customers[0], orders });
+  } catch (error) {
+    console.error('获取客户详情失败:', error);
+    res.status(500).json({ error: '获取客户详情失败' });
+  }
+});
+
+// 更新客户
+router.put('/:id', authenticateToken, logOperation('更新', '客户'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, phone, wechat, address, notes } = req.body;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: '客户名称不能为空' });
+  }
+
+  try {
+    const result = await connectionPool.run(
+      'UPDATE customers SET name = ?, phone = ?, wechat = ?, address = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [name.trim(), phone, wechat, address, notes, id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: '客户不存在' });
+    }
+
+    res.json({ message: '客户更新成功' });
+  } catch (error) {
+    console.error('更新客户失败:', error);
+    res.status(500).json({ error: '更新客户失败' });
+  }
+});
+
+// 删除客户 (仅管理员，存在订单时不允许删除)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '客户'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const [{ order_count }] = await connectionPool.query(
+      'SELECT COUNT(*) as order_count FROM customer_orders WHERE customer_id = ?',
+      [id]
+    );
+
+    if (order_count > 0) {
+      return res.status(400).json({ error: '该客户存在订单记录，无法删除' });
+    }
+
+    const result = await connectionPool.run('DELETE FROM customers WHERE id = ?', [id]);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: '客户不存在' });
+    }
+
+    res.json({ message: '客户删除成功' });
+  } catch (error) {
+    console.error('删除客户失败:', error);
+    res.status(500).json({ error: '删除客户失败' });
+  }
+});
+
+export default router;
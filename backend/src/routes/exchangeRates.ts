@@ -0,0 +1,140 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { ExchangeRateService, BASE_CURRENCY } from '../services/exchangeRateService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const exchangeRateService = ExchangeRateService.getInstance();
+
+// 获取汇率列表
+router.get('/list', authenticateToken, logOperation('查看', '汇率列表'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 50, currency, source } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (currency) {
+      whereClause += ' AND er.currency = ?';
+      params.push((currency as string).toUpperCase());
+    }
+
+    if (source) {
+      whereClause += ' AND er.source = ?';
+      params.push(source);
+    }
+
+    const rates = await connectionPool.query(`
+      SELECT er.*, u.username as created_by_username
+      FROM exchange_rates er
+      LEFT JOIN users u ON er.created_by = u.id
+      WHERE ${whereClause}
+      ORDER BY er.rate_date DESC, er.currency
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM exchange_rates er WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      baseCurrency: BASE_CURRENCY,
+      rates,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取汇率列表失败:', error);
+    res.status(500).json({
+      error: '获取汇率列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 获取各币种最新汇率
+router.get('/latest', authenticateToken, logOperation('查看', '最新汇率'), async (req: AuthRequest, res) => {
+  try {
+    const rates = await connectionPool.query(`
+      SELECT er.currency, er.rate, er.rate_date, er.source
+      FROM exchange_rates er
+      WHERE er.rate_date = (
+        SELECT MAX(latest.rate_date) FROM exchange_rates latest WHERE latest.currency = er.currency
+      )
+      ORDER BY er.currency
+    `);
+
+    res.json({ baseCurrency: BASE_CURRENCY, rates });
+  } catch (error) {
+    console.error('获取最新汇率失败:', error);
+    res.status(500).json({ error: '获取最新汇率失败' });
+  }
+});
+
+// 手工录入汇率 (仅管理员)
+router.post('/add', authenticateToken, requireAdmin, logOperation('录入', '汇率'), async (req: AuthRequest, res) => {
+  const { currency, rate, rateDate } = req.body;
+
+  if (!currency || rate === undefined) {
+    return res.status(400).json({ error: '请提供币种和汇率' });
+  }
+
+  try {
+    await exchangeRateService.saveRates([{ currency, rate, rateDate }], 'manual', req.user!.id);
+    res.status(201).json({ message: '汇率保存成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('保存汇率失败:', error);
+    res.status(500).json({ error: '保存汇率失败' });
+  }
+});
+
+// 批量导入汇率 (仅管理员)，任一条无效时整批不导入
+router.post('/import', authenticateToken, requireAdmin, logOperation('导入', '汇率'), async (req: AuthRequest, res) => {
+  const { rates } = req.body;
+
+  if (!Array.isArray(rates) || rates.length === 0) {
+    return res.status(400).json({ error: '导入的汇率不能为空' });
+  }
+
+  try {
+    const imported = await exchangeRateService.saveRates(
+      rates.map((item: any) => ({ currency: item.currency, rate: item.rate, rateDate: item.rateDate })),
+      'import',
+      req.user!.id
+    );
+    res.json({ message: '汇率导入成功', imported });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('导入汇率失败:', error);
+    res.status(500).json({ error: '导入汇率失败' });
+  }
+});
+
+// 删除汇率 (仅管理员)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '汇率'), async (req: AuthRequest, res) => {
+  try {
+    const result = await connectionPool.run('DELETE FROM exchange_rates WHERE id = ?', [req.params.id]);
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: '汇率不存在' });
+    }
+
+    res.json({ message: '汇率删除成功' });
+  } catch (error) {
+    console.error('删除汇率失败:', error);
+    res.status(500).json({ error: '删除汇率失败' });
+  }
+});
+
+export default router;
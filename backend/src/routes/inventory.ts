@@ -3,20 +3,41 @@ import { getDatabase, connectionPool } from '../database/init';
 import { queryOptimizer } from '../database/queryOptimizer';
 import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
 import { logOperation } from '../middleware/logger';
+import { InventoryService } from '../services/inventoryService';
+import { LocationService } from '../services/locationService';
+import { BatchService } from '../services/batchService';
+import { CostingService } from '../services/costingService';
+import { ProductService } from '../services/productService';
+import { CategoryService } from '../services/categoryService';
+import { ImportService, OPENING_STOCK_COLUMNS } from '../services/importService';
+import { SpreadsheetService, MONEY_FORMAT, XLSX_CONTENT_TYPE } from '../services/spreadsheetService';
+import { spreadsheetUpload } from '../middleware/spreadsheetUpload';
+import { BusinessError } from '../utils/businessError';
+import { getGlobalLowStockThreshold } from '../config/inventory';
 
 const router = express.Router();
+const inventoryService = InventoryService.getInstance();
+const productService = ProductService.getInstance();
+const categoryService = CategoryService.getInstance();
+const importService = ImportService.getInstance();
+const spreadsheetService = SpreadsheetService.getInstance();
+const batchService = BatchService.getInstance();
+const costingService = CostingService.getInstance();
 
 // 获取库存列表 - 使用优化查询
 router.get('/list', authenticateToken, logOperation('查看', '库存列表'), async (req: AuthRequest, res) => {
   try {
-    const { page = 1, limit = 20, search, lowStock } = req.query;
+    const { page = 1, limit = 20, search, lowStock, categoryId, tagId, locationId } = req.query;
     
     const result = await queryOptimizer.getInventoryOptimized({
       page: Number(page),
       limit: Number(limit),
       search: search as string,
+      categoryId: categoryId as string,
+      tagId: tagId as string,
+      locationId: locationId as string,
       lowStockOnly: lowStock === 'true',
-      stockThreshold: 10
+      stockThreshold: getGlobalLowStockThreshold()
     });
     
     res.json({
@@ -35,25 +56,159 @@ router.get('/list', authenticateToken, logOperation('查看', '库存列表'), a
   }
 });
 
+// 导出库存 XLSX（库存明细、库存统计、低库存三个工作表），支持与列表相同的筛选条件
+router.get('/export/xlsx', authenticateToken, logOperation('导出', '库存XLSX'), async (req: AuthRequest, res) => {
+  try {
+    const { search, categoryId, tagId } = req.query;
+    const threshold = getGlobalLowStockThreshold();
+
+    const { inventory } = await queryOptimizer.getInventoryOptimized({
+      page: 1,
+      limit: -1, // SQLite 中 LIMIT -1 表示不限制条数
+      search: search as string,
+      categoryId: categoryId as string,
+      tagId: tagId as string,
+      stockThreshold: threshold
+    });
+
+    const rows = inventory.map(item => ({
+      ...item,
+      category_names: item.categories.map((c: any) => c.name).join('、'),
+      tag_names: item.tags.map((t: any) => t.name).join('、'),
+      effective_threshold: inventoryService.getEffectiveThreshold(item.low_stock_threshold)
+    }));
+    const sum = (key: string) => rows.reduce((total, row) => total + (Number(row[key]) || 0), 0);
+
+    const buffer = await spreadsheetService.buildWorkbook([
+      {
+        name: '库存',
+        columns: [
+          { header: 'ID', key: 'id', width: 8, numFmt: '0' },
+          { header: '商品名称', key: 'item_name', width: 32 },
+          { header: 'SKU', key: 'sku' },
+          { header: '条码', key: 'barcode', width: 16 },
+          { header: '品牌', key: 'brand' },
+          { header: '规格', key: 'spec' },
+          { header: '分类', key: 'category_names', width: 20 },
+          { header: '标签', key: 'tag_names', width: 20 },
+          { header: '库存数量', key: 'current_stock', numFmt: '0' },
+          { header: '单价', key: 'unit_price', numFmt: MONEY_FORMAT },
+          { header: '到岸单位成本', key: 'landed_unit_cost', numFmt: MONEY_FORMAT },
+          { header: '库存价值', key: 'total_value', numFmt: MONEY_FORMAT },
+          { header: '低库存阈值', key: 'effective_threshold', numFmt: '0' },
+          { header: '最后更新', key: 'last_updated', width: 20 }
+        ],
+        rows
+      },
+      {
+        name: '库存统计',
+        columns: [
+          { header: '指标', key: 'metric', width: 20 },
+          { header: '数值', key: 'value', numFmt: '#,##0.##' }
+        ],
+        rows: [
+          { metric: '商品数', value: rows.length },
+          { metric: '库存总数量', value: sum('current_stock') },
+          { metric: '库存总价值', value: sum('total_value') },
+          { metric: '低库存商品数', value: rows.filter(row => row.is_low_stock).length },
+          { metric: '缺货商品数', value: rows.filter(row => row.current_stock === 0).length }
+        ]
+      },
+      {
+        name: '低库存',
+        columns: [
+          { header: 'ID', key: 'id', width: 8, numFmt: '0' },
+          { header: '商品名称', key: 'item_name', width: 32 },
+          { header: '库存数量', key: 'current_stock', numFmt: '0' },
+          { header: '低库存阈值', key: 'effective_threshold', numFmt: '0' },
+          { header: '单价', key: 'unit_price', numFmt: MONEY_FORMAT }
+        ],
+        rows: rows.filter(row => row.is_low_stock)
+      }
+    ]);
+
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="inventory_${new Date().toISOString().split('T')[0]}.xlsx"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('导出库存失败:', error);
+    res.status(500).json({ error: '导出库存失败' });
+  }
+});
+
+// 导入期初库存 (仅管理员)，任一行校验失败时不导入，返回逐行错误报告
+router.post('/import', authenticateToken, requireAdmin, logOperation('导入', '期初库存'), spreadsheetUpload.single('file'), async (req: AuthRequest, res) => {
+  const format = req.file && spreadsheetService.detectFormat(req.file.originalname, req.file.mimetype);
+  if (!req.file || !format) {
+    return res.status(400).json({ error: '请上传 XLSX 或 CSV 文件' });
+  }
+
+  try {
+    const rows = await spreadsheetService.readRows(req.file.buffer, format, OPENING_STOCK_COLUMNS);
+    const result = await importService.importOpeningStock(rows, {
+      userId: req.user!.id,
+      dryRun: req.query.dryRun === 'true'
+    });
+
+    if (result.errors.length > 0) {
+      if (req.query.errorReport === 'xlsx') {
+        res.status(400);
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename="opening_stock_errors.xlsx"');
+        return res.send(await spreadsheetService.buildErrorReport(result.errors));
+      }
+      return res.status(400).json({ error: '导入数据校验未通过，未导入任何数据', ...result });
+    }
+
+    res.json({ message: result.dryRun ? '校验通过，未写入数据' : '期初库存导入成功', ...result });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('导入期初库存失败:', error);
+    res.status(500).json({ error: '导入期初库存失败' });
+  }
+});
+
 // 添加库存项目 (仅管理员)
 router.post('/add', authenticateToken, requireAdmin, logOperation('添加', '库存项目'), async (req: AuthRequest, res) => {
-  const { item_name, current_stock, unit_price } = req.body;
+  const { item_name, current_stock, unit_price, product_id, category_ids, tag_ids, location_id } = req.body;
   
-  if (!item_name || current_stock < 0 || unit_price < 0) {
+  if ((!item_name && !product_id) || current_stock < 0 || unit_price < 0) {
     return res.status(400).json({ error: '请提供有效的商品信息' });
   }
   
   try {
-    const result = await connectionPool.run(
-      'INSERT INTO inventory (item_name, current_stock, unit_price) VALUES (?, ?, ?)',
-      [item_name.trim(), current_stock, unit_price]
-    );
+    const inventoryId = await connectionPool.transaction(async (tx) => {
+      // 库存项目关联到商品目录，名称或别名未登记时自动登记新商品
+      const product = await productService.resolveProduct(tx, item_name, product_id);
+      const result = await tx.run(
+        'INSERT INTO inventory (item_name, current_stock, unit_price, product_id) VALUES (?, ?, ?, ?)',
+        [product.name, current_stock, unit_price, product.productId]
+      );
+
+      // 记录期初库存流水，期初库存计入指定位置（未指定时为默认位置）
+      await inventoryService.recordInitialStock(tx, result.lastID, {
+        userId: req.user!.id,
+        unitPrice: unit_price,
+        locationId: location_id
+      });
+
+      // 配置要求必须设置分类或标签时，未提供则拒绝添加
+      await categoryService.setItemLabels(tx, 'category', result.lastID, category_ids);
+      await categoryService.setItemLabels(tx, 'tag', result.lastID, tag_ids);
+
+      return result.lastID;
+    });
     
     res.status(201).json({ 
       message: '库存添加成功', 
-      id: result.lastID 
+      id: inventoryId 
     });
   } catch (error: any) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     if (error.message.includes('UNIQUE constraint failed')) {
       return res.status(400).json({ error: '商品名称已存在' });
     }
@@ -66,19 +221,41 @@ router.post('/add', authenticateToken, requireAdmin, logOperation('添加', '库
 router.put('/:id', authenticateToken, requireAdmin, logOperation('更新', '库存'), async (req: AuthRequest, res) => {
   const { id } = req.params;
   const { current_stock, unit_price } = req.body;
+
+  if (!Number.isInteger(Number(current_stock)) || Number(current_stock) < 0) {
+    return res.status(400).json({ error: '请提供有效的库存数量' });
+  }
   
   try {
-    const result = await connectionPool.run(
-      'UPDATE inventory SET current_stock = ?, unit_price = ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
-      [current_stock, unit_price, id]
-    );
+    const updated = await connectionPool.transaction(async (tx) => {
+      const result = await tx.run(
+        'UPDATE inventory SET unit_price = ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
+        [unit_price, id]
+      );
+
+      if (result.changes === 0) {
+        return false;
+      }
+
+      // 按差额调整库存并记录流水
+      await inventoryService.setStock(tx, Number(id), Number(current_stock), {
+        source: 'manual_update',
+        userId: req.user!.id,
+        unitPrice: unit_price
+      });
+
+      return true;
+    });
     
-    if (result.changes === 0) {
+    if (!updated) {
       return res.status(404).json({ error: '库存项目不存在' });
     }
     
     res.json({ message: '库存更新成功' });
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('更新库存失败:', error);
     res.status(500).json({ error: '更新库存失败' });
   }
@@ -89,9 +266,19 @@ router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '
   const { id } = req.params;
   
   try {
-    const result = await connectionPool.run('DELETE FROM inventory WHERE id = ?', [id]);
+    const deleted = await connectionPool.transaction(async (tx) => {
+      const result = await tx.run('DELETE FROM inventory WHERE id = ?', [id]);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await categoryService.removeItemLinks(tx, Number(id));
+      await batchService.removeItemBatches(tx, Number(id));
+      await tx.run('DELETE FROM inventory_locations WHERE inventory_id = ?', [id]);
+      return true;
+    });
     
-    if (result.changes === 0) {
+    if (!deleted) {
       return res.status(404).json({ error: '库存项目不存在' });
     }
     
@@ -102,6 +289,66 @@ router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '
   }
 });
 
+// 设置库存项目的分类（整体替换）
+router.put('/:id/categories', authenticateToken, requireAdmin, logOperation('设置', '库存分类'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { category_ids = [] } = req.body;
+
+  try {
+    const updated = await connectionPool.transaction(async (tx) => {
+      const item = await tx.get('SELECT id FROM inventory WHERE id = ?', [id]);
+      if (!item) {
+        return false;
+      }
+
+      await categoryService.setItemLabels(tx, 'category', item.id, category_ids);
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: '库存项目不存在' });
+    }
+
+    res.json({ message: '库存分类设置成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('设置库存分类失败:', error);
+    res.status(500).json({ error: '设置库存分类失败' });
+  }
+});
+
+// 设置库存项目的标签（整体替换）
+router.put('/:id/tags', authenticateToken, requireAdmin, logOperation('设置', '库存标签'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { tag_ids = [] } = req.body;
+
+  try {
+    const updated = await connectionPool.transaction(async (tx) => {
+      const item = await tx.get('SELECT id FROM inventory WHERE id = ?', [id]);
+      if (!item) {
+        return false;
+      }
+
+      await categoryService.setItemLabels(tx, 'tag', item.id, tag_ids);
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: '库存项目不存在' });
+    }
+
+    res.json({ message: '库存标签设置成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('设置库存标签失败:', error);
+    res.status(500).json({ error: '设置库存标签失败' });
+  }
+});
+
 // 批量更新库存 (仅管理员)
 router.post('/batch-update', authenticateToken, requireAdmin, logOperation('批量更新', '库存'), async (req: AuthRequest, res) => {
   const { updates } = req.body;
@@ -110,75 +357,294 @@ router.post('/batch-update', authenticateToken, requireAdmin, logOperation('批
     return res.status(400).json({ error: '请提供有效的更新数据' });
   }
   
-  const db = await connectionPool.acquire();
+  const invalid = updates.find((update: any) =>
+    !update.id || !Number.isInteger(Number(update.current_stock)) || Number(update.current_stock) < 0
+  );
+  if (invalid) {
+    return res.status(400).json({ error: '请提供有效的更新数据' });
+  }
   
   try {
-    // 开始事务
-    await new Promise<void>((resolve, reject) => {
-      db.run('BEGIN TRANSACTION', (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
-    
-    // 批量更新
-    for (const update of updates) {
-      await new Promise<void>((resolve, reject) => {
-        db.run(
-          'UPDATE inventory SET current_stock = ?, unit_price = ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
-          [update.current_stock, update.unit_price, update.id],
-          (err) => {
-            if (err) reject(err);
-            else resolve();
-          }
+    await connectionPool.transaction(async (tx) => {
+      // 批量更新，每个库存变化都记录流水
+      for (const update of updates) {
+        await tx.run(
+          'UPDATE inventory SET unit_price = ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
+          [update.unit_price, update.id]
         );
-      });
-    }
-    
-    // 提交事务
-    await new Promise<void>((resolve, reject) => {
-      db.run('COMMIT', (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+
+        await inventoryService.setStock(tx, Number(update.id), Number(update.current_stock), {
+          source: 'batch_update',
+          userId: req.user!.id,
+          unitPrice: update.unit_price
+        });
+      }
     });
     
-    connectionPool.release(db);
     res.json({ message: '批量更新成功' });
   } catch (error) {
-    // 回滚事务
-    await new Promise<void>((resolve) => {
-      db.run('ROLLBACK', () => resolve());
-    });
-    
-    connectionPool.release(db);
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('批量更新失败:', error);
     res.status(500).json({ error: '批量更新失败' });
   }
 });
 
-// 获取库存统计
+// 库存变动分析（按商品汇总指定天数内的入库、出库数量）
+router.get('/movement-analysis', authenticateToken, logOperation('查看', '库存变动分析'), async (req: AuthRequest, res) => {
+  try {
+    const { period = 30, includeInactive } = req.query;
+    const days = Math.max(1, Number(period) || 30);
+
+    res.json(await inventoryService.getMovementAnalysis(days, includeInactive === 'true'));
+  } catch (error) {
+    console.error('获取库存变动分析失败:', error);
+    res.status(500).json({
+      error: '获取库存变动分析失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 截至指定日期（默认今天）的库存估值，method 未指定时使用库存配置的 costing.method
+router.get('/valuation', authenticateToken, logOperation('查看', '库存估值'), async (req: AuthRequest, res) => {
+  try {
+    const asOf = costingService.normalizeDate(req.query.asOf) || new Date().toISOString().slice(0, 10);
+    res.json(await costingService.getValuationAsOf(asOf, costingService.resolveMethod(req.query.method)));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取库存估值失败:', error);
+    res.status(500).json({ error: '获取库存估值失败' });
+  }
+});
+
+// 期间内的销货成本（出库流水的成本金额），按商品和流水来源汇总
+router.get('/cogs', authenticateToken, logOperation('查看', '销货成本'), async (req: AuthRequest, res) => {
+  try {
+    const startDate = costingService.normalizeDate(req.query.startDate);
+    const endDate = costingService.normalizeDate(req.query.endDate);
+    res.json(await costingService.getCostOfGoodsSold(startDate || undefined, endDate || undefined));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取销货成本失败:', error);
+    res.status(500).json({ error: '获取销货成本失败' });
+  }
+});
+
+// 临期批次（days 天内到期，含已过期），默认使用库存配置的 batchTracking.expiryAlertDays
+router.get('/batches/expiring', authenticateToken, logOperation('查看', '临期批次'), async (req: AuthRequest, res) => {
+  const days = req.query.days !== undefined ? Number(req.query.days) : batchService.getBatchConfig().expiryAlertDays;
+  if (!Number.isInteger(days) || days < 0) {
+    return res.status(400).json({ error: '天数必须是非负整数' });
+  }
+
+  try {
+    res.json(await batchService.getExpiringBatches(days, Number(req.query.inventoryId) || undefined));
+  } catch (error) {
+    console.error('获取临期批次失败:', error);
+    res.status(500).json({ error: '获取临期批次失败' });
+  }
+});
+
+// 修改批次保质期和批号 (仅管理员)
+router.put('/batches/:batchId', authenticateToken, requireAdmin, logOperation('更新', '库存批次'), async (req: AuthRequest, res) => {
+  const { expiry_date, batch_number } = req.body;
+
+  try {
+    res.json(await batchService.updateBatch(Number(req.params.batchId), { expiryDate: expiry_date, batchNumber: batch_number }));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新库存批次失败:', error);
+    res.status(500).json({ error: '更新库存批次失败' });
+  }
+});
+
+// 获取单个库存项目的批次（按出库顺序排列），includeDepleted=true 时包含已用完的批次
+router.get('/:id/batches', authenticateToken, logOperation('查看', '库存批次'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const inventory = await connectionPool.query('SELECT id, item_name, current_stock FROM inventory WHERE id = ?', [id]);
+    if (inventory.length === 0) {
+      return res.status(404).json({ error: '库存项目不存在' });
+    }
+
+    const batches = await batchService.getItemBatches(Number(id), req.query.includeDepleted === 'true');
+    res.json({ item: inventory[0], strategy: batchService.getBatchConfig().deductionStrategy, batches });
+  } catch (error) {
+    console.error('获取库存批次失败:', error);
+    res.status(500).json({ error: '获取库存批次失败' });
+  }
+});
+
+// 获取单个库存项目的变动流水（含每笔变动后的结存）
+router.get('/:id/movements', authenticateToken, logOperation('查看', '库存流水'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const { page = 1, limit = 50, source, startDate, endDate } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const inventory = await connectionPool.query('SELECT * FROM inventory WHERE id = ?', [id]);
+    if (inventory.length === 0) {
+      return res.status(404).json({ error: '库存项目不存在' });
+    }
+
+    let whereClause = 'm.inventory_id = ?';
+    const params: any[] = [id];
+
+    if (source) {
+      whereClause += ' AND m.source = ?';
+      params.push(source);
+    }
+
+    if (startDate) {
+      whereClause += ' AND m.created_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND m.created_at <= ?';
+      params.push(endDate);
+    }
+
+    // 按时间顺序返回，balance_after 即为该笔变动后的滚动结存
+    const movements = await connectionPool.query(`
+      SELECT m.*, u.username, l.name as location_name
+      FROM inventory_movements m
+      LEFT JOIN users u ON m.user_id = u.id
+      LEFT JOIN locations l ON m.location_id = l.id
+      WHERE ${whereClause}
+      ORDER BY m.created_at ASC, m.id ASC
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM inventory_movements m WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      item: inventory[0],
+      openingBalance: movements.length > 0 ? movements[0].balance_after - movements[0].delta : inventory[0].current_stock,
+      movements,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取库存流水失败:', error);
+    res.status(500).json({
+      error: '获取库存流水失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 获取单个库存项目在各存放位置的数量及在途数量
+router.get('/:id/locations', authenticateToken, logOperation('查看', '库存位置'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const inventory = await connectionPool.query('SELECT id, item_name, current_stock FROM inventory WHERE id = ?', [id]);
+    if (inventory.length === 0) {
+      return res.status(404).json({ error: '库存项目不存在' });
+    }
+
+    const { locations, inTransit } = await LocationService.getInstance().getItemLocations(Number(id));
+    res.json({ item: inventory[0], locations, in_transit: inTransit });
+  } catch (error) {
+    console.error('获取库存位置失败:', error);
+    res.status(500).json({ error: '获取库存位置失败' });
+  }
+});
+
+// 获取库存统计，指定 locationId 时按该位置上的数量统计，库存价值按配置的计价方法计算
 router.get('/stats', authenticateToken, logOperation('查看', '库存统计'), async (req: AuthRequest, res) => {
+  const locationId = req.query.locationId ? Number(req.query.locationId) : null;
+  const costingMethod = costingService.getCostingMethod();
+  const unitCost = costingService.getUnitCostExpression(costingMethod);
+
   try {
+    if (locationId) {
+      const [location] = await connectionPool.query('SELECT id, name FROM locations WHERE id = ?', [locationId]);
+      if (!location) {
+        return res.status(404).json({ error: '存放位置不存在' });
+      }
+
+      const [stats] = await connectionPool.query(`
+        SELECT 
+          COUNT(*) as total_items,
+          COALESCE(SUM(il.quantity), 0) as total_stock,
+          COALESCE(SUM(il.quantity * ${unitCost}), 0) as total_value,
+          COALESCE(SUM(il.quantity * i.unit_price), 0) as total_purchase_value,
+          COUNT(CASE WHEN il.quantity <= COALESCE(i.low_stock_threshold, ?) THEN 1 END) as low_stock_items
+        FROM inventory_locations il
+        JOIN inventory i ON i.id = il.inventory_id
+        WHERE il.location_id = ? AND il.quantity > 0
+      `, [getGlobalLowStockThreshold(), locationId]);
+
+      const recentUpdates = await connectionPool.query(`
+        SELECT i.item_name, il.quantity as current_stock, il.updated_at as last_updated
+        FROM inventory_locations il
+        JOIN inventory i ON i.id = il.inventory_id
+        WHERE il.location_id = ?
+        ORDER BY il.updated_at DESC
+        LIMIT 5
+      `, [locationId]);
+
+      return res.json({ location, ...stats, costing_method: costingMethod, recent_updates: recentUpdates });
+    }
+
     const stats = await connectionPool.query(`
       SELECT 
         COUNT(*) as total_items,
         SUM(current_stock) as total_stock,
-        SUM(current_stock * unit_price) as total_value,
-        COUNT(CASE WHEN current_stock <= 10 THEN 1 END) as low_stock_items,
+        SUM(current_stock * ${unitCost}) as total_value,
+        SUM(current_stock * unit_price) as total_purchase_value,
+        COUNT(CASE WHEN current_stock <= COALESCE(low_stock_threshold, ?) THEN 1 END) as low_stock_items,
         COUNT(CASE WHEN current_stock = 0 THEN 1 END) as out_of_stock_items
-      FROM inventory
+      FROM inventory i
+    `, [getGlobalLowStockThreshold()]);
+
+    // 调拨途中（已发出未接收）的数量，计入总库存但不属于任何位置
+    const [{ in_transit_stock }] = await connectionPool.query(`
+      SELECT COALESCE(SUM(ti.quantity), 0) as in_transit_stock
+      FROM stock_transfer_items ti
+      JOIN stock_transfers t ON t.id = ti.transfer_id
+      WHERE t.status = 'in_transit'
     `);
     
     const recentUpdates = await connectionPool.query(`
-      SELECT item_name, current_stock, last_updated 
-      FROM inventory 
-      ORDER BY last_updated DESC 
+      SELECT item_name, current_stock, last_updated
+      FROM inventory
+      ORDER BY last_updated DESC
       LIMIT 5
     `);
-    
+
+    // 累计采购入库（仅已审核通过的收据）与销售出库数量；current_stock 还包含期初、盘点和手工调整，不等于二者之差
+    const flow = await connectionPool.query(`
+      SELECT
+        (SELECT COALESCE(SUM(ri.quantity), 0) FROM receipt_items ri
+         JOIN receipts r ON r.id = ri.receipt_id
+         WHERE r.status = 'approved') as total_purchased,
+        (SELECT COALESCE(SUM(quantity), 0) FROM sale_items) as total_sold,
+        (SELECT COALESCE(SUM(total_price), 0) FROM sale_items) as total_sales_amount
+    `);
+
     res.json({
       ...(stats[0] || {}),
+      ...(flow[0] || {}),
+      costing_method: costingMethod,
+      in_transit_stock,
       recent_updates: recentUpdates
     });
   } catch (error) {
@@ -187,18 +653,50 @@ router.get('/stats', authenticateToken, logOperation('查看', '库存统计'),
   }
 });
 
-// 设置库存阈值 (仅管理员)
-router.post('/set-threshold', authenticateToken, requireAdmin, logOperation('设置', '库存阈值'), (req: AuthRequest, res) => {
+// 获取低库存商品列表（按商品自定义阈值，未设置时使用全局阈值）
+router.get('/low-stock', authenticateToken, logOperation('查看', '低库存商品'), async (req: AuthRequest, res) => {
+  try {
+    const items = await inventoryService.getLowStockItems();
+
+    res.json({
+      items,
+      total: items.length,
+      globalThreshold: getGlobalLowStockThreshold()
+    });
+  } catch (error) {
+    console.error('获取低库存商品失败:', error);
+    res.status(500).json({
+      error: '获取低库存商品失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 设置库存阈值 (仅管理员)，threshold 为 null 时恢复使用全局阈值
+router.post('/set-threshold', authenticateToken, requireAdmin, logOperation('设置', '库存阈值'), async (req: AuthRequest, res) => {
   const { item_id, threshold } = req.body;
+  const clearThreshold = threshold === null;
   
-  if (!item_id || threshold < 0) {
+  if (!item_id || (!clearThreshold && (!Number.isInteger(Number(threshold)) || Number(threshold) < 0))) {
     return res.status(400).json({ error: '请提供有效的阈值设置' });
   }
   
-  // 这里可以扩展数据库表结构来支持每个商品的自定义阈值
-  // 目前使用固定阈值10，将来可以添加threshold字段到inventory表
-  
-  res.json({ message: '阈值设置功能将在后续版本中实现' });
+  try {
+    await inventoryService.setLowStockThreshold(Number(item_id), clearThreshold ? null : Number(threshold));
+
+    res.json({
+      message: '阈值设置成功',
+      item_id: Number(item_id),
+      threshold: clearThreshold ? null : Number(threshold),
+      effective_threshold: inventoryService.getEffectiveThreshold(clearThreshold ? null : Number(threshold))
+    });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('设置库存阈值失败:', error);
+    res.status(500).json({ error: '设置库存阈值失败' });
+  }
 });
 
 export default router;
\ No newline at end of file
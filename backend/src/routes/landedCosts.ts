@@ -0,0 +1,128 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { LandedCostService } from '../services/landedCostService';
+import { ExchangeRateService } from '../services/exchangeRateService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const landedCostService = LandedCostService.getInstance();
+const exchangeRateService = ExchangeRateService.getInstance();
+
+// 获取附加成本列表
+router.get('/list', authenticateToken, logOperation('查看', '附加成本'), async (req: AuthRequest, res) => {
+  try {
+    const { receiptId, shipmentId } = req.query;
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (receiptId) {
+      whereClause += ' AND lc.receipt_id = ?';
+      params.push(receiptId);
+    }
+
+    if (shipmentId) {
+      whereClause += ' AND lc.shipment_id = ?';
+      params.push(shipmentId);
+    }
+
+    const costs = await connectionPool.query(`
+      SELECT lc.*, lc.amount * lc.exchange_rate as base_amount, u.username as created_by_username
+      FROM landed_costs lc
+      LEFT JOIN users u ON lc.created_by = u.id
+      WHERE ${whereClause}
+      ORDER BY lc.created_at DESC, lc.id DESC
+    `, params);
+
+    res.json({ costs });
+  } catch (error) {
+    console.error('获取附加成本失败:', error);
+    res.status(500).json({
+      error: '获取附加成本失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 添加附加成本，并重新分摊到收据项目
+router.post('/add', authenticateToken, logOperation('添加', '附加成本'), async (req: AuthRequest, res) => {
+  const { receiptId, shipmentId, costType, amount, currency, allocationMethod = 'value', description } = req.body;
+
+  if (!receiptId === !shipmentId) {
+    return res.status(400).json({ error: '请指定收据或发货批次之一' });
+  }
+
+  try {
+    landedCostService.validateCost({ costType, amount, allocationMethod });
+
+    const costId = await connectionPool.transaction(async (tx) => {
+      const target = receiptId
+        ? await tx.get('SELECT id FROM receipts WHERE id = ?', [receiptId])
+        : await tx.get('SELECT id FROM shipments WHERE id = ?', [shipmentId]);
+      if (!target) {
+        throw new BusinessError(receiptId ? '收据不存在' : '发货批次不存在', 404);
+      }
+
+      const costCurrency = exchangeRateService.normalizeCurrency(currency);
+      const exchangeRate = await exchangeRateService.getRate(costCurrency, undefined, tx);
+
+      const result = await tx.run(
+        `INSERT INTO landed_costs
+          (receipt_id, shipment_id, cost_type, amount, currency, exchange_rate, allocation_method, description, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [receiptId || null, shipmentId || null, costType, Number(amount), costCurrency, exchangeRate, allocationMethod, description, req.user!.id]
+      );
+
+      if (receiptId) {
+        await landedCostService.reallocateReceipts(tx, [Number(receiptId)]);
+      } else {
+        const receipts = await tx.query('SELECT id FROM receipts WHERE shipment_id = ?', [shipmentId]);
+        await landedCostService.reallocateReceipts(tx, receipts.map(receipt => receipt.id));
+      }
+
+      return result.lastID;
+    });
+
+    res.status(201).json({ message: '附加成本添加成功', id: costId });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('添加附加成本失败:', error);
+    res.status(500).json({ error: '添加附加成本失败' });
+  }
+});
+
+// 删除附加成本 (仅管理员)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '附加成本'), async (req: AuthRequest, res) => {
+  try {
+    const deleted = await connectionPool.transaction(async (tx) => {
+      const cost = await tx.get('SELECT * FROM landed_costs WHERE id = ?', [req.params.id]);
+      if (!cost) {
+        return false;
+      }
+
+      await tx.run('DELETE FROM landed_costs WHERE id = ?', [cost.id]);
+
+      const receipts = cost.receipt_id
+        ? [{ id: cost.receipt_id }]
+        : await tx.query('SELECT id FROM receipts WHERE shipment_id = ?', [cost.shipment_id]);
+      await landedCostService.reallocateReceipts(tx, receipts.map(receipt => receipt.id));
+
+      return true;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: '附加成本不存在' });
+    }
+
+    res.json({ message: '附加成本删除成功' });
+  } catch (error) {
+    console.error('删除附加成本失败:', error);
+    res.status(500).json({ error: '删除附加成本失败' });
+  }
+});
+
+export default router;
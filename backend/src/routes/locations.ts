@@ -0,0 +1,82 @@
+import express from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { LocationService } from '../services/locationService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const locationService = LocationService.getInstance();
+
+// 获取存放位置列表（含商品数、库存数量和金额）
+router.get('/', authenticateToken, logOperation('查看', '存放位置'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await locationService.listLocations(req.query.includeInactive === 'true'));
+  } catch (error) {
+    console.error('获取存放位置列表失败:', error);
+    res.status(500).json({ error: '获取存放位置列表失败' });
+  }
+});
+
+// 创建存放位置
+router.post('/', authenticateToken, requireAdmin, logOperation('创建', '存放位置'), async (req: AuthRequest, res) => {
+  const { name, location_type, address, notes } = req.body;
+
+  try {
+    res.status(201).json(await locationService.createLocation({ name, locationType: location_type, address, notes }));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('创建存放位置失败:', error);
+    res.status(500).json({ error: '创建存放位置失败' });
+  }
+});
+
+// 更新存放位置（is_active 为 false 时停用，位置上仍有库存时不能停用）
+router.put('/:id', authenticateToken, requireAdmin, logOperation('更新', '存放位置'), async (req: AuthRequest, res) => {
+  const { name, location_type, address, notes, is_active } = req.body;
+
+  try {
+    res.json(await locationService.updateLocation(Number(req.params.id), {
+      name,
+      locationType: location_type,
+      address,
+      notes,
+      isActive: is_active === undefined ? undefined : Boolean(is_active)
+    }));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新存放位置失败:', error);
+    res.status(500).json({ error: '更新存放位置失败' });
+  }
+});
+
+// 设为默认位置
+router.post('/:id/default', authenticateToken, requireAdmin, logOperation('设置', '默认存放位置'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await locationService.setDefaultLocation(Number(req.params.id)));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('设置默认存放位置失败:', error);
+    res.status(500).json({ error: '设置默认存放位置失败' });
+  }
+});
+
+// 获取位置上的库存明细
+router.get('/:id/stock', authenticateToken, logOperation('查看', '位置库存'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await locationService.getLocationStock(Number(req.params.id)));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取位置库存失败:', error);
+    res.status(500).json({ error: '获取位置库存失败' });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { NotificationService } from '../services/notificationService';
+import { getNotificationConfig, saveNotificationConfig } from '../config/notification';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const notificationService = NotificationService.getInstance();
+
+// 获取通知配置，隐藏 SMTP 密码 (仅管理员)
+router.get('/config', authenticateToken, requireAdmin, logOperation('查看', '通知配置'), (req: AuthRequest, res) => {
+  try {
+    const config = getNotificationConfig();
+    res.json({ ...config, smtp: { ...config.smtp, pass: config.smtp.pass ? '****' : '' } });
+  } catch (error) {
+    console.error('获取通知配置失败:', error);
+    res.status(500).json({ error: '获取通知配置失败' });
+  }
+});
+
+// 更新通知配置，SMTP 密码为空或 **** 时保留原密码 (仅管理员)
+router.post('/config', authenticateToken, requireAdmin, logOperation('更新', '通知配置'), (req: AuthRequest, res) => {
+  try {
+    const current = getNotificationConfig();
+    const config = { ...current, ...req.body };
+    const smtp = { ...current.smtp, ...(req.body.smtp || {}) };
+    if (!req.body.smtp?.pass || req.body.smtp.pass === '****') {
+      smtp.pass = current.smtp.pass;
+    }
+
+    saveNotificationConfig({ ...config, smtp });
+    res.json({ message: '通知配置更新成功' });
+  } catch (error) {
+    console.error('更新通知配置失败:', error);
+    res.status(500).json({ error: '更新通知配置失败' });
+  }
+});
+
+// 获取通知发件箱 (仅管理员)
+router.get('/outbox', authenticateToken, requireAdmin, logOperation('查看', '通知发件箱'), async (req: AuthRequest, res) => {
+  try {
+    const { status, eventType, page, limit } = req.query;
+    res.json(await notificationService.listOutbox({
+      status: status as string,
+      eventType: eventType as string,
+      page: Number(page),
+      limit: Number(limit)
+    }));
+  } catch (error) {
+    console.error('获取通知发件箱失败:', error);
+    res.status(500).json({ error: '获取通知发件箱失败' });
+  }
+});
+
+// 立即投递到期的待发送通知 (仅管理员)
+router.post('/outbox/process', authenticateToken, requireAdmin, logOperation('投递', '通知'), async (req: AuthRequest, res) => {
+  try {
+    if (!notificationService.getTransport()) {
+      return res.status(400).json({ error: '未配置邮件发送服务 (SMTP)' });
+    }
+    res.json(await notificationService.processOutbox());
+  } catch (error) {
+    console.error('投递通知失败:', error);
+    res.status(500).json({ error: '投递通知失败' });
+  }
+});
+
+// 重新发送未成功的通知 (仅管理员)
+router.post('/outbox/:id/retry', authenticateToken, requireAdmin, logOperation('重试', '通知'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    await notificationService.retry(Number(id));
+    res.json({ message: '通知已重新加入发送队列' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('重试通知失败:', error);
+    res.status(500).json({ error: '重试通知失败' });
+  }
+});
+
+// 发送测试邮件并立即投递，用于检查 SMTP 配置 (仅管理员)
+router.post('/test', authenticateToken, requireAdmin, logOperation('发送', '测试邮件'), async (req: AuthRequest, res) => {
+  const { to } = req.body;
+
+  try {
+    if (!notificationService.getTransport()) {
+      return res.status(400).json({ error: '未配置邮件发送服务 (SMTP)' });
+    }
+
+    const id = await notificationService.enqueue('test', {}, { recipients: Array.isArray(to) ? to : [to] });
+    if (!id) {
+      return res.status(400).json({ error: '请提供有效的收件人邮箱，并确认通知已启用' });
+    }
+
+    await notificationService.processOutbox();
+    const item = await notificationService.getOutboxItem(id);
+    if (item?.status !== 'sent') {
+      return res.status(502).json({ error: '测试邮件发送失败', item });
+    }
+    res.json({ message: '测试邮件发送成功', item });
+  } catch (error) {
+    console.error('发送测试邮件失败:', error);
+    res.status(500).json({ error: '发送测试邮件失败' });
+  }
+});
+
+export default router;
@@ -0,0 +1,407 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { TransactionContext } from '../database/connectionPool';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { SalesService } from '../services/salesService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+
+// 订单状态：待采购 -> 已采购 -> 已交付，或已取消
+const ORDER_STATUSES = ['pending', 'purchased', 'delivered', 'cancelled'];
+
+interface OrderItemInput {
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  receiptItemId?: number | null;
+}
+
+/**
+ * 校验并规范化订单项目，返回错误信息或规范化后的项目
+ */
+function normalizeOrderItems(items: any): { items?: OrderItemInput[]; error?: string } {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: '订单项目不能为空' };
+  }
+
+  const normalized: OrderItemInput[] = [];
+  for (const item of items) {
+    const itemName = (item.itemName || item.name || '').toString().trim();
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unitPrice ?? 0);
+
+    if (!itemName) {
+      return { error: '订单项目缺少商品名称' };
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { error: `商品 ${itemName} 的数量无效` };
+    }
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      return { error: `商品 ${itemName} 的单价无效` };
+    }
+
+    normalized.push({
+      itemName,
+      quantity,
+      unitPrice,
+      receiptItemId: item.receiptItemId ? Number(item.receiptItemId) : null
+    });
+  }
+
+  return { items: normalized };
+}
+
+/**
+ * 查找订单项目中引用了不存在收据项目的ID
+ */
+async function findMissingReceiptItems(items: OrderItemInput[]): Promise<number[]> {
+  const ids = items.map(item => item.receiptItemId).filter((id): id is number => !!id);
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const placeholders = ids.map(() => '?').join(',');
+  const existing = await connectionPool.query(`SELECT id FROM receipt_items WHERE id IN (${placeholders})`, ids);
+  const existingIds = new Set(existing.map((row: any) => row.id));
+  return ids.filter(id => !existingIds.has(id));
+}
+
+/**
+ * 在事务中写入订单项目并返回订单总金额
+ */
+async function insertOrderItems(tx: TransactionContext, orderId: number, items: OrderItemInput[]): Promise<number> {
+  let totalAmount = 0;
+
+  for (const item of items) {
+    const totalPrice = item.unitPrice * item.quantity;
+    totalAmount += totalPrice;
+
+    await tx.run(
+      'INSERT INTO customer_order_items (order_id, item_name, quantity, unit_price, total_price, receipt_item_id) VALUES (?, ?, ?, ?, ?, ?)',
+      [orderId, item.itemName, item.quantity, item.unitPrice, totalPrice, item.receiptItemId]
+    );
+  }
+
+  return totalAmount;
+}
+
+// 获取订单列表
+router.get('/list', authenticateToken, logOperation('查看', '客户订单列表'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, customerId, status, startDate, endDate } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (customerId) {
+      whereClause += ' AND o.customer_id = ?';
+      params.push(customerId);
+    }
+
+    if (status) {
+      whereClause += ' AND o.status = ?';
+      params.push(status);
+    }
+
+    if (startDate) {
+      whereClause += ' AND o.created_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND o.created_at <= ?';
+      params.push(endDate);
+    }
+
+    const orders = await connectionPool.query(`
+      SELECT
+        o.*,
+        c.name as customer_name,
+        u.username,
+        (SELECT COUNT(*) FROM customer_order_items oi WHERE oi.order_id = o.id) as item_count,
+        (SELECT COUNT(*) FROM customer_order_items oi WHERE oi.order_id = o.id AND oi.receipt_item_id IS NOT NULL) as linked_item_count
+      FROM customer_orders o
+      JOIN customers c ON o.customer_id = c.id
+      LEFT JOIN users u ON o.user_id = u.id
+      WHERE ${whereClause}
+      ORDER BY o.created_at DESC
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM customer_orders o WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      orders,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取订单列表失败:', error);
+    res.status(500).json({
+      error: '获取订单列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 创建客户订单
+router.post('/create', authenticateToken, logOperation('创建', '客户订单'), async (req: AuthRequest, res) => {
+  const { customerId, items, notes } = req.body;
+
+  if (!customerId) {
+    return res.status(400).json({ error: '请指定客户' });
+  }
+
+  const { items: orderItems, error: validationError } = normalizeOrderItems(items);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const customers = await connectionPool.query('SELECT id FROM customers WHERE id = ?', [customerId]);
+    if (customers.length === 0) {
+      return res.status(404).json({ error: '客户不存在' });
+    }
+
+    const missingReceiptItems = await findMissingReceiptItems(orderItems!);
+    if (missingReceiptItems.length > 0) {
+      return res.status(400).json({ error: '关联的收据项目不存在', receiptItemIds: missingReceiptItems });
+    }
+
+    const orderId = await connectionPool.transaction(async (tx) => {
+      const orderResult = await tx.run(
+        'INSERT INTO customer_orders (customer_id, user_id, notes) VALUES (?, ?, ?)',
+        [customerId, req.user!.id, notes]
+      );
+
+      const totalAmount = await insertOrderItems(tx, orderResult.lastID, orderItems!);
+      await tx.run('UPDATE customer_orders SET total_amount = ? WHERE id = ?', [totalAmount, orderResult.lastID]);
+
+      return orderResult.lastID;
+    });
+
+    res.status(201).json({ message: '订单创建成功', orderId });
+  } catch (error) {
+    console.error('创建订单失败:', error);
+    res.status(500).json({
+      error: '创建订单失败',
+      message: error instanceof Error ? error.message : '数据库操作错误'
+    });
+  }
+});
+
+// 获取订单详情（包含项目对应的采购记录）
+router.get('/:id', authenticateToken, logOperation('查看', '客户订单详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const orders = await connectionPool.query(`
+      SELECT o.*, c.name as customer_name, c.phone as customer_phone, u.username
+      FROM customer_orders o
+      JOIN customers c ON o.customer_id = c.id
+      LEFT JOIN users u ON o.user_id = u.id
+      WHERE o.id = ?
+    `, [id]);
+
+    if (orders.length === 0) {
+      return res.status(404).json({ error: '订单不存在' });
+    }
+
+    const items = await connectionPool.query(`
+      SELECT
+        oi.*,
+        ri.receipt_id,
+        ri.item_name as purchased_item_name,
+        ri.unit_price as purchase_unit_price,
+        ri.quantity as purchased_quantity,
+        r.created_at as purchased_at
+      FROM customer_order_items oi
+      LEFT JOIN receipt_items ri ON oi.receipt_item_id = ri.id
+      LEFT JOIN receipts r ON ri.receipt_id = r.id
+      WHERE oi.order_id = ?
+      ORDER BY oi.id
+    `, [id]);
+
+    res.json({ ...orders[0], items });
+  } catch (error) {
+    console.error('获取订单详情失败:', error);
+    res.status(500).json({ error: '获取订单详情失败' });
+  }
+});
+
+// 更新订单（状态、备注，提供items时替换订单项目）
+router.put('/:id', authenticateToken, logOperation('更新', '客户订单'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { status, notes, items } = req.body;
+
+  if (status !== undefined && !ORDER_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `无效的订单状态，可选值: ${ORDER_STATUSES.join(', ')}` });
+  }
+
+  // 交付必须经过出库接口扣减库存
+  if (status === 'delivered') {
+    return res.status(400).json({ error: '请通过订单交付接口完成交付' });
+  }
+
+  let orderItems: OrderItemInput[] | undefined;
+  if (items !== undefined) {
+    const normalized = normalizeOrderItems(items);
+    if (normalized.error) {
+      return res.status(400).json({ error: normalized.error });
+    }
+    orderItems = normalized.items;
+  }
+
+  try {
+    if (orderItems) {
+      const missingReceiptItems = await findMissingReceiptItems(orderItems);
+      if (missingReceiptItems.length > 0) {
+        return res.status(400).json({ error: '关联的收据项目不存在', receiptItemIds: missingReceiptItems });
+      }
+    }
+
+    const updated = await connectionPool.transaction(async (tx) => {
+      const order = await tx.get('SELECT * FROM customer_orders WHERE id = ?', [id]);
+      if (!order) {
+        return false;
+      }
+
+      let totalAmount = order.total_amount;
+      if (orderItems) {
+        await tx.run('DELETE FROM customer_order_items WHERE order_id = ?', [id]);
+        totalAmount = await insertOrderItems(tx, order.id, orderItems);
+      }
+
+      await tx.run(
+        'UPDATE customer_orders SET status = ?, notes = ?, total_amount = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [status ?? order.status, notes !== undefined ? notes : order.notes, totalAmount, id]
+      );
+
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: '订单不存在' });
+    }
+
+    res.json({ message: '订单更新成功' });
+  } catch (error) {
+    console.error('更新订单失败:', error);
+    res.status(500).json({
+      error: '更新订单失败',
+      message: error instanceof Error ? error.message : '数据库操作错误'
+    });
+  }
+});
+
+// 将订单项目关联到采购收据项目（receiptItemId为空时取消关联）
+router.post('/:id/items/:itemId/link', authenticateToken, logOperation('关联', '订单采购记录'), async (req: AuthRequest, res) => {
+  const { id, itemId } = req.params;
+  const { receiptItemId } = req.body;
+
+  try {
+    if (receiptItemId) {
+      const receiptItems = await connectionPool.query('SELECT id FROM receipt_items WHERE id = ?', [receiptItemId]);
+      if (receiptItems.length === 0) {
+        return res.status(404).json({ error: '收据项目不存在' });
+      }
+    }
+
+    const result = await connectionPool.run(
+      'UPDATE customer_order_items SET receipt_item_id = ? WHERE id = ? AND order_id = ?',
+      [receiptItemId || null, itemId, id]
+    );
+
+    if (result.changes === 0) {
+      return res.status(404).json({ error: '订单项目不存在' });
+    }
+
+    res.json({ message: receiptItemId ? '采购记录关联成功' : '已取消采购记录关联' });
+  } catch (error) {
+    console.error('关联采购记录失败:', error);
+    res.status(500).json({ error: '关联采购记录失败' });
+  }
+});
+
+// 交付订单：按订单项目销售出库并扣减库存
+router.post('/:id/deliver', authenticateToken, logOperation('交付', '客户订单'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { notes } = req.body;
+
+  try {
+    const result = await connectionPool.transaction(async (tx) => {
+      const order = await tx.get('SELECT * FROM customer_orders WHERE id = ?', [id]);
+      if (!order) {
+        throw new BusinessError('订单不存在', 404);
+      }
+      if (order.status === 'delivered' || order.status === 'cancelled') {
+        throw new BusinessError(`订单状态为 ${order.status}，无法交付`);
+      }
+
+      const orderItems = await tx.query('SELECT * FROM customer_order_items WHERE order_id = ? ORDER BY id', [id]);
+
+      const sale = await SalesService.getInstance().recordSaleInTransaction(tx, {
+        userId: req.user!.id,
+        customerId: order.customer_id,
+        orderId: order.id,
+        notes,
+        items: orderItems.map((item: any) => ({
+          itemName: item.item_name,
+          quantity: item.quantity,
+          unitPrice: item.unit_price,
+          orderItemId: item.id
+        }))
+      });
+
+      await tx.run(
+        "UPDATE customer_orders SET status = 'delivered', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [id]
+      );
+
+      return sale;
+    });
+
+    res.json({ message: '订单交付成功', ...result });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('交付订单失败:', error);
+    res.status(500).json({
+      error: '交付订单失败',
+      message: error instanceof Error ? error.message : '数据库操作错误'
+    });
+  }
+});
+
+// 删除订单 (仅管理员)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '客户订单'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await connectionPool.transaction(async (tx) => {
+      await tx.run('DELETE FROM customer_order_items WHERE order_id = ?', [id]);
+      const result = await tx.run('DELETE FROM customer_orders WHERE id = ?', [id]);
+      return result.changes > 0;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: '订单不存在' });
+    }
+
+    res.json({ message: '订单删除成功' });
+  } catch (error) {
+    console.error('删除订单失败:', error);
+    res.status(500).json({ error: '删除订单失败' });
+  }
+});
+
+export default router;
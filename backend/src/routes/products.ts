@@ -0,0 +1,353 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { ProductService } from '../services/productService';
+import { ProductMatchingService } from '../services/productMatchingService';
+import { BusinessError } from '../utils/businessError';
+import { normalizeText } from '../utils/normalizeText';
+
+const router = express.Router();
+const productService = ProductService.getInstance();
+const productMatchingService = ProductMatchingService.getInstance();
+
+/**
+ * 将唯一约束冲突转换为提示信息，其他错误返回 null
+ */
+function uniqueConflictMessage(error: any): string | null {
+  const message: string = error?.message || '';
+  if (!message.includes('UNIQUE constraint failed')) {
+    return null;
+  }
+  if (message.includes('products.sku')) {
+    return 'SKU已存在';
+  }
+  if (message.includes('products.barcode')) {
+    return '条码已存在';
+  }
+  return '商品名称已存在';
+}
+
+// 获取商品列表（含库存数量和别名数量）
+router.get('/list', authenticateToken, logOperation('查看', '商品目录'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, search, brand, category } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    // 搜索名称、SKU、条码和别名
+    if (search) {
+      whereClause += ` AND (p.name LIKE ? OR p.sku LIKE ? OR p.barcode = ?
+        OR p.id IN (SELECT product_id FROM product_aliases WHERE normalized_alias LIKE ?))`;
+      params.push(`%${search}%`, `%${search}%`, search, `%${normalizeText(search as string)}%`);
+    }
+
+    if (brand) {
+      whereClause += ' AND p.brand = ?';
+      params.push(brand);
+    }
+
+    if (category) {
+      whereClause += ' AND p.category = ?';
+      params.push(category);
+    }
+
+    const products = await connectionPool.query(`
+      SELECT
+        p.*,
+        i.id as inventory_id,
+        i.current_stock,
+        (SELECT COUNT(*) FROM product_aliases a WHERE a.product_id = p.id) as alias_count
+      FROM products p
+      LEFT JOIN inventory i ON i.product_id = p.id
+      WHERE ${whereClause}
+      ORDER BY p.name
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM products p WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      products,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取商品列表失败:', error);
+    res.status(500).json({
+      error: '获取商品列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 按条码或名称（含别名）查找商品
+router.get('/lookup', authenticateToken, async (req: AuthRequest, res) => {
+  const { barcode, name } = req.query;
+
+  if (!barcode && !name) {
+    return res.status(400).json({ error: '请提供条码或商品名称' });
+  }
+
+  try {
+    const product = barcode
+      ? await productService.findByBarcode(barcode as string)
+      : await productService.findByName(name as string);
+
+    if (!product) {
+      return res.status(404).json({ error: '商品不存在' });
+    }
+
+    res.json(product);
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('查找商品失败:', error);
+    res.status(500).json({ error: '查找商品失败' });
+  }
+});
+
+// 按相似度推荐候选商品，用于手工录入或修正识别结果
+router.get('/suggest', authenticateToken, async (req: AuthRequest, res) => {
+  const { name, limit } = req.query;
+
+  if (!name || !String(name).trim()) {
+    return res.status(400).json({ error: '请提供商品名称' });
+  }
+
+  try {
+    const [suggestions] = await productMatchingService.suggestForItems(
+      [String(name)],
+      limit ? Number(limit) : undefined
+    );
+    res.json({ suggestions });
+  } catch (error) {
+    console.error('推荐商品失败:', error);
+    res.status(500).json({ error: '推荐商品失败' });
+  }
+});
+
+// 添加商品
+router.post('/add', authenticateToken, logOperation('添加', '商品'), async (req: AuthRequest, res) => {
+  const { name, sku, barcode, brand, spec, category, notes, aliases } = req.body;
+
+  if (!name || !name.trim()) {
+    return res.status(400).json({ error: '商品名称不能为空' });
+  }
+
+  try {
+    const product = await connectionPool.transaction(async (tx) => {
+      const product = await productService.createProduct(tx, { name, sku, barcode, brand, spec, category, notes });
+
+      for (const alias of Array.isArray(aliases) ? aliases : []) {
+        await productService.addAlias(tx, product.productId, String(alias), 'manual');
+      }
+
+      return product;
+    });
+
+    res.status(201).json({ message: '商品添加成功', id: product.productId });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    const conflict = uniqueConflictMessage(error);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+    console.error('添加商品失败:', error);
+    res.status(500).json({ error: '添加商品失败' });
+  }
+});
+
+// 获取商品详情（含别名和库存）
+router.get('/:id', authenticateToken, logOperation('查看', '商品详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const products = await connectionPool.query('SELECT * FROM products WHERE id = ?', [id]);
+    if (products.length === 0) {
+      return res.status(404).json({ error: '商品不存在' });
+    }
+
+    const aliases = await connectionPool.query(
+      'SELECT id, alias, source, created_at FROM product_aliases WHERE product_id = ? ORDER BY id',
+      [id]
+    );
+    const [inventory] = await connectionPool.query(
+      'SELECT id, current_stock, unit_price, landed_unit_cost, last_updated FROM inventory WHERE product_id = ?',
+      [id]
+    );
+
+    res.json({ ...products[0], aliases, inventory: inventory || null });
+  } catch (error) {
+    console.error('获取商品详情失败:', error);
+    res.status(500).json({ error: '获取商品详情失败' });
+  }
+});
+
+// 更新商品，修改名称时同步库存和收据项目中的名称
+router.put('/:id', authenticateToken, logOperation('更新', '商品'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, sku, barcode, brand, spec, category, notes } = req.body;
+
+  if (name !== undefined && (!name || !name.trim())) {
+    return res.status(400).json({ error: '商品名称不能为空' });
+  }
+
+  try {
+    const updated = await connectionPool.transaction(async (tx) => {
+      const product = await tx.get('SELECT * FROM products WHERE id = ?', [id]);
+      if (!product) {
+        return false;
+      }
+
+      if (name !== undefined) {
+        await productService.renameProduct(tx, product.id, name);
+      }
+
+      await tx.run(
+        `UPDATE products SET sku = ?, barcode = ?, brand = ?, spec = ?, category = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          sku !== undefined ? sku?.trim() || null : product.sku,
+          barcode !== undefined ? productService.normalizeBarcode(barcode) : product.barcode,
+          brand !== undefined ? brand?.trim() || null : product.brand,
+          spec !== undefined ? spec?.trim() || null : product.spec,
+          category !== undefined ? category?.trim() || null : product.category,
+          notes !== undefined ? notes : product.notes,
+          id
+        ]
+      );
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: '商品不存在' });
+    }
+
+    res.json({ message: '商品更新成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    const conflict = uniqueConflictMessage(error);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+    console.error('更新商品失败:', error);
+    res.status(500).json({ error: '更新商品失败' });
+  }
+});
+
+// 添加商品别名
+router.post('/:id/aliases', authenticateToken, logOperation('添加', '商品别名'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { alias } = req.body;
+
+  if (!alias || !String(alias).trim()) {
+    return res.status(400).json({ error: '别名不能为空' });
+  }
+
+  try {
+    await connectionPool.transaction(async (tx) => {
+      const product = await tx.get('SELECT id FROM products WHERE id = ?', [id]);
+      if (!product) {
+        throw new BusinessError('商品不存在', 404);
+      }
+
+      const ownerId = await productService.addAlias(tx, product.id, String(alias), 'manual');
+      if (ownerId !== product.id) {
+        throw new BusinessError('该别名已属于其他商品', 409, { productId: ownerId });
+      }
+    });
+
+    res.status(201).json({ message: '别名添加成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('添加商品别名失败:', error);
+    res.status(500).json({ error: '添加商品别名失败' });
+  }
+});
+
+// 删除商品别名，商品当前名称不能删除
+router.delete('/:id/aliases/:aliasId', authenticateToken, logOperation('删除', '商品别名'), async (req: AuthRequest, res) => {
+  const { id, aliasId } = req.params;
+
+  try {
+    const [alias] = await connectionPool.query(
+      `SELECT a.id, a.normalized_alias, p.name FROM product_aliases a
+       JOIN products p ON a.product_id = p.id
+       WHERE a.id = ? AND a.product_id = ?`,
+      [aliasId, id]
+    );
+    if (!alias) {
+      return res.status(404).json({ error: '别名不存在' });
+    }
+    if (alias.normalized_alias === normalizeText(alias.name)) {
+      return res.status(400).json({ error: '不能删除商品名称本身' });
+    }
+
+    await connectionPool.run('DELETE FROM product_aliases WHERE id = ?', [aliasId]);
+    res.json({ message: '别名删除成功' });
+  } catch (error) {
+    console.error('删除商品别名失败:', error);
+    res.status(500).json({ error: '删除商品别名失败' });
+  }
+});
+
+// 删除商品 (仅管理员)，已被库存或收据引用的商品不能删除
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '商品'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await connectionPool.transaction(async (tx) => {
+      const product = await tx.get('SELECT id FROM products WHERE id = ?', [id]);
+      if (!product) {
+        return false;
+      }
+
+      const usage = await tx.get(
+        `SELECT
+           (SELECT COUNT(*) FROM inventory WHERE product_id = ?) as inventory_count,
+           (SELECT COUNT(*) FROM receipt_items WHERE product_id = ?) as receipt_item_count`,
+        [id, id]
+      );
+      if (usage.inventory_count > 0 || usage.receipt_item_count > 0) {
+        throw new BusinessError('商品已被库存或收据引用，无法删除', 409, {
+          inventoryCount: usage.inventory_count,
+          receiptItemCount: usage.receipt_item_count
+        });
+      }
+
+      // 外键级联未启用，显式删除别名
+      await tx.run('DELETE FROM product_aliases WHERE product_id = ?', [id]);
+      await tx.run('DELETE FROM products WHERE id = ?', [id]);
+      return true;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: '商品不存在' });
+    }
+
+    res.json({ message: '商品删除成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('删除商品失败:', error);
+    res.status(500).json({ error: '删除商品失败' });
+  }
+});
+
+export default router;
@@ -4,13 +4,99 @@ import path from 'path';
 import fs from 'fs';
 import { getDatabase, connectionPool } from '../database/init';
 import { queryOptimizer } from '../database/queryOptimizer';
+import { TransactionContext } from '../database/connectionPool';
 import { authenticateToken, AuthRequest, requireAdmin, checkAdminOptional } from '../middleware/auth';
 import { logOperation } from '../middleware/logger';
 import { OCRService } from '../services/ocrService';
 import { ImageProcessingService } from '../services/imageProcessingService';
+import { InventoryService, ReceiptLineItem } from '../services/inventoryService';
+import { ExchangeRateService } from '../services/exchangeRateService';
+import { LandedCostService } from '../services/landedCostService';
+import { StoreService } from '../services/storeService';
+import { ReviewService } from '../services/reviewService';
+import { DuplicateDetectionService } from '../services/duplicateDetectionService';
+import { ProductService } from '../services/productService';
+import { ProductMatchingService } from '../services/productMatchingService';
+import { ImportService, RECEIPT_COLUMNS } from '../services/importService';
+import { NotificationService } from '../services/notificationService';
+import { BatchService } from '../services/batchService';
+import { SpreadsheetService, MONEY_FORMAT, RATE_FORMAT, XLSX_CONTENT_TYPE } from '../services/spreadsheetService';
+import { spreadsheetUpload } from '../middleware/spreadsheetUpload';
+import { BusinessError } from '../utils/businessError';
+import { parsePurchaseDateTime, ReceiptDateField, resolveReceiptDateField } from '../utils/receiptDate';
+import {
+  calculateReceiptTotals,
+  normalizeAdjustments,
+  normalizeTaxMode,
+  ReceiptAdjustment
+} from '../utils/receiptTotals';
 
 const router = express.Router();
 const imageProcessingService = ImageProcessingService.getInstance();
+const inventoryService = InventoryService.getInstance();
+const exchangeRateService = ExchangeRateService.getInstance();
+const landedCostService = LandedCostService.getInstance();
+const storeService = StoreService.getInstance();
+const reviewService = ReviewService.getInstance();
+const duplicateDetectionService = DuplicateDetectionService.getInstance();
+const productService = ProductService.getInstance();
+const productMatchingService = ProductMatchingService.getInstance();
+const importService = ImportService.getInstance();
+const spreadsheetService = SpreadsheetService.getInstance();
+const notificationService = NotificationService.getInstance();
+const batchService = BatchService.getInstance();
+
+/**
+ * 重写收据的折扣、优惠券和税额行
+ */
+async function replaceReceiptAdjustments(tx: TransactionContext, receiptId: number, adjustments: ReceiptAdjustment[]) {
+  await tx.run('DELETE FROM receipt_adjustments WHERE receipt_id = ?', [receiptId]);
+  for (const adjustment of adjustments) {
+    await tx.run(
+      'INSERT INTO receipt_adjustments (receipt_id, adjustment_type, description, amount) VALUES (?, ?, ?, ?)',
+      [receiptId, adjustment.type, adjustment.description || null, adjustment.amount]
+    );
+  }
+}
+
+/**
+ * 将收据项目关联到商品目录，商品名称统一为目录中的名称，并校验保质期格式
+ */
+async function resolveReceiptItems(tx: TransactionContext, items: any[]) {
+  const resolved = [];
+  for (const item of items) {
+    const product = await productService.resolveProduct(tx, item.itemName || item.name, item.productId);
+    resolved.push({
+      ...item,
+      itemName: product.name,
+      productId: product.productId,
+      expiryDate: batchService.normalizeExpiryDate(item.expiryDate),
+      batchNumber: item.batchNumber || null
+    });
+  }
+  return resolved;
+}
+
+/**
+ * 计算已上传收据图像的感知哈希，图像不存在或无法解析时返回 null
+ */
+async function computeImageHash(imagePath?: string | null): Promise<string | null> {
+  if (!imagePath) {
+    return null;
+  }
+
+  const filePath = path.join(process.env.UPLOAD_PATH || './uploads', path.basename(imagePath));
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return await imageProcessingService.computePerceptualHash(filePath);
+  } catch (error) {
+    console.warn('计算图像哈希失败:', error);
+    return null;
+  }
+}
 
 // 配置文件上传
 const storage = multer.diskStorage({
@@ -92,8 +178,12 @@ router.post('/ocr', authenticateToken, logOperation('OCR识别', '收据'), uplo
       console.warn('图像验证警告:', validation.warnings);
     }
     
+    // 图像处理前先计算原图哈希，与保存时的计算结果保持一致
+    const imageHash = await computeImageHash(req.file.filename);
+
     // 进行OCR识别（图像处理在recognizeReceipt内部完成）
     const ocrResult = await ocrService.recognizeReceipt(req.file.path, true);
+    const storeMatch = ocrResult.merchant ? await storeService.findBestMatch(ocrResult.merchant) : null;
     
     // 构建响应数据
     const response: any = {
@@ -101,9 +191,40 @@ router.post('/ocr', authenticateToken, logOperation('OCR识别', '收据'), uplo
       parsedItems: ocrResult.items,
       confidence: ocrResult.confidence,
       suggestedTotal: ocrResult.totalAmount,
-      processingTime: ocrResult.processingTime
+      processingTime: ocrResult.processingTime,
+      adjustments: ocrResult.adjustments || [],
+      taxMode: ocrResult.taxMode,
+      totals: ocrResult.totals,
+      issues: ocrResult.issues || [],
+      // 与 parsedItems 一一对应的候选商品，保存时传入选定的 productId 即记住该写法
+      itemSuggestions: await productMatchingService.suggestForItems(
+        (ocrResult.items || []).map(item => item.itemName)
+      ),
+      merchant: ocrResult.merchant || null,
+      // 识别出的门店与登记表匹配，未匹配时保存收据会自动登记新门店
+      storeMatch,
+      imageHash,
+      // 疑似重复上传的历史收据，保存时需确认
+      duplicateCandidates: await duplicateDetectionService.findCandidates({
+        imageHash,
+        storeId: storeMatch?.storeId,
+        purchasedAt: parsePurchaseDateTime(ocrResult.merchant?.purchasedAt),
+        totalAmount: ocrResult.totals?.printedTotal ?? ocrResult.totalAmount,
+        items: ocrResult.items || []
+      })
     };
 
+    // 保存时会按同样的规则判断是否进入人工审核
+    if (ocrResult.totals) {
+      const reviewIssues = reviewService.evaluate({
+        items: ocrResult.items,
+        totals: ocrResult.totals,
+        confidence: ocrResult.confidence,
+        ocrIssues: ocrResult.issues
+      });
+      response.needsReview = reviewService.resolveStatus(reviewIssues) === 'pending_review';
+    }
+
     // 如果使用了降级服务，添加相关信息
     if (ocrResult.fallbackUsed) {
       response.fallbackUsed = true;
@@ -186,89 +307,111 @@ router.post('/ocr', authenticateToken, logOperation('OCR识别', '收据'), uplo
 
 // 保存收据数据 - 使用连接池
 router.post('/save', authenticateToken, logOperation('保存', '收据'), async (req: AuthRequest, res) => {
-  const { imagePath, items, totalAmount } = req.body;
+  const {
+    imagePath, items, totalAmount, currency, storeId, merchant, purchasedAt, adjustments, taxMode, confidence, ocrIssues,
+    allowDuplicate
+  } = req.body;
   
   if (!items || !Array.isArray(items) || items.length === 0) {
     return res.status(400).json({ error: '收据项目不能为空' });
   }
 
-  const db = await connectionPool.acquire();
-  
+  // 未提供购买时间时使用OCR识别的时间，仍缺失则以上传时间代替
+  const receiptPurchasedAt = parsePurchaseDateTime(purchasedAt || merchant?.purchasedAt);
+  if (purchasedAt && !receiptPurchasedAt) {
+    return res.status(400).json({ error: '购买时间格式无效' });
+  }
+
   try {
-    await new Promise<void>((resolve, reject) => {
-      db.run('BEGIN TRANSACTION', (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
-    
-    // 插入收据记录
-    const receiptResult = await new Promise<number>((resolve, reject) => {
-      db.run(
-        'INSERT INTO receipts (user_id, image_path, total_amount) VALUES (?, ?, ?)',
-        [req.user!.id, imagePath, totalAmount],
-        function(err) {
-          if (err) reject(err);
-          else resolve(this.lastID);
-        }
+    const imageHash = await computeImageHash(imagePath);
+
+    const { receiptId, totals, status, reviewIssues, duplicates } = await connectionPool.transaction(async (tx) => {
+      // 保存时快照当日汇率，之后汇率变化不影响已保存的收据
+      const receiptCurrency = exchangeRateService.normalizeCurrency(currency);
+      const exchangeRate = await exchangeRateService.getRate(receiptCurrency, undefined, tx);
+
+      const receiptStoreId = await storeService.resolveReceiptStore(tx, storeId, merchant);
+      const lineItems = await resolveReceiptItems(tx, items);
+
+      // 按商品小计、折扣和税额核对收据上打印的总额，未提供总额时使用计算值
+      const receiptAdjustments = normalizeAdjustments(adjustments);
+      const receiptTaxMode = normalizeTaxMode(taxMode);
+      const totals = calculateReceiptTotals(lineItems, receiptAdjustments, receiptTaxMode, totalAmount);
+
+      // 疑似重复上传时需明确设置 allowDuplicate 才能保存，避免重复入库
+      const duplicates = await duplicateDetectionService.findCandidates({
+        imageHash,
+        storeId: receiptStoreId,
+        purchasedAt: receiptPurchasedAt || new Date().toISOString().slice(0, 19).replace('T', ' '),
+        totalAmount: totals.printedTotal ?? totals.grandTotal,
+        currency: receiptCurrency,
+        items: lineItems
+      }, tx);
+      if (duplicates.length > 0 && allowDuplicate !== true) {
+        throw new BusinessError('疑似重复收据，确认不是重复上传后请设置 allowDuplicate 重新提交', 409, { duplicates });
+      }
+
+      // 置信度低、行金额或总额不符的收据进入待审核状态，审核通过前不入库
+      const reviewIssues = reviewService.evaluate({ items: lineItems, totals, confidence, ocrIssues });
+      const status = reviewService.resolveStatus(reviewIssues);
+
+      // 插入收据记录
+      const receiptResult = await tx.run(
+        `INSERT INTO receipts (user_id, image_path, total_amount, currency, exchange_rate, store_id, merchant_name, merchant_address, receipt_number, purchased_at,
+           subtotal, discount_amount, tax_amount, grand_total, tax_mode, status, ocr_confidence, review_reasons, image_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          req.user!.id, imagePath, totals.printedTotal ?? totals.grandTotal, receiptCurrency, exchangeRate,
+          receiptStoreId, merchant?.name || null, merchant?.address || null, merchant?.receiptNumber || null,
+          receiptPurchasedAt || null,
+          totals.subtotal, totals.discountTotal, totals.taxTotal, totals.grandTotal, receiptTaxMode,
+          status, confidence ?? null, reviewIssues.length > 0 ? JSON.stringify(reviewIssues) : null, imageHash
+        ]
       );
-    });
-    
-    const receiptId = receiptResult;
-    
-    // 批量插入收据项目
-    const stmt = db.prepare('INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price) VALUES (?, ?, ?, ?, ?)');
-    const inventoryStmt = db.prepare(`
-      INSERT INTO inventory (item_name, current_stock, unit_price) 
-      VALUES (?, ?, ?)
-      ON CONFLICT(item_name) DO UPDATE SET
-        current_stock = current_stock + ?,
-        unit_price = ?,
-        last_updated = CURRENT_TIMESTAMP
-    `);
-    
-    for (const item of items) {
-      await new Promise<void>((resolve, reject) => {
-        stmt.run([receiptId, item.itemName || item.name, item.unitPrice, item.quantity, item.totalPrice], (err) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-      
-      // 更新库存
-      await new Promise<void>((resolve, reject) => {
-        inventoryStmt.run([
-          item.itemName || item.name, 
-          item.quantity, 
-          item.unitPrice, 
-          item.quantity, 
-          item.unitPrice
-        ], (err) => {
-          if (err) reject(err);
-          else resolve();
+      const receiptId = receiptResult.lastID;
+
+      await replaceReceiptAdjustments(tx, receiptId, receiptAdjustments);
+
+      for (const item of lineItems) {
+        await tx.run(
+          `INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price, product_id, expiry_date, batch_number)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [receiptId, item.itemName, item.unitPrice, item.quantity, item.totalPrice, item.productId, item.expiryDate, item.batchNumber]
+        );
+      }
+
+      if (status === 'approved') {
+        await reviewService.stockReceipt(tx, receiptId, req.user!.id);
+      } else {
+        tx.afterCommit(async () => {
+          await notificationService.notifyReviewQueue({
+            receiptId,
+            username: req.user!.username,
+            merchantName: merchant?.name || null,
+            totalAmount: totals.printedTotal ?? totals.grandTotal,
+            currency: receiptCurrency,
+            issues: reviewIssues
+          });
         });
-      });
-    }
-    
-    stmt.finalize();
-    inventoryStmt.finalize();
-    
-    await new Promise<void>((resolve, reject) => {
-      db.run('COMMIT', (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+      }
+
+      return { receiptId, totals, status, reviewIssues, duplicates };
     });
-    
-    connectionPool.release(db);
-    res.json({ message: '收据保存成功', receiptId });
-    
-  } catch (error) {
-    await new Promise<void>((resolve) => {
-      db.run('ROLLBACK', () => resolve());
+
+    res.json({
+      message: status === 'approved' ? '收据保存成功' : '收据已保存，等待人工审核后入库',
+      receiptId,
+      status,
+      reviewIssues,
+      // 确认保存时仍返回疑似重复的收据，便于追溯
+      duplicates,
+      totals
     });
-    connectionPool.release(db);
     
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('保存收据失败:', error);
     res.status(500).json({ 
       error: '保存收据失败',
@@ -280,14 +423,16 @@ router.post('/save', authenticateToken, logOperation('保存', '收据'), async
 // 获取收据列表 - 使用优化查询
 router.get('/list', authenticateToken, logOperation('查看', '收据列表'), async (req: AuthRequest, res) => {
   try {
-    const { page = 1, limit = 20, startDate, endDate, search } = req.query;
+    const { page = 1, limit = 20, startDate, endDate, search, storeId, status } = req.query;
     
     const result = await queryOptimizer.getReceiptsOptimized({
       page: Number(page),
       limit: Number(limit),
       startDate: startDate as string,
       endDate: endDate as string,
-      itemName: search as string
+      itemName: search as string,
+      storeId: storeId ? Number(storeId) : undefined,
+      status: status as string
     });
     
     res.json(result);
@@ -300,129 +445,211 @@ router.get('/list', authenticateToken, logOperation('查看', '收据列表'), a
   }
 });
 
-// 获取收据详情
-router.get('/:id', authenticateToken, logOperation('查看', '收据详情'), (req: AuthRequest, res) => {
-  const receiptId = req.params.id;
-  const db = getDatabase();
-  
-  db.get('SELECT * FROM receipts WHERE id = ?', [receiptId], (err, receipt) => {
-    if (err) {
-      db.close();
-      return res.status(500).json({ error: '获取收据失败' });
-    }
-    
-    if (!receipt) {
-      db.close();
-      return res.status(404).json({ error: '收据不存在' });
-    }
-    
-    db.all('SELECT * FROM receipt_items WHERE receipt_id = ?', [receiptId], (err, items) => {
-      db.close();
-      if (err) {
-        return res.status(500).json({ error: '获取收据项目失败' });
-      }
-      
-      res.json({ ...receipt, items });
-    });
-  });
-});
-
-// 更新收据 (仅管理员)
+// 更新收据 (仅管理员)，按新旧收据项目的数量差调整库存
 router.put('/:id', authenticateToken, requireAdmin, logOperation('更新', '收据'), async (req: AuthRequest, res) => {
-  const receiptId = req.params.id;
-  const { items, totalAmount } = req.body;
+  const receiptId = Number(req.params.id);
+  const { items, totalAmount, currency, storeId, merchant, purchasedAt, adjustments, taxMode } = req.body;
   
   if (!items || !Array.isArray(items) || items.length === 0) {
     return res.status(400).json({ error: '收据项目不能为空' });
   }
 
-  const db = getDatabase();
-  
-  db.serialize(() => {
-    db.run('BEGIN TRANSACTION');
-    
-    // 更新收据总金额
-    db.run(
-      'UPDATE receipts SET total_amount = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-      [totalAmount, receiptId],
-      function(err) {
-        if (err) {
-          db.run('ROLLBACK');
-          db.close();
-          return res.status(500).json({ error: '更新收据失败' });
-        }
-        
-        if (this.changes === 0) {
-          db.run('ROLLBACK');
-          db.close();
-          return res.status(404).json({ error: '收据不存在' });
-        }
-        
-        // 删除原有的收据项目
-        db.run('DELETE FROM receipt_items WHERE receipt_id = ?', [receiptId], (err) => {
-          if (err) {
-            db.run('ROLLBACK');
-            db.close();
-            return res.status(500).json({ error: '删除原收据项目失败' });
-          }
-          
-          // 插入新的收据项目
-          const stmt = db.prepare('INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price) VALUES (?, ?, ?, ?, ?)');
-          
-          items.forEach((item: any) => {
-            stmt.run([receiptId, item.itemName || item.name, item.unitPrice, item.quantity, item.totalPrice]);
-          });
-          
-          stmt.finalize();
-          
-          db.run('COMMIT', (err) => {
-            db.close();
-            if (err) {
-              return res.status(500).json({ error: '更新失败' });
-            }
-            res.json({ message: '收据更新成功' });
-          });
+  const receiptPurchasedAt = parsePurchaseDateTime(purchasedAt || merchant?.purchasedAt);
+  if (purchasedAt && !receiptPurchasedAt) {
+    return res.status(400).json({ error: '购买时间格式无效' });
+  }
+
+  try {
+    const totals = await connectionPool.transaction(async (tx) => {
+      const receipt = await tx.get('SELECT * FROM receipts WHERE id = ?', [receiptId]);
+      if (!receipt) {
+        return null;
+      }
+
+      // 修改币种时重新快照汇率，否则沿用保存时的汇率
+      let receiptCurrency = receipt.currency;
+      let exchangeRate = receipt.exchange_rate;
+      if (currency && exchangeRateService.normalizeCurrency(currency) !== receipt.currency) {
+        receiptCurrency = exchangeRateService.normalizeCurrency(currency);
+        exchangeRate = await exchangeRateService.getRate(receiptCurrency, undefined, tx);
+      }
+
+      // 未提供门店或商户信息时保留原有关联
+      const receiptStoreId = storeId !== undefined || merchant !== undefined
+        ? await storeService.resolveReceiptStore(tx, storeId, merchant)
+        : receipt.store_id;
+
+      // 购买时间显式清空时恢复为上传时间，未提供时保持不变
+      let nextPurchasedAt = receiptPurchasedAt || receipt.purchased_at;
+      if (purchasedAt === null || purchasedAt === '') {
+        nextPurchasedAt = receipt.created_at;
+      }
+
+      // 未提供折扣税额行或计税方式时沿用原有数据，按新的商品行重新核对总额
+      const receiptAdjustments = adjustments !== undefined
+        ? normalizeAdjustments(adjustments)
+        : (await tx.query('SELECT * FROM receipt_adjustments WHERE receipt_id = ? ORDER BY id', [receiptId]))
+          .map(row => ({ type: row.adjustment_type, description: row.description || undefined, amount: row.amount }));
+      const receiptTaxMode = taxMode !== undefined ? normalizeTaxMode(taxMode) : normalizeTaxMode(receipt.tax_mode);
+      const lineItems = await resolveReceiptItems(tx, items);
+      const totals = calculateReceiptTotals(lineItems, receiptAdjustments, receiptTaxMode, totalAmount);
+
+      // 更新收据总金额、门店信息及购买时间
+      await tx.run(
+        `UPDATE receipts SET total_amount = ?, currency = ?, exchange_rate = ?, store_id = ?,
+           merchant_name = ?, merchant_address = ?, receipt_number = ?, purchased_at = ?,
+           subtotal = ?, discount_amount = ?, tax_amount = ?, grand_total = ?, tax_mode = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          totals.printedTotal ?? totals.grandTotal, receiptCurrency, exchangeRate, receiptStoreId,
+          merchant !== undefined ? merchant?.name || null : receipt.merchant_name,
+          merchant !== undefined ? merchant?.address || null : receipt.merchant_address,
+          merchant !== undefined ? merchant?.receiptNumber || null : receipt.receipt_number,
+          nextPurchasedAt || receipt.created_at,
+          totals.subtotal, totals.discountTotal, totals.taxTotal, totals.grandTotal, receiptTaxMode,
+          receiptId
+        ]
+      );
+
+      if (adjustments !== undefined) {
+        await replaceReceiptAdjustments(tx, receiptId, receiptAdjustments);
+      }
+
+      const previousItems = await tx.query('SELECT * FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+
+      // 删除原有的收据项目，并解除订单项目对它们的关联
+      await tx.run(
+        'UPDATE customer_order_items SET receipt_item_id = NULL WHERE receipt_item_id IN (SELECT id FROM receipt_items WHERE receipt_id = ?)',
+        [receiptId]
+      );
+      await tx.run('DELETE FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+
+      // 插入新的收据项目
+      const nextItems = lineItems.map(item => ({
+        item_name: item.itemName,
+        unit_price: item.unitPrice,
+        quantity: item.quantity,
+        total_price: item.totalPrice,
+        product_id: item.productId,
+        expiry_date: item.expiryDate,
+        batch_number: item.batchNumber
+      }));
+
+      const insertedItems: ReceiptLineItem[] = [];
+      for (const item of nextItems) {
+        const { lastID } = await tx.run(
+          `INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price, product_id, expiry_date, batch_number)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [receiptId, item.item_name, item.unit_price, item.quantity, item.total_price, item.product_id, item.expiry_date, item.batch_number]
+        );
+        insertedItems.push({ ...item, id: lastID });
+      }
+
+      // 新建库存记录时使用本位币单价
+      const nextInventoryItems = insertedItems.map(item => ({
+        ...item,
+        unit_price: item.unit_price * exchangeRate
+      }));
+
+      // 未审核通过的收据尚未入库，只需重新检查审核问题
+      if (receipt.status === 'approved') {
+        await inventoryService.reconcileReceiptItems(tx, previousItems, nextInventoryItems, {
+          source: 'receipt_edit',
+          userId: req.user!.id,
+          referenceId: receiptId
         });
+      } else {
+        const reviewIssues = reviewService.evaluate({ items: lineItems, totals, confidence: receipt.ocr_confidence });
+        await tx.run(
+          'UPDATE receipts SET review_reasons = ? WHERE id = ?',
+          [reviewIssues.length > 0 ? JSON.stringify(reviewIssues) : null, receiptId]
+        );
       }
-    );
-  });
-});
 
-// 删除收据 (仅管理员)
-router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '收据'), (req: AuthRequest, res) => {
-  const receiptId = req.params.id;
-  const db = getDatabase();
-  
-  // 先获取收据信息以删除关联的图片文件
-  db.get('SELECT image_path FROM receipts WHERE id = ?', [receiptId], (err, receipt: any) => {
-    if (err) {
-      db.close();
-      return res.status(500).json({ error: '获取收据信息失败' });
-    }
-    
-    if (!receipt) {
-      db.close();
+      // 收据项目重建后重新分摊附加成本，并刷新被移除商品的到岸成本
+      await landedCostService.reallocateReceipts(tx, [receiptId]);
+      await landedCostService.refreshInventoryCosts(tx, previousItems.map(item => item.item_name));
+
+      return totals;
+    });
+
+    if (!totals) {
       return res.status(404).json({ error: '收据不存在' });
     }
-    
-    // 删除收据记录（级联删除收据项目）
-    db.run('DELETE FROM receipts WHERE id = ?', [receiptId], function(err) {
-      db.close();
-      if (err) {
-        return res.status(500).json({ error: '删除收据失败' });
+
+    res.json({ message: '收据更新成功', totals });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新收据失败:', error);
+    res.status(500).json({ error: '更新收据失败' });
+  }
+});
+
+// 删除收据 (仅管理员)，同时冲回该收据入库的库存
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '收据'), async (req: AuthRequest, res) => {
+  const receiptId = Number(req.params.id);
+
+  try {
+    const receipt = await connectionPool.transaction(async (tx) => {
+      // 先获取收据信息以删除关联的图片文件
+      const receipt = await tx.get('SELECT image_path, shipment_id, status FROM receipts WHERE id = ?', [receiptId]);
+      if (!receipt) {
+        return undefined;
       }
-      
-      // 删除关联的图片文件
-      if (receipt.image_path) {
-        const imagePath = path.join(process.env.UPLOAD_PATH || './uploads', receipt.image_path);
-        if (fs.existsSync(imagePath)) {
-          fs.unlinkSync(imagePath);
-        }
+
+      const previousItems = await tx.query('SELECT * FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+
+      // 待审核或已驳回的收据未入库，无需冲回
+      if (receipt.status === 'approved') {
+        await inventoryService.reconcileReceiptItems(tx, previousItems, [], {
+          source: 'receipt_delete',
+          userId: req.user!.id,
+          referenceId: receiptId
+        });
       }
-      
-      res.json({ message: '收据删除成功' });
+
+      // 外键级联未启用，显式删除收据项目并解除订单关联
+      await tx.run(
+        'UPDATE customer_order_items SET receipt_item_id = NULL WHERE receipt_item_id IN (SELECT id FROM receipt_items WHERE receipt_id = ?)',
+        [receiptId]
+      );
+      await tx.run('DELETE FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+      await tx.run('DELETE FROM landed_costs WHERE receipt_id = ?', [receiptId]);
+      await tx.run('DELETE FROM receipt_adjustments WHERE receipt_id = ?', [receiptId]);
+      await tx.run('DELETE FROM receipts WHERE id = ?', [receiptId]);
+
+      // 批次内剩余收据重新分摊批次成本，并刷新被删除商品的到岸成本
+      if (receipt.shipment_id) {
+        const remaining = await tx.query('SELECT id FROM receipts WHERE shipment_id = ?', [receipt.shipment_id]);
+        await landedCostService.reallocateReceipts(tx, remaining.map(row => row.id));
+      }
+      await landedCostService.refreshInventoryCosts(tx, previousItems.map(item => item.item_name));
+
+      return receipt;
     });
-  });
+
+    if (!receipt) {
+      return res.status(404).json({ error: '收据不存在' });
+    }
+
+    // 删除关联的图片文件
+    if (receipt.image_path) {
+      const imagePath = path.join(process.env.UPLOAD_PATH || './uploads', receipt.image_path);
+      if (fs.existsSync(imagePath)) {
+        fs.unlinkSync(imagePath);
+      }
+    }
+
+    res.json({ message: '收据删除成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('删除收据失败:', error);
+    res.status(500).json({ error: '删除收据失败' });
+  }
 });
 
 // 重新识别收据 (管理员功能)
@@ -734,20 +961,177 @@ router.get('/export/csv', authenticateToken, logOperation('导出', '历史记
   });
 });
 
+// 导出收据 XLSX（收据、收据明细、折扣与税额三个工作表）
+router.get('/export/xlsx', authenticateToken, logOperation('导出', '历史记录XLSX'), async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate, search, status } = req.query;
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (startDate) {
+      whereClause += ' AND r.created_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND r.created_at <= ?';
+      params.push(endDate);
+    }
+
+    if (search) {
+      whereClause += ' AND (u.username LIKE ? OR r.id = ?)';
+      params.push(`%${search}%`, search);
+    }
+
+    if (status) {
+      whereClause += ' AND r.status = ?';
+      params.push(status);
+    }
+
+    const receipts = await connectionPool.query(`
+      SELECT
+        r.*,
+        u.username,
+        COALESCE(s.name, r.merchant_name) as store_name,
+        r.total_amount * r.exchange_rate as base_total
+      FROM receipts r
+      JOIN users u ON r.user_id = u.id
+      LEFT JOIN stores s ON r.store_id = s.id
+      WHERE ${whereClause}
+      ORDER BY r.created_at DESC, r.id DESC
+    `, params);
+
+    const items = await connectionPool.query(`
+      SELECT ri.*, ri.total_price * r.exchange_rate as base_total
+      FROM receipt_items ri
+      JOIN receipts r ON ri.receipt_id = r.id
+      JOIN users u ON r.user_id = u.id
+      WHERE ${whereClause}
+      ORDER BY r.created_at DESC, r.id DESC, ri.id
+    `, params);
+
+    const adjustments = await connectionPool.query(`
+      SELECT ra.*
+      FROM receipt_adjustments ra
+      JOIN receipts r ON ra.receipt_id = r.id
+      JOIN users u ON r.user_id = u.id
+      WHERE ${whereClause}
+      ORDER BY r.created_at DESC, r.id DESC, ra.id
+    `, params);
+
+    const buffer = await spreadsheetService.buildWorkbook([
+      {
+        name: '收据',
+        columns: [
+          { header: '收据ID', key: 'id', width: 8, numFmt: '0' },
+          { header: '收据编号', key: 'receipt_number', width: 16 },
+          { header: '用户', key: 'username' },
+          { header: '门店', key: 'store_name', width: 24 },
+          { header: '购买时间', key: 'purchased_at', width: 20 },
+          { header: '上传时间', key: 'created_at', width: 20 },
+          { header: '币种', key: 'currency', width: 8 },
+          { header: '汇率', key: 'exchange_rate', numFmt: RATE_FORMAT },
+          { header: '商品小计', key: 'subtotal', numFmt: MONEY_FORMAT },
+          { header: '折扣', key: 'discount_amount', numFmt: MONEY_FORMAT },
+          { header: '税额', key: 'tax_amount', numFmt: MONEY_FORMAT },
+          { header: '收据总额', key: 'total_amount', numFmt: MONEY_FORMAT },
+          { header: '折合人民币', key: 'base_total', numFmt: MONEY_FORMAT },
+          { header: '状态', key: 'status', width: 14 }
+        ],
+        rows: receipts
+      },
+      {
+        name: '收据明细',
+        columns: [
+          { header: '收据ID', key: 'receipt_id', width: 8, numFmt: '0' },
+          { header: '商品名称', key: 'item_name', width: 32 },
+          { header: '单价', key: 'unit_price', numFmt: MONEY_FORMAT },
+          { header: '数量', key: 'quantity', numFmt: '0' },
+          { header: '小计', key: 'total_price', numFmt: MONEY_FORMAT },
+          { header: '折合人民币', key: 'base_total', numFmt: MONEY_FORMAT },
+          { header: '分摊附加成本', key: 'landed_cost', numFmt: MONEY_FORMAT }
+        ],
+        rows: items
+      },
+      {
+        name: '折扣与税额',
+        columns: [
+          { header: '收据ID', key: 'receipt_id', width: 8, numFmt: '0' },
+          { header: '类型', key: 'adjustment_type' },
+          { header: '说明', key: 'description', width: 24 },
+          { header: '金额', key: 'amount', numFmt: MONEY_FORMAT }
+        ],
+        rows: adjustments
+      }
+    ]);
+
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="receipts_${new Date().toISOString().split('T')[0]}.xlsx"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('导出收据失败:', error);
+    res.status(500).json({ error: '导出数据失败' });
+  }
+});
+
+// 导入历史收据 (仅管理员)，每行一个商品，任一行校验失败时不导入，返回逐行错误报告
+router.post('/import', authenticateToken, requireAdmin, logOperation('导入', '历史收据'), spreadsheetUpload.single('file'), async (req: AuthRequest, res) => {
+  const format = req.file && spreadsheetService.detectFormat(req.file.originalname, req.file.mimetype);
+  if (!req.file || !format) {
+    return res.status(400).json({ error: '请上传 XLSX 或 CSV 文件' });
+  }
+
+  try {
+    const rows = await spreadsheetService.readRows(req.file.buffer, format, RECEIPT_COLUMNS);
+    const result = await importService.importReceipts(rows, {
+      userId: req.user!.id,
+      dryRun: req.query.dryRun === 'true'
+    });
+
+    if (result.errors.length > 0) {
+      if (req.query.errorReport === 'xlsx') {
+        res.status(400);
+        res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+        res.setHeader('Content-Disposition', 'attachment; filename="receipt_import_errors.xlsx"');
+        return res.send(await spreadsheetService.buildErrorReport(result.errors));
+      }
+      return res.status(400).json({ error: '导入数据校验未通过，未导入任何数据', ...result });
+    }
+
+    res.json({ message: result.dryRun ? '校验通过，未写入数据' : '历史收据导入成功', ...result });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('导入历史收据失败:', error);
+    res.status(500).json({ error: '导入历史收据失败' });
+  }
+});
+
 // 获取历史记录统计
 router.get('/stats', authenticateToken, logOperation('查看', '历史记录统计'), (req: AuthRequest, res) => {
-  const { startDate, endDate } = req.query;
+  const { startDate, endDate, dateField } = req.query;
+
+  // dateField 选择按购买时间 (purchased_at，默认) 或上传时间 (created_at) 统计
+  let field: ReceiptDateField;
+  try {
+    field = resolveReceiptDateField(dateField);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : '无效的日期字段' });
+  }
+  const dateColumn = `r.${field}`;
   
   let whereClause = '1=1';
   const params: any[] = [];
   
   if (startDate) {
-    whereClause += ' AND created_at >= ?';
+    whereClause += ` AND ${dateColumn} >= ?`;
     params.push(startDate);
   }
   
   if (endDate) {
-    whereClause += ' AND created_at <= ?';
+    whereClause += ` AND ${dateColumn} <= ?`;
     params.push(endDate);
   }
   
@@ -761,7 +1145,7 @@ router.get('/stats', authenticateToken, logOperation('查看', '历史记录统
       MIN(total_amount) as min_value,
       MAX(total_amount) as max_value,
       COUNT(DISTINCT user_id) as unique_users
-    FROM receipts 
+    FROM receipts r
     WHERE ${whereClause}
   `, params, (err, stats) => {
     if (err) {
@@ -772,12 +1156,12 @@ router.get('/stats', authenticateToken, logOperation('查看', '历史记录统
     // 获取按日期分组的统计
     db.all(`
       SELECT 
-        DATE(created_at) as date,
+        DATE(${dateColumn}) as date,
         COUNT(*) as count,
         SUM(total_amount) as amount
-      FROM receipts 
+      FROM receipts r
       WHERE ${whereClause}
-      GROUP BY DATE(created_at)
+      GROUP BY DATE(${dateColumn})
       ORDER BY date DESC
       LIMIT 30
     `, params, (err, dailyStats) => {
@@ -806,6 +1190,7 @@ router.get('/stats', authenticateToken, logOperation('查看', '历史记录统
         }
         
         res.json({
+          dateField: field,
           summary: stats[0],
           daily_stats: dailyStats,
           popular_items: popularItems
@@ -815,4 +1200,38 @@ router.get('/stats', authenticateToken, logOperation('查看', '历史记录统
   });
 });
 
+// 获取收据详情（放在最后，避免拦截 /stats、/health 等固定路径）
+router.get('/:id', authenticateToken, logOperation('查看', '收据详情'), (req: AuthRequest, res) => {
+  const receiptId = req.params.id;
+  const db = getDatabase();
+  
+  db.get('SELECT * FROM receipts WHERE id = ?', [receiptId], (err, receipt) => {
+    if (err) {
+      db.close();
+      return res.status(500).json({ error: '获取收据失败' });
+    }
+    
+    if (!receipt) {
+      db.close();
+      return res.status(404).json({ error: '收据不存在' });
+    }
+    
+    db.all('SELECT * FROM receipt_items WHERE receipt_id = ?', [receiptId], (err, items) => {
+      if (err) {
+        db.close();
+        return res.status(500).json({ error: '获取收据项目失败' });
+      }
+      
+      db.all('SELECT * FROM receipt_adjustments WHERE receipt_id = ? ORDER BY id', [receiptId], (err, adjustments) => {
+        db.close();
+        if (err) {
+          return res.status(500).json({ error: '获取收据折扣和税额失败' });
+        }
+
+        res.json({ ...receipt, items, adjustments });
+      });
+    });
+  });
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,140 @@
+import express from 'express';
+import fs from 'fs';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { REPORT_FILE_FORMATS, ReportService } from '../services/reportService';
+import { ReportSchedulerService } from '../services/reportSchedulerService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const reportService = ReportService.getInstance();
+const schedulerService = ReportSchedulerService.getInstance();
+
+// 获取可生成的报表列表
+router.get('/', authenticateToken, logOperation('查看', '报表列表'), async (req: AuthRequest, res) => {
+  try {
+    res.json({ reports: reportService.listDefinitions() });
+  } catch (error) {
+    console.error('获取报表列表失败:', error);
+    res.status(500).json({ error: '获取报表列表失败' });
+  }
+});
+
+// 获取报表运行记录 (仅管理员)
+router.get('/runs', authenticateToken, requireAdmin, logOperation('查看', '报表运行记录'), async (req: AuthRequest, res) => {
+  try {
+    const { reportId, status, page, limit } = req.query;
+    res.json(await schedulerService.listRuns({
+      reportId: reportId as string,
+      status: status as string,
+      page: Number(page),
+      limit: Number(limit)
+    }));
+  } catch (error) {
+    console.error('获取报表运行记录失败:', error);
+    res.status(500).json({ error: '获取报表运行记录失败' });
+  }
+});
+
+// 获取定时报表任务状态 (仅管理员)
+router.get('/runs/jobs', authenticateToken, requireAdmin, logOperation('查看', '定时报表任务'), async (req: AuthRequest, res) => {
+  try {
+    res.json({ jobs: await schedulerService.listJobs() });
+  } catch (error) {
+    console.error('获取定时报表任务失败:', error);
+    res.status(500).json({ error: '获取定时报表任务失败' });
+  }
+});
+
+// 立即运行报表任务并保存到导出目录 (仅管理员)，notify 为 true 时发送给报表收件人
+router.post('/runs', authenticateToken, requireAdmin, logOperation('运行', '报表任务'), async (req: AuthRequest, res) => {
+  const { reportId, notify } = req.body;
+
+  if (!reportId) {
+    return res.status(400).json({ error: '请指定报表' });
+  }
+
+  try {
+    const run = await schedulerService.runReport(reportId, 'manual', { userId: req.user!.id, notify: notify === true });
+    if (run.status === 'failed') {
+      return res.status(500).json({ error: '报表运行失败', run });
+    }
+    res.status(201).json({ message: '报表运行成功', run });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('运行报表任务失败:', error);
+    res.status(500).json({ error: '运行报表任务失败' });
+  }
+});
+
+// 按运行记录重新运行报表 (仅管理员)
+router.post('/runs/:id/rerun', authenticateToken, requireAdmin, logOperation('重新运行', '报表任务'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const run = await schedulerService.rerun(Number(id), req.user!.id);
+    if (run.status === 'failed') {
+      return res.status(500).json({ error: '报表运行失败', run });
+    }
+    res.status(201).json({ message: '报表运行成功', run });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('重新运行报表任务失败:', error);
+    res.status(500).json({ error: '重新运行报表任务失败' });
+  }
+});
+
+// 下载运行生成的报表文件 (仅管理员)
+router.get('/runs/:id/download', authenticateToken, requireAdmin, logOperation('下载', '报表文件'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const run = await schedulerService.getRun(Number(id));
+    if (!run || !run.file_path || !fs.existsSync(run.file_path)) {
+      return res.status(404).json({ error: '报表文件不存在' });
+    }
+    res.download(run.file_path);
+  } catch (error) {
+    console.error('下载报表文件失败:', error);
+    res.status(500).json({ error: '下载报表文件失败' });
+  }
+});
+
+// 生成报表，format=pdf（默认）/excel 返回文件，format=json 返回报表数据；其余查询参数覆盖报表配置中的筛选条件
+router.get('/:id', authenticateToken, logOperation('生成', '报表'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { format = 'pdf', reportCurrency, ...filters } = req.query;
+  const fileFormat = REPORT_FILE_FORMATS[format as string];
+
+  if (format !== 'json' && (!fileFormat || !reportService.isFormatEnabled(format as string))) {
+    return res.status(400).json({ error: `不支持的报表格式: ${format}` });
+  }
+
+  try {
+    const report = await reportService.build(id, {
+      filters: filters as Record<string, any>,
+      reportCurrency: reportCurrency as string
+    });
+
+    if (format === 'json') {
+      return res.json(report);
+    }
+
+    const buffer = await reportService.render(report, format as string);
+    res.setHeader('Content-Type', fileFormat.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${id}_${new Date().toISOString().split('T')[0]}.${fileFormat.extension}"`);
+    res.send(buffer);
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('生成报表失败:', error);
+    res.status(500).json({ error: '生成报表失败' });
+  }
+});
+
+export default router;
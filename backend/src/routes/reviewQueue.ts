@@ -0,0 +1,94 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { ReviewService } from '../services/reviewService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const reviewService = ReviewService.getInstance();
+
+// 获取审核队列，默认列出待审核的收据
+router.get('/list', authenticateToken, logOperation('查看', '收据审核队列'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, status = 'pending_review' } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    if (!['pending_review', 'rejected', 'approved'].includes(status as string)) {
+      return res.status(400).json({ error: '无效的审核状态，可选值: pending_review, rejected, approved' });
+    }
+
+    const receipts = await connectionPool.query(`
+      SELECT
+        r.id, r.user_id, u.username, r.image_path, r.total_amount, r.grand_total, r.currency,
+        r.ocr_confidence, r.review_reasons, r.status, r.reviewed_by, r.reviewed_at, r.review_notes,
+        r.purchased_at, r.created_at,
+        COALESCE(s.name, r.merchant_name) as store_name,
+        (SELECT COUNT(*) FROM receipt_items ri WHERE ri.receipt_id = r.id) as item_count
+      FROM receipts r
+      LEFT JOIN users u ON r.user_id = u.id
+      LEFT JOIN stores s ON r.store_id = s.id
+      WHERE r.status = ?
+      ORDER BY r.created_at ASC, r.id ASC
+      LIMIT ? OFFSET ?
+    `, [status, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      'SELECT COUNT(*) as total FROM receipts WHERE status = ?',
+      [status]
+    );
+
+    res.json({
+      receipts: receipts.map(receipt => ({
+        ...receipt,
+        review_reasons: receipt.review_reasons ? JSON.parse(receipt.review_reasons) : []
+      })),
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取审核队列失败:', error);
+    res.status(500).json({
+      error: '获取审核队列失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 审核通过 (仅管理员)，收据项目在同一事务中入库
+router.post('/:id/approve', authenticateToken, requireAdmin, logOperation('审核通过', '收据'), async (req: AuthRequest, res) => {
+  try {
+    await reviewService.approve(Number(req.params.id), req.user!.id, req.body?.notes);
+    res.json({ message: '收据审核通过，已入库' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('审核收据失败:', error);
+    res.status(500).json({ error: '审核收据失败' });
+  }
+});
+
+// 审核驳回 (仅管理员)，收据保留备查且不入库
+router.post('/:id/reject', authenticateToken, requireAdmin, logOperation('审核驳回', '收据'), async (req: AuthRequest, res) => {
+  const { notes } = req.body || {};
+
+  if (!notes || !String(notes).trim()) {
+    return res.status(400).json({ error: '请填写驳回原因' });
+  }
+
+  try {
+    await reviewService.reject(Number(req.params.id), req.user!.id, String(notes).trim());
+    res.json({ message: '收据已驳回' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('驳回收据失败:', error);
+    res.status(500).json({ error: '驳回收据失败' });
+  }
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { SalesService } from '../services/salesService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+
+// 销售出库（扣减库存，库存不足时整单拒绝）
+router.post('/create', authenticateToken, logOperation('销售出库', '库存'), async (req: AuthRequest, res) => {
+  const { customerId, items, notes } = req.body;
+
+  if (!items || !Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: '出库项目不能为空' });
+  }
+
+  try {
+    if (customerId) {
+      const customers = await connectionPool.query('SELECT id FROM customers WHERE id = ?', [customerId]);
+      if (customers.length === 0) {
+        return res.status(404).json({ error: '客户不存在' });
+      }
+    }
+
+    const result = await SalesService.getInstance().recordSale({
+      userId: req.user!.id,
+      customerId,
+      notes,
+      items: items.map((item: any) => ({
+        inventoryId: item.inventoryId,
+        itemName: item.itemName || item.name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        locationId: item.locationId
+      }))
+    });
+
+    res.status(201).json({ message: '出库成功', ...result });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('销售出库失败:', error);
+    res.status(500).json({
+      error: '销售出库失败',
+      message: error instanceof Error ? error.message : '数据库操作错误'
+    });
+  }
+});
+
+// 获取销售记录列表
+router.get('/list', authenticateToken, logOperation('查看', '销售记录'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, customerId, startDate, endDate } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (customerId) {
+      whereClause += ' AND s.customer_id = ?';
+      params.push(customerId);
+    }
+
+    if (startDate) {
+      whereClause += ' AND s.created_at >= ?';
+      params.push(startDate);
+    }
+
+    if (endDate) {
+      whereClause += ' AND s.created_at <= ?';
+      params.push(endDate);
+    }
+
+    const sales = await connectionPool.query(`
+      SELECT
+        s.*,
+        c.name as customer_name,
+        u.username,
+        (SELECT SUM(si.quantity) FROM sale_items si WHERE si.sale_id = s.id) as total_quantity
+      FROM sales s
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN users u ON s.user_id = u.id
+      WHERE ${whereClause}
+      ORDER BY s.created_at DESC
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM sales s WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      sales,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取销售记录失败:', error);
+    res.status(500).json({
+      error: '获取销售记录失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 获取销售记录详情
+router.get('/:id', authenticateToken, logOperation('查看', '销售详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const sales = await connectionPool.query(`
+      SELECT s.*, c.name as customer_name, u.username
+      FROM sales s
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN users u ON s.user_id = u.id
+      WHERE s.id = ?
+    `, [id]);
+
+    if (sales.length === 0) {
+      return res.status(404).json({ error: '销售记录不存在' });
+    }
+
+    const items = await connectionPool.query(
+      'SELECT * FROM sale_items WHERE sale_id = ? ORDER BY id',
+      [id]
+    );
+
+    res.json({ ...sales[0], items });
+  } catch (error) {
+    console.error('获取销售详情失败:', error);
+    res.status(500).json({ error: '获取销售详情失败' });
+  }
+});
+
+export default router;
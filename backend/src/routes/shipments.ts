@@ -0,0 +1,203 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { LandedCostService } from '../services/landedCostService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const landedCostService = LandedCostService.getInstance();
+
+// 获取发货批次列表
+router.get('/list', authenticateToken, logOperation('查看', '发货批次'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, search } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (s.name LIKE ? OR s.tracking_number LIKE ?)';
+      params.push(`%${search}%`, `%${search}%`);
+    }
+
+    const shipments = await connectionPool.query(`
+      SELECT
+        s.*,
+        (SELECT COUNT(*) FROM receipts r WHERE r.shipment_id = s.id) as receipt_count,
+        (SELECT COALESCE(SUM(lc.amount * lc.exchange_rate), 0) FROM landed_costs lc WHERE lc.shipment_id = s.id) as total_landed_cost
+      FROM shipments s
+      WHERE ${whereClause}
+      ORDER BY s.created_at DESC
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM shipments s WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      shipments,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取发货批次失败:', error);
+    res.status(500).json({
+      error: '获取发货批次失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 创建发货批次
+router.post('/create', authenticateToken, logOperation('创建', '发货批次'), async (req: AuthRequest, res) => {
+  const { name, trackingNumber, notes, receiptIds = [] } = req.body;
+
+  if (!name || !name.trim()) {
+    return res.status(400).json({ error: '批次名称不能为空' });
+  }
+  if (!Array.isArray(receiptIds)) {
+    return res.status(400).json({ error: '收据列表格式无效' });
+  }
+
+  try {
+    const shipmentId = await connectionPool.transaction(async (tx) => {
+      const result = await tx.run(
+        'INSERT INTO shipments (name, tracking_number, notes, user_id) VALUES (?, ?, ?, ?)',
+        [name.trim(), trackingNumber, notes, req.user!.id]
+      );
+
+      await landedCostService.assignReceiptsToShipment(tx, result.lastID, receiptIds);
+      return result.lastID;
+    });
+
+    res.status(201).json({ message: '发货批次创建成功', id: shipmentId });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('创建发货批次失败:', error);
+    res.status(500).json({ error: '创建发货批次失败' });
+  }
+});
+
+// 获取发货批次详情（含收据、附加成本和分摊结果）
+router.get('/:id', authenticateToken, logOperation('查看', '发货批次详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const shipments = await connectionPool.query('SELECT * FROM shipments WHERE id = ?', [id]);
+    if (shipments.length === 0) {
+      return res.status(404).json({ error: '发货批次不存在' });
+    }
+
+    const receipts = await connectionPool.query(
+      'SELECT id, total_amount, currency, exchange_rate, created_at FROM receipts WHERE shipment_id = ? ORDER BY id',
+      [id]
+    );
+
+    const costs = await connectionPool.query(
+      'SELECT *, amount * exchange_rate as base_amount FROM landed_costs WHERE shipment_id = ? ORDER BY id',
+      [id]
+    );
+
+    const items = await connectionPool.query(`
+      SELECT
+        ri.*,
+        ri.unit_price * r.exchange_rate as base_unit_price,
+        ri.unit_price * r.exchange_rate + ri.landed_cost / ri.quantity as landed_unit_cost
+      FROM receipt_items ri
+      JOIN receipts r ON ri.receipt_id = r.id
+      WHERE r.shipment_id = ?
+      ORDER BY ri.receipt_id, ri.id
+    `, [id]);
+
+    res.json({ ...shipments[0], receipts, costs, items });
+  } catch (error) {
+    console.error('获取发货批次详情失败:', error);
+    res.status(500).json({ error: '获取发货批次详情失败' });
+  }
+});
+
+// 更新发货批次，提供 receiptIds 时替换批次包含的收据
+router.put('/:id', authenticateToken, logOperation('更新', '发货批次'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, trackingNumber, notes, receiptIds } = req.body;
+
+  if (receiptIds !== undefined && !Array.isArray(receiptIds)) {
+    return res.status(400).json({ error: '收据列表格式无效' });
+  }
+
+  try {
+    const updated = await connectionPool.transaction(async (tx) => {
+      const shipment = await tx.get('SELECT * FROM shipments WHERE id = ?', [id]);
+      if (!shipment) {
+        return false;
+      }
+
+      await tx.run(
+        'UPDATE shipments SET name = ?, tracking_number = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [
+          name !== undefined ? name : shipment.name,
+          trackingNumber !== undefined ? trackingNumber : shipment.tracking_number,
+          notes !== undefined ? notes : shipment.notes,
+          id
+        ]
+      );
+
+      if (receiptIds) {
+        await landedCostService.assignReceiptsToShipment(tx, Number(id), receiptIds);
+      }
+
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(404).json({ error: '发货批次不存在' });
+    }
+
+    res.json({ message: '发货批次更新成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新发货批次失败:', error);
+    res.status(500).json({ error: '更新发货批次失败' });
+  }
+});
+
+// 删除发货批次 (仅管理员)，同时删除批次上的附加成本
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '发货批次'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await connectionPool.transaction(async (tx) => {
+      const shipment = await tx.get('SELECT id FROM shipments WHERE id = ?', [id]);
+      if (!shipment) {
+        return false;
+      }
+
+      await tx.run('DELETE FROM landed_costs WHERE shipment_id = ?', [id]);
+      await landedCostService.assignReceiptsToShipment(tx, Number(id), []);
+      await tx.run('DELETE FROM shipments WHERE id = ?', [id]);
+
+      return true;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: '发货批次不存在' });
+    }
+
+    res.json({ message: '发货批次删除成功' });
+  } catch (error) {
+    console.error('删除发货批次失败:', error);
+    res.status(500).json({ error: '删除发货批次失败' });
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import express from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { RestockService, SHOPPING_LIST_STATUSES } from '../services/restockService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const restockService = RestockService.getInstance();
+
+// 获取按门店分组的采购清单（默认只看草稿）
+router.get('/', authenticateToken, logOperation('查看', '采购清单'), async (req: AuthRequest, res) => {
+  const { status, storeId } = req.query;
+
+  if (status && !SHOPPING_LIST_STATUSES.includes(status as string)) {
+    return res.status(400).json({ error: `无效的采购清单状态，可选值: ${SHOPPING_LIST_STATUSES.join(', ')}` });
+  }
+
+  try {
+    res.json(await restockService.getShoppingLists({
+      status: status as string,
+      storeId: storeId ? Number(storeId) : undefined
+    }));
+  } catch (error) {
+    console.error('获取采购清单失败:', error);
+    res.status(500).json({ error: '获取采购清单失败' });
+  }
+});
+
+// 为库存在补货触发阈值及以下的商品生成采购清单草稿
+router.post('/generate', authenticateToken, logOperation('生成', '采购清单'), async (req: AuthRequest, res) => {
+  try {
+    const items = await restockService.generateDrafts(req.user!.id);
+    res.json({ message: `已生成 ${items.length} 条采购清单草稿`, created: items.length, items });
+  } catch (error) {
+    console.error('生成采购清单失败:', error);
+    res.status(500).json({ error: '生成采购清单失败' });
+  }
+});
+
+// 手动把商品加入采购清单，未指定数量时按消耗量估算
+router.post('/items', authenticateToken, logOperation('添加', '采购清单项'), async (req: AuthRequest, res) => {
+  const { inventoryId, quantity, notes } = req.body;
+
+  if (!inventoryId) {
+    return res.status(400).json({ error: '请选择库存商品' });
+  }
+  if (quantity !== undefined && (!Number.isInteger(Number(quantity)) || Number(quantity) <= 0)) {
+    return res.status(400).json({ error: '采购数量必须是正整数' });
+  }
+
+  try {
+    const item = await restockService.createDraft(Number(inventoryId), {
+      source: 'manual',
+      userId: req.user!.id,
+      quantity: quantity !== undefined ? Number(quantity) : undefined,
+      notes
+    });
+    if (!item) {
+      return res.status(409).json({ error: '该商品已在采购清单草稿中' });
+    }
+
+    res.status(201).json(item);
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('添加采购清单项失败:', error);
+    res.status(500).json({ error: '添加采购清单项失败' });
+  }
+});
+
+// 修改采购清单项（数量、门店、备注，或标记为已采购/不采购）
+router.put('/items/:id', authenticateToken, logOperation('更新', '采购清单项'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { quantity, storeId, status, notes } = req.body;
+
+  try {
+    res.json(await restockService.updateItem(Number(id), { quantity, storeId, status, notes }, req.user!.id));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新采购清单项失败:', error);
+    res.status(500).json({ error: '更新采购清单项失败' });
+  }
+});
+
+export default router;
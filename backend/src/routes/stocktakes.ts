@@ -0,0 +1,137 @@
+import express from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { StocktakeService, STOCKTAKE_REASON_CODES, STOCKTAKE_STATUSES } from '../services/stocktakeService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const stocktakeService = StocktakeService.getInstance();
+
+// 获取盘点差异原因代码
+router.get('/reason-codes', authenticateToken, (req: AuthRequest, res) => {
+  res.json(Object.entries(STOCKTAKE_REASON_CODES).map(([code, label]) => ({ code, label })));
+});
+
+// 获取盘点单列表
+router.get('/', authenticateToken, logOperation('查看', '盘点单'), async (req: AuthRequest, res) => {
+  const { status, page, limit } = req.query;
+
+  if (status && !STOCKTAKE_STATUSES.includes(status as string)) {
+    return res.status(400).json({ error: `无效的盘点单状态，可选值: ${STOCKTAKE_STATUSES.join(', ')}` });
+  }
+
+  try {
+    res.json(await stocktakeService.listStocktakes({ status: status as string, page: Number(page), limit: Number(limit) }));
+  } catch (error) {
+    console.error('获取盘点单列表失败:', error);
+    res.status(500).json({ error: '获取盘点单列表失败' });
+  }
+});
+
+// 创建盘点单
+router.post('/', authenticateToken, requireAdmin, logOperation('创建', '盘点单'), async (req: AuthRequest, res) => {
+  const { name, notes } = req.body;
+
+  if (!name || !String(name).trim()) {
+    return res.status(400).json({ error: '盘点单名称不能为空' });
+  }
+
+  try {
+    res.status(201).json(await stocktakeService.create(String(name), notes, req.user!.id));
+  } catch (error) {
+    console.error('创建盘点单失败:', error);
+    res.status(500).json({ error: '创建盘点单失败' });
+  }
+});
+
+// 获取盘点单详情（含盘点明细和各人计数）
+router.get('/:id', authenticateToken, logOperation('查看', '盘点单详情'), async (req: AuthRequest, res) => {
+  const id = Number(req.params.id);
+
+  try {
+    const stocktake = await stocktakeService.getStocktake(id);
+    res.json({ ...stocktake, lines: await stocktakeService.getLines(id) });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取盘点单详情失败:', error);
+    res.status(500).json({ error: '获取盘点单详情失败' });
+  }
+});
+
+// 录入实盘数量（每人对每个商品记录一个数量，重复录入时覆盖本人上次的数量）
+router.post('/:id/counts', authenticateToken, logOperation('录入', '盘点数量'), async (req: AuthRequest, res) => {
+  const { items } = req.body;
+
+  try {
+    const lines = await stocktakeService.recordCounts(Number(req.params.id), items, req.user!.id);
+    res.json({ message: '盘点数量已记录', lines });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('录入盘点数量失败:', error);
+    res.status(500).json({ error: '录入盘点数量失败' });
+  }
+});
+
+// 设置盘点差异原因
+router.put('/:id/lines/:lineId', authenticateToken, requireAdmin, logOperation('更新', '盘点差异原因'), async (req: AuthRequest, res) => {
+  const { reasonCode, notes } = req.body;
+
+  try {
+    res.json(await stocktakeService.updateLine(Number(req.params.id), Number(req.params.lineId), { reasonCode, notes }));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新盘点差异原因失败:', error);
+    res.status(500).json({ error: '更新盘点差异原因失败' });
+  }
+});
+
+// 获取盘点差异报表（按金额）
+router.get('/:id/variance', authenticateToken, logOperation('查看', '盘点差异报表'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await stocktakeService.getVarianceReport(Number(req.params.id)));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取盘点差异报表失败:', error);
+    res.status(500).json({ error: '获取盘点差异报表失败' });
+  }
+});
+
+// 过账盘点单，按差异调整库存
+router.post('/:id/post', authenticateToken, requireAdmin, logOperation('过账', '盘点单'), async (req: AuthRequest, res) => {
+  const { defaultReasonCode } = req.body;
+
+  try {
+    const report = await stocktakeService.post(Number(req.params.id), req.user!.id, defaultReasonCode);
+    res.json({ message: '盘点单已过账', ...report });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('盘点单过账失败:', error);
+    res.status(500).json({ error: '盘点单过账失败' });
+  }
+});
+
+// 取消盘点单（不调整库存）
+router.post('/:id/cancel', authenticateToken, requireAdmin, logOperation('取消', '盘点单'), async (req: AuthRequest, res) => {
+  try {
+    await stocktakeService.cancel(Number(req.params.id));
+    res.json({ message: '盘点单已取消' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('取消盘点单失败:', error);
+    res.status(500).json({ error: '取消盘点单失败' });
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { StoreService } from '../services/storeService';
+
+const router = express.Router();
+const storeService = StoreService.getInstance();
+
+// 获取门店列表（含收据数量和采购金额）
+router.get('/list', authenticateToken, logOperation('查看', '门店'), async (req: AuthRequest, res) => {
+  try {
+    const { page = 1, limit = 20, search } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (search) {
+      whereClause += ' AND (s.name LIKE ? OR s.address LIKE ?)';
+      params.push(`%${search}%`, `%${search}%`);
+    }
+
+    const stores = await connectionPool.query(`
+      SELECT
+        s.*,
+        (SELECT COUNT(*) FROM receipts r WHERE r.store_id = s.id) as receipt_count,
+        (SELECT COALESCE(SUM(r.total_amount * r.exchange_rate), 0) FROM receipts r WHERE r.store_id = s.id) as total_spent,
+        (SELECT MAX(r.created_at) FROM receipts r WHERE r.store_id = s.id) as last_receipt_at
+      FROM stores s
+      WHERE ${whereClause}
+      ORDER BY s.name
+      LIMIT ? OFFSET ?
+    `, [...params, Number(limit), offset]);
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM stores s WHERE ${whereClause}`,
+      params
+    );
+
+    res.json({
+      stores,
+      total,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(total / Number(limit))
+    });
+  } catch (error) {
+    console.error('获取门店列表失败:', error);
+    res.status(500).json({
+      error: '获取门店列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 添加门店
+router.post('/add', authenticateToken, logOperation('添加', '门店'), async (req: AuthRequest, res) => {
+  const { name, address, country, notes } = req.body;
+
+  if (!name || !name.trim()) {
+    return res.status(400).json({ error: '门店名称不能为空' });
+  }
+
+  try {
+    const result = await connectionPool.run(
+      'INSERT INTO stores (name, normalized_name, address, country, notes) VALUES (?, ?, ?, ?, ?)',
+      [name.trim(), storeService.normalize(name), address, country, notes]
+    );
+
+    res.status(201).json({ message: '门店添加成功', id: result.lastID });
+  } catch (error) {
+    console.error('添加门店失败:', error);
+    res.status(500).json({ error: '添加门店失败' });
+  }
+});
+
+// 获取门店详情（含最近的收据）
+router.get('/:id', authenticateToken, logOperation('查看', '门店详情'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const stores = await connectionPool.query('SELECT * FROM stores WHERE id = ?', [id]);
+    if (stores.length === 0) {
+      return res.status(404).json({ error: '门店不存在' });
+    }
+
+    const receipts = await connectionPool.query(
+      `SELECT id, total_amount, currency, exchange_rate, receipt_number, created_at
+       FROM receipts WHERE store_id = ? ORDER BY created_at DESC LIMIT 50`,
+      [id]
+    );
+
+    res.json({ ...stores[0], receipts });
+  } catch (error) {
+    console.error('获取门店详情失败:', error);
+    res.status(500).json({ error: '获取门店详情失败' });
+  }
+});
+
+// 更新门店
+router.put('/:id', authenticateToken, logOperation('更新', '门店'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, address, country, notes } = req.body;
+
+  if (name !== undefined && (!name || !name.trim())) {
+    return res.status(400).json({ error: '门店名称不能为空' });
+  }
+
+  try {
+    const stores = await connectionPool.query('SELECT * FROM stores WHERE id = ?', [id]);
+    if (stores.length === 0) {
+      return res.status(404).json({ error: '门店不存在' });
+    }
+
+    const store = stores[0];
+    const nextName = name !== undefined ? name.trim() : store.name;
+
+    await connectionPool.run(
+      `UPDATE stores SET name = ?, normalized_name = ?, address = ?, country = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        nextName,
+        storeService.normalize(nextName),
+        address !== undefined ? address : store.address,
+        country !== undefined ? country : store.country,
+        notes !== undefined ? notes : store.notes,
+        id
+      ]
+    );
+
+    res.json({ message: '门店更新成功' });
+  } catch (error) {
+    console.error('更新门店失败:', error);
+    res.status(500).json({ error: '更新门店失败' });
+  }
+});
+
+// 删除门店 (仅管理员)，已关联的收据保留并解除关联
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '门店'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const deleted = await connectionPool.transaction(async (tx) => {
+      const store = await tx.get('SELECT id FROM stores WHERE id = ?', [id]);
+      if (!store) {
+        return false;
+      }
+
+      await tx.run('UPDATE receipts SET store_id = NULL WHERE store_id = ?', [id]);
+      await tx.run('DELETE FROM stores WHERE id = ?', [id]);
+      return true;
+    });
+
+    if (!deleted) {
+      return res.status(404).json({ error: '门店不存在' });
+    }
+
+    res.json({ message: '门店删除成功' });
+  } catch (error) {
+    console.error('删除门店失败:', error);
+    res.status(500).json({ error: '删除门店失败' });
+  }
+});
+
+export default router;
@@ -9,6 +9,15 @@ import { ErrorHandlingService } from '../services/errorHandlingService';
 import { ErrorRecoveryService } from '../services/errorRecoveryService';
 import { BedrockClientUtil } from '../utils/bedrockClient';
 import { AWSConfigManager } from '../config/aws';
+import { CategoryService } from '../services/categoryService';
+import { BusinessError } from '../utils/businessError';
+import {
+  getInventoryConfig,
+  saveInventoryConfig,
+  getInventoryReportConfig,
+  saveInventoryReportConfig
+} from '../config/inventory';
+import { getOCRConfig, saveOCRConfig } from '../config/ocr';
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
@@ -551,9 +560,9 @@ router.post('/inventory/config', authenticateToken, requireAdmin, logOperation('
 });
 
 // 获取库存分类列表
-router.get('/inventory/categories', authenticateToken, requireAdmin, logOperation('查看', '库存分类'), (req: AuthRequest, res) => {
+router.get('/inventory/categories', authenticateToken, requireAdmin, logOperation('查看', '库存分类'), async (req: AuthRequest, res) => {
   try {
-    const categories = getInventoryCategories();
+    const categories = await CategoryService.getInstance().list('category');
     res.json(categories);
   } catch (error) {
     console.error('获取库存分类失败:', error);
@@ -561,22 +570,30 @@ router.get('/inventory/categories', authenticateToken, requireAdmin, logOperatio
   }
 });
 
-// 更新库存分类
-router.post('/inventory/categories', authenticateToken, requireAdmin, logOperation('更新', '库存分类'), (req: AuthRequest, res) => {
+// 批量登记或更新库存分类（按ID或名称匹配，未列出的分类不会删除）
+router.post('/inventory/categories', authenticateToken, requireAdmin, logOperation('更新', '库存分类'), async (req: AuthRequest, res) => {
+  const { categories } = req.body;
+
+  if (!Array.isArray(categories)) {
+    return res.status(400).json({ error: '请提供分类列表' });
+  }
+
   try {
-    const { categories } = req.body;
-    saveInventoryCategories(categories);
+    await CategoryService.getInstance().upsertMany('category', categories);
     res.json({ message: '库存分类更新成功' });
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('更新库存分类失败:', error);
     res.status(500).json({ error: '更新库存分类失败' });
   }
 });
 
 // 获取库存标签列表
-router.get('/inventory/tags', authenticateToken, requireAdmin, logOperation('查看', '库存标签'), (req: AuthRequest, res) => {
+router.get('/inventory/tags', authenticateToken, requireAdmin, logOperation('查看', '库存标签'), async (req: AuthRequest, res) => {
   try {
-    const tags = getInventoryTags();
+    const tags = await CategoryService.getInstance().list('tag');
     res.json(tags);
   } catch (error) {
     console.error('获取库存标签失败:', error);
@@ -584,13 +601,21 @@ router.get('/inventory/tags', authenticateToken, requireAdmin, logOperation('查
   }
 });
 
-// 更新库存标签
-router.post('/inventory/tags', authenticateToken, requireAdmin, logOperation('更新', '库存标签'), (req: AuthRequest, res) => {
+// 批量登记或更新库存标签（按ID或名称匹配，未列出的标签不会删除）
+router.post('/inventory/tags', authenticateToken, requireAdmin, logOperation('更新', '库存标签'), async (req: AuthRequest, res) => {
+  const { tags } = req.body;
+
+  if (!Array.isArray(tags)) {
+    return res.status(400).json({ error: '请提供标签列表' });
+  }
+
   try {
-    const { tags } = req.body;
-    saveInventoryTags(tags);
+    await CategoryService.getInstance().upsertMany('tag', tags);
     res.json({ message: '库存标签更新成功' });
   } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
     console.error('更新库存标签失败:', error);
     res.status(500).json({ error: '更新库存标签失败' });
   }
@@ -712,62 +737,6 @@ async function loadEncryptedConfig(): Promise<any> {
   }
 }
 
-// OCR配置管理函数
-function getOCRConfig() {
-  const defaultConfig = {
-    imageProcessing: {
-      maxWidth: 2048,
-      maxHeight: 2048,
-      quality: 85,
-      format: 'jpeg',
-      enhanceForOCR: true,
-      preserveAspectRatio: true
-    },
-    recognition: {
-      maxRetries: 3,
-      baseDelay: 2000,
-      maxDelay: 60000,
-      timeoutMs: 60000,
-      confidenceThreshold: 0.7,
-      enableFallback: true
-    },
-    validation: {
-      maxItemNameLength: 100,
-      minPrice: 0.01,
-      maxPrice: 99999.99,
-      priceTolerancePercent: 1
-    }
-  };
-
-  try {
-    const configFile = path.join(process.cwd(), 'config', 'ocr-config.json');
-    if (fs.existsSync(configFile)) {
-      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
-      return { ...defaultConfig, ...savedConfig };
-    }
-  } catch (error) {
-    console.error('读取OCR配置失败:', error);
-  }
-
-  return defaultConfig;
-}
-
-function saveOCRConfig(config: any) {
-  try {
-    const configDir = path.join(process.cwd(), 'config');
-    const configFile = path.join(configDir, 'ocr-config.json');
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
-  } catch (error) {
-    console.error('保存OCR配置失败:', error);
-    throw error;
-  }
-}
-
 function getOCRPromptTemplate() {
   const defaultTemplate = `请分析这张收据图片，提取其中的商品信息。请仔细识别中文和英文文字，并返回严格的JSON格式数据。
 
@@ -827,220 +796,4 @@ function saveOCRPromptTemplate(template: string) {
   }
 }
 
-// 库存配置管理函数
-function getInventoryConfig() {
-  const defaultConfig = {
-    alertThresholds: {
-      globalLowStockThreshold: 10,
-      globalOutOfStockThreshold: 0,
-      enableGlobalAlerts: true,
-      enableItemSpecificAlerts: true
-    },
-    autoRestock: {
-      enabled: false,
-      defaultRestockQuantity: 50,
-      restockTriggerThreshold: 5,
-      enableEmailNotifications: true,
-      notificationEmails: []
-    },
-    display: {
-      defaultPageSize: 20,
-      showLowStockFirst: true,
-      highlightCriticalItems: true,
-      showStockValue: true,
-      defaultSortField: 'item_name',
-      defaultSortOrder: 'asc'
-    },
-    validation: {
-      maxItemNameLength: 100,
-      minStockQuantity: 0,
-      maxStockQuantity: 999999,
-      requireCategory: false,
-      requireTags: false
-    }
-  };
-
-  try {
-    const configFile = path.join(process.cwd(), 'config', 'inventory-config.json');
-    if (fs.existsSync(configFile)) {
-      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
-      return { ...defaultConfig, ...savedConfig };
-    }
-  } catch (error) {
-    console.error('读取库存配置失败:', error);
-  }
-
-  return defaultConfig;
-}
-
-function saveInventoryConfig(config: any) {
-  try {
-    const configDir = path.join(process.cwd(), 'config');
-    const configFile = path.join(configDir, 'inventory-config.json');
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
-  } catch (error) {
-    console.error('保存库存配置失败:', error);
-    throw error;
-  }
-}
-
-function getInventoryCategories() {
-  const defaultCategories = [
-    { id: 1, name: '食品', description: '各类食品商品', color: '#52c41a' },
-    { id: 2, name: '饮料', description: '各类饮品', color: '#1890ff' },
-    { id: 3, name: '日用品', description: '日常生活用品', color: '#faad14' },
-    { id: 4, name: '化妆品', description: '美容护肤产品', color: '#eb2f96' },
-    { id: 5, name: '电子产品', description: '电子设备及配件', color: '#722ed1' },
-    { id: 6, name: '服装', description: '各类服装商品', color: '#13c2c2' },
-    { id: 7, name: '其他', description: '其他类别商品', color: '#8c8c8c' }
-  ];
-
-  try {
-    const categoriesFile = path.join(process.cwd(), 'config', 'inventory-categories.json');
-    if (fs.existsSync(categoriesFile)) {
-      return JSON.parse(fs.readFileSync(categoriesFile, 'utf8'));
-    }
-  } catch (error) {
-    console.error('读取库存分类失败:', error);
-  }
-
-  return defaultCategories;
-}
-
-function saveInventoryCategories(categories: any[]) {
-  try {
-    const configDir = path.join(process.cwd(), 'config');
-    const categoriesFile = path.join(configDir, 'inventory-categories.json');
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(categoriesFile, JSON.stringify(categories, null, 2));
-  } catch (error) {
-    console.error('保存库存分类失败:', error);
-    throw error;
-  }
-}
-
-function getInventoryTags() {
-  const defaultTags = [
-    { id: 1, name: '热销', color: '#f50' },
-    { id: 2, name: '新品', color: '#2db7f5' },
-    { id: 3, name: '促销', color: '#87d068' },
-    { id: 4, name: '季节性', color: '#108ee9' },
-    { id: 5, name: '限量', color: '#f56a00' },
-    { id: 6, name: '进口', color: '#722ed1' },
-    { id: 7, name: '有机', color: '#52c41a' },
-    { id: 8, name: '高端', color: '#eb2f96' }
-  ];
-
-  try {
-    const tagsFile = path.join(process.cwd(), 'config', 'inventory-tags.json');
-    if (fs.existsSync(tagsFile)) {
-      return JSON.parse(fs.readFileSync(tagsFile, 'utf8'));
-    }
-  } catch (error) {
-    console.error('读取库存标签失败:', error);
-  }
-
-  return defaultTags;
-}
-
-function saveInventoryTags(tags: any[]) {
-  try {
-    const configDir = path.join(process.cwd(), 'config');
-    const tagsFile = path.join(configDir, 'inventory-tags.json');
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(tagsFile, JSON.stringify(tags, null, 2));
-  } catch (error) {
-    console.error('保存库存标签失败:', error);
-    throw error;
-  }
-}
-
-function getInventoryReportConfig() {
-  const defaultConfig = {
-    reports: [
-      {
-        id: 'low-stock',
-        name: '低库存报表',
-        description: '显示库存不足的商品',
-        enabled: true,
-        schedule: 'daily',
-        recipients: [],
-        filters: {
-          threshold: 10,
-          includeOutOfStock: true
-        }
-      },
-      {
-        id: 'stock-value',
-        name: '库存价值报表',
-        description: '显示库存总价值统计',
-        enabled: true,
-        schedule: 'weekly',
-        recipients: [],
-        filters: {
-          groupByCategory: true,
-          includeZeroValue: false
-        }
-      },
-      {
-        id: 'movement-analysis',
-        name: '库存流动分析',
-        description: '分析库存变动趋势',
-        enabled: false,
-        schedule: 'monthly',
-        recipients: [],
-        filters: {
-          period: 30,
-          includeInactive: false
-        }
-      }
-    ],
-    exportFormats: ['excel', 'csv', 'pdf'],
-    defaultFormat: 'excel',
-    autoExport: false,
-    exportPath: './exports'
-  };
-
-  try {
-    const configFile = path.join(process.cwd(), 'config', 'inventory-report-config.json');
-    if (fs.existsSync(configFile)) {
-      const savedConfig = JSON.parse(fs.readFileSync(configFile, 'utf8'));
-      return { ...defaultConfig, ...savedConfig };
-    }
-  } catch (error) {
-    console.error('读取库存报表配置失败:', error);
-  }
-
-  return defaultConfig;
-}
-
-function saveInventoryReportConfig(config: any) {
-  try {
-    const configDir = path.join(process.cwd(), 'config');
-    const configFile = path.join(configDir, 'inventory-report-config.json');
-    
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
-    }
-    
-    fs.writeFileSync(configFile, JSON.stringify(config, null, 2));
-  } catch (error) {
-    console.error('保存库存报表配置失败:', error);
-    throw error;
-  }
-}
-
 export default router;
\ No newline at end of file
@@ -0,0 +1,84 @@
+import express from 'express';
+import { connectionPool } from '../database/init';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { CategoryService } from '../services/categoryService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const categoryService = CategoryService.getInstance();
+
+// 获取标签列表（含关联的库存项目数量）
+router.get('/list', authenticateToken, logOperation('查看', '库存标签'), async (req: AuthRequest, res) => {
+  try {
+    const tags = await categoryService.list('tag');
+    res.json({ tags, required: categoryService.isRequired('tag') });
+  } catch (error) {
+    console.error('获取标签列表失败:', error);
+    res.status(500).json({
+      error: '获取标签列表失败',
+      message: error instanceof Error ? error.message : '数据库查询错误'
+    });
+  }
+});
+
+// 添加标签 (仅管理员)
+router.post('/add', authenticateToken, requireAdmin, logOperation('添加', '库存标签'), async (req: AuthRequest, res) => {
+  const { name, color } = req.body;
+
+  try {
+    const id = await connectionPool.transaction(tx => categoryService.create(tx, 'tag', { name, color }));
+    res.status(201).json({ message: '标签添加成功', id });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('添加标签失败:', error);
+    res.status(500).json({ error: '添加标签失败' });
+  }
+});
+
+// 更新标签 (仅管理员)
+router.put('/:id', authenticateToken, requireAdmin, logOperation('更新', '库存标签'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+  const { name, color } = req.body;
+
+  try {
+    const updated = await connectionPool.transaction(tx => categoryService.update(tx, 'tag', Number(id), { name, color }));
+
+    if (!updated) {
+      return res.status(404).json({ error: '标签不存在' });
+    }
+
+    res.json({ message: '标签更新成功' });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('更新标签失败:', error);
+    res.status(500).json({ error: '更新标签失败' });
+  }
+});
+
+// 删除标签及其与库存项目的关联 (仅管理员)
+router.delete('/:id', authenticateToken, requireAdmin, logOperation('删除', '库存标签'), async (req: AuthRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const unlinked = await connectionPool.transaction(tx => categoryService.remove(tx, 'tag', Number(id)));
+
+    if (unlinked === null) {
+      return res.status(404).json({ error: '标签不存在' });
+    }
+
+    res.json({ message: '标签删除成功', unlinkedItems: unlinked });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('删除标签失败:', error);
+    res.status(500).json({ error: '删除标签失败' });
+  }
+});
+
+export default router;
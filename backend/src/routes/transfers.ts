@@ -0,0 +1,105 @@
+import express from 'express';
+import { authenticateToken, AuthRequest, requireAdmin } from '../middleware/auth';
+import { logOperation } from '../middleware/logger';
+import { StockTransferService, TRANSFER_STATUSES } from '../services/stockTransferService';
+import { BusinessError } from '../utils/businessError';
+
+const router = express.Router();
+const transferService = StockTransferService.getInstance();
+
+// 获取调拨单列表
+router.get('/', authenticateToken, logOperation('查看', '调拨单'), async (req: AuthRequest, res) => {
+  const { status, locationId, page, limit } = req.query;
+
+  if (status && !TRANSFER_STATUSES.includes(status as string)) {
+    return res.status(400).json({ error: `无效的调拨单状态，可选值: ${TRANSFER_STATUSES.join(', ')}` });
+  }
+
+  try {
+    res.json(await transferService.listTransfers({
+      status: status as string,
+      locationId: Number(locationId) || undefined,
+      page: Number(page),
+      limit: Number(limit)
+    }));
+  } catch (error) {
+    console.error('获取调拨单列表失败:', error);
+    res.status(500).json({ error: '获取调拨单列表失败' });
+  }
+});
+
+// 创建调拨单（ship 为 true 时创建后立即发出）
+router.post('/', authenticateToken, requireAdmin, logOperation('创建', '调拨单'), async (req: AuthRequest, res) => {
+  const { fromLocationId, toLocationId, items, trackingNumber, notes, ship } = req.body;
+
+  try {
+    const transfer = await transferService.create(
+      { fromLocationId, toLocationId, items, trackingNumber, notes, ship: ship === true },
+      req.user!.id
+    );
+    res.status(201).json(transfer);
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('创建调拨单失败:', error);
+    res.status(500).json({ error: '创建调拨单失败' });
+  }
+});
+
+// 获取调拨单详情
+router.get('/:id', authenticateToken, logOperation('查看', '调拨单详情'), async (req: AuthRequest, res) => {
+  try {
+    res.json(await transferService.getTransfer(Number(req.params.id)));
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('获取调拨单详情失败:', error);
+    res.status(500).json({ error: '获取调拨单详情失败' });
+  }
+});
+
+// 发出调拨单，商品进入在途状态
+router.post('/:id/ship', authenticateToken, requireAdmin, logOperation('发出', '调拨单'), async (req: AuthRequest, res) => {
+  try {
+    const transfer = await transferService.ship(Number(req.params.id), req.user!.id, req.body.trackingNumber);
+    res.json({ message: '调拨单已发出', transfer });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('发出调拨单失败:', error);
+    res.status(500).json({ error: '发出调拨单失败' });
+  }
+});
+
+// 接收调拨单（调入位置的任意用户均可确认收货）
+router.post('/:id/receive', authenticateToken, logOperation('接收', '调拨单'), async (req: AuthRequest, res) => {
+  try {
+    const transfer = await transferService.receive(Number(req.params.id), req.user!.id);
+    res.json({ message: '调拨单已接收', transfer });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('接收调拨单失败:', error);
+    res.status(500).json({ error: '接收调拨单失败' });
+  }
+});
+
+// 取消调拨单，在途数量退回调出位置
+router.post('/:id/cancel', authenticateToken, requireAdmin, logOperation('取消', '调拨单'), async (req: AuthRequest, res) => {
+  try {
+    const transfer = await transferService.cancel(Number(req.params.id));
+    res.json({ message: '调拨单已取消', transfer });
+  } catch (error) {
+    if (error instanceof BusinessError) {
+      return res.status(error.statusCode).json({ error: error.message, ...error.details });
+    }
+    console.error('取消调拨单失败:', error);
+    res.status(500).json({ error: '取消调拨单失败' });
+  }
+});
+
+export default router;
@@ -11,8 +11,30 @@ import userRoutes from './routes/users';
 import systemRoutes from './routes/system';
 import monitoringRoutes from './routes/monitoring';
 import analyticsRoutes from './routes/analytics';
+import customerRoutes from './routes/customers';
+import orderRoutes from './routes/orders';
+import salesRoutes from './routes/sales';
+import exchangeRateRoutes from './routes/exchangeRates';
+import shipmentRoutes from './routes/shipments';
+import landedCostRoutes from './routes/landedCosts';
+import storeRoutes from './routes/stores';
+import reviewQueueRoutes from './routes/reviewQueue';
+import productRoutes from './routes/products';
+import categoryRoutes from './routes/categories';
+import tagRoutes from './routes/tags';
+import reportRoutes from './routes/reports';
+import notificationRoutes from './routes/notifications';
+import shoppingListRoutes from './routes/shoppingLists';
+import stocktakeRoutes from './routes/stocktakes';
+import locationRoutes from './routes/locations';
+import transferRoutes from './routes/transfers';
 import { BackupService } from './services/backupService';
 import { MonitorService } from './services/monitorService';
+import { ProductService } from './services/productService';
+import { CategoryService } from './services/categoryService';
+import { ReportSchedulerService } from './services/reportSchedulerService';
+import { NotificationService } from './services/notificationService';
+import { BatchService } from './services/batchService';
 import { ConfigValidator } from './utils/configValidator';
 
 dotenv.config();
@@ -103,6 +125,23 @@ app.use('/api/users', userRoutes);
 app.use('/api/system', systemRoutes);
 app.use('/api/monitoring', monitoringRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/shipments', shipmentRoutes);
+app.use('/api/landed-costs', landedCostRoutes);
+app.use('/api/stores', storeRoutes);
+app.use('/api/review-queue', reviewQueueRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/shopping-lists', shoppingListRoutes);
+app.use('/api/stocktakes', stocktakeRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/transfers', transferRoutes);
 
 // 健康检查
 app.get('/api/health', async (req, res) => {
@@ -227,6 +266,15 @@ async function startServer() {
     await initDatabase();
     console.log('数据库初始化完成');
 
+    // 为升级前的库存和收据项目登记商品目录
+    const migrated = await ProductService.getInstance().backfillProducts();
+    if (migrated > 0) {
+      console.log(`已为 ${migrated} 个库存项目登记商品`);
+    }
+
+    // 分类和标签表为空时从原配置文件初始化
+    await CategoryService.getInstance().seedDefaults();
+
     // 验证AWS配置
     await validateAWSConfiguration();
 
@@ -291,6 +339,17 @@ function startSystemServices() {
     const monitorService = MonitorService.getInstance();
     monitorService.startMonitoring(5); // 每5分钟检查一次
 
+    // 启动定时报表（autoExport 开启时按各报表的 schedule 生成到 exportPath）
+    ReportSchedulerService.getInstance().start(1).catch(error => {
+      console.error('启动定时报表失败:', error);
+    });
+
+    // 启动通知投递（未配置 SMTP 时通知保留在发件箱中）
+    NotificationService.getInstance().start(30); // 每30秒投递一次
+
+    // 启动批次保质期检查（临期、过期批次写入监控警报）
+    BatchService.getInstance().start(6); // 每6小时检查一次
+
     console.log('系统服务启动完成');
   } catch (error) {
     console.error('启动系统服务失败:', error);
@@ -36,7 +36,16 @@ export class BackupService {
       const db = getDatabase();
       
       // 获取所有表的数据
-      const tables = ['users', 'receipts', 'receipt_items', 'inventory', 'operation_logs'];
+      const tables = [
+        'users', 'receipts', 'receipt_items', 'inventory', 'operation_logs',
+        'customers', 'customer_orders', 'customer_order_items', 'sales', 'sale_items',
+        'inventory_movements', 'exchange_rates', 'shipments', 'landed_costs',
+        'stores', 'receipt_adjustments', 'products', 'product_aliases',
+        'categories', 'tags', 'inventory_categories', 'inventory_tags',
+        'report_jobs', 'report_runs', 'notification_outbox', 'shopping_list_items',
+        'stocktakes', 'stocktake_lines', 'stocktake_counts', 'locations', 'inventory_locations',
+        'stock_transfers', 'stock_transfer_items', 'inventory_batches', 'inventory_batch_movements'
+      ];
       let sqlContent = '-- Database Backup\n';
       sqlContent += `-- Created at: ${new Date().toISOString()}\n\n`;
 
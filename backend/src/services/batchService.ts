@@ -0,0 +1,293 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getInventoryConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { MonitoringService } from './monitoringService';
+
+export type DeductionStrategy = 'fefo' | 'fifo';
+
+export interface BatchInput {
+  receiptId?: number | null;
+  receiptItemId?: number | null;
+  batchNumber?: string | null;
+  expiryDate?: string | null;
+}
+
+export interface BatchAllocation {
+  batchId: number;
+  /** 批次的变动量，入库为正，出库为负 */
+  quantity: number;
+  unitCost: number | null;
+}
+
+/**
+ * 库存批次服务
+ * 每次入库生成一个批次（收据入库时带保质期和批号），出库按配置的 FEFO/FIFO 顺序扣减批次剩余数量
+ */
+export class BatchService {
+  private static instance: BatchService;
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): BatchService {
+    if (!BatchService.instance) {
+      BatchService.instance = new BatchService();
+    }
+    return BatchService.instance;
+  }
+
+  public getBatchConfig() {
+    const { batchTracking } = getInventoryConfig() as { batchTracking?: Record<string, any> };
+    return {
+      deductionStrategy: (batchTracking?.deductionStrategy === 'fifo' ? 'fifo' : 'fefo') as DeductionStrategy,
+      expiryAlertDays: Math.max(0, Number(batchTracking?.expiryAlertDays ?? 30))
+    };
+  }
+
+  /**
+   * 规范化保质期为 YYYY-MM-DD，未提供时返回 null，格式无效时抛出400错误
+   */
+  public normalizeExpiryDate(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const text = String(value).trim().slice(0, 10);
+    const date = new Date(`${text}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== text) {
+      throw new BusinessError(`保质期格式无效: ${value}，应为 YYYY-MM-DD`);
+    }
+    return text;
+  }
+
+  /**
+   * 按库存变动调整批次：入库生成新批次，出库按 FEFO/FIFO 扣减
+   * 收据修改、删除冲回时优先扣减该收据的批次；previousStock 超出批次剩余数量之和的部分先补记为期初批次
+   */
+  public async applyStockDelta(
+    tx: TransactionContext,
+    inventory: { id: number; item_name: string },
+    delta: number,
+    previousStock: number,
+    options: { source: string; referenceId?: number | null; unitCost?: number | null; batch?: BatchInput }
+  ): Promise<BatchAllocation[]> {
+    const [{ tracked }] = await tx.query(
+      'SELECT COALESCE(SUM(remaining_quantity), 0) as tracked FROM inventory_batches WHERE inventory_id = ?',
+      [inventory.id]
+    );
+    if (previousStock > tracked) {
+      await tx.run(
+        `INSERT INTO inventory_batches (inventory_id, item_name, source, received_quantity, remaining_quantity, unit_cost, received_at)
+         SELECT i.id, i.item_name, 'opening', ?, ?, COALESCE(i.landed_unit_cost, i.unit_price),
+           COALESCE((SELECT MIN(received_at) FROM inventory_batches WHERE inventory_id = i.id), CURRENT_TIMESTAMP)
+         FROM inventory i WHERE i.id = ?`,
+        [previousStock - tracked, previousStock - tracked, inventory.id]
+      );
+    }
+
+    if (delta > 0) {
+      const unitCost = options.unitCost ?? (await tx.get(
+        'SELECT COALESCE(landed_unit_cost, unit_price) as unit_cost FROM inventory WHERE id = ?',
+        [inventory.id]
+      ))?.unit_cost ?? null;
+      const result = await tx.run(
+        `INSERT INTO inventory_batches
+          (inventory_id, item_name, source, receipt_id, receipt_item_id, batch_number, expiry_date, received_quantity, remaining_quantity, unit_cost)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          inventory.id,
+          inventory.item_name,
+          options.source,
+          options.batch?.receiptId ?? null,
+          options.batch?.receiptItemId ?? null,
+          options.batch?.batchNumber || null,
+          this.normalizeExpiryDate(options.batch?.expiryDate),
+          delta,
+          delta,
+          unitCost
+        ]
+      );
+      return [{ batchId: result.lastID, quantity: delta, unitCost }];
+    }
+
+    const reversedReceiptId = ['receipt_edit', 'receipt_delete'].includes(options.source) ? options.referenceId ?? null : null;
+    const order = this.getBatchConfig().deductionStrategy === 'fefo'
+      ? 'expiry_date IS NULL, expiry_date, received_at, id'
+      : 'received_at, id';
+    const batches = await tx.query(
+      `SELECT id, remaining_quantity, unit_cost FROM inventory_batches
+       WHERE inventory_id = ? AND remaining_quantity > 0
+       ORDER BY CASE WHEN receipt_id = ? THEN 0 ELSE 1 END, ${order}`,
+      [inventory.id, reversedReceiptId]
+    );
+
+    const allocations: BatchAllocation[] = [];
+    let remaining = -delta;
+    for (const batch of batches) {
+      if (remaining === 0) {
+        break;
+      }
+      const take = Math.min(batch.remaining_quantity, remaining);
+      await tx.run(
+        'UPDATE inventory_batches SET remaining_quantity = remaining_quantity - ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [take, batch.id]
+      );
+      allocations.push({ batchId: batch.id, quantity: -take, unitCost: batch.unit_cost });
+      remaining -= take;
+    }
+    return allocations;
+  }
+
+  /**
+   * 记录库存流水涉及的批次
+   */
+  public async linkMovement(tx: TransactionContext, movementId: number, allocations: BatchAllocation[]): Promise<void> {
+    for (const allocation of allocations) {
+      await tx.run(
+        'INSERT INTO inventory_batch_movements (batch_id, movement_id, quantity) VALUES (?, ?, ?)',
+        [allocation.batchId, movementId, allocation.quantity]
+      );
+    }
+  }
+
+  /**
+   * 删除库存项目时清理其批次和批次流水关联，避免已删除商品继续出现在临期列表和到期警报中
+   */
+  public async removeItemBatches(tx: TransactionContext, inventoryId: number): Promise<void> {
+    await tx.run(
+      'DELETE FROM inventory_batch_movements WHERE batch_id IN (SELECT id FROM inventory_batches WHERE inventory_id = ?)',
+      [inventoryId]
+    );
+    await tx.run('DELETE FROM inventory_batches WHERE inventory_id = ?', [inventoryId]);
+  }
+
+  /**
+   * 商品的批次列表，默认只返回仍有剩余的批次
+   */
+  public async getItemBatches(inventoryId: number, includeDepleted = false) {
+    return connectionPool.query(
+      `SELECT b.*, r.merchant_name, r.purchased_at,
+         CAST(julianday(b.expiry_date) - julianday(date('now')) AS INTEGER) as days_until_expiry
+       FROM inventory_batches b
+       LEFT JOIN receipts r ON r.id = b.receipt_id
+       WHERE b.inventory_id = ? ${includeDepleted ? '' : 'AND b.remaining_quantity > 0'}
+       ORDER BY b.expiry_date IS NULL, b.expiry_date, b.received_at, b.id`,
+      [inventoryId]
+    );
+  }
+
+  /**
+   * 在 days 天内到期（含已过期）且仍有剩余的批次，按到期日排列
+   */
+  public async getExpiringBatches(days: number, inventoryId?: number) {
+    let whereClause = `b.remaining_quantity > 0 AND b.expiry_date IS NOT NULL AND b.expiry_date <= date('now', ?)`;
+    const params: any[] = [`+${days} days`];
+
+    if (inventoryId) {
+      whereClause += ' AND b.inventory_id = ?';
+      params.push(inventoryId);
+    }
+
+    const batches = await connectionPool.query(
+      `SELECT b.id, b.inventory_id, b.item_name, b.batch_number, b.expiry_date, b.remaining_quantity, b.unit_cost, b.receipt_id,
+         b.received_at, b.alert_level,
+         CAST(julianday(b.expiry_date) - julianday(date('now')) AS INTEGER) as days_until_expiry,
+         CASE WHEN b.expiry_date < date('now') THEN 1 ELSE 0 END as is_expired,
+         ROUND(b.remaining_quantity * COALESCE(b.unit_cost, 0), 2) as remaining_value
+       FROM inventory_batches b
+       WHERE ${whereClause}
+       ORDER BY b.expiry_date, b.id`,
+      params
+    );
+
+    const expired = batches.filter(batch => batch.is_expired);
+    return {
+      days,
+      batches,
+      summary: {
+        expiredBatches: expired.length,
+        expiredQuantity: expired.reduce((sum, batch) => sum + batch.remaining_quantity, 0),
+        expiringBatches: batches.length - expired.length,
+        expiringQuantity: batches.filter(batch => !batch.is_expired).reduce((sum, batch) => sum + batch.remaining_quantity, 0),
+        totalValue: Math.round(batches.reduce((sum, batch) => sum + batch.remaining_value, 0) * 100) / 100
+      }
+    };
+  }
+
+  /**
+   * 修改批次的保质期和批号，保质期变化后重新发出到期警报
+   */
+  public async updateBatch(id: number, update: { expiryDate?: string | null; batchNumber?: string | null }) {
+    const [batch] = await connectionPool.query('SELECT * FROM inventory_batches WHERE id = ?', [id]);
+    if (!batch) {
+      throw new BusinessError('库存批次不存在', 404);
+    }
+
+    const expiryDate = update.expiryDate !== undefined ? this.normalizeExpiryDate(update.expiryDate) : batch.expiry_date;
+    await connectionPool.run(
+      `UPDATE inventory_batches SET expiry_date = ?, batch_number = ?, alert_level = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [
+        expiryDate,
+        update.batchNumber !== undefined ? update.batchNumber || null : batch.batch_number,
+        expiryDate === batch.expiry_date ? batch.alert_level : null,
+        id
+      ]
+    );
+
+    const [updated] = await connectionPool.query('SELECT * FROM inventory_batches WHERE id = ?', [id]);
+    return updated;
+  }
+
+  /**
+   * 检查临期和已过期的批次并写入监控警报，每个批次的临期、过期警报各发出一次
+   */
+  public async checkExpiringBatches(): Promise<number> {
+    const { expiryAlertDays } = this.getBatchConfig();
+    const batches = await connectionPool.query(
+      `SELECT id, inventory_id, item_name, batch_number, expiry_date, remaining_quantity, alert_level,
+         CASE WHEN expiry_date < date('now') THEN 'expired' ELSE 'expiring' END as level,
+         CAST(julianday(expiry_date) - julianday(date('now')) AS INTEGER) as days_until_expiry
+       FROM inventory_batches
+       WHERE remaining_quantity > 0 AND expiry_date IS NOT NULL AND expiry_date <= date('now', ?)
+         AND (alert_level IS NULL OR (alert_level = 'expiring' AND expiry_date < date('now')))
+       ORDER BY expiry_date, id`,
+      [`+${expiryAlertDays} days`]
+    );
+
+    for (const batch of batches) {
+      await connectionPool.run('UPDATE inventory_batches SET alert_level = ? WHERE id = ?', [batch.level, batch.id]);
+      MonitoringService.getInstance().recordExpiryAlert({
+        batchId: batch.id,
+        inventoryId: batch.inventory_id,
+        itemName: batch.item_name,
+        batchNumber: batch.batch_number,
+        expiryDate: batch.expiry_date,
+        remainingQuantity: batch.remaining_quantity,
+        daysUntilExpiry: batch.days_until_expiry,
+        expired: batch.level === 'expired'
+      });
+    }
+    return batches.length;
+  }
+
+  /**
+   * 定时检查批次保质期
+   */
+  public start(intervalHours: number = 6): void {
+    if (this.timer) {
+      return;
+    }
+
+    const check = () => this.checkExpiringBatches().catch(error => console.error('检查批次保质期失败:', error));
+    check();
+    this.timer = setInterval(check, intervalHours * 60 * 60 * 1000);
+    console.log(`批次保质期检查已启动，间隔: ${intervalHours} 小时`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
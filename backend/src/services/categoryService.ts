@@ -0,0 +1,258 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getInventoryCategories, getInventoryConfig, getInventoryTags } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+
+/** 库存标记类型：分类或标签 */
+export type LabelKind = 'category' | 'tag';
+
+export interface LabelInput {
+  id?: number;
+  name?: string;
+  description?: string | null;
+  color?: string | null;
+}
+
+interface LabelDefinition {
+  table: string;
+  linkTable: string;
+  column: string;
+  label: string;
+  /** inventory 配置 validation 中对应的必填开关 */
+  requiredFlag: 'requireCategory' | 'requireTags';
+}
+
+const LABELS: Record<LabelKind, LabelDefinition> = {
+  category: {
+    table: 'categories',
+    linkTable: 'inventory_categories',
+    column: 'category_id',
+    label: '分类',
+    requiredFlag: 'requireCategory'
+  },
+  tag: {
+    table: 'tags',
+    linkTable: 'inventory_tags',
+    column: 'tag_id',
+    label: '标签',
+    requiredFlag: 'requireTags'
+  }
+};
+
+/**
+ * 库存分类与标签服务
+ * 分类和标签与库存项目多对多关联，validation.requireCategory / requireTags 开启时库存项目必须至少关联一个
+ * （收据入库自动创建的库存项目除外）
+ */
+export class CategoryService {
+  private static instance: CategoryService;
+
+  private constructor() {}
+
+  public static getInstance(): CategoryService {
+    if (!CategoryService.instance) {
+      CategoryService.instance = new CategoryService();
+    }
+    return CategoryService.instance;
+  }
+
+  /**
+   * 获取分类或标签列表，含关联的库存项目数量
+   */
+  public async list(kind: LabelKind): Promise<any[]> {
+    const { table, linkTable, column } = LABELS[kind];
+    return connectionPool.query(`
+      SELECT t.*, (SELECT COUNT(*) FROM ${linkTable} l WHERE l.${column} = t.id) as item_count
+      FROM ${table} t
+      ORDER BY t.id
+    `);
+  }
+
+  /**
+   * 登记分类或标签，名称重复时返回409
+   */
+  public async create(tx: TransactionContext, kind: LabelKind, input: LabelInput): Promise<number> {
+    const { table, label } = LABELS[kind];
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BusinessError(`${label}名称不能为空`);
+    }
+
+    if (await tx.get(`SELECT id FROM ${table} WHERE name = ?`, [name])) {
+      throw new BusinessError(`${label}名称已存在`, 409);
+    }
+
+    const result = kind === 'category'
+      ? await tx.run('INSERT INTO categories (name, description, color) VALUES (?, ?, ?)',
+        [name, input.description || null, input.color || null])
+      : await tx.run('INSERT INTO tags (name, color) VALUES (?, ?)', [name, input.color || null]);
+
+    return result.lastID;
+  }
+
+  /**
+   * 更新分类或标签，未传入的字段保持不变；不存在时返回 false
+   */
+  public async update(tx: TransactionContext, kind: LabelKind, id: number, input: LabelInput): Promise<boolean> {
+    const { table, label } = LABELS[kind];
+    const current = await tx.get(`SELECT * FROM ${table} WHERE id = ?`, [id]);
+    if (!current) {
+      return false;
+    }
+
+    const name = input.name !== undefined ? input.name?.trim() : current.name;
+    if (!name) {
+      throw new BusinessError(`${label}名称不能为空`);
+    }
+    if (await tx.get(`SELECT id FROM ${table} WHERE name = ? AND id != ?`, [name, id])) {
+      throw new BusinessError(`${label}名称已存在`, 409);
+    }
+
+    const color = input.color !== undefined ? input.color || null : current.color;
+    if (kind === 'category') {
+      await tx.run(
+        'UPDATE categories SET name = ?, description = ?, color = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [name, input.description !== undefined ? input.description || null : current.description, color, id]
+      );
+    } else {
+      await tx.run('UPDATE tags SET name = ?, color = ? WHERE id = ?', [name, color, id]);
+    }
+    return true;
+  }
+
+  /**
+   * 删除分类或标签及其关联，返回受影响的库存项目数量；不存在时返回 null
+   * 必须设置分类/标签时，若有库存项目会因此失去全部分类/标签则拒绝删除
+   */
+  public async remove(tx: TransactionContext, kind: LabelKind, id: number): Promise<number | null> {
+    const { table, linkTable, column, label } = LABELS[kind];
+    if (!await tx.get(`SELECT id FROM ${table} WHERE id = ?`, [id])) {
+      return null;
+    }
+
+    if (this.isRequired(kind)) {
+      const orphans = await tx.query(`
+        SELECT l.inventory_id FROM ${linkTable} l
+        WHERE l.${column} = ?
+          AND NOT EXISTS (SELECT 1 FROM ${linkTable} o WHERE o.inventory_id = l.inventory_id AND o.${column} != ?)
+      `, [id, id]);
+      if (orphans.length > 0) {
+        throw new BusinessError(`删除后有库存项目将没有${label}，请先为其设置其他${label}`, 409, {
+          inventoryIds: orphans.map(row => row.inventory_id)
+        });
+      }
+    }
+
+    const links = await tx.run(`DELETE FROM ${linkTable} WHERE ${column} = ?`, [id]);
+    await tx.run(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    return links.changes;
+  }
+
+  /**
+   * 按ID或名称批量登记/更新分类或标签（兼容原配置接口），列表中未出现的不会删除
+   */
+  public async upsertMany(kind: LabelKind, items: LabelInput[]): Promise<void> {
+    const { table } = LABELS[kind];
+    await connectionPool.transaction(async (tx) => {
+      for (const item of items) {
+        const existing = item.id
+          ? await tx.get(`SELECT id FROM ${table} WHERE id = ?`, [item.id])
+          : await tx.get(`SELECT id FROM ${table} WHERE name = ?`, [item.name?.trim()]);
+
+        if (existing) {
+          await this.update(tx, kind, existing.id, item);
+        } else {
+          await this.create(tx, kind, item);
+        }
+      }
+    });
+  }
+
+  /**
+   * 替换库存项目的分类或标签，ID不存在时返回400，必填时不允许为空
+   */
+  public async setItemLabels(
+    tx: TransactionContext,
+    kind: LabelKind,
+    inventoryId: number,
+    ids: unknown
+  ): Promise<void> {
+    const { linkTable, column, label } = LABELS[kind];
+    const labelIds = await this.validateIds(tx, kind, ids);
+
+    if (labelIds.length === 0 && this.isRequired(kind)) {
+      throw new BusinessError(`库存项目必须设置${label}`);
+    }
+
+    await tx.run(`DELETE FROM ${linkTable} WHERE inventory_id = ?`, [inventoryId]);
+    for (const labelId of labelIds) {
+      await tx.run(`INSERT INTO ${linkTable} (inventory_id, ${column}) VALUES (?, ?)`, [inventoryId, labelId]);
+    }
+  }
+
+  /**
+   * 删除库存项目时清理其分类和标签关联（外键级联未启用）
+   */
+  public async removeItemLinks(tx: TransactionContext, inventoryId: number): Promise<void> {
+    await tx.run('DELETE FROM inventory_categories WHERE inventory_id = ?', [inventoryId]);
+    await tx.run('DELETE FROM inventory_tags WHERE inventory_id = ?', [inventoryId]);
+  }
+
+  /**
+   * 分类/标签表为空时，用原配置文件（或默认值）中的分类和标签初始化
+   */
+  public async seedDefaults(): Promise<void> {
+    await connectionPool.transaction(async (tx) => {
+      const seeds: Array<[LabelKind, LabelInput[]]> = [
+        ['category', getInventoryCategories()],
+        ['tag', getInventoryTags()]
+      ];
+
+      for (const [kind, items] of seeds) {
+        const { table } = LABELS[kind];
+        const { count } = await tx.get(`SELECT COUNT(*) as count FROM ${table}`);
+        if (count > 0 || !Array.isArray(items)) {
+          continue;
+        }
+        for (const item of items) {
+          if (item.name?.trim()) {
+            await this.create(tx, kind, item);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * 当前配置是否要求库存项目必须设置分类/标签
+   */
+  public isRequired(kind: LabelKind): boolean {
+    return Boolean(getInventoryConfig().validation?.[LABELS[kind].requiredFlag]);
+  }
+
+  private async validateIds(tx: TransactionContext, kind: LabelKind, ids: unknown): Promise<number[]> {
+    const { table, label } = LABELS[kind];
+    if (ids === undefined || ids === null) {
+      return [];
+    }
+    if (!Array.isArray(ids) || ids.some(id => !Number.isInteger(Number(id)))) {
+      throw new BusinessError(`请提供有效的${label}ID列表`);
+    }
+
+    const labelIds = Array.from(new Set(ids.map(Number)));
+    if (labelIds.length === 0) {
+      return [];
+    }
+
+    const rows = await tx.query(
+      `SELECT id FROM ${table} WHERE id IN (${labelIds.map(() => '?').join(', ')})`,
+      labelIds
+    );
+    const found = new Set(rows.map(row => row.id));
+    const missing = labelIds.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw new BusinessError(`${label}不存在`, 400, { missingIds: missing });
+    }
+
+    return labelIds;
+  }
+}
@@ -0,0 +1,295 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getInventoryConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { BatchAllocation } from './batchService';
+
+export const COSTING_METHODS = ['fifo', 'moving_average', 'latest'] as const;
+export type CostingMethod = typeof COSTING_METHODS[number];
+
+export interface MovementCost {
+  unitCost: number | null;
+  /** 成本金额，与变动量同号，出库即销货成本 */
+  costAmount: number | null;
+  averageCostAfter: number | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const roundUnitCost = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * 库存计价服务
+ * 按配置的计价方法（FIFO、移动加权平均、最新单价）计算出入库成本和库存价值
+ * FIFO 使用批次的入库成本，移动加权平均在每次入库时更新 inventory.average_unit_cost
+ */
+export class CostingService {
+  private static instance: CostingService;
+
+  private constructor() {}
+
+  public static getInstance(): CostingService {
+    if (!CostingService.instance) {
+      CostingService.instance = new CostingService();
+    }
+    return CostingService.instance;
+  }
+
+  public getCostingMethod(): CostingMethod {
+    const { costing } = getInventoryConfig() as { costing?: Record<string, any> };
+    return COSTING_METHODS.includes(costing?.method) ? costing!.method : 'latest';
+  }
+
+  /**
+   * 校验计价方法参数，未提供时使用配置的计价方法
+   */
+  public resolveMethod(value: unknown): CostingMethod {
+    if (value === undefined || value === null || value === '') {
+      return this.getCostingMethod();
+    }
+    if (!COSTING_METHODS.includes(value as CostingMethod)) {
+      throw new BusinessError(`无效的计价方法: ${value}，可选值: ${COSTING_METHODS.join(', ')}`);
+    }
+    return value as CostingMethod;
+  }
+
+  /**
+   * 校验日期参数为有效的 YYYY-MM-DD，未提供时返回 null
+   */
+  public normalizeDate(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const text = String(value).trim();
+    const date = new Date(`${text}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== text) {
+      throw new BusinessError(`日期格式无效: ${value}，应为 YYYY-MM-DD`);
+    }
+    return text;
+  }
+
+  /**
+   * 按计价方法计算库存单位成本的 SQL 表达式，alias 为 inventory 表的别名
+   */
+  public getUnitCostExpression(method: CostingMethod = this.getCostingMethod(), alias = 'i'): string {
+    const latest = `COALESCE(${alias}.landed_unit_cost, ${alias}.unit_price)`;
+    if (method === 'moving_average') {
+      return `COALESCE(${alias}.average_unit_cost, ${latest})`;
+    }
+    if (method === 'fifo') {
+      return `COALESCE(
+        (SELECT SUM(b.remaining_quantity * b.unit_cost) / NULLIF(SUM(b.remaining_quantity), 0)
+         FROM inventory_batches b WHERE b.inventory_id = ${alias}.id AND b.remaining_quantity > 0),
+        ${latest})`;
+    }
+    return latest;
+  }
+
+  /**
+   * 计算一次库存变动的成本，在库存和批次调整之后调用
+   * 入库按入库单价计成本并更新移动加权平均成本；出库按计价方法计算销货成本：
+   * FIFO 取扣减批次的入库成本，移动加权平均取当前平均成本，latest 取最新单价
+   */
+  public async resolveMovementCost(
+    tx: TransactionContext,
+    inventoryId: number,
+    delta: number,
+    previousStock: number,
+    unitPrice: number | null | undefined,
+    batches: BatchAllocation[]
+  ): Promise<MovementCost> {
+    const inventory = await tx.get(
+      'SELECT unit_price, landed_unit_cost, average_unit_cost FROM inventory WHERE id = ?',
+      [inventoryId]
+    );
+    const latestCost: number | null = inventory.landed_unit_cost ?? inventory.unit_price ?? null;
+    const averageCost: number | null = inventory.average_unit_cost ?? latestCost;
+
+    if (delta > 0) {
+      const unitCost = unitPrice ?? (this.getCostingMethod() === 'moving_average' ? averageCost : latestCost);
+      if (unitCost === null) {
+        return { unitCost: null, costAmount: null, averageCostAfter: averageCost };
+      }
+
+      const averageCostAfter = roundUnitCost(previousStock > 0 && averageCost !== null
+        ? (previousStock * averageCost + delta * unitCost) / (previousStock + delta)
+        : unitCost);
+      await tx.run('UPDATE inventory SET average_unit_cost = ? WHERE id = ?', [averageCostAfter, inventoryId]);
+      return { unitCost, costAmount: roundMoney(delta * unitCost), averageCostAfter };
+    }
+
+    const method = this.getCostingMethod();
+    if (method === 'fifo' && batches.length > 0) {
+      const costAmount = batches.reduce((sum, batch) => sum + batch.quantity * (batch.unitCost ?? latestCost ?? 0), 0);
+      return {
+        unitCost: roundUnitCost(costAmount / delta),
+        costAmount: roundMoney(costAmount),
+        averageCostAfter: averageCost
+      };
+    }
+
+    const unitCost = method === 'moving_average' ? averageCost : latestCost;
+    return {
+      unitCost,
+      costAmount: unitCost === null ? null : roundMoney(delta * unitCost),
+      averageCostAfter: averageCost
+    };
+  }
+
+  /**
+   * 附加成本重新分摊后，按收据项目的到岸单位成本重算已通过收据的批次成本和入库流水成本
+   * 剩余数量的成本差额计入移动加权平均成本（同步到最后一条流水），已出库部分的销货成本保持不变
+   */
+  public async recostReceiptBatches(tx: TransactionContext, receiptIds: number[]): Promise<void> {
+    if (receiptIds.length === 0) {
+      return;
+    }
+
+    const batches = await tx.query(
+      `SELECT b.id, b.inventory_id, b.remaining_quantity, b.unit_cost,
+         ri.unit_price * r.exchange_rate + ri.landed_cost / ri.quantity as landed_unit_cost
+       FROM inventory_batches b
+       JOIN receipt_items ri ON ri.id = b.receipt_item_id
+       JOIN receipts r ON r.id = ri.receipt_id
+       WHERE ri.receipt_id IN (${receiptIds.map(() => '?').join(',')}) AND ri.quantity > 0 AND r.status = 'approved'`,
+      receiptIds
+    );
+
+    const valueChanges = new Map<number, number>();
+    for (const batch of batches) {
+      const unitCost = roundUnitCost(batch.landed_unit_cost);
+      if (batch.unit_cost === unitCost) {
+        continue;
+      }
+      await tx.run('UPDATE inventory_batches SET unit_cost = ? WHERE id = ?', [unitCost, batch.id]);
+      await tx.run(
+        `UPDATE inventory_movements SET unit_cost = ?, cost_amount = ROUND(delta * ?, 2)
+         WHERE source = 'receipt' AND id IN (
+           SELECT movement_id FROM inventory_batch_movements WHERE batch_id = ? AND quantity > 0
+         )`,
+        [unitCost, unitCost, batch.id]
+      );
+      const change = (unitCost - (batch.unit_cost ?? unitCost)) * batch.remaining_quantity;
+      valueChanges.set(batch.inventory_id, (valueChanges.get(batch.inventory_id) || 0) + change);
+    }
+
+    for (const [inventoryId, change] of valueChanges.entries()) {
+      if (change === 0) {
+        continue;
+      }
+      const inventory = await tx.get('SELECT current_stock, average_unit_cost FROM inventory WHERE id = ?', [inventoryId]);
+      if (inventory.current_stock > 0 && inventory.average_unit_cost !== null) {
+        const averageCost = roundUnitCost(Math.max(0, inventory.average_unit_cost + change / inventory.current_stock));
+        await tx.run('UPDATE inventory SET average_unit_cost = ? WHERE id = ?', [averageCost, inventoryId]);
+        await tx.run(
+          `UPDATE inventory_movements SET average_cost_after = ? WHERE id = (
+             SELECT id FROM inventory_movements WHERE inventory_id = ? ORDER BY created_at DESC, id DESC LIMIT 1
+           )`,
+          [averageCost, inventoryId]
+        );
+      }
+    }
+  }
+
+  /**
+   * 截至 asOf 日（含当日）的库存估值
+   * 数量取当日及之前最后一条流水的结存；FIFO 按当时各批次的剩余数量和入库成本计算，
+   * 移动加权平均取当时的平均成本，latest 取当时最后一次入库的单位成本
+   */
+  public async getValuationAsOf(asOf: string, method: CostingMethod = this.getCostingMethod()) {
+    const rows = await connectionPool.query(
+      `SELECT
+         i.id as inventory_id,
+         i.item_name,
+         last.balance_after as quantity,
+         last.average_cost_after as average_cost,
+         (SELECT m.unit_cost FROM inventory_movements m
+          WHERE m.inventory_id = i.id AND m.delta > 0 AND m.unit_cost IS NOT NULL AND m.created_at < date(?, '+1 day')
+          ORDER BY m.created_at DESC, m.id DESC LIMIT 1) as latest_cost,
+         (SELECT SUM((b.received_quantity + COALESCE((
+              SELECT SUM(bm.quantity) FROM inventory_batch_movements bm
+              JOIN inventory_movements m ON m.id = bm.movement_id
+              WHERE bm.batch_id = b.id AND bm.quantity < 0 AND m.created_at < date(?, '+1 day')
+            ), 0)) * COALESCE(b.unit_cost, 0))
+          FROM inventory_batches b
+          WHERE b.inventory_id = i.id AND b.received_at < date(?, '+1 day')) as fifo_value
+       FROM inventory i
+       JOIN inventory_movements last ON last.id = (
+         SELECT m.id FROM inventory_movements m
+         WHERE m.inventory_id = i.id AND m.created_at < date(?, '+1 day')
+         ORDER BY m.created_at DESC, m.id DESC LIMIT 1
+       )
+       WHERE last.balance_after > 0
+       ORDER BY i.item_name`,
+      [asOf, asOf, asOf, asOf]
+    );
+
+    const items = rows.map(row => {
+      const value = method === 'fifo' && row.fifo_value !== null
+        ? row.fifo_value
+        : row.quantity * ((method === 'moving_average' ? row.average_cost ?? row.latest_cost : row.latest_cost) ?? 0);
+      return {
+        inventory_id: row.inventory_id,
+        item_name: row.item_name,
+        quantity: row.quantity,
+        unit_cost: roundUnitCost(value / row.quantity),
+        value: roundMoney(value)
+      };
+    });
+
+    return {
+      asOf,
+      method,
+      items,
+      summary: {
+        itemCount: items.length,
+        totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+        totalValue: roundMoney(items.reduce((sum, item) => sum + item.value, 0))
+      }
+    };
+  }
+
+  /**
+   * 期间内出库的销货成本，按商品和流水来源汇总
+   */
+  public async getCostOfGoodsSold(startDate?: string, endDate?: string) {
+    let whereClause = 'm.delta < 0';
+    const params: any[] = [];
+
+    if (startDate) {
+      whereClause += ' AND m.created_at >= date(?)';
+      params.push(startDate);
+    }
+    if (endDate) {
+      whereClause += ` AND m.created_at < date(?, '+1 day')`;
+      params.push(endDate);
+    }
+
+    const items = await connectionPool.query(
+      `SELECT m.inventory_id, m.item_name,
+         SUM(-m.delta) as quantity,
+         ROUND(SUM(-COALESCE(m.cost_amount, 0)), 2) as cost
+       FROM inventory_movements m
+       WHERE ${whereClause}
+       GROUP BY m.inventory_id
+       ORDER BY cost DESC, m.item_name`,
+      params
+    );
+
+    const bySource = await connectionPool.query(
+      `SELECT m.source, SUM(-m.delta) as quantity, ROUND(SUM(-COALESCE(m.cost_amount, 0)), 2) as cost
+       FROM inventory_movements m
+       WHERE ${whereClause}
+       GROUP BY m.source
+       ORDER BY m.source`,
+      params
+    );
+
+    return {
+      startDate: startDate || null,
+      endDate: endDate || null,
+      items,
+      bySource,
+      totalCost: roundMoney(items.reduce((sum, item) => sum + item.cost, 0))
+    };
+  }
+}
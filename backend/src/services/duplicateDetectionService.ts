@@ -0,0 +1,192 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getOCRConfig } from '../config/ocr';
+import { normalizeText } from '../utils/normalizeText';
+import { ImageProcessingService } from './imageProcessingService';
+
+export interface DuplicateCheckInput {
+  imageHash?: string | null;
+  storeId?: number | null;
+  purchasedAt?: string | null;
+  totalAmount?: number | null;
+  /** 收据币种，提供时只与同币种收据比较总额 */
+  currency?: string | null;
+  items: Array<{ itemName?: string; name?: string }>;
+}
+
+export interface DuplicateCandidate {
+  receiptId: number;
+  score: number;
+  signals: {
+    image: number | null;
+    store: number;
+    date: number;
+    total: number;
+    items: number;
+  };
+  storeName: string | null;
+  purchasedAt: string;
+  totalAmount: number;
+  currency: string;
+  status: string;
+  username: string;
+  createdAt: string;
+}
+
+// 门店、日期、总额和商品行的权重，缺少门店信息时仅凭内容无法达到默认阈值
+const CONTENT_WEIGHTS = { store: 0.2, date: 0.2, total: 0.3, items: 0.3 };
+
+/**
+ * 重复收据检测服务
+ * 结合图像感知哈希与门店、购买日期、总额和商品行相似度，找出可能重复上传的收据
+ */
+export class DuplicateDetectionService {
+  private static instance: DuplicateDetectionService;
+
+  private constructor() {}
+
+  public static getInstance(): DuplicateDetectionService {
+    if (!DuplicateDetectionService.instance) {
+      DuplicateDetectionService.instance = new DuplicateDetectionService();
+    }
+    return DuplicateDetectionService.instance;
+  }
+
+  /**
+   * 查找疑似重复的收据，按相似度从高到低返回达到阈值的候选（已驳回的收据除外）
+   */
+  public async findCandidates(input: DuplicateCheckInput, tx?: TransactionContext): Promise<DuplicateCandidate[]> {
+    const config = getOCRConfig().duplicateDetection || {};
+    if (config.enabled === false) {
+      return [];
+    }
+    const threshold = Number(config.threshold ?? 0.85);
+    const maxHashDistance = Number(config.hashDistance ?? 10);
+    const imageProcessingService = ImageProcessingService.getInstance();
+    const query = (sql: string, params: any[]) => tx ? tx.query(sql, params) : connectionPool.query(sql, params);
+
+    const totalAmount = input.totalAmount ?? null;
+    const purchasedAt = input.purchasedAt ?? null;
+    const imageLookbackDays = Math.max(0, Number(config.imageLookbackDays ?? 90));
+
+    // 在写事务内执行，只取图像哈希完全相同、最近上传且有图像哈希、或购买日期相差一天以内的收据再逐条评分；
+    // 购买日期不相近时内容相似度达不到阈值，无需比较总额
+    const rows = await query(`
+      SELECT r.id, r.image_hash, r.store_id, r.purchased_at, r.total_amount, r.currency, r.status, r.created_at,
+             u.username, COALESCE(s.name, r.merchant_name) as store_name
+      FROM receipts r
+      LEFT JOIN users u ON r.user_id = u.id
+      LEFT JOIN stores s ON r.store_id = s.id
+      WHERE r.status != 'rejected'
+        AND (r.image_hash = ?
+          OR (? IS NOT NULL AND r.image_hash IS NOT NULL AND r.created_at >= datetime('now', ?))
+          OR (r.purchased_at >= datetime(DATE(?), '-1 day') AND r.purchased_at < datetime(DATE(?), '+2 days')))
+    `, [input.imageHash ?? null, input.imageHash ?? null, `-${imageLookbackDays} days`, purchasedAt, purchasedAt]);
+
+    const scored = rows.map(row => {
+      const distance = input.imageHash && row.image_hash
+        ? imageProcessingService.hashDistance(input.imageHash, row.image_hash)
+        : null;
+      return {
+        row,
+        image: distance !== null && distance <= maxHashDistance ? 1 - distance / 64 : null,
+        store: input.storeId && row.store_id === input.storeId ? 1 : 0,
+        date: this.dateSimilarity(purchasedAt, row.purchased_at),
+        total: totalAmount !== null && (!input.currency || row.currency === input.currency)
+          && Math.abs(row.total_amount - totalAmount) <= 0.01 ? 1 : 0
+      };
+    }).filter(candidate => candidate.image !== null || candidate.total > 0 || candidate.date > 0);
+
+    if (scored.length === 0) {
+      return [];
+    }
+
+    const itemRows = await query(
+      `SELECT receipt_id, item_name FROM receipt_items WHERE receipt_id IN (${scored.map(() => '?').join(',')})`,
+      scored.map(candidate => candidate.row.id)
+    );
+    const itemsByReceipt = new Map<number, string[]>();
+    for (const item of itemRows) {
+      const names = itemsByReceipt.get(item.receipt_id) || [];
+      names.push(item.item_name);
+      itemsByReceipt.set(item.receipt_id, names);
+    }
+    const inputItemNames = input.items.map(item => item.itemName || item.name || '');
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const candidate of scored) {
+      const items = this.itemSimilarity(inputItemNames, itemsByReceipt.get(candidate.row.id) || []);
+      const content = CONTENT_WEIGHTS.store * candidate.store
+        + CONTENT_WEIGHTS.date * candidate.date
+        + CONTENT_WEIGHTS.total * candidate.total
+        + CONTENT_WEIGHTS.items * items;
+
+      // 图像相近时与内容相似度叠加，两者任一很高即视为疑似重复
+      const score = candidate.image !== null ? 1 - (1 - content) * (1 - candidate.image) : content;
+      if (score < threshold) {
+        continue;
+      }
+
+      candidates.push({
+        receiptId: candidate.row.id,
+        score: parseFloat(score.toFixed(2)),
+        signals: {
+          image: candidate.image !== null ? parseFloat(candidate.image.toFixed(2)) : null,
+          store: candidate.store,
+          date: candidate.date,
+          total: candidate.total,
+          items: parseFloat(items.toFixed(2))
+        },
+        storeName: candidate.row.store_name,
+        purchasedAt: candidate.row.purchased_at,
+        totalAmount: candidate.row.total_amount,
+        currency: candidate.row.currency,
+        status: candidate.row.status,
+        username: candidate.row.username,
+        createdAt: candidate.row.created_at
+      });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, 5);
+  }
+
+  /**
+   * 同一天为1，相差一天为0.5（跨午夜或时区差异）
+   */
+  private dateSimilarity(a: string | null, b: string | null): number {
+    if (!a || !b) {
+      return 0;
+    }
+    const days = Math.abs(Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / 86400000;
+    if (days === 0) {
+      return 1;
+    }
+    return days <= 1 ? 0.5 : 0;
+  }
+
+  /**
+   * 按规范化后的商品名计算两张收据商品行的 Dice 相似度
+   */
+  private itemSimilarity(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) {
+      return 0;
+    }
+
+    const remaining = new Map<string, number>();
+    for (const name of b) {
+      const key = normalizeText(name);
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    }
+
+    let matched = 0;
+    for (const name of a) {
+      const key = normalizeText(name);
+      const count = remaining.get(key) || 0;
+      if (count > 0) {
+        matched++;
+        remaining.set(key, count - 1);
+      }
+    }
+
+    return (2 * matched) / (a.length + b.length);
+  }
+}
@@ -0,0 +1,132 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+
+/**
+ * 系统本位币，所有汇率均表示为1单位外币折合本位币的金额
+ */
+export const BASE_CURRENCY = 'CNY';
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+export interface ExchangeRateInput {
+  currency: string;
+  rate: number;
+  rateDate?: string;
+}
+
+export interface ReportCurrencyConverter {
+  currency: string;
+  rate: number;
+  /** 将本位币金额换算为报表币种金额 */
+  convert(baseAmount: number | string | null | undefined): number;
+}
+
+/**
+ * 汇率服务
+ * 负责维护本地汇率表，并为收据保存和分析报表提供汇率
+ */
+export class ExchangeRateService {
+  private static instance: ExchangeRateService;
+
+  private constructor() {}
+
+  public static getInstance(): ExchangeRateService {
+    if (!ExchangeRateService.instance) {
+      ExchangeRateService.instance = new ExchangeRateService();
+    }
+    return ExchangeRateService.instance;
+  }
+
+  /**
+   * 规范化币种代码，无效时抛出400错误
+   */
+  public normalizeCurrency(currency?: string | null): string {
+    const code = (currency || BASE_CURRENCY).toString().trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new BusinessError(`无效的币种代码: ${currency}`);
+    }
+    return code;
+  }
+
+  /**
+   * 获取指定日期（默认今天）有效的汇率，即该日期及之前最近的一条汇率
+   */
+  public async getRate(currency?: string | null, date?: string, tx?: TransactionContext): Promise<number> {
+    const code = this.normalizeCurrency(currency);
+    if (code === BASE_CURRENCY) {
+      return 1;
+    }
+
+    const sql = `
+      SELECT rate FROM exchange_rates
+      WHERE currency = ? AND rate_date <= ?
+      ORDER BY rate_date DESC
+      LIMIT 1
+    `;
+    const params = [code, date || this.today()];
+    const row = tx ? await tx.get(sql, params) : (await connectionPool.query(sql, params))[0];
+
+    if (!row) {
+      throw new BusinessError(`缺少 ${code} 的汇率，请先录入汇率`, 400, { currency: code });
+    }
+    return row.rate;
+  }
+
+  /**
+   * 获取报表币种换算器，分析接口用它把本位币金额换算为报表币种
+   */
+  public async getReportConverter(reportCurrency?: string | null): Promise<ReportCurrencyConverter> {
+    const currency = this.normalizeCurrency(reportCurrency);
+    const rate = await this.getRate(currency);
+
+    return {
+      currency,
+      rate,
+      convert: (baseAmount) => parseFloat((baseAmount ?? 0).toString()) / rate || 0
+    };
+  }
+
+  /**
+   * 保存汇率，同一币种同一日期的汇率会被覆盖
+   */
+  public async saveRates(rates: ExchangeRateInput[], source: ExchangeRateSource, userId?: number): Promise<number> {
+    const normalized = rates.map(item => {
+      const currency = this.normalizeCurrency(item.currency);
+      const rate = Number(item.rate);
+      const rateDate = item.rateDate || this.today();
+
+      if (currency === BASE_CURRENCY) {
+        throw new BusinessError(`本位币 ${BASE_CURRENCY} 不需要设置汇率`);
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new BusinessError(`无效的汇率: ${currency} ${item.rate}`);
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate)) {
+        throw new BusinessError(`无效的汇率日期: ${rateDate}`);
+      }
+
+      return { currency, rate, rateDate };
+    });
+
+    await connectionPool.transaction(async (tx) => {
+      for (const item of normalized) {
+        await tx.run(
+          `INSERT INTO exchange_rates (currency, rate, rate_date, source, created_by)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(currency, rate_date) DO UPDATE SET
+             rate = excluded.rate,
+             source = excluded.source,
+             created_by = excluded.created_by,
+             created_at = CURRENT_TIMESTAMP`,
+          [item.currency, item.rate, item.rateDate, source, userId || null]
+        );
+      }
+    });
+
+    return normalized.length;
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+}
@@ -536,6 +536,47 @@ export class ImageProcessingService {
     };
   }
 
+  /**
+   * 计算图像感知哈希（dHash，64位，16进制字符串）
+   * 缩放为 9x8 灰度图后比较相邻像素亮度，对缩放、压缩和轻微亮度变化不敏感
+   */
+  public async computePerceptualHash(filePath: string): Promise<string> {
+    const pixels = await sharp(filePath)
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    for (let row = 0; row < 8; row++) {
+      let nibble = 0;
+      for (let col = 0; col < 8; col++) {
+        nibble = (nibble << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+        if (col % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  }
+
+  /**
+   * 两个感知哈希之间的汉明距离（0-64），越小越相似
+   */
+  public hashDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < 16; i++) {
+      let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+      while (diff) {
+        distance += diff & 1;
+        diff >>= 1;
+      }
+    }
+    return distance;
+  }
+
   /**
    * 清理临时文件
    */
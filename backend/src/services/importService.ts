@@ -0,0 +1,443 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getInventoryConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { parsePurchaseDateTime } from '../utils/receiptDate';
+import { calculateReceiptTotals } from '../utils/receiptTotals';
+import { CategoryService } from './categoryService';
+import { ExchangeRateService } from './exchangeRateService';
+import { InventoryService } from './inventoryService';
+import { ProductService } from './productService';
+import { ReviewService } from './reviewService';
+import { StoreService } from './storeService';
+import { ImportColumn, ImportRow } from './spreadsheetService';
+
+export interface ImportRowError {
+  /** 表格中的行号，文件级错误时为 null */
+  row: number | null;
+  column?: string;
+  value?: any;
+  message: string;
+}
+
+export interface ImportResult {
+  total: number;
+  imported: number;
+  dryRun: boolean;
+  errors: ImportRowError[];
+}
+
+/** 期初库存导入的列 */
+export const OPENING_STOCK_COLUMNS: ImportColumn[] = [
+  { key: 'item_name', headers: ['商品名称', 'item_name', 'itemName', '名称'], required: true },
+  { key: 'current_stock', headers: ['数量', 'current_stock', 'quantity', '库存数量'], required: true },
+  { key: 'unit_price', headers: ['单价', 'unit_price', 'unitPrice'], required: true },
+  { key: 'sku', headers: ['SKU'] },
+  { key: 'barcode', headers: ['条码', 'barcode', 'JAN', 'EAN'] },
+  { key: 'categories', headers: ['分类', 'categories', 'category'] },
+  { key: 'tags', headers: ['标签', 'tags'] },
+  { key: 'low_stock_threshold', headers: ['低库存阈值', 'low_stock_threshold', 'threshold'] }
+];
+
+/** 历史收据导入的列，每行一个商品，收据编号相同的行属于同一张收据 */
+export const RECEIPT_COLUMNS: ImportColumn[] = [
+  { key: 'receipt_number', headers: ['收据编号', 'receipt_number', 'receiptNumber', '小票号'], required: true },
+  { key: 'purchased_at', headers: ['购买日期', 'purchased_at', 'purchasedAt', '购买时间'], required: true },
+  { key: 'store', headers: ['门店', 'store', 'merchant', '商户'] },
+  { key: 'currency', headers: ['币种', 'currency'] },
+  { key: 'item_name', headers: ['商品名称', 'item_name', 'itemName', '名称'], required: true },
+  { key: 'unit_price', headers: ['单价', 'unit_price', 'unitPrice'], required: true },
+  { key: 'quantity', headers: ['数量', 'quantity'], required: true },
+  { key: 'total_price', headers: ['小计', 'total_price', 'totalPrice'] },
+  { key: 'total_amount', headers: ['收据总额', 'total_amount', 'totalAmount'] }
+];
+
+const COLUMN_LABELS: Record<string, string> = Object.fromEntries(
+  [...OPENING_STOCK_COLUMNS, ...RECEIPT_COLUMNS].map(column => [column.key, column.headers[0]])
+);
+
+/** 校验未通过或试运行时回滚事务 */
+const ROLLBACK = Symbol('import-rollback');
+
+/**
+ * 行级校验错误，column 为出错的列 key
+ */
+class RowError extends Error {
+  constructor(message: string, public column?: string, public value?: any) {
+    super(message);
+  }
+}
+
+/**
+ * 批量导入服务
+ * 逐行校验期初库存和历史收据，任一行有误时整个文件不导入，并返回逐行错误报告
+ */
+export class ImportService {
+  private static instance: ImportService;
+
+  private constructor() {}
+
+  public static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService();
+    }
+    return ImportService.instance;
+  }
+
+  /**
+   * 导入期初库存：每行登记一个库存项目并记录期初库存流水，已有库存的商品不能重复导入
+   */
+  public async importOpeningStock(rows: ImportRow[], options: { userId: number; dryRun?: boolean }): Promise<ImportResult> {
+    const seenNames = new Map<string, number>();
+
+    return this.runImport(rows.length, options.dryRun, async (tx, errors) => {
+      let imported = 0;
+
+      for (const row of rows) {
+        try {
+          const name = this.requireText(row, 'item_name');
+          const previousRow = seenNames.get(name);
+          if (previousRow) {
+            throw new RowError(`与第 ${previousRow} 行商品重复`, 'item_name', name);
+          }
+          seenNames.set(name, row.rowNumber);
+
+          await this.importStockRow(tx, row, name, options.userId);
+          imported++;
+        } catch (error) {
+          errors.push(this.toRowError(row.rowNumber, error));
+        }
+      }
+
+      return imported;
+    });
+  }
+
+  /**
+   * 导入历史收据：按收据编号分组，收据保存为已审核并入库，与正常保存的收据一致
+   */
+  public async importReceipts(rows: ImportRow[], options: { userId: number; dryRun?: boolean }): Promise<ImportResult> {
+    const groups = new Map<string, ImportRow[]>();
+    for (const row of rows) {
+      const key = String(row.values.receipt_number ?? '').trim();
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    return this.runImport(groups.size, options.dryRun, async (tx, errors) => {
+      let imported = 0;
+
+      for (const [receiptNumber, groupRows] of groups) {
+        const groupErrors: ImportRowError[] = [];
+        if (!receiptNumber) {
+          groupRows.forEach(row => groupErrors.push(this.toRowError(row.rowNumber, new RowError('收据编号不能为空', 'receipt_number'))));
+        } else {
+          await this.importReceiptGroup(tx, receiptNumber, groupRows, options.userId, groupErrors);
+        }
+
+        if (groupErrors.length === 0) {
+          imported++;
+        }
+        errors.push(...groupErrors);
+      }
+
+      return imported;
+    });
+  }
+
+  /**
+   * 在事务中执行导入，有错误或试运行时回滚，不写入任何数据
+   */
+  private async runImport(
+    total: number,
+    dryRun: boolean | undefined,
+    work: (tx: TransactionContext, errors: ImportRowError[]) => Promise<number>
+  ): Promise<ImportResult> {
+    const errors: ImportRowError[] = [];
+    let imported = 0;
+
+    if (total === 0) {
+      throw new BusinessError('文件中没有可导入的数据行');
+    }
+
+    try {
+      await connectionPool.transaction(async (tx) => {
+        imported = await work(tx, errors);
+        if (errors.length > 0 || dryRun) {
+          throw ROLLBACK;
+        }
+      });
+    } catch (error) {
+      if (error !== ROLLBACK) {
+        throw error;
+      }
+    }
+
+    errors.sort((a, b) => (a.row ?? 0) - (b.row ?? 0));
+    return { total, imported: errors.length > 0 ? 0 : imported, dryRun: Boolean(dryRun), errors };
+  }
+
+  private async importStockRow(tx: TransactionContext, row: ImportRow, name: string, userId: number): Promise<void> {
+    const { validation } = getInventoryConfig();
+    if (validation?.maxItemNameLength && name.length > validation.maxItemNameLength) {
+      throw new RowError(`商品名称不能超过 ${validation.maxItemNameLength} 个字符`, 'item_name', name);
+    }
+
+    const stock = this.parseNumber(row, 'current_stock', { integer: true, min: validation?.minStockQuantity ?? 0 });
+    if (validation?.maxStockQuantity !== undefined && stock > validation.maxStockQuantity) {
+      throw new RowError(`数量不能超过 ${validation.maxStockQuantity}`, 'current_stock', row.values.current_stock);
+    }
+    const unitPrice = this.parseNumber(row, 'unit_price', { min: 0 });
+    const threshold = row.values.low_stock_threshold !== undefined
+      ? this.parseNumber(row, 'low_stock_threshold', { integer: true, min: 0 })
+      : null;
+    const barcode = this.withColumn('barcode', row.values.barcode, () =>
+      ProductService.getInstance().normalizeBarcode(row.values.barcode)
+    );
+    const categoryIds = await this.resolveLabelIds(tx, 'categories', row.values.categories);
+    const tagIds = await this.resolveLabelIds(tx, 'tags', row.values.tags);
+
+    const product = await ProductService.getInstance().resolveProduct(tx, name);
+    if (await tx.get('SELECT id FROM inventory WHERE product_id = ? OR item_name = ?', [product.productId, product.name])) {
+      throw new RowError('库存中已存在该商品，请通过库存调整修改数量', 'item_name', name);
+    }
+
+    // 补充商品的 SKU 和条码，商品已有不同的值时视为错误
+    const current = await tx.get('SELECT sku, barcode FROM products WHERE id = ?', [product.productId]);
+    const sku = row.values.sku !== undefined ? String(row.values.sku).trim() : null;
+    if (sku && current.sku && current.sku !== sku) {
+      throw new RowError(`商品已有不同的SKU: ${current.sku}`, 'sku', sku);
+    }
+    if (barcode && current.barcode && current.barcode !== barcode) {
+      throw new RowError(`商品已有不同的条码: ${current.barcode}`, 'barcode', barcode);
+    }
+    await tx.run(
+      'UPDATE products SET sku = COALESCE(sku, ?), barcode = COALESCE(barcode, ?), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [sku || null, barcode, product.productId]
+    );
+
+    const result = await tx.run(
+      'INSERT INTO inventory (item_name, current_stock, unit_price, product_id, low_stock_threshold) VALUES (?, ?, ?, ?, ?)',
+      [product.name, stock, unitPrice, product.productId, threshold]
+    );
+    await InventoryService.getInstance().recordInitialStock(tx, result.lastID, { userId, unitPrice });
+
+    const categoryService = CategoryService.getInstance();
+    await this.withColumn('categories', row.values.categories, () =>
+      categoryService.setItemLabels(tx, 'category', result.lastID, categoryIds)
+    );
+    await this.withColumn('tags', row.values.tags, () =>
+      categoryService.setItemLabels(tx, 'tag', result.lastID, tagIds)
+    );
+  }
+
+  private async importReceiptGroup(
+    tx: TransactionContext,
+    receiptNumber: string,
+    rows: ImportRow[],
+    userId: number,
+    errors: ImportRowError[]
+  ): Promise<void> {
+    // 购买日期、门店、币种和总额以第一行为准，其他行填写了不同的值时报错
+    const first = rows[0];
+    for (const row of rows.slice(1)) {
+      for (const key of ['purchased_at', 'store', 'currency', 'total_amount']) {
+        const value = row.values[key];
+        if (value !== undefined && String(value) !== String(first.values[key] ?? '')) {
+          errors.push(this.toRowError(row.rowNumber, new RowError(`同一收据的${COLUMN_LABELS[key]}必须一致`, key, value)));
+        }
+      }
+    }
+
+    let header: { purchasedAt: string; currency: string; exchangeRate: number; totalAmount: number | null } | null = null;
+    try {
+      const purchasedAt = this.parseDate(first, 'purchased_at');
+      const currency = this.withColumn('currency', first.values.currency, () =>
+        ExchangeRateService.getInstance().normalizeCurrency(first.values.currency)
+      );
+      // 按购买日期当天有效的汇率折算
+      const exchangeRate = await this.withColumn('currency', first.values.currency, () =>
+        ExchangeRateService.getInstance().getRate(currency, purchasedAt.slice(0, 10), tx)
+      );
+      const totalAmount = first.values.total_amount !== undefined
+        ? this.parseNumber(first, 'total_amount', { min: 0 })
+        : null;
+
+      const existing = await tx.get(
+        'SELECT id FROM receipts WHERE receipt_number = ? AND DATE(purchased_at) = DATE(?)',
+        [receiptNumber, purchasedAt]
+      );
+      if (existing) {
+        throw new RowError(`收据已存在 (ID: ${existing.id})，请勿重复导入`, 'receipt_number', receiptNumber);
+      }
+
+      header = { purchasedAt, currency, exchangeRate, totalAmount };
+    } catch (error) {
+      errors.push(this.toRowError(first.rowNumber, error));
+    }
+
+    const items: Array<{ itemName: string; unitPrice: number; quantity: number; totalPrice: number; productId: number }> = [];
+    for (const row of rows) {
+      try {
+        const itemName = this.requireText(row, 'item_name');
+        const unitPrice = this.parseNumber(row, 'unit_price', { min: 0 });
+        const quantity = this.parseNumber(row, 'quantity', { integer: true, min: 1 });
+        const expected = Math.round(unitPrice * quantity * 100) / 100;
+        const totalPrice = row.values.total_price !== undefined
+          ? this.parseNumber(row, 'total_price', { min: 0 })
+          : expected;
+        if (Math.abs(totalPrice - expected) > 0.01) {
+          throw new RowError(`小计与单价×数量 (${expected}) 不符`, 'total_price', row.values.total_price);
+        }
+
+        const product = await ProductService.getInstance().resolveProduct(tx, itemName);
+        items.push({ itemName: product.name, unitPrice, quantity, totalPrice, productId: product.productId });
+      } catch (error) {
+        errors.push(this.toRowError(row.rowNumber, error));
+      }
+    }
+
+    if (!header || errors.length > 0) {
+      return;
+    }
+
+    const totals = calculateReceiptTotals(items, [], 'inclusive', header.totalAmount);
+    if (!totals.reconciled) {
+      errors.push(this.toRowError(first.rowNumber, new RowError(
+        `收据总额与商品小计合计 (${totals.grandTotal}) 不符`, 'total_amount', header.totalAmount
+      )));
+      return;
+    }
+
+    const storeName = first.values.store !== undefined ? String(first.values.store) : undefined;
+    const storeId = storeName
+      ? await StoreService.getInstance().resolveReceiptStore(tx, null, { name: storeName })
+      : null;
+
+    const result = await tx.run(
+      `INSERT INTO receipts (user_id, total_amount, currency, exchange_rate, store_id, merchant_name, receipt_number, purchased_at,
+         subtotal, discount_amount, tax_amount, grand_total, tax_mode, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'inclusive', 'approved')`,
+      [
+        userId, totals.printedTotal ?? totals.grandTotal, header.currency, header.exchangeRate, storeId, storeName || null,
+        receiptNumber, header.purchasedAt, totals.subtotal, totals.discountTotal, totals.taxTotal, totals.grandTotal
+      ]
+    );
+
+    for (const item of items) {
+      await tx.run(
+        'INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price, product_id) VALUES (?, ?, ?, ?, ?, ?)',
+        [result.lastID, item.itemName, item.unitPrice, item.quantity, item.totalPrice, item.productId]
+      );
+    }
+
+    await ReviewService.getInstance().stockReceipt(tx, result.lastID, userId);
+  }
+
+  /**
+   * 按名称查找分类或标签ID，多个名称用逗号、顿号或分号分隔
+   */
+  private async resolveLabelIds(tx: TransactionContext, key: 'categories' | 'tags', value: unknown): Promise<number[]> {
+    if (value === undefined) {
+      return [];
+    }
+
+    const names = String(value).split(/[,，、;；]/).map(name => name.trim()).filter(Boolean);
+    const table = key === 'categories' ? 'categories' : 'tags';
+    const ids: number[] = [];
+    for (const name of names) {
+      const row = await tx.get(`SELECT id FROM ${table} WHERE name = ?`, [name]);
+      if (!row) {
+        throw new RowError(`${key === 'categories' ? '分类' : '标签'}不存在: ${name}`, key, value);
+      }
+      ids.push(row.id);
+    }
+    return ids;
+  }
+
+  private requireText(row: ImportRow, key: string): string {
+    const value = row.values[key];
+    const text = value !== undefined && value !== null ? String(value).trim() : '';
+    if (!text) {
+      throw new RowError(`${COLUMN_LABELS[key]}不能为空`, key);
+    }
+    return text;
+  }
+
+  private parseNumber(row: ImportRow, key: string, rules: { integer?: boolean; min?: number }): number {
+    const value = row.values[key];
+    if (value === undefined) {
+      throw new RowError(`${COLUMN_LABELS[key]}不能为空`, key);
+    }
+
+    // 允许带千位分隔符的数字文本
+    const number = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+    if (!Number.isFinite(number)) {
+      throw new RowError(`${COLUMN_LABELS[key]}必须为数字`, key, value);
+    }
+    if (rules.integer && !Number.isInteger(number)) {
+      throw new RowError(`${COLUMN_LABELS[key]}必须为整数`, key, value);
+    }
+    if (rules.min !== undefined && number < rules.min) {
+      throw new RowError(`${COLUMN_LABELS[key]}不能小于 ${rules.min}`, key, value);
+    }
+    return number;
+  }
+
+  private parseDate(row: ImportRow, key: string): string {
+    const value = row.values[key];
+    if (value === undefined) {
+      throw new RowError(`${COLUMN_LABELS[key]}不能为空`, key);
+    }
+
+    // XLSX 日期单元格按UTC读出，与表格中显示的日期时间一致
+    const text = value instanceof Date ? value.toISOString().slice(0, 19).replace('T', ' ') : String(value);
+    const parsed = parsePurchaseDateTime(text);
+    if (!parsed) {
+      throw new RowError(`${COLUMN_LABELS[key]}格式无效`, key, value);
+    }
+    return parsed;
+  }
+
+  /**
+   * 执行校验，把抛出的业务错误归到指定的列
+   */
+  private withColumn<T>(key: string, value: any, fn: () => T): T {
+    const wrap = (error: unknown) => {
+      if (error instanceof BusinessError) {
+        throw new RowError(error.message, key, value);
+      }
+      throw error;
+    };
+
+    try {
+      const result = fn();
+      return (result instanceof Promise ? result.catch(wrap) : result) as T;
+    } catch (error) {
+      return wrap(error);
+    }
+  }
+
+  private toRowError(row: number, error: unknown): ImportRowError {
+    if (error instanceof RowError) {
+      return {
+        row,
+        column: error.column ? COLUMN_LABELS[error.column] : undefined,
+        value: error.value instanceof Date ? error.value.toISOString() : error.value,
+        message: error.message
+      };
+    }
+    if (error instanceof BusinessError) {
+      return { row, message: error.message };
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('UNIQUE constraint failed')) {
+      if (message.includes('products.sku')) {
+        return { row, column: 'SKU', message: 'SKU已被其他商品使用' };
+      }
+      if (message.includes('products.barcode')) {
+        return { row, column: '条码', message: '条码已被其他商品使用' };
+      }
+    }
+    throw error;
+  }
+}
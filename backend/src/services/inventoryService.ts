@@ -0,0 +1,506 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getGlobalLowStockThreshold } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { BatchInput, BatchService } from './batchService';
+import { CostingService, MovementCost } from './costingService';
+import { LocationService } from './locationService';
+import { MonitoringService } from './monitoringService';
+import { NotificationService } from './notificationService';
+import { RestockService } from './restockService';
+
+/**
+ * 库存变动来源
+ */
+export type MovementSource =
+  | 'initial'
+  | 'receipt'
+  | 'receipt_edit'
+  | 'receipt_delete'
+  | 'manual_update'
+  | 'batch_update'
+  | 'sale'
+  | 'stocktake';
+
+export interface StockMovementInput {
+  inventoryId: number;
+  delta: number;
+  source: MovementSource;
+  userId?: number | null;
+  referenceId?: number | null;
+  unitPrice?: number | null;
+  /** 入库单位成本（含分摊的附加成本），未指定时按 unitPrice 计成本 */
+  unitCost?: number | null;
+  notes?: string;
+  /** 存放位置，未指定时入库计入默认位置、出库按默认位置优先扣减 */
+  locationId?: number | null;
+  /** 入库批次信息（收据、批号、保质期） */
+  batch?: BatchInput;
+}
+
+export interface ReceiptLineItem {
+  /** 收据项目ID，修改收据时用于关联新生成的批次 */
+  id?: number;
+  item_name: string;
+  quantity: number;
+  unit_price: number;
+  product_id?: number | null;
+  expiry_date?: string | null;
+  batch_number?: string | null;
+}
+
+export interface LowStockItem {
+  id: number;
+  item_name: string;
+  current_stock: number;
+  unit_price: number;
+  low_stock_threshold: number | null;
+  effective_threshold: number;
+  shortage: number;
+  last_updated: string;
+}
+
+export interface MovementAnalysisItem {
+  id: number;
+  item_name: string;
+  current_stock: number;
+  inbound_quantity: number;
+  outbound_quantity: number;
+  net_change: number;
+  movement_count: number;
+  last_movement_at: string | null;
+}
+
+export interface MovementAnalysis {
+  period: number;
+  items: MovementAnalysisItem[];
+  bySource: Array<{ source: MovementSource; movement_count: number; total_delta: number }>;
+}
+
+export interface StockMovementResult {
+  movementId: number;
+  inventoryId: number;
+  itemName: string;
+  delta: number;
+  balanceAfter: number;
+  /** 按计价方法计算的单位成本，出库时为销货成本单价 */
+  unitCost: number | null;
+  costAmount: number | null;
+}
+
+/**
+ * 库存服务
+ * 所有库存数量的变化都应通过本服务完成，以便同时写入库存变动流水
+ */
+export class InventoryService {
+  private static instance: InventoryService;
+
+  private constructor() {}
+
+  public static getInstance(): InventoryService {
+    if (!InventoryService.instance) {
+      InventoryService.instance = new InventoryService();
+    }
+    return InventoryService.instance;
+  }
+
+  /**
+   * 按变动量调整库存并记录流水
+   * 出库（负变动）时使用带条件的更新，库存不足则抛出409错误
+   * 同时调整各存放位置的数量，出库涉及多个位置时每个位置各记一条流水；入库生成批次，出库按 FEFO/FIFO 扣减批次
+   * 流水按配置的计价方法记录单位成本和成本金额，出库的成本金额即销货成本
+   */
+  public async applyMovement(tx: TransactionContext, input: StockMovementInput): Promise<StockMovementResult> {
+    const delta = Number(input.delta);
+
+    const update = delta < 0
+      ? await tx.run(
+          'UPDATE inventory SET current_stock = current_stock + ?, last_updated = CURRENT_TIMESTAMP WHERE id = ? AND current_stock + ? >= 0',
+          [delta, input.inventoryId, delta]
+        )
+      : await tx.run(
+          'UPDATE inventory SET current_stock = current_stock + ?, last_updated = CURRENT_TIMESTAMP WHERE id = ?',
+          [delta, input.inventoryId]
+        );
+
+    const inventory = await tx.get(
+      'SELECT id, item_name, current_stock, low_stock_threshold FROM inventory WHERE id = ?',
+      [input.inventoryId]
+    );
+    if (!inventory) {
+      throw new BusinessError('库存项目不存在', 404);
+    }
+    if (update.changes === 0) {
+      throw new BusinessError(`库存不足: ${inventory.item_name}`, 409);
+    }
+
+    // 库存从阈值以上降到阈值及以下时，在事务提交后发出低库存警报和邮件通知
+    const threshold = this.getEffectiveThreshold(inventory.low_stock_threshold);
+    const previousStock = inventory.current_stock - delta;
+    if (delta < 0 && previousStock > threshold && inventory.current_stock <= threshold) {
+      const alert = {
+        inventoryId: inventory.id,
+        itemName: inventory.item_name,
+        currentStock: inventory.current_stock,
+        threshold
+      };
+      tx.afterCommit(async () => {
+        MonitoringService.getInstance().recordLowStockAlert(alert);
+        await NotificationService.getInstance().notifyLowStock(alert);
+      });
+    }
+
+    // 开启自动补货时，库存降到补货触发阈值及以下后生成采购清单草稿
+    if (delta < 0 && RestockService.getInstance().shouldTrigger(previousStock, inventory.current_stock)) {
+      tx.afterCommit(async () => {
+        await RestockService.getInstance().createDraft(inventory.id, { source: 'auto', userId: input.userId });
+      });
+    }
+
+    const allocations = await LocationService.getInstance().applyStockDelta(
+      tx, inventory, delta, previousStock, input.locationId
+    );
+
+    const batches = await BatchService.getInstance().applyStockDelta(tx, inventory, delta, previousStock, {
+      source: input.source,
+      referenceId: input.referenceId,
+      unitCost: input.unitCost ?? input.unitPrice,
+      batch: input.batch
+    });
+    const cost = await CostingService.getInstance().resolveMovementCost(
+      tx, inventory.id, delta, previousStock, input.unitCost ?? input.unitPrice, batches
+    );
+
+    // 涉及多个位置时成本金额按各位置变动量分摊，最后一条流水承担舍入差额
+    let balance = previousStock;
+    let remainingCost = cost.costAmount;
+    let result: StockMovementResult | null = null;
+    for (const [index, allocation] of allocations.entries()) {
+      balance += allocation.delta;
+      const costAmount = remainingCost === null || index === allocations.length - 1
+        ? remainingCost
+        : Math.round(cost.costAmount! * allocation.delta / delta * 100) / 100;
+      remainingCost = remainingCost === null ? null : Math.round((remainingCost - costAmount!) * 100) / 100;
+      result = await this.recordMovement(
+        tx,
+        { ...inventory, current_stock: balance },
+        { ...input, delta: allocation.delta, locationId: allocation.locationId },
+        { ...cost, costAmount }
+      );
+    }
+    await BatchService.getInstance().linkMovement(tx, result!.movementId, batches);
+
+    return { ...result!, delta, balanceAfter: inventory.current_stock, unitCost: cost.unitCost, costAmount: cost.costAmount };
+  }
+
+  /**
+   * 将库存设置为指定数量，按差额记录流水
+   * 数量未变化时不产生流水，返回 null
+   */
+  public async setStock(
+    tx: TransactionContext,
+    inventoryId: number,
+    newStock: number,
+    options: Omit<StockMovementInput, 'inventoryId' | 'delta'>
+  ): Promise<StockMovementResult | null> {
+    const inventory = await tx.get('SELECT id, current_stock FROM inventory WHERE id = ?', [inventoryId]);
+    if (!inventory) {
+      throw new BusinessError('库存项目不存在', 404);
+    }
+
+    const delta = Number(newStock) - inventory.current_stock;
+    if (delta === 0) {
+      return null;
+    }
+
+    return this.applyMovement(tx, { ...options, inventoryId, delta });
+  }
+
+  /**
+   * 收据入库：商品不存在时创建库存记录，然后按数量入库并更新最新单价
+   * 旧库存记录尚未关联商品时同时补上关联，收据项目的保质期和批号写入新批次
+   * unitCost 为含分摊附加成本的到岸单位成本，用于批次成本和移动加权平均成本
+   * 收据不含分类和标签，由此创建的库存项目不受 validation.requireCategory / requireTags 限制，
+   * 可在库存列表按 categoryId=none / tagId=none 筛选后补设
+   */
+  public async receiveItem(
+    tx: TransactionContext,
+    item: {
+      itemName: string;
+      quantity: number;
+      unitPrice: number;
+      unitCost?: number | null;
+      productId?: number | null;
+      receiptItemId?: number | null;
+      expiryDate?: string | null;
+      batchNumber?: string | null;
+    },
+    options: { userId?: number | null; referenceId?: number | null }
+  ): Promise<StockMovementResult> {
+    await tx.run(
+      `INSERT INTO inventory (item_name, current_stock, unit_price, product_id)
+       VALUES (?, 0, ?, ?)
+       ON CONFLICT(item_name) DO UPDATE SET unit_price = ?, product_id = COALESCE(inventory.product_id, excluded.product_id)`,
+      [item.itemName, item.unitPrice, item.productId ?? null, item.unitPrice]
+    );
+
+    const inventory = await tx.get('SELECT id FROM inventory WHERE item_name = ?', [item.itemName]);
+
+    return this.applyMovement(tx, {
+      inventoryId: inventory.id,
+      delta: Number(item.quantity),
+      source: 'receipt',
+      userId: options.userId,
+      referenceId: options.referenceId,
+      unitPrice: item.unitPrice,
+      unitCost: item.unitCost,
+      batch: {
+        receiptId: options.referenceId,
+        receiptItemId: item.receiptItemId,
+        expiryDate: item.expiryDate,
+        batchNumber: item.batchNumber
+      }
+    });
+  }
+
+  /**
+   * 收据修改或删除时，按商品对比新旧收据项目数量并调整库存
+   * 已售出导致库存不足以冲回时抛出409错误，整个事务回滚；该收据的批次改为关联新的收据项目
+   */
+  public async reconcileReceiptItems(
+    tx: TransactionContext,
+    previousItems: ReceiptLineItem[],
+    nextItems: ReceiptLineItem[],
+    options: { source: 'receipt_edit' | 'receipt_delete'; userId?: number | null; referenceId: number }
+  ): Promise<StockMovementResult[]> {
+    type ItemDelta = {
+      delta: number;
+      unitPrice: number | null;
+      productId: number | null;
+      receiptItemId: number | null;
+      expiryDate: string | null;
+      batchNumber: string | null;
+    };
+    const deltas = new Map<string, ItemDelta>();
+    const emptyDelta = (): ItemDelta => ({ delta: 0, unitPrice: null, productId: null, receiptItemId: null, expiryDate: null, batchNumber: null });
+
+    for (const item of previousItems) {
+      const entry = deltas.get(item.item_name) || emptyDelta();
+      entry.delta -= Number(item.quantity);
+      deltas.set(item.item_name, entry);
+    }
+
+    for (const item of nextItems) {
+      const entry = deltas.get(item.item_name) || emptyDelta();
+      entry.delta += Number(item.quantity);
+      entry.unitPrice = item.unit_price;
+      entry.productId = item.product_id ?? null;
+      entry.receiptItemId = item.id ?? null;
+      entry.expiryDate = item.expiry_date ?? null;
+      entry.batchNumber = item.batch_number ?? null;
+      deltas.set(item.item_name, entry);
+    }
+
+    const results: StockMovementResult[] = [];
+    for (const [itemName, { delta, unitPrice, productId, receiptItemId, expiryDate, batchNumber }] of deltas.entries()) {
+      if (receiptItemId) {
+        await tx.run(
+          'UPDATE inventory_batches SET receipt_item_id = ? WHERE receipt_id = ? AND item_name = ?',
+          [receiptItemId, options.referenceId, itemName]
+        );
+      }
+      if (delta === 0) {
+        continue;
+      }
+
+      if (delta > 0) {
+        // 新增或增加的商品按入库处理，库存记录不存在时自动创建
+        await tx.run(
+          `INSERT INTO inventory (item_name, current_stock, unit_price, product_id)
+           VALUES (?, 0, ?, ?)
+           ON CONFLICT(item_name) DO UPDATE SET product_id = COALESCE(inventory.product_id, excluded.product_id)`,
+          [itemName, unitPrice, productId]
+        );
+      }
+
+      const inventory = await tx.get('SELECT id FROM inventory WHERE item_name = ?', [itemName]);
+      if (!inventory) {
+        // 库存项目已被删除，没有可冲回的库存
+        continue;
+      }
+
+      try {
+        results.push(await this.applyMovement(tx, {
+          inventoryId: inventory.id,
+          delta,
+          source: options.source,
+          userId: options.userId,
+          referenceId: options.referenceId,
+          unitPrice,
+          batch: { receiptId: options.referenceId, receiptItemId, expiryDate, batchNumber }
+        }));
+      } catch (error) {
+        if (error instanceof BusinessError && error.statusCode === 409) {
+          throw new BusinessError(`库存不足，无法冲回收据入库数量: ${itemName}`, 409, { itemName, delta });
+        }
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 为新建的库存项目记录期初流水，期初库存计入指定位置或默认位置，并生成期初批次
+   */
+  public async recordInitialStock(
+    tx: TransactionContext,
+    inventoryId: number,
+    options: { userId?: number | null; unitPrice?: number | null; locationId?: number | null }
+  ): Promise<StockMovementResult | null> {
+    const inventory = await tx.get('SELECT id, item_name, current_stock FROM inventory WHERE id = ?', [inventoryId]);
+    if (!inventory || inventory.current_stock === 0) {
+      return null;
+    }
+
+    const [allocation] = await LocationService.getInstance().applyStockDelta(
+      tx, inventory, inventory.current_stock, 0, options.locationId
+    );
+
+    const batches = await BatchService.getInstance().applyStockDelta(tx, inventory, inventory.current_stock, 0, {
+      source: 'initial',
+      unitCost: options.unitPrice
+    });
+    const cost = await CostingService.getInstance().resolveMovementCost(
+      tx, inventoryId, inventory.current_stock, 0, options.unitPrice, batches
+    );
+
+    const movement = await this.recordMovement(tx, inventory, {
+      inventoryId,
+      delta: inventory.current_stock,
+      source: 'initial',
+      userId: options.userId,
+      unitPrice: options.unitPrice,
+      locationId: allocation.locationId
+    }, cost);
+    await BatchService.getInstance().linkMovement(tx, movement.movementId, batches);
+
+    return movement;
+  }
+
+  /**
+   * 获取商品生效的低库存阈值，未设置自定义阈值时使用全局阈值
+   */
+  public getEffectiveThreshold(itemThreshold?: number | null): number {
+    return itemThreshold === null || itemThreshold === undefined
+      ? getGlobalLowStockThreshold()
+      : itemThreshold;
+  }
+
+  /**
+   * 设置商品自定义低库存阈值，传入 null 时恢复使用全局阈值
+   */
+  public async setLowStockThreshold(inventoryId: number, threshold: number | null): Promise<void> {
+    const result = await connectionPool.run(
+      'UPDATE inventory SET low_stock_threshold = ? WHERE id = ?',
+      [threshold, inventoryId]
+    );
+
+    if (result.changes === 0) {
+      throw new BusinessError('库存项目不存在', 404);
+    }
+  }
+
+  /**
+   * 获取库存不高于生效阈值的商品，按缺口从大到小排列
+   * defaultThreshold 用于未设置自定义阈值的商品，默认为全局阈值
+   */
+  public async getLowStockItems(defaultThreshold: number = getGlobalLowStockThreshold()): Promise<LowStockItem[]> {
+    return connectionPool.query<LowStockItem>(`
+      SELECT
+        id,
+        item_name,
+        current_stock,
+        unit_price,
+        low_stock_threshold,
+        COALESCE(low_stock_threshold, ?) as effective_threshold,
+        COALESCE(low_stock_threshold, ?) - current_stock as shortage,
+        last_updated
+      FROM inventory
+      WHERE current_stock <= COALESCE(low_stock_threshold, ?)
+      ORDER BY shortage DESC, item_name
+    `, Array(3).fill(defaultThreshold));
+  }
+
+  /**
+   * 按商品汇总最近 days 天内的入库、出库数量
+   * includeInactive 为 false 时只返回期间内有变动的商品
+   */
+  public async getMovementAnalysis(days: number, includeInactive = false): Promise<MovementAnalysis> {
+    const items = await connectionPool.query<MovementAnalysisItem>(`
+      SELECT
+        i.id,
+        i.item_name,
+        i.current_stock,
+        COALESCE(SUM(CASE WHEN m.delta > 0 THEN m.delta ELSE 0 END), 0) as inbound_quantity,
+        COALESCE(SUM(CASE WHEN m.delta < 0 THEN -m.delta ELSE 0 END), 0) as outbound_quantity,
+        COALESCE(SUM(m.delta), 0) as net_change,
+        COUNT(m.id) as movement_count,
+        MAX(m.created_at) as last_movement_at
+      FROM inventory i
+      LEFT JOIN inventory_movements m
+        ON m.inventory_id = i.id AND m.created_at >= datetime('now', ?)
+      GROUP BY i.id
+      ${includeInactive ? '' : 'HAVING COUNT(m.id) > 0'}
+      ORDER BY outbound_quantity DESC, inbound_quantity DESC
+    `, [`-${days} days`]);
+
+    const bySource = await connectionPool.query(`
+      SELECT source, COUNT(*) as movement_count, SUM(delta) as total_delta
+      FROM inventory_movements
+      WHERE created_at >= datetime('now', ?)
+      GROUP BY source
+      ORDER BY source
+    `, [`-${days} days`]);
+
+    return { period: days, items, bySource };
+  }
+
+  private async recordMovement(
+    tx: TransactionContext,
+    inventory: { id: number; item_name: string; current_stock: number },
+    input: StockMovementInput,
+    cost: MovementCost
+  ): Promise<StockMovementResult> {
+    const result = await tx.run(
+      `INSERT INTO inventory_movements
+        (inventory_id, item_name, source, delta, balance_after, unit_price, reference_id, user_id, notes, location_id,
+         unit_cost, cost_amount, average_cost_after)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        inventory.id,
+        inventory.item_name,
+        input.source,
+        input.delta,
+        inventory.current_stock,
+        input.unitPrice ?? null,
+        input.referenceId ?? null,
+        input.userId ?? null,
+        input.notes ?? null,
+        input.locationId ?? null,
+        cost.unitCost,
+        cost.costAmount,
+        cost.averageCostAfter
+      ]
+    );
+
+    return {
+      movementId: result.lastID,
+      inventoryId: inventory.id,
+      itemName: inventory.item_name,
+      delta: input.delta,
+      balanceAfter: inventory.current_stock,
+      unitCost: cost.unitCost,
+      costAmount: cost.costAmount
+    };
+  }
+}
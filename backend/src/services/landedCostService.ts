@@ -0,0 +1,205 @@
+import { TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { CostingService } from './costingService';
+
+export const LANDED_COST_TYPES = ['shipping', 'duty', 'fee', 'other'];
+export const ALLOCATION_METHODS = ['value', 'quantity'];
+
+export type AllocationMethod = 'value' | 'quantity';
+
+/**
+ * 到岸成本服务
+ * 将收据或发货批次上的运费、关税、代购费等附加成本按金额或数量分摊到收据项目，
+ * 并刷新库存的单位到岸成本
+ */
+export class LandedCostService {
+  private static instance: LandedCostService;
+
+  private constructor() {}
+
+  public static getInstance(): LandedCostService {
+    if (!LandedCostService.instance) {
+      LandedCostService.instance = new LandedCostService();
+    }
+    return LandedCostService.instance;
+  }
+
+  /**
+   * 重新分摊与指定收据相关的全部附加成本
+   * 收据属于发货批次时，批次内所有收据会一并重新分摊，并重算这些收据已入库批次的成本
+   */
+  public async reallocateReceipts(tx: TransactionContext, receiptIds: number[]): Promise<void> {
+    if (receiptIds.length === 0) {
+      return;
+    }
+
+    const placeholders = receiptIds.map(() => '?').join(',');
+    const shipmentRows = await tx.query<{ shipment_id: number }>(
+      `SELECT DISTINCT shipment_id FROM receipts WHERE id IN (${placeholders}) AND shipment_id IS NOT NULL`,
+      receiptIds
+    );
+    const shipmentIds = shipmentRows.map(row => row.shipment_id);
+
+    const scope = new Set<number>(receiptIds);
+    for (const shipmentId of shipmentIds) {
+      const rows = await tx.query<{ id: number }>('SELECT id FROM receipts WHERE shipment_id = ?', [shipmentId]);
+      rows.forEach(row => scope.add(row.id));
+    }
+
+    const scopeIds = Array.from(scope);
+    const scopePlaceholders = scopeIds.map(() => '?').join(',');
+
+    // 先清零，再按每条附加成本重新分摊
+    await tx.run(`UPDATE receipt_items SET landed_cost = 0 WHERE receipt_id IN (${scopePlaceholders})`, scopeIds);
+
+    const costs = await tx.query(`
+      SELECT * FROM landed_costs
+      WHERE receipt_id IN (${scopePlaceholders})
+        ${shipmentIds.length > 0 ? `OR shipment_id IN (${shipmentIds.map(() => '?').join(',')})` : ''}
+      ORDER BY id
+    `, [...scopeIds, ...shipmentIds]);
+
+    for (const cost of costs) {
+      const items = cost.receipt_id
+        ? await this.getAllocationItems(tx, 'r.id = ?', [cost.receipt_id])
+        : await this.getAllocationItems(tx, 'r.shipment_id = ?', [cost.shipment_id]);
+
+      const shares = this.allocate(cost.amount * cost.exchange_rate, items, cost.allocation_method);
+      for (const [itemId, share] of shares.entries()) {
+        await tx.run('UPDATE receipt_items SET landed_cost = landed_cost + ? WHERE id = ?', [share, itemId]);
+      }
+    }
+
+    // 已入库批次和移动加权平均成本随到岸成本一起更新
+    await CostingService.getInstance().recostReceiptBatches(tx, scopeIds);
+
+    const itemNames = await tx.query<{ item_name: string }>(
+      `SELECT DISTINCT item_name FROM receipt_items WHERE receipt_id IN (${scopePlaceholders})`,
+      scopeIds
+    );
+    await this.refreshInventoryCosts(tx, itemNames.map(row => row.item_name));
+  }
+
+  /**
+   * 设置发货批次包含的收据，并重新分摊受影响收据（含原批次剩余收据）的附加成本
+   */
+  public async assignReceiptsToShipment(tx: TransactionContext, shipmentId: number, receiptIds: number[]): Promise<void> {
+    const ids = Array.from(new Set(receiptIds.map(Number)));
+    const affected = new Set<number>();
+
+    if (ids.length > 0) {
+      const placeholders = ids.map(() => '?').join(',');
+      const found = await tx.query<{ id: number; shipment_id: number | null }>(
+        `SELECT id, shipment_id FROM receipts WHERE id IN (${placeholders})`,
+        ids
+      );
+      if (found.length !== ids.length) {
+        const missing = ids.filter(id => !found.some(row => row.id === id));
+        throw new BusinessError('部分收据不存在', 400, { receiptIds: missing });
+      }
+
+      // 从其他批次移入的收据，原批次剩余收据也需要重新分摊
+      for (const row of found) {
+        if (row.shipment_id && row.shipment_id !== shipmentId) {
+          const remaining = await tx.query<{ id: number }>(
+            'SELECT id FROM receipts WHERE shipment_id = ? AND id NOT IN (' + placeholders + ')',
+            [row.shipment_id, ...ids]
+          );
+          remaining.forEach(receipt => affected.add(receipt.id));
+        }
+      }
+    }
+
+    const previous = await tx.query<{ id: number }>('SELECT id FROM receipts WHERE shipment_id = ?', [shipmentId]);
+    previous.forEach(receipt => affected.add(receipt.id));
+
+    await tx.run('UPDATE receipts SET shipment_id = NULL WHERE shipment_id = ?', [shipmentId]);
+    for (const id of ids) {
+      await tx.run('UPDATE receipts SET shipment_id = ? WHERE id = ?', [shipmentId, id]);
+      affected.add(id);
+    }
+
+    await this.reallocateReceipts(tx, Array.from(affected));
+  }
+
+  /**
+   * 按商品最近一次采购的单价（人民币）加上分摊的单位附加成本，刷新库存到岸成本
+   * 未审核通过的收据尚未入库，不参与计算
+   */
+  public async refreshInventoryCosts(tx: TransactionContext, itemNames: string[]): Promise<void> {
+    const uniqueNames = Array.from(new Set(itemNames));
+    if (uniqueNames.length === 0) {
+      return;
+    }
+
+    await tx.run(`
+      UPDATE inventory SET landed_unit_cost = (
+        SELECT ri.unit_price * r.exchange_rate + ri.landed_cost / ri.quantity
+        FROM receipt_items ri
+        JOIN receipts r ON ri.receipt_id = r.id
+        WHERE ri.item_name = inventory.item_name AND ri.quantity > 0 AND r.status = 'approved'
+        ORDER BY r.created_at DESC, ri.id DESC
+        LIMIT 1
+      )
+      WHERE item_name IN (${uniqueNames.map(() => '?').join(',')})
+    `, uniqueNames);
+  }
+
+  /**
+   * 校验附加成本参数
+   */
+  public validateCost(input: { costType?: string; amount?: any; allocationMethod?: string }): void {
+    if (!input.costType || !LANDED_COST_TYPES.includes(input.costType)) {
+      throw new BusinessError(`无效的成本类型，可选值: ${LANDED_COST_TYPES.join(', ')}`);
+    }
+    const amount = Number(input.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BusinessError('成本金额必须大于0');
+    }
+    if (input.allocationMethod && !ALLOCATION_METHODS.includes(input.allocationMethod)) {
+      throw new BusinessError(`无效的分摊方式，可选值: ${ALLOCATION_METHODS.join(', ')}`);
+    }
+  }
+
+  private async getAllocationItems(tx: TransactionContext, condition: string, params: any[]) {
+    return tx.query<{ id: number; quantity: number; value: number }>(`
+      SELECT ri.id, ri.quantity, ri.total_price * r.exchange_rate as value
+      FROM receipt_items ri
+      JOIN receipts r ON ri.receipt_id = r.id
+      WHERE ${condition}
+      ORDER BY ri.id
+    `, params);
+  }
+
+  /**
+   * 按金额或数量比例分摊，四舍五入到分，尾差计入最后一项
+   */
+  private allocate(
+    amount: number,
+    items: Array<{ id: number; quantity: number; value: number }>,
+    method: AllocationMethod
+  ): Map<number, number> {
+    const shares = new Map<number, number>();
+    const weights = items.map(item => Math.max(0, method === 'quantity' ? item.quantity : item.value));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    if (items.length === 0) {
+      return shares;
+    }
+
+    let allocated = 0;
+    items.forEach((item, index) => {
+      let share: number;
+      if (index === items.length - 1) {
+        share = Math.round((amount - allocated) * 100) / 100;
+      } else {
+        const ratio = totalWeight > 0 ? weights[index] / totalWeight : 1 / items.length;
+        share = Math.round(amount * ratio * 100) / 100;
+      }
+      allocated += share;
+      shares.set(item.id, share);
+    });
+
+    return shares;
+  }
+}
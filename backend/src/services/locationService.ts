@@ -0,0 +1,289 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { CostingService } from './costingService';
+
+export const LOCATION_TYPES = ['hotel', 'warehouse', 'office', 'other'];
+
+export interface LocationInput {
+  name?: string;
+  locationType?: string;
+  address?: string | null;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+export interface LocationAllocation {
+  locationId: number;
+  delta: number;
+}
+
+/**
+ * 存放位置服务
+ * 维护各位置的库存数量：入库未指定位置时计入默认位置，出库未指定位置时先从默认位置扣减，不足时依次从库存最多的位置扣减
+ */
+export class LocationService {
+  private static instance: LocationService;
+
+  private constructor() {}
+
+  public static getInstance(): LocationService {
+    if (!LocationService.instance) {
+      LocationService.instance = new LocationService();
+    }
+    return LocationService.instance;
+  }
+
+  public async getDefaultLocationId(tx: TransactionContext): Promise<number> {
+    const location = await tx.get('SELECT id FROM locations WHERE is_default = 1');
+    if (location) {
+      return location.id;
+    }
+
+    const result = await tx.run(
+      `INSERT INTO locations (name, location_type, is_default) VALUES ('默认仓库', 'warehouse', 1)`
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 获取位置，不存在时抛出404错误
+   */
+  public async getLocation(id: number, tx?: TransactionContext) {
+    const sql = 'SELECT * FROM locations WHERE id = ?';
+    const location = tx ? await tx.get(sql, [id]) : (await connectionPool.query(sql, [id]))[0];
+    if (!location) {
+      throw new BusinessError('存放位置不存在', 404);
+    }
+    return location;
+  }
+
+  /**
+   * 位置列表（含商品数和库存数量）
+   */
+  public async listLocations(includeInactive = false) {
+    return connectionPool.query(
+      `SELECT l.*,
+         COUNT(CASE WHEN il.quantity > 0 THEN 1 END) as item_count,
+         COALESCE(SUM(il.quantity), 0) as total_quantity,
+         COALESCE(SUM(il.quantity * ${CostingService.getInstance().getUnitCostExpression()}), 0) as total_value
+       FROM locations l
+       LEFT JOIN inventory_locations il ON il.location_id = l.id
+       LEFT JOIN inventory i ON i.id = il.inventory_id
+       ${includeInactive ? '' : 'WHERE l.is_active = 1'}
+       GROUP BY l.id
+       ORDER BY l.is_default DESC, l.name`
+    );
+  }
+
+  public async createLocation(input: LocationInput) {
+    this.validate(input, true);
+
+    try {
+      const result = await connectionPool.run(
+        'INSERT INTO locations (name, location_type, address, notes) VALUES (?, ?, ?, ?)',
+        [input.name!.trim(), input.locationType || 'other', input.address || null, input.notes || null]
+      );
+      return this.getLocation(result.lastID);
+    } catch (error: any) {
+      if (error.message?.includes('UNIQUE constraint failed')) {
+        throw new BusinessError('存放位置名称已存在', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 更新位置信息；停用位置前其库存必须为零，默认位置不能停用
+   */
+  public async updateLocation(id: number, input: LocationInput) {
+    this.validate(input, false);
+    const location = await this.getLocation(id);
+
+    if (input.isActive === false && location.is_active) {
+      if (location.is_default) {
+        throw new BusinessError('默认位置不能停用');
+      }
+      const [{ quantity }] = await connectionPool.query(
+        'SELECT COALESCE(SUM(quantity), 0) as quantity FROM inventory_locations WHERE location_id = ?',
+        [id]
+      );
+      if (quantity > 0) {
+        throw new BusinessError('位置仍有库存，请先调拨到其他位置', 409, { quantity });
+      }
+    }
+
+    try {
+      await connectionPool.run(
+        `UPDATE locations SET name = ?, location_type = ?, address = ?, notes = ?, is_active = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          input.name !== undefined ? input.name.trim() : location.name,
+          input.locationType ?? location.location_type,
+          input.address !== undefined ? input.address : location.address,
+          input.notes !== undefined ? input.notes : location.notes,
+          input.isActive !== undefined ? (input.isActive ? 1 : 0) : location.is_active,
+          id
+        ]
+      );
+    } catch (error: any) {
+      if (error.message?.includes('UNIQUE constraint failed')) {
+        throw new BusinessError('存放位置名称已存在', 409);
+      }
+      throw error;
+    }
+
+    return this.getLocation(id);
+  }
+
+  /**
+   * 设为默认位置（收据入库等未指定位置的库存变动使用默认位置）
+   */
+  public async setDefaultLocation(id: number) {
+    await connectionPool.transaction(async tx => {
+      const location = await this.getLocation(id, tx);
+      if (!location.is_active) {
+        throw new BusinessError('已停用的位置不能设为默认位置');
+      }
+      await tx.run('UPDATE locations SET is_default = 0, updated_at = CURRENT_TIMESTAMP WHERE is_default = 1 AND id != ?', [id]);
+      await tx.run('UPDATE locations SET is_default = 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    });
+    return this.getLocation(id);
+  }
+
+  /**
+   * 位置上的库存明细
+   */
+  public async getLocationStock(id: number) {
+    const location = await this.getLocation(id);
+    const items = await connectionPool.query(
+      `SELECT i.id, i.item_name, il.quantity, i.current_stock, i.unit_price, i.landed_unit_cost,
+         il.quantity * ${CostingService.getInstance().getUnitCostExpression()} as total_value, il.updated_at
+       FROM inventory_locations il
+       JOIN inventory i ON i.id = il.inventory_id
+       WHERE il.location_id = ? AND il.quantity > 0
+       ORDER BY i.item_name`,
+      [id]
+    );
+    return { location, items };
+  }
+
+  /**
+   * 商品在各位置的库存数量及在途数量
+   */
+  public async getItemLocations(inventoryId: number) {
+    const locations = await connectionPool.query(
+      `SELECT l.id as location_id, l.name, l.location_type, l.is_default, il.quantity
+       FROM inventory_locations il
+       JOIN locations l ON l.id = il.location_id
+       WHERE il.inventory_id = ? AND il.quantity > 0
+       ORDER BY l.is_default DESC, l.name`,
+      [inventoryId]
+    );
+    const [{ quantity: inTransit }] = await connectionPool.query(
+      `SELECT COALESCE(SUM(ti.quantity), 0) as quantity
+       FROM stock_transfer_items ti
+       JOIN stock_transfers t ON t.id = ti.transfer_id
+       WHERE ti.inventory_id = ? AND t.status = 'in_transit'`,
+      [inventoryId]
+    );
+    return { locations, inTransit };
+  }
+
+  /**
+   * 按库存变动调整各位置数量，返回每个位置的变动量
+   * previousStock 为变动前的总库存，超出各位置与在途数量之和的部分（升级前或直接写入的库存）先计入默认位置
+   */
+  public async applyStockDelta(
+    tx: TransactionContext,
+    inventory: { id: number; item_name: string },
+    delta: number,
+    previousStock: number,
+    locationId?: number | null
+  ): Promise<LocationAllocation[]> {
+    const [{ tracked }] = await tx.query(
+      `SELECT
+         (SELECT COALESCE(SUM(quantity), 0) FROM inventory_locations WHERE inventory_id = ?) +
+         (SELECT COALESCE(SUM(ti.quantity), 0) FROM stock_transfer_items ti JOIN stock_transfers t ON t.id = ti.transfer_id
+          WHERE ti.inventory_id = ? AND t.status = 'in_transit') as tracked`,
+      [inventory.id, inventory.id]
+    );
+    if (previousStock > tracked) {
+      await this.addQuantity(tx, inventory.id, await this.getDefaultLocationId(tx), previousStock - tracked);
+    }
+
+    if (locationId) {
+      const location = await this.getLocation(locationId, tx);
+      if (delta > 0 && !location.is_active) {
+        throw new BusinessError(`存放位置已停用: ${location.name}`);
+      }
+      if (delta < 0 && !(await this.removeQuantity(tx, inventory.id, locationId, -delta))) {
+        throw new BusinessError(`库存不足: ${inventory.item_name}（${location.name}）`, 409);
+      }
+      if (delta > 0) {
+        await this.addQuantity(tx, inventory.id, locationId, delta);
+      }
+      return [{ locationId, delta }];
+    }
+
+    if (delta >= 0) {
+      const defaultLocationId = await this.getDefaultLocationId(tx);
+      await this.addQuantity(tx, inventory.id, defaultLocationId, delta);
+      return [{ locationId: defaultLocationId, delta }];
+    }
+
+    const rows = await tx.query(
+      `SELECT il.location_id, il.quantity
+       FROM inventory_locations il
+       JOIN locations l ON l.id = il.location_id
+       WHERE il.inventory_id = ? AND il.quantity > 0
+       ORDER BY l.is_default DESC, il.quantity DESC, l.id`,
+      [inventory.id]
+    );
+
+    const allocations: LocationAllocation[] = [];
+    let remaining = -delta;
+    for (const row of rows) {
+      if (remaining === 0) {
+        break;
+      }
+      const take = Math.min(row.quantity, remaining);
+      await this.removeQuantity(tx, inventory.id, row.location_id, take);
+      allocations.push({ locationId: row.location_id, delta: -take });
+      remaining -= take;
+    }
+
+    if (remaining > 0) {
+      throw new BusinessError(`库存不足: ${inventory.item_name}（部分库存在调拨途中）`, 409);
+    }
+    return allocations;
+  }
+
+  public async addQuantity(tx: TransactionContext, inventoryId: number, locationId: number, quantity: number): Promise<void> {
+    await tx.run(
+      `INSERT INTO inventory_locations (inventory_id, location_id, quantity) VALUES (?, ?, ?)
+       ON CONFLICT(inventory_id, location_id) DO UPDATE SET quantity = quantity + excluded.quantity, updated_at = CURRENT_TIMESTAMP`,
+      [inventoryId, locationId, quantity]
+    );
+  }
+
+  /**
+   * 从位置扣减数量，数量不足时不扣减并返回 false
+   */
+  public async removeQuantity(tx: TransactionContext, inventoryId: number, locationId: number, quantity: number): Promise<boolean> {
+    const result = await tx.run(
+      `UPDATE inventory_locations SET quantity = quantity - ?, updated_at = CURRENT_TIMESTAMP
+       WHERE inventory_id = ? AND location_id = ? AND quantity >= ?`,
+      [quantity, inventoryId, locationId, quantity]
+    );
+    return result.changes > 0;
+  }
+
+  private validate(input: LocationInput, creating: boolean) {
+    if ((creating || input.name !== undefined) && (!input.name || !input.name.trim())) {
+      throw new BusinessError('存放位置名称不能为空');
+    }
+    if (input.locationType !== undefined && !LOCATION_TYPES.includes(input.locationType)) {
+      throw new BusinessError(`无效的位置类型，可选值: ${LOCATION_TYPES.join(', ')}`);
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ErrorHandlingService } from './errorHandlingService';
+import { getInventoryConfig } from '../config/inventory';
+import { NotificationService } from './notificationService';
 
 /**
  * 系统监控指标接口
@@ -184,6 +186,57 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * 记录低库存警报（库存降到阈值及以下时由库存服务调用）
+   */
+  public recordLowStockAlert(item: {
+    inventoryId: number;
+    itemName: string;
+    currentStock: number;
+    threshold: number;
+  }): void {
+    const { alertThresholds } = getInventoryConfig();
+    if (alertThresholds?.enableGlobalAlerts === false) {
+      return;
+    }
+
+    const outOfStockThreshold = Number(alertThresholds?.globalOutOfStockThreshold ?? 0);
+    if (item.currentStock <= outOfStockThreshold) {
+      console.warn(`[ALERT] 商品 ${item.itemName} 已缺货: 当前库存 ${item.currentStock}`);
+      this.logAlert('OUT_OF_STOCK', `${item.itemName} 已缺货`, item);
+    } else {
+      console.warn(`[ALERT] 商品 ${item.itemName} 库存不足: 当前库存 ${item.currentStock}，阈值 ${item.threshold}`);
+      this.logAlert('LOW_STOCK', `${item.itemName} 库存低于阈值`, item);
+    }
+  }
+
+  /**
+   * 记录批次临期或过期警报（由批次服务定时检查时调用）
+   */
+  public recordExpiryAlert(batch: {
+    batchId: number;
+    inventoryId: number;
+    itemName: string;
+    batchNumber: string | null;
+    expiryDate: string;
+    remainingQuantity: number;
+    daysUntilExpiry: number;
+    expired: boolean;
+  }): void {
+    const { alertThresholds } = getInventoryConfig();
+    if (alertThresholds?.enableGlobalAlerts === false) {
+      return;
+    }
+
+    if (batch.expired) {
+      console.warn(`[ALERT] 商品 ${batch.itemName} 批次已过期: 到期日 ${batch.expiryDate}，剩余 ${batch.remainingQuantity}`);
+      this.logAlert('BATCH_EXPIRED', `${batch.itemName} 批次已过期`, batch);
+    } else {
+      console.warn(`[ALERT] 商品 ${batch.itemName} 批次即将到期: 到期日 ${batch.expiryDate}，剩余 ${batch.remainingQuantity}`);
+      this.logAlert('BATCH_EXPIRING', `${batch.itemName} 批次将在 ${batch.daysUntilExpiry} 天后到期`, batch);
+    }
+  }
+
   /**
    * 记录警报
    */
@@ -206,6 +259,13 @@ export class MonitoringService {
       
       const logLine = JSON.stringify(alertEntry) + '\n';
       fs.appendFileSync(alertLogPath, logLine);
+
+      // 库存警报由库存服务发送低库存通知，其余警报发送系统警报通知
+      if (alertType !== 'LOW_STOCK' && alertType !== 'OUT_OF_STOCK') {
+        NotificationService.getInstance().notifyMonitoringAlert(alertEntry).catch(error => {
+          console.error('发送警报通知失败:', error);
+        });
+      }
     } catch (error) {
       console.error('记录警报失败:', error);
     }
@@ -222,6 +282,14 @@ export class MonitoringService {
         return 'MEDIUM';
       case 'SLOW_RESPONSE':
         return 'MEDIUM';
+      case 'OUT_OF_STOCK':
+        return 'HIGH';
+      case 'LOW_STOCK':
+        return 'MEDIUM';
+      case 'BATCH_EXPIRED':
+        return 'HIGH';
+      case 'BATCH_EXPIRING':
+        return 'MEDIUM';
       default:
         return 'LOW';
     }
@@ -0,0 +1,401 @@
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { connectionPool } from '../database/connectionPool';
+import { getInventoryConfig } from '../config/inventory';
+import { getNotificationConfig } from '../config/notification';
+import { BusinessError } from '../utils/businessError';
+import { NotificationEvent, renderNotification } from '../utils/notificationTemplates';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface NotificationAttachment {
+  filename: string;
+  path: string;
+}
+
+export interface OutgoingMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: NotificationAttachment[];
+}
+
+/**
+ * 邮件发送通道，默认使用 SMTP，可通过 NotificationService.setTransport 替换
+ */
+export interface NotificationTransport {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  recipients: string[];
+  attachments?: NotificationAttachment[];
+  /** 冷却时间内已有相同 dedupeKey 的通知时不再入队 */
+  dedupeKey?: string;
+}
+
+export interface OutboxQuery {
+  status?: string;
+  eventType?: string;
+  page?: number;
+  limit?: number;
+}
+
+type SmtpConfig = ReturnType<typeof getNotificationConfig>['smtp'];
+
+/**
+ * SMTP 发送通道（nodemailer）
+ */
+export class SmtpTransport implements NotificationTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(smtp: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to.join(', '),
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments
+    });
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/** 转换为与 SQLite CURRENT_TIMESTAMP 相同的 UTC 时间格式 */
+const toSqlTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * 通知服务
+ * 通知先按模板渲染后写入发件箱 (notification_outbox)，再由后台任务通过发送通道投递，失败时按指数退避重试
+ */
+export class NotificationService {
+  private static instance: NotificationService;
+  private transportOverride: NotificationTransport | null | undefined;
+  private smtpTransport: { key: string; transport: SmtpTransport } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  private constructor() {}
+
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * 替换发送通道，传入 undefined 时恢复按配置使用 SMTP
+   */
+  public setTransport(transport: NotificationTransport | null | undefined): void {
+    this.transportOverride = transport;
+  }
+
+  /**
+   * 获取当前发送通道，未配置 SMTP 主机时返回 null（通知保留在发件箱中等待配置）
+   */
+  public getTransport(): NotificationTransport | null {
+    if (this.transportOverride !== undefined) {
+      return this.transportOverride;
+    }
+
+    const { smtp } = getNotificationConfig();
+    if (!smtp.host) {
+      return null;
+    }
+
+    const key = JSON.stringify(smtp);
+    if (this.smtpTransport?.key !== key) {
+      this.smtpTransport = { key, transport: new SmtpTransport(smtp) };
+    }
+    return this.smtpTransport.transport;
+  }
+
+  /**
+   * 启动后台投递任务
+   */
+  public start(intervalSeconds: number = 30): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processOutbox().catch(error => console.error('投递通知失败:', error));
+    }, intervalSeconds * 1000);
+    console.log(`通知投递已启动，间隔: ${intervalSeconds} 秒`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 渲染通知并写入发件箱，返回发件箱记录ID
+   * 通知已关闭、没有有效收件人或在冷却时间内重复时不入队，返回 null
+   */
+  public async enqueue(event: NotificationEvent, data: Record<string, any>, options: EnqueueOptions): Promise<number | null> {
+    const config = getNotificationConfig();
+    if (!config.enabled) {
+      return null;
+    }
+
+    const recipients = [...new Set(options.recipients.map(email => String(email).trim()).filter(email => EMAIL_PATTERN.test(email)))];
+    if (recipients.length === 0) {
+      return null;
+    }
+
+    if (options.dedupeKey) {
+      const [recent] = await connectionPool.query(
+        `SELECT id FROM notification_outbox WHERE dedupe_key = ? AND created_at >= datetime('now', ?) LIMIT 1`,
+        [options.dedupeKey, `-${Number(config.alertCooldownMinutes) || 0} minutes`]
+      );
+      if (recent) {
+        return null;
+      }
+    }
+
+    const message = renderNotification(event, data);
+    const result = await connectionPool.run(
+      `INSERT INTO notification_outbox
+        (event_type, recipients, subject, body_text, body_html, attachments, dedupe_key, max_attempts)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event,
+        JSON.stringify(recipients),
+        message.subject,
+        message.text,
+        message.html,
+        options.attachments?.length ? JSON.stringify(options.attachments) : null,
+        options.dedupeKey || null,
+        Math.max(1, Number(config.retry?.maxAttempts) || 5)
+      ]
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 投递到期的待发送通知，失败时按 baseDelaySeconds × 2^(次数-1) 推迟重试，达到最大次数后标记为失败
+   */
+  public async processOutbox(now: Date = new Date(), batchSize: number = 20) {
+    const summary = { sent: 0, retrying: 0, failed: 0 };
+    const transport = this.getTransport();
+    if (!transport || this.processing) {
+      return summary;
+    }
+
+    this.processing = true;
+    try {
+      const { smtp, retry } = getNotificationConfig();
+      const items = await connectionPool.query(
+        `SELECT * FROM notification_outbox
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at, id
+         LIMIT ?`,
+        [toSqlTime(now), batchSize]
+      );
+
+      for (const item of items) {
+        const attempts = item.attempts + 1;
+        try {
+          await transport.send({
+            from: smtp.from,
+            to: JSON.parse(item.recipients),
+            subject: item.subject,
+            text: item.body_text,
+            html: item.body_html || undefined,
+            attachments: item.attachments ? JSON.parse(item.attachments) : undefined
+          });
+          await connectionPool.run(
+            `UPDATE notification_outbox SET status = 'sent', attempts = ?, last_error = NULL,
+               sent_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [attempts, item.id]
+          );
+          summary.sent++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const exhausted = attempts >= item.max_attempts;
+          const delaySeconds = Math.min(
+            Number(retry?.baseDelaySeconds ?? 60) * 2 ** (attempts - 1),
+            Number(retry?.maxDelaySeconds ?? 3600)
+          );
+
+          await connectionPool.run(
+            `UPDATE notification_outbox SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ?,
+               updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [exhausted ? 'failed' : 'pending', attempts, message, toSqlTime(new Date(now.getTime() + delaySeconds * 1000)), item.id]
+          );
+          console.error(`发送通知失败 (#${item.id}，第 ${attempts} 次):`, message);
+          if (exhausted) {
+            summary.failed++;
+          } else {
+            summary.retrying++;
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * 将通知重新放回待发送队列并重置尝试次数
+   */
+  public async retry(id: number): Promise<void> {
+    const result = await connectionPool.run(
+      `UPDATE notification_outbox SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status != 'sent'`,
+      [id]
+    );
+
+    if (result.changes === 0) {
+      const [item] = await connectionPool.query('SELECT status FROM notification_outbox WHERE id = ?', [id]);
+      throw item ? new BusinessError('通知已发送，无需重试', 409) : new BusinessError('通知不存在', 404);
+    }
+  }
+
+  public async getOutboxItem(id: number) {
+    const [item] = await connectionPool.query('SELECT * FROM notification_outbox WHERE id = ?', [id]);
+    return item ? this.toOutboxItem(item) : null;
+  }
+
+  /**
+   * 分页查询发件箱，最新的在前
+   */
+  public async listOutbox(query: OutboxQuery = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.max(1, Number(query.limit) || 20);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (query.status) {
+      whereClause += ' AND status = ?';
+      params.push(query.status);
+    }
+
+    if (query.eventType) {
+      whereClause += ' AND event_type = ?';
+      params.push(query.eventType);
+    }
+
+    const items = await connectionPool.query(
+      `SELECT * FROM notification_outbox WHERE ${whereClause} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM notification_outbox WHERE ${whereClause}`,
+      params
+    );
+
+    return {
+      items: items.map(item => this.toOutboxItem(item)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * 低库存通知，发送到库存配置 autoRestock.notificationEmails；与低库存警报一样受 enableGlobalAlerts 控制
+   */
+  public notifyLowStock(item: { inventoryId: number; itemName: string; currentStock: number; threshold: number }) {
+    const { autoRestock, alertThresholds } = getInventoryConfig();
+    if (
+      !getNotificationConfig().events?.lowStock ||
+      autoRestock?.enableEmailNotifications === false ||
+      alertThresholds?.enableGlobalAlerts === false
+    ) {
+      return Promise.resolve(null);
+    }
+
+    const outOfStock = item.currentStock <= Number(alertThresholds?.globalOutOfStockThreshold ?? 0);
+
+    return this.enqueue('low_stock', { ...item, outOfStock }, {
+      recipients: autoRestock?.notificationEmails || [],
+      dedupeKey: `low_stock:${item.inventoryId}:${outOfStock ? 'out' : 'low'}`
+    });
+  }
+
+  /**
+   * 报表通知，附带生成的报表文件，发送到报表定义的 recipients
+   */
+  public notifyReport(report: { name: string; recipients?: string[] }, run: { file_path: string; finished_at?: string | null }) {
+    if (!getNotificationConfig().events?.reports) {
+      return Promise.resolve(null);
+    }
+
+    const fileName = path.basename(run.file_path);
+    return this.enqueue('report', {
+      reportName: report.name,
+      generatedAt: run.finished_at || toSqlTime(new Date()),
+      fileName
+    }, {
+      recipients: report.recipients || [],
+      attachments: [{ filename: fileName, path: run.file_path }]
+    });
+  }
+
+  /**
+   * 收据进入待审核队列时通知 alertEmails
+   */
+  public notifyReviewQueue(receipt: {
+    receiptId: number;
+    username?: string;
+    merchantName?: string | null;
+    totalAmount: number;
+    currency: string;
+    issues: Array<{ message: string }>;
+  }) {
+    const config = getNotificationConfig();
+    if (!config.events?.reviewQueue) {
+      return Promise.resolve(null);
+    }
+
+    return this.enqueue('review_queue', receipt, { recipients: config.alertEmails || [] });
+  }
+
+  /**
+   * 系统监控警报通知 alertEmails，同一类型的警报在冷却时间内只发送一次，批次临期、过期警报按批次分别去重
+   */
+  public notifyMonitoringAlert(alert: { type: string; message: string; severity: string; context: Record<string, any>; timestamp: string }) {
+    const config = getNotificationConfig();
+    if (!config.events?.monitoringAlerts) {
+      return Promise.resolve(null);
+    }
+
+    return this.enqueue('monitoring_alert', alert, {
+      recipients: config.alertEmails || [],
+      dedupeKey: `monitoring_alert:${alert.type}:${alert.context?.batchId ?? alert.context?.operation ?? ''}`
+    });
+  }
+
+  private toOutboxItem(row: any) {
+    return {
+      ...row,
+      recipients: JSON.parse(row.recipients),
+      attachments: row.attachments ? JSON.parse(row.attachments) : []
+    };
+  }
+}
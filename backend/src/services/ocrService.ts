@@ -5,6 +5,17 @@ import { FallbackOcrService } from './fallbackOcrService';
 import { MonitoringService } from './monitoringService';
 import { ImageProcessingService, ImageProcessingOptions } from './imageProcessingService';
 import { ErrorRecoveryService } from './errorRecoveryService';
+import { parsePurchaseDateTime } from '../utils/receiptDate';
+import {
+  calculateReceiptTotals,
+  totalMismatchIssue,
+  RECEIPT_ADJUSTMENT_TYPES,
+  ReconciliationIssue,
+  RECEIPT_TAX_MODES,
+  ReceiptAdjustment,
+  ReceiptTaxMode,
+  ReceiptTotals
+} from '../utils/receiptTotals';
 
 export interface ReceiptItem {
   itemName: string;
@@ -13,10 +24,23 @@ export interface ReceiptItem {
   totalPrice: number;
 }
 
+export interface ReceiptMerchantInfo {
+  name?: string;
+  address?: string;
+  purchasedAt?: string;
+  receiptNumber?: string;
+}
+
 export interface OCRResult {
   items: ReceiptItem[];
   confidence: number;
   totalAmount: number;
+  adjustments?: ReceiptAdjustment[];
+  taxMode?: ReceiptTaxMode;
+  totals?: ReceiptTotals;
+  /** 识别时发现并已自动修正的行金额错误及总额不符等问题 */
+  issues?: ReconciliationIssue[];
+  merchant?: ReceiptMerchantInfo;
   fallbackUsed?: boolean;
   processingTime?: number;
   qualityAnalysis?: any;
@@ -225,8 +249,11 @@ export class OCRService {
 1. 仔细识别所有商品名称（包括中文、英文、数字）
 2. 准确提取每个商品的单价、数量和小计金额
 3. 如果某个商品没有明确的数量，默认为1
-4. 忽略非商品信息（如店名、地址、时间、收银员信息等）
-5. 计算并验证总金额
+4. 单独提取门店信息：店名（含分店名）、门店地址、购买日期时间、收据编号
+5. 折扣（会员折扣、满减等）、优惠券和税额（消费税、增值税等）不要作为商品，单独列入adjustments
+6. 判断计税方式：税额另加在总额上为exclusive，商品价格已含税为inclusive，免税店或免税购物为exempt
+7. 忽略收银员、会员卡、广告语等其他非商品信息
+8. 提取收据上打印的应付总额
 
 请返回以下JSON格式：
 {
@@ -238,7 +265,21 @@ export class OCRService {
       "totalPrice": 小计金额数字
     }
   ],
-  "totalAmount": 总金额数字,
+  "merchant": {
+    "name": "店名（含分店名），无法识别时为null",
+    "address": "门店地址，无法识别时为null",
+    "purchasedAt": "购买日期时间，格式YYYY-MM-DD HH:mm:ss，无法识别时为null",
+    "receiptNumber": "收据编号/交易号，无法识别时为null"
+  },
+  "adjustments": [
+    {
+      "type": "discount、coupon或tax",
+      "description": "收据上的说明文字",
+      "amount": 金额数字（取正数）
+    }
+  ],
+  "taxMode": "exclusive、inclusive或exempt",
+  "totalAmount": 收据上打印的应付总额数字,
   "confidence": 识别置信度(0-1之间的数字)
 }
 
@@ -247,7 +288,7 @@ export class OCRService {
 - 商品名称要完整准确
 - 如果识别不清楚，confidence设置为较低值
 - 确保小计 = 单价 × 数量
-- 确保总金额 = 所有小计之和`;
+- 没有折扣、优惠券或税额时adjustments为空数组`;
   }
 
   /**
@@ -282,30 +323,42 @@ export class OCRService {
       }
 
       // 验证并清理商品数据
+      const issues: ReconciliationIssue[] = [];
       const validatedItems: ReceiptItem[] = [];
       for (const item of parsedData.items) {
-        const validatedItem = this.validateReceiptItem(item);
+        const validatedItem = this.validateReceiptItem(item, issues);
         if (validatedItem) {
           validatedItems.push(validatedItem);
         }
       }
 
-      // 计算总金额
-      const calculatedTotal = validatedItems.reduce((sum, item) => sum + item.totalPrice, 0);
-      const totalAmount = parsedData.totalAmount || calculatedTotal;
-
-      // 验证总金额的合理性
-      const tolerance = 0.01;
-      if (Math.abs(totalAmount - calculatedTotal) > tolerance && parsedData.totalAmount) {
-        console.warn(`总金额不匹配: Claude返回${totalAmount}, 计算得出${calculatedTotal}, 使用计算值`);
+      // 按商品小计、折扣和税额计算应付总额，并与收据上打印的总额核对
+      const adjustments = this.parseAdjustments(parsedData.adjustments);
+      const taxMode: ReceiptTaxMode = RECEIPT_TAX_MODES.includes(parsedData.taxMode) ? parsedData.taxMode : 'inclusive';
+      const totals = calculateReceiptTotals(
+        validatedItems,
+        adjustments,
+        taxMode,
+        parsedData.totalAmount ? this.parseNumber(parsedData.totalAmount) : null
+      );
+
+      const mismatch = totalMismatchIssue(totals);
+      if (mismatch) {
+        console.warn(`总金额不匹配: 收据打印${totals.printedTotal}, 计算得出${totals.grandTotal}, 使用计算值`);
+        issues.push(mismatch);
       }
 
       const confidence = Math.max(0, Math.min(1, parsedData.confidence || 0.8));
 
       return {
         items: validatedItems,
-        totalAmount: calculatedTotal,
-        confidence
+        totalAmount: totals.grandTotal,
+        adjustments,
+        taxMode,
+        totals,
+        issues,
+        confidence,
+        merchant: this.parseMerchantInfo(parsedData.merchant)
       };
 
     } catch (error) {
@@ -314,10 +367,60 @@ export class OCRService {
     }
   }
 
+  /**
+   * 解析门店信息，无有效字段时返回 undefined
+   */
+  private parseMerchantInfo(merchant: any): ReceiptMerchantInfo | undefined {
+    if (!merchant || typeof merchant !== 'object') {
+      return undefined;
+    }
+
+    const text = (value: any): string | undefined => {
+      if (value === null || value === undefined) return undefined;
+      const trimmed = String(value).trim();
+      return trimmed && trimmed.toLowerCase() !== 'null' ? trimmed : undefined;
+    };
+
+    const info: ReceiptMerchantInfo = {
+      name: text(merchant.name),
+      address: text(merchant.address),
+      purchasedAt: parsePurchaseDateTime(text(merchant.purchasedAt)),
+      receiptNumber: text(merchant.receiptNumber)
+    };
+
+    return Object.values(info).some(value => value !== undefined) ? info : undefined;
+  }
+
+  /**
+   * 解析折扣、优惠券和税额行，忽略类型或金额无效的行
+   */
+  private parseAdjustments(adjustments: any): ReceiptAdjustment[] {
+    if (!Array.isArray(adjustments)) {
+      return [];
+    }
+
+    const parsed: ReceiptAdjustment[] = [];
+    for (const adjustment of adjustments) {
+      const amount = Math.abs(this.parseNumber(adjustment?.amount));
+      if (!RECEIPT_ADJUSTMENT_TYPES.includes(adjustment?.type) || amount === 0) {
+        console.warn('忽略无效的折扣或税额行:', adjustment);
+        continue;
+      }
+
+      parsed.push({
+        type: adjustment.type,
+        description: typeof adjustment.description === 'string' ? adjustment.description.trim() : undefined,
+        amount
+      });
+    }
+
+    return parsed;
+  }
+
   /**
    * 验证并清理单个收据项目数据
    */
-  private validateReceiptItem(item: any): ReceiptItem | null {
+  private validateReceiptItem(item: any, issues: ReconciliationIssue[] = []): ReceiptItem | null {
     try {
       // 检查必需字段
       if (!item.itemName || typeof item.itemName !== 'string') {
@@ -346,6 +449,13 @@ export class OCRService {
       const tolerance = 0.01;
       if (Math.abs(totalPrice - expectedTotal) > tolerance) {
         console.warn(`商品计算不匹配: ${itemName}, 单价${unitPrice} × 数量${quantity} = ${expectedTotal}, 但总价为${totalPrice}`);
+        issues.push({
+          type: 'line_math',
+          message: `${itemName}: 单价 × 数量 = ${expectedTotal}，识别的小计为 ${totalPrice}，已按计算值修正`,
+          itemName,
+          expected: expectedTotal,
+          actual: totalPrice
+        });
         // 使用计算值而不是拒绝整个项目
         return {
           itemName,
@@ -0,0 +1,299 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { getInventoryReportConfig } from '../config/inventory';
+
+export interface PdfTableColumn {
+  header: string;
+  key: string;
+  /** 相对列宽，默认1 */
+  width?: number;
+  /** money 保留两位小数，number 最多两位小数，percent 把比例显示为百分数 */
+  format?: 'money' | 'number' | 'percent';
+}
+
+export interface PdfTable {
+  title: string;
+  columns: PdfTableColumn[];
+  rows: Record<string, any>[];
+}
+
+/** 水平条形图，labels 与 values 一一对应 */
+export interface PdfChart {
+  title: string;
+  labels: string[];
+  values: number[];
+  format?: PdfTableColumn['format'];
+}
+
+export interface PdfReport {
+  title: string;
+  subtitle?: string;
+  summary: Array<{ label: string; value: string | number; format?: PdfTableColumn['format'] }>;
+  charts: PdfChart[];
+  tables: PdfTable[];
+}
+
+interface FontCandidate {
+  path: string;
+  /** .ttc 字体集合中要使用的字体名称 */
+  family?: string;
+}
+
+// 常见系统中文字体位置：Alpine font-noto-cjk、Debian fonts-noto-cjk、Fedora、文泉驿、macOS、Windows
+const SYSTEM_CJK_FONTS: FontCandidate[] = [
+  { path: '/usr/share/fonts/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/google-noto-cjk/NotoSansCJK-Regular.ttc', family: 'NotoSansCJKsc-Regular' },
+  { path: '/usr/share/fonts/truetype/wqy/wqy-zenhei.ttc', family: 'WenQuanYiZenHei' },
+  { path: '/usr/share/fonts/truetype/wqy/wqy-microhei.ttc', family: 'WenQuanYiMicroHei' },
+  { path: '/System/Library/Fonts/PingFang.ttc', family: 'PingFangSC-Regular' },
+  { path: 'C:\\Windows\\Fonts\\msyh.ttc', family: 'MicrosoftYaHei' },
+  { path: 'C:\\Windows\\Fonts\\simhei.ttf' }
+];
+
+const FONT_NAME = 'report';
+const FALLBACK_FONT = 'Helvetica';
+const BAR_COLOR = '#1890ff';
+const HEADER_BACKGROUND = '#f0f0f0';
+const TEXT_COLOR = '#262626';
+const MUTED_COLOR = '#8c8c8c';
+
+/**
+ * PDF 报表渲染服务
+ * 把报表定义渲染为 A4 PDF：标题、概要、条形图和表格，表格跨页时重复表头
+ */
+export class PdfService {
+  private static instance: PdfService;
+  private fallbackWarned = false;
+
+  private constructor() {}
+
+  public static getInstance(): PdfService {
+    if (!PdfService.instance) {
+      PdfService.instance = new PdfService();
+    }
+    return PdfService.instance;
+  }
+
+  /**
+   * 查找可用的中文字体，优先级：REPORT_FONT_PATH 环境变量、报表配置 fontPath、系统字体
+   */
+  public resolveFont(): FontCandidate | null {
+    const config = getInventoryReportConfig();
+    const configured: FontCandidate[] = [
+      { path: process.env.REPORT_FONT_PATH || '', family: process.env.REPORT_FONT_FAMILY || undefined },
+      { path: config.fontPath || '', family: config.fontFamily || undefined }
+    ];
+
+    return [...configured, ...SYSTEM_CJK_FONTS].find(font => font.path && fs.existsSync(font.path)) || null;
+  }
+
+  /**
+   * 渲染报表为 PDF
+   */
+  public render(report: PdfReport): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 40,
+      bufferPages: true,
+      info: { Title: report.title, Creator: '代购管理系统' }
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    doc.font(this.registerFont(doc)).fillColor(TEXT_COLOR);
+
+    doc.fontSize(18).text(report.title);
+    if (report.subtitle) {
+      doc.fontSize(9).fillColor(MUTED_COLOR).text(report.subtitle).fillColor(TEXT_COLOR);
+    }
+    doc.moveDown();
+
+    if (report.summary.length > 0) {
+      doc.fontSize(10);
+      for (const item of report.summary) {
+        doc.text(`${item.label}：${this.formatValue(item.value, item.format)}`);
+      }
+      doc.moveDown();
+    }
+
+    for (const chart of report.charts) {
+      this.drawChart(doc, chart);
+    }
+
+    for (const table of report.tables) {
+      this.drawTable(doc, table);
+    }
+
+    this.drawPageNumbers(doc);
+    doc.end();
+    return done;
+  }
+
+  /**
+   * 注册中文字体并返回字体名称；找不到或无法加载时使用内置字体，此时中文无法显示
+   */
+  private registerFont(doc: PDFKit.PDFDocument): string {
+    const font = this.resolveFont();
+
+    if (font) {
+      try {
+        doc.registerFont(FONT_NAME, font.path, font.family as string);
+        return FONT_NAME;
+      } catch (error) {
+        console.error(`加载报表字体失败 (${font.path}):`, error);
+      }
+    }
+
+    if (!this.fallbackWarned) {
+      this.fallbackWarned = true;
+      console.warn('未找到可用的中文字体，PDF 报表中的中文将无法显示。请安装 Noto Sans CJK 或设置 REPORT_FONT_PATH');
+    }
+    return FALLBACK_FONT;
+  }
+
+  private drawChart(doc: PDFKit.PDFDocument, chart: PdfChart): void {
+    const rowHeight = 16;
+    const labelWidth = 140;
+    const valueWidth = 80;
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - left - doc.page.margins.right;
+    const barAreaWidth = contentWidth - labelWidth - valueWidth;
+    const max = Math.max(0, ...chart.values);
+
+    this.ensureSpace(doc, 24 + rowHeight * Math.max(1, chart.values.length));
+    doc.fontSize(12).text(chart.title, left);
+    doc.moveDown(0.3);
+
+    if (chart.values.length === 0) {
+      doc.fontSize(9).fillColor(MUTED_COLOR).text('暂无数据', left).fillColor(TEXT_COLOR);
+      doc.moveDown();
+      return;
+    }
+
+    let y = doc.y;
+    doc.fontSize(9);
+    chart.values.forEach((value, index) => {
+      const barWidth = max > 0 ? Math.max(0, value) / max * barAreaWidth : 0;
+      doc.fillColor(TEXT_COLOR).text(chart.labels[index], left, y + 3, {
+        width: labelWidth - 6, height: rowHeight - 4, ellipsis: true
+      });
+      if (barWidth > 0) {
+        doc.rect(left + labelWidth, y + 2, barWidth, rowHeight - 4).fill(BAR_COLOR);
+      }
+      doc.fillColor(TEXT_COLOR).text(this.formatValue(value, chart.format), left + labelWidth + barWidth + 4, y + 3, {
+        width: valueWidth, lineBreak: false
+      });
+      y += rowHeight;
+    });
+
+    doc.x = left;
+    doc.y = y;
+    doc.moveDown();
+  }
+
+  private drawTable(doc: PDFKit.PDFDocument, table: PdfTable): void {
+    const rowHeight = 18;
+    const padding = 4;
+    const left = doc.page.margins.left;
+    const contentWidth = doc.page.width - left - doc.page.margins.right;
+    const totalWeight = table.columns.reduce((sum, column) => sum + (column.width || 1), 0);
+    const widths = table.columns.map(column => (column.width || 1) / totalWeight * contentWidth);
+
+    const drawRow = (y: number, cells: string[], header: boolean) => {
+      if (header) {
+        doc.rect(left, y, contentWidth, rowHeight).fill(HEADER_BACKGROUND);
+      }
+      doc.fillColor(TEXT_COLOR);
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + padding, y + 5, {
+          width: widths[index] - padding * 2,
+          height: rowHeight - 6,
+          ellipsis: true,
+          align: !header && table.columns[index].format ? 'right' : 'left'
+        });
+        x += widths[index];
+      });
+      doc.moveTo(left, y + rowHeight).lineTo(left + contentWidth, y + rowHeight).lineWidth(0.5).stroke('#d9d9d9');
+    };
+
+    const headers = table.columns.map(column => column.header);
+    this.ensureSpace(doc, 24 + rowHeight * 2);
+    doc.fontSize(12).text(table.title, left);
+    doc.moveDown(0.3);
+    doc.fontSize(9);
+
+    let y = doc.y;
+    drawRow(y, headers, true);
+    y += rowHeight;
+
+    if (table.rows.length === 0) {
+      doc.fillColor(MUTED_COLOR).text('暂无数据', left + padding, y + 5).fillColor(TEXT_COLOR);
+      y += rowHeight;
+    }
+
+    for (const row of table.rows) {
+      if (y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        y = doc.page.margins.top;
+        drawRow(y, headers, true);
+        y += rowHeight;
+      }
+      drawRow(y, table.columns.map(column => this.formatValue(row[column.key], column.format)), false);
+      y += rowHeight;
+    }
+
+    doc.x = left;
+    doc.y = y;
+    doc.moveDown();
+  }
+
+  private drawPageNumbers(doc: PDFKit.PDFDocument): void {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // 页脚位于下边距内，临时取消下边距以免触发自动分页
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.fontSize(8).fillColor(MUTED_COLOR).text(
+        `${i + 1} / ${range.count}`,
+        doc.page.margins.left,
+        doc.page.height - bottom / 2,
+        { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottom;
+    }
+  }
+
+  /**
+   * 当前页剩余空间不足时换页
+   */
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  }
+
+  private formatValue(value: any, format?: PdfTableColumn['format']): string {
+    if (value === null || value === undefined || value === '') {
+      return '-';
+    }
+    const number = Number(value);
+    if (!format || !Number.isFinite(number)) {
+      return String(value);
+    }
+    if (format === 'percent') {
+      return `${(number * 100).toFixed(1)}%`;
+    }
+    return number.toLocaleString('zh-CN', {
+      minimumFractionDigits: format === 'money' ? 2 : 0,
+      maximumFractionDigits: 2
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { pinyin } from 'pinyin-pro';
+import { connectionPool } from '../database/connectionPool';
+import { getOCRConfig } from '../config/ocr';
+import { normalizeText } from '../utils/normalizeText';
+
+export interface ProductSuggestion {
+  productId: number;
+  name: string;
+  score: number;
+  /** 命中的商品名称或别名 */
+  matchedText: string;
+  matchedBy: 'name' | 'alias';
+  currentStock: number | null;
+}
+
+interface CatalogEntry {
+  productId: number;
+  name: string;
+  text: string;
+  key: string;
+  matchedBy: 'name' | 'alias';
+  currentStock: number | null;
+}
+
+/**
+ * 商品匹配服务
+ * 将OCR识别的商品名与商品目录中的名称和别名比对，按规范化编辑距离给出候选商品
+ */
+export class ProductMatchingService {
+  private static instance: ProductMatchingService;
+
+  private constructor() {}
+
+  public static getInstance(): ProductMatchingService {
+    if (!ProductMatchingService.instance) {
+      ProductMatchingService.instance = new ProductMatchingService();
+    }
+    return ProductMatchingService.instance;
+  }
+
+  /**
+   * 生成匹配用的键：全角转半角、片假名转平假名、汉字转无声调拼音
+   * 使「神仙水」与「shenxianshui」、「クレンジング」与「くれんじんぐ」得到相同的键
+   */
+  public matchKey(value: string): string {
+    const text = normalizeText(value)
+      .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+    return normalizeText(pinyin(text, { toneType: 'none', type: 'array', nonZh: 'consecutive' }).join(''));
+  }
+
+  /**
+   * 规范化编辑距离相似度（0-1），1 表示完全相同
+   */
+  public similarity(a: string, b: string): number {
+    const left = Array.from(a);
+    const right = Array.from(b);
+    const maxLength = Math.max(left.length, right.length);
+    if (maxLength === 0) {
+      return 0;
+    }
+
+    let previous = Array.from({ length: right.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= left.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= right.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return 1 - previous[right.length] / maxLength;
+  }
+
+  /**
+   * 为每个商品名给出相似度最高的候选商品，顺序与传入的名称一致
+   */
+  public async suggestForItems(names: string[], limit?: number): Promise<ProductSuggestion[][]> {
+    const config = getOCRConfig().productMatching || {};
+    const maxSuggestions = Number(limit ?? config.suggestionLimit ?? 3);
+    const minScore = Number(config.minScore ?? 0.5);
+
+    if (names.length === 0) {
+      return [];
+    }
+    const catalog = await this.loadCatalog();
+
+    return names.map(name => {
+      const key = this.matchKey(name || '');
+      const normalized = normalizeText(name);
+      const best = new Map<number, ProductSuggestion>();
+
+      for (const entry of catalog) {
+        // 拼音化会丢失部分字形信息，取原文和匹配键两者中较高的相似度
+        const score = key && normalized
+          ? Math.max(this.similarity(key, entry.key), this.similarity(normalized, normalizeText(entry.text)))
+          : 0;
+        const current = best.get(entry.productId);
+        if (score >= minScore && (!current || score > current.score)) {
+          best.set(entry.productId, {
+            productId: entry.productId,
+            name: entry.name,
+            score: parseFloat(score.toFixed(2)),
+            matchedText: entry.text,
+            matchedBy: entry.matchedBy,
+            currentStock: entry.currentStock
+          });
+        }
+      }
+
+      return Array.from(best.values())
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        .slice(0, maxSuggestions);
+    });
+  }
+
+  private async loadCatalog(): Promise<CatalogEntry[]> {
+    const rows = await connectionPool.query(`
+      SELECT p.id as product_id, p.name, a.alias, i.current_stock
+      FROM products p
+      LEFT JOIN product_aliases a ON a.product_id = p.id
+      LEFT JOIN inventory i ON i.product_id = p.id
+      ORDER BY p.id, a.id
+    `);
+
+    const entries: CatalogEntry[] = [];
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const candidates: Array<[string, 'name' | 'alias']> = [[row.name, 'name']];
+      if (row.alias) {
+        candidates.push([row.alias, 'alias']);
+      }
+
+      for (const [text, matchedBy] of candidates) {
+        const dedupeKey = `${row.product_id}:${normalizeText(text)}`;
+        if (seen.has(dedupeKey)) {
+          continue;
+        }
+        seen.add(dedupeKey);
+        entries.push({
+          productId: row.product_id,
+          name: row.name,
+          text,
+          key: this.matchKey(text),
+          matchedBy,
+          currentStock: row.current_stock ?? null
+        });
+      }
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,263 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { normalizeText } from '../utils/normalizeText';
+
+export interface ProductRef {
+  productId: number;
+  name: string;
+}
+
+export interface ProductInput {
+  name?: string;
+  sku?: string | null;
+  barcode?: string | null;
+  brand?: string | null;
+  spec?: string | null;
+  category?: string | null;
+  notes?: string | null;
+}
+
+/** 别名来源：手工添加、OCR识别名自动登记、用户确认匹配、旧数据迁移 */
+export type ProductAliasSource = 'manual' | 'ocr' | 'confirmed' | 'migration';
+
+/**
+ * 商品目录服务
+ * 商品以ID标识，OCR识别的不同写法通过别名归到同一商品
+ */
+export class ProductService {
+  private static instance: ProductService;
+
+  private constructor() {}
+
+  public static getInstance(): ProductService {
+    if (!ProductService.instance) {
+      ProductService.instance = new ProductService();
+    }
+    return ProductService.instance;
+  }
+
+  /**
+   * 校验 JAN/EAN/UPC 条码（8、12、13或14位数字）的校验位，无效时抛出400错误
+   */
+  public normalizeBarcode(barcode: unknown): string | null {
+    if (barcode === undefined || barcode === null || barcode === '') {
+      return null;
+    }
+
+    const digits = String(barcode).replace(/\s/g, '');
+    if (!/^(\d{8}|\d{12,14})$/.test(digits)) {
+      throw new BusinessError('条码格式无效，应为8、12、13或14位数字');
+    }
+
+    // 从右往左（不含校验位）奇数位乘3，偶数位乘1
+    const body = digits.slice(0, -1);
+    let sum = 0;
+    for (let i = 0; i < body.length; i++) {
+      sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+    }
+    if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) {
+      throw new BusinessError('条码校验位错误');
+    }
+
+    return digits;
+  }
+
+  /**
+   * 按名称或别名查找商品，未登记时返回 null
+   */
+  public async findByName(name: string, tx?: TransactionContext): Promise<ProductRef | null> {
+    const sql = `
+      SELECT p.id, p.name
+      FROM products p
+      WHERE p.name = ?
+         OR p.id = (SELECT product_id FROM product_aliases WHERE normalized_alias = ?)
+      ORDER BY p.name = ? DESC
+      LIMIT 1
+    `;
+    const params = [name.trim(), normalizeText(name), name.trim()];
+    const [product] = tx ? await tx.query(sql, params) : await connectionPool.query(sql, params);
+
+    return product ? { productId: product.id, name: product.name } : null;
+  }
+
+  /**
+   * 按条码查找商品
+   */
+  public async findByBarcode(barcode: string): Promise<ProductRef | null> {
+    const [product] = await connectionPool.query(
+      'SELECT id, name FROM products WHERE barcode = ?',
+      [this.normalizeBarcode(barcode)]
+    );
+    return product ? { productId: product.id, name: product.name } : null;
+  }
+
+  /**
+   * 在事务中解析收据项目对应的商品
+   * 指定 productId 时使用该商品并把识别名登记为别名；否则按名称和别名匹配，未匹配时自动登记新商品
+   */
+  public async resolveProduct(
+    tx: TransactionContext,
+    name: string,
+    productId?: number | null
+  ): Promise<ProductRef> {
+    if (productId) {
+      const product = await tx.get('SELECT id, name FROM products WHERE id = ?', [productId]);
+      if (!product) {
+        throw new BusinessError('商品不存在', 404, { productId });
+      }
+      if (name) {
+        await this.learnAlias(tx, product.id, name);
+      }
+      return { productId: product.id, name: product.name };
+    }
+
+    if (!name || !name.trim()) {
+      throw new BusinessError('商品名称不能为空');
+    }
+
+    const existing = await this.findByName(name, tx);
+    if (existing) {
+      return existing;
+    }
+
+    return this.createProduct(tx, { name }, 'ocr');
+  }
+
+  /**
+   * 登记新商品，商品名称同时登记为别名
+   */
+  public async createProduct(
+    tx: TransactionContext,
+    input: ProductInput,
+    aliasSource: ProductAliasSource = 'manual'
+  ): Promise<ProductRef> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new BusinessError('商品名称不能为空');
+    }
+
+    const result = await tx.run(
+      `INSERT INTO products (name, sku, barcode, brand, spec, category, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        name,
+        input.sku?.trim() || null,
+        this.normalizeBarcode(input.barcode),
+        input.brand?.trim() || null,
+        input.spec?.trim() || null,
+        input.category?.trim() || null,
+        input.notes || null
+      ]
+    );
+
+    await this.addAlias(tx, result.lastID, name, aliasSource);
+    return { productId: result.lastID, name };
+  }
+
+  /**
+   * 登记商品别名，规范化后已存在的别名不重复登记
+   * 返回别名当前指向的商品ID，可能与传入的商品不同
+   */
+  public async addAlias(
+    tx: TransactionContext,
+    productId: number,
+    alias: string,
+    source: ProductAliasSource = 'manual'
+  ): Promise<number> {
+    const normalized = normalizeText(alias);
+    if (!normalized) {
+      throw new BusinessError('别名不能为空');
+    }
+
+    await tx.run(
+      `INSERT INTO product_aliases (product_id, alias, normalized_alias, source)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(normalized_alias) DO NOTHING`,
+      [productId, alias.trim(), normalized, source]
+    );
+
+    const row = await tx.get('SELECT product_id FROM product_aliases WHERE normalized_alias = ?', [normalized]);
+    return row.product_id;
+  }
+
+  /**
+   * 记住用户确认的匹配：识别名登记为该商品的别名
+   * 识别名此前被自动归到其他商品时改为指向确认的商品，但不改动其他商品的名称本身
+   */
+  public async learnAlias(tx: TransactionContext, productId: number, alias: string): Promise<void> {
+    const normalized = normalizeText(alias);
+    if (!normalized) {
+      return;
+    }
+
+    const existing = await tx.get(
+      `SELECT a.id, a.product_id, p.name FROM product_aliases a
+       JOIN products p ON a.product_id = p.id
+       WHERE a.normalized_alias = ?`,
+      [normalized]
+    );
+
+    if (!existing) {
+      await this.addAlias(tx, productId, alias, 'confirmed');
+    } else if (existing.product_id !== productId && normalizeText(existing.name) !== normalized) {
+      await tx.run(
+        `UPDATE product_aliases SET product_id = ?, alias = ?, source = 'confirmed' WHERE id = ?`,
+        [productId, alias.trim(), existing.id]
+      );
+    }
+  }
+
+  /**
+   * 修改商品名称时同步库存和收据项目中的名称快照，并保留旧名称作为别名
+   */
+  public async renameProduct(tx: TransactionContext, productId: number, name: string): Promise<void> {
+    const product = await tx.get('SELECT id, name FROM products WHERE id = ?', [productId]);
+    if (!product) {
+      throw new BusinessError('商品不存在', 404);
+    }
+
+    const nextName = name.trim();
+    if (!nextName || nextName === product.name) {
+      return;
+    }
+
+    const conflict = await tx.get(
+      'SELECT id FROM inventory WHERE item_name = ? AND (product_id IS NULL OR product_id != ?)',
+      [nextName, productId]
+    );
+    if (conflict) {
+      throw new BusinessError('库存中已有同名商品', 409);
+    }
+
+    await tx.run('UPDATE products SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [nextName, productId]);
+    await tx.run('UPDATE inventory SET item_name = ? WHERE product_id = ?', [nextName, productId]);
+    await tx.run('UPDATE receipt_items SET item_name = ? WHERE product_id = ?', [nextName, productId]);
+    await this.addAlias(tx, productId, nextName, 'manual');
+  }
+
+  /**
+   * 为尚未关联商品的库存和收据项目登记商品（升级前的旧数据）
+   * 库存名称各自登记为独立商品，避免规范化后同名的库存记录被合并
+   */
+  public async backfillProducts(): Promise<number> {
+    return connectionPool.transaction(async (tx) => {
+      const inventory = await tx.query('SELECT id, item_name FROM inventory WHERE product_id IS NULL');
+
+      for (const item of inventory) {
+        const existing = await tx.get('SELECT id FROM products WHERE name = ?', [item.item_name]);
+        const productId = existing
+          ? existing.id
+          : (await this.createProduct(tx, { name: item.item_name }, 'migration')).productId;
+        await tx.run('UPDATE inventory SET product_id = ? WHERE id = ?', [productId, item.id]);
+      }
+
+      await tx.run(`
+        UPDATE receipt_items
+        SET product_id = (SELECT product_id FROM inventory WHERE inventory.item_name = receipt_items.item_name)
+        WHERE product_id IS NULL
+      `);
+
+      return inventory.length;
+    });
+  }
+}
@@ -0,0 +1,363 @@
+import fs from 'fs';
+import path from 'path';
+import { connectionPool } from '../database/connectionPool';
+import { getInventoryReportConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { NotificationService } from './notificationService';
+import { REPORT_FILE_FORMATS, ReportService } from './reportService';
+
+export type ReportRunTrigger = 'schedule' | 'manual';
+export type ReportRunStatus = 'running' | 'success' | 'failed';
+
+export interface ReportJob {
+  id: number;
+  report_id: string;
+  schedule: string;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: ReportRunStatus | null;
+  last_error: string | null;
+  consecutive_failures: number;
+}
+
+export interface ReportRun {
+  id: number;
+  report_id: string;
+  trigger_type: ReportRunTrigger;
+  status: ReportRunStatus;
+  format: string;
+  file_path: string | null;
+  file_size: number | null;
+  recipients: string[];
+  error: string | null;
+  user_id: number | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface ReportRunOptions {
+  userId?: number | null;
+  /** 成功后把报表文件发送给报表定义的 recipients，定时运行时总是发送 */
+  notify?: boolean;
+}
+
+export interface ReportRunQuery {
+  reportId?: string;
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 计算下一次运行时间（UTC 零点）：daily 为次日，weekly 为下周一，monthly 为下月1日
+ * 无法识别的周期返回 null，表示不自动运行
+ */
+export function getNextRunAt(schedule: string, from: Date): Date | null {
+  const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  switch (schedule) {
+    case 'daily':
+      next.setUTCDate(next.getUTCDate() + 1);
+      return next;
+    case 'weekly':
+      next.setUTCDate(next.getUTCDate() + ((8 - next.getUTCDay()) % 7 || 7));
+      return next;
+    case 'monthly':
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      return next;
+    default:
+      return null;
+  }
+}
+
+/** 转换为与 SQLite CURRENT_TIMESTAMP 相同的 UTC 时间格式，便于直接比较 */
+const toSqlTime = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * 定时报表服务
+ * 按报表配置的 schedule 定期生成报表并保存到 exportPath。任务的下次运行时间保存在 report_jobs 表中，
+ * 服务重启后继续按原计划调度，停机期间错过的运行在启动后补跑一次；每次运行都写入 report_runs
+ */
+export class ReportSchedulerService {
+  private static instance: ReportSchedulerService;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly running = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): ReportSchedulerService {
+    if (!ReportSchedulerService.instance) {
+      ReportSchedulerService.instance = new ReportSchedulerService();
+    }
+    return ReportSchedulerService.instance;
+  }
+
+  /**
+   * 启动调度，每 intervalMinutes 分钟检查一次到期任务
+   */
+  public async start(intervalMinutes: number = 1): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    const interrupted = await this.recoverInterruptedRuns();
+    if (interrupted > 0) {
+      console.warn(`${interrupted} 个报表运行因服务重启中断，已标记为失败`);
+    }
+
+    this.timer = setInterval(() => {
+      this.runDueJobs().catch(error => console.error('定时报表检查失败:', error));
+    }, intervalMinutes * 60 * 1000);
+
+    // 立即检查一次，补跑停机期间错过的任务
+    this.runDueJobs().catch(error => console.error('定时报表检查失败:', error));
+    console.log(`定时报表已启动，检查间隔: ${intervalMinutes} 分钟`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 将上次进程退出时仍处于运行中的记录标记为失败
+   */
+  public async recoverInterruptedRuns(): Promise<number> {
+    const result = await connectionPool.run(
+      `UPDATE report_runs SET status = 'failed', error = '服务重启，运行中断', finished_at = CURRENT_TIMESTAMP
+       WHERE status = 'running'`
+    );
+    return result.changes;
+  }
+
+  /**
+   * 按报表配置同步任务表：新报表创建任务，周期变化时重新计算下次运行时间
+   */
+  public async syncJobs(now: Date = new Date()): Promise<void> {
+    const jobs = await connectionPool.query<ReportJob>('SELECT * FROM report_jobs');
+    const jobsByReport = new Map(jobs.map(job => [job.report_id, job]));
+
+    for (const definition of ReportService.getInstance().listDefinitions()) {
+      const schedule = definition.schedule || '';
+      const nextRun = getNextRunAt(schedule, now);
+      const job = jobsByReport.get(definition.id);
+
+      if (!job) {
+        await connectionPool.run(
+          'INSERT INTO report_jobs (report_id, schedule, next_run_at) VALUES (?, ?, ?)',
+          [definition.id, schedule, nextRun ? toSqlTime(nextRun) : null]
+        );
+      } else if (job.schedule !== schedule) {
+        await connectionPool.run(
+          'UPDATE report_jobs SET schedule = ?, next_run_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [schedule, nextRun ? toSqlTime(nextRun) : null, job.id]
+        );
+      }
+    }
+  }
+
+  /**
+   * 获取任务列表，active 表示该任务当前会被自动运行（autoExport 已开启且报表已启用）
+   */
+  public async listJobs() {
+    await this.syncJobs();
+    const config = getInventoryReportConfig();
+    const jobs = await connectionPool.query<ReportJob>('SELECT * FROM report_jobs ORDER BY report_id');
+    const definitions = new Map(ReportService.getInstance().listDefinitions().map(definition => [definition.id, definition]));
+
+    return jobs
+      .filter(job => definitions.has(job.report_id))
+      .map(job => {
+        const definition = definitions.get(job.report_id)!;
+        return {
+          ...job,
+          name: definition.name,
+          enabled: definition.enabled !== false,
+          recipients: definition.recipients || [],
+          active: Boolean(config.autoExport) && definition.enabled !== false && job.next_run_at !== null,
+          running: this.running.has(job.report_id)
+        };
+      });
+  }
+
+  /**
+   * 运行所有到期的任务，autoExport 未开启时不运行；运行后按周期推进下次运行时间
+   */
+  public async runDueJobs(now: Date = new Date()): Promise<ReportRun[]> {
+    if (this.ticking || !getInventoryReportConfig().autoExport) {
+      return [];
+    }
+
+    this.ticking = true;
+    try {
+      await this.syncJobs(now);
+      const dueJobs = await connectionPool.query<ReportJob>(
+        'SELECT * FROM report_jobs WHERE next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at',
+        [toSqlTime(now)]
+      );
+
+      const runs: ReportRun[] = [];
+      for (const job of dueJobs) {
+        const definition = ReportService.getInstance().getDefinition(job.report_id);
+        // 未启用的报表跳过本次运行，但仍推进下次运行时间，避免启用后立即补跑
+        if (definition && definition.enabled !== false && !this.running.has(job.report_id)) {
+          runs.push(await this.runReport(job.report_id, 'schedule', { notify: true }));
+        }
+
+        const nextRun = getNextRunAt(job.schedule, now);
+        await connectionPool.run(
+          'UPDATE report_jobs SET next_run_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [nextRun ? toSqlTime(nextRun) : null, job.id]
+        );
+      }
+
+      return runs;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * 立即生成一次报表并写入 exportPath，失败时记录错误并返回失败的运行记录
+   */
+  public async runReport(reportId: string, trigger: ReportRunTrigger, options: ReportRunOptions = {}): Promise<ReportRun> {
+    const reportService = ReportService.getInstance();
+    const definition = reportService.getDefinition(reportId);
+    if (!definition) {
+      throw new BusinessError('报表不存在', 404);
+    }
+    // 检查与登记运行状态之间不能有 await，避免手动运行和定时任务同时通过检查
+    if (this.running.has(reportId)) {
+      throw new BusinessError('该报表正在运行，请稍后再试', 409);
+    }
+    this.running.add(reportId);
+
+    let runId: number;
+    try {
+      const config = getInventoryReportConfig();
+      const format = config.defaultFormat || 'pdf';
+      await this.syncJobs();
+
+      ({ lastID: runId } = await connectionPool.run(
+        `INSERT INTO report_runs (report_id, trigger_type, status, format, recipients, user_id)
+         VALUES (?, ?, 'running', ?, ?, ?)`,
+        [reportId, trigger, format, JSON.stringify(definition.recipients || []), options.userId ?? null]
+      ));
+
+      try {
+        const fileFormat = REPORT_FILE_FORMATS[format];
+        if (!fileFormat) {
+          throw new BusinessError(`不支持的报表格式: ${format}`);
+        }
+
+        const report = await reportService.build(reportId);
+        const buffer = await reportService.render(report, format);
+
+        const exportDir = path.resolve(process.cwd(), config.exportPath || './exports');
+        fs.mkdirSync(exportDir, { recursive: true });
+        const timestamp = toSqlTime(new Date()).replace(/\D/g, '');
+        const filePath = path.join(exportDir, `${reportId}_${timestamp}_${runId}.${fileFormat.extension}`);
+        fs.writeFileSync(filePath, buffer);
+
+        await connectionPool.run(
+          `UPDATE report_runs SET status = 'success', file_path = ?, file_size = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [filePath, buffer.length, runId]
+        );
+        await connectionPool.run(
+          `UPDATE report_jobs SET last_run_at = CURRENT_TIMESTAMP, last_status = 'success', last_error = NULL,
+             consecutive_failures = 0, updated_at = CURRENT_TIMESTAMP
+           WHERE report_id = ?`,
+          [reportId]
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`生成报表失败 (${reportId}):`, error);
+
+        await connectionPool.run(
+          `UPDATE report_runs SET status = 'failed', error = ?, finished_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [message, runId]
+        );
+        await connectionPool.run(
+          `UPDATE report_jobs SET last_run_at = CURRENT_TIMESTAMP, last_status = 'failed', last_error = ?,
+             consecutive_failures = consecutive_failures + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE report_id = ?`,
+          [message, reportId]
+        );
+      }
+    } finally {
+      this.running.delete(reportId);
+    }
+
+    const run = (await this.getRun(runId))!;
+    if (run.status === 'success' && options.notify) {
+      try {
+        await NotificationService.getInstance().notifyReport(definition, { file_path: run.file_path!, finished_at: run.finished_at });
+      } catch (error) {
+        console.error(`发送报表通知失败 (${reportId}):`, error);
+      }
+    }
+    return run;
+  }
+
+  /**
+   * 按原运行记录的报表重新运行一次，重新运行定时任务时同样发送给收件人
+   */
+  public async rerun(runId: number, userId?: number | null): Promise<ReportRun> {
+    const run = await this.getRun(runId);
+    if (!run) {
+      throw new BusinessError('报表运行记录不存在', 404);
+    }
+    return this.runReport(run.report_id, 'manual', { userId, notify: run.trigger_type === 'schedule' });
+  }
+
+  public async getRun(id: number): Promise<ReportRun | null> {
+    const [run] = await connectionPool.query('SELECT * FROM report_runs WHERE id = ?', [id]);
+    return run ? this.toRun(run) : null;
+  }
+
+  /**
+   * 分页查询运行记录，最新的在前
+   */
+  public async listRuns(query: ReportRunQuery = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.max(1, Number(query.limit) || 20);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (query.reportId) {
+      whereClause += ' AND report_id = ?';
+      params.push(query.reportId);
+    }
+
+    if (query.status) {
+      whereClause += ' AND status = ?';
+      params.push(query.status);
+    }
+
+    const runs = await connectionPool.query(
+      `SELECT * FROM report_runs WHERE ${whereClause} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM report_runs WHERE ${whereClause}`,
+      params
+    );
+
+    return {
+      runs: runs.map(run => this.toRun(run)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  private toRun(row: any): ReportRun {
+    return { ...row, recipients: row.recipients ? JSON.parse(row.recipients) : [] };
+  }
+}
@@ -0,0 +1,380 @@
+import { connectionPool } from '../database/connectionPool';
+import { getGlobalLowStockThreshold, getInventoryReportConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+import { CostingService } from './costingService';
+import { ExchangeRateService, ReportCurrencyConverter } from './exchangeRateService';
+import { InventoryService, MovementSource } from './inventoryService';
+import { PdfReport, PdfService, PdfTableColumn } from './pdfService';
+import { MONEY_FORMAT, SheetColumn, SpreadsheetService, XLSX_CONTENT_TYPE } from './spreadsheetService';
+
+export interface ReportDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  schedule?: string;
+  recipients?: string[];
+  filters?: Record<string, any>;
+}
+
+/** 报表内容，可直接交给 PdfService 渲染，也可作为 JSON 返回 */
+export interface ReportDocument extends PdfReport {
+  id: string;
+  generatedAt: string;
+  reportCurrency: string;
+  filters: Record<string, any>;
+}
+
+export interface ReportOptions {
+  /** 覆盖报表配置中的同名筛选条件 */
+  filters?: Record<string, any>;
+  reportCurrency?: string;
+}
+
+const MOVEMENT_SOURCE_LABELS: Record<MovementSource, string> = {
+  initial: '期初入库',
+  receipt: '收据入库',
+  receipt_edit: '收据修改',
+  receipt_delete: '收据删除',
+  manual_update: '手动调整',
+  batch_update: '批量调整',
+  sale: '销售出库',
+  stocktake: '盘点调整'
+};
+
+/** 报表可导出的文件格式，键与报表配置 exportFormats 中的名称一致 */
+export const REPORT_FILE_FORMATS: Record<string, { extension: string; contentType: string }> = {
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  excel: { extension: 'xlsx', contentType: XLSX_CONTENT_TYPE }
+};
+
+const SHEET_FORMATS: Record<NonNullable<PdfTableColumn['format']>, string> = {
+  money: MONEY_FORMAT,
+  number: '#,##0.##',
+  percent: '0.0%'
+};
+
+/** 图表最多显示的条目数 */
+const CHART_LIMIT = 10;
+
+type ReportBuilder = (
+  filters: Record<string, any>,
+  report: ReportCurrencyConverter
+) => Promise<Pick<PdfReport, 'summary' | 'charts' | 'tables'>>;
+
+/**
+ * 库存报表服务
+ * 按报表配置（getInventoryReportConfig）中的定义生成低库存、库存价值和库存流动分析报表
+ */
+export class ReportService {
+  private static instance: ReportService;
+  private readonly builders: Record<string, ReportBuilder> = {
+    'low-stock': (filters, report) => this.buildLowStock(filters, report),
+    'stock-value': (filters, report) => this.buildStockValue(filters, report),
+    'movement-analysis': filters => this.buildMovementAnalysis(filters)
+  };
+
+  private constructor() {}
+
+  public static getInstance(): ReportService {
+    if (!ReportService.instance) {
+      ReportService.instance = new ReportService();
+    }
+    return ReportService.instance;
+  }
+
+  /**
+   * 获取配置中可以生成的报表定义
+   */
+  public listDefinitions(): ReportDefinition[] {
+    const reports: ReportDefinition[] = getInventoryReportConfig().reports || [];
+    return reports.filter(report => report.id in this.builders);
+  }
+
+  public getDefinition(id: string): ReportDefinition | null {
+    return this.listDefinitions().find(report => report.id === id) || null;
+  }
+
+  /**
+   * 检查导出格式是否在报表配置的 exportFormats 中启用
+   */
+  public isFormatEnabled(format: string): boolean {
+    return (getInventoryReportConfig().exportFormats || []).includes(format);
+  }
+
+  /**
+   * 生成报表，报表不存在时抛出404错误
+   */
+  public async build(id: string, options: ReportOptions = {}): Promise<ReportDocument> {
+    const definition = this.getDefinition(id);
+    if (!definition) {
+      throw new BusinessError('报表不存在', 404);
+    }
+
+    const filters = this.resolveFilters(definition, options.filters || {});
+    const report = await ExchangeRateService.getInstance().getReportConverter(options.reportCurrency);
+    const content = await this.builders[id](filters, report);
+    const generatedAt = new Date().toISOString().replace('T', ' ').slice(0, 19);
+
+    return {
+      id,
+      title: definition.name,
+      subtitle: `${definition.description ? `${definition.description}，` : ''}生成时间 ${generatedAt} (UTC)，金额单位 ${report.currency}`,
+      generatedAt,
+      reportCurrency: report.currency,
+      filters,
+      ...content
+    };
+  }
+
+  /**
+   * 把报表渲染为文件：pdf 使用 PdfService，excel 把概要和每个表格各写入一个工作表
+   */
+  public async render(report: ReportDocument, format: string): Promise<Buffer> {
+    if (format === 'pdf') {
+      return PdfService.getInstance().render(report);
+    }
+    if (format === 'excel') {
+      const toSheetColumn = (column: PdfTableColumn): SheetColumn => ({
+        header: column.header,
+        key: column.key,
+        width: Math.round((column.width || 1) * 12),
+        numFmt: column.format ? SHEET_FORMATS[column.format] : undefined
+      });
+
+      return SpreadsheetService.getInstance().buildWorkbook([
+        {
+          name: '概要',
+          columns: [{ header: '指标', key: 'label', width: 24 }, { header: '数值', key: 'value', width: 16, numFmt: '#,##0.##' }],
+          rows: report.summary
+        },
+        ...report.tables.map(table => ({ name: table.title, columns: table.columns.map(toSheetColumn), rows: table.rows }))
+      ]);
+    }
+    throw new BusinessError(`不支持的报表格式: ${format}`);
+  }
+
+  /**
+   * 合并筛选条件，覆盖值按配置中默认值的类型转换，无法转换时抛出400错误
+   */
+  private resolveFilters(definition: ReportDefinition, overrides: Record<string, any>): Record<string, any> {
+    const filters: Record<string, any> = { ...(definition.filters || {}) };
+
+    for (const [key, defaultValue] of Object.entries(filters)) {
+      const value = overrides[key];
+      if (value === undefined || value === '') {
+        continue;
+      }
+
+      if (typeof defaultValue === 'number') {
+        const number = Number(value);
+        if (!Number.isFinite(number) || number < 0) {
+          throw new BusinessError(`无效的报表参数: ${key}`);
+        }
+        filters[key] = number;
+      } else if (typeof defaultValue === 'boolean') {
+        if (!['true', 'false', true, false].includes(value)) {
+          throw new BusinessError(`无效的报表参数: ${key}`);
+        }
+        filters[key] = value === true || value === 'true';
+      } else {
+        filters[key] = value;
+      }
+    }
+
+    return filters;
+  }
+
+  private async buildLowStock(filters: Record<string, any>, report: ReportCurrencyConverter): ReturnType<ReportBuilder> {
+    const threshold = typeof filters.threshold === 'number' ? filters.threshold : getGlobalLowStockThreshold();
+    const items = (await InventoryService.getInstance().getLowStockItems(threshold))
+      .filter(item => filters.includeOutOfStock !== false || item.current_stock > 0)
+      .map(item => ({
+        ...item,
+        unit_price: report.convert(item.unit_price),
+        restock_cost: report.convert(Math.max(0, item.shortage) * item.unit_price)
+      }));
+
+    return {
+      summary: [
+        { label: '默认阈值', value: threshold, format: 'number' },
+        { label: '低库存商品数', value: items.length, format: 'number' },
+        { label: '缺货商品数', value: items.filter(item => item.current_stock <= 0).length, format: 'number' },
+        { label: '补货至阈值预计成本', value: items.reduce((sum, item) => sum + item.restock_cost, 0), format: 'money' }
+      ],
+      charts: [{
+        title: `库存缺口前${CHART_LIMIT}名`,
+        labels: items.slice(0, CHART_LIMIT).map(item => item.item_name),
+        values: items.slice(0, CHART_LIMIT).map(item => item.shortage),
+        format: 'number'
+      }],
+      tables: [{
+        title: '低库存商品',
+        columns: [
+          { header: '商品名称', key: 'item_name', width: 3 },
+          { header: '当前库存', key: 'current_stock', format: 'number' },
+          { header: '阈值', key: 'effective_threshold', format: 'number' },
+          { header: '缺口', key: 'shortage', format: 'number' },
+          { header: '单价', key: 'unit_price', format: 'money' },
+          { header: '补货成本', key: 'restock_cost', width: 1.3, format: 'money' }
+        ],
+        rows: items
+      }]
+    };
+  }
+
+  private async buildStockValue(filters: Record<string, any>, report: ReportCurrencyConverter): ReturnType<ReportBuilder> {
+    // 单位成本按配置的计价方法计算，与库存统计接口一致
+    const unitCost = CostingService.getInstance().getUnitCostExpression();
+    const items = await connectionPool.query(`
+      SELECT
+        i.id,
+        i.item_name,
+        i.current_stock,
+        ${unitCost} as unit_cost,
+        i.current_stock * ${unitCost} as stock_value
+      FROM inventory i
+      ${filters.includeZeroValue ? '' : `WHERE i.current_stock * ${unitCost} > 0`}
+      ORDER BY stock_value DESC, i.item_name
+    `);
+
+    const links = await connectionPool.query(`
+      SELECT ic.inventory_id, c.name
+      FROM inventory_categories ic
+      JOIN categories c ON ic.category_id = c.id
+      ORDER BY c.name
+    `);
+    const categoryNames = new Map<number, string[]>();
+    for (const link of links) {
+      categoryNames.set(link.inventory_id, [...(categoryNames.get(link.inventory_id) || []), link.name]);
+    }
+
+    const totalValue = items.reduce((sum, item) => sum + item.stock_value, 0);
+    const rows = items.map(item => ({
+      ...item,
+      categories: (categoryNames.get(item.id) || ['未分类']).join('、'),
+      unit_cost: report.convert(item.unit_cost),
+      stock_value: report.convert(item.stock_value),
+      share: totalValue > 0 ? item.stock_value / totalValue : 0
+    }));
+
+    const summary: PdfReport['summary'] = [
+      { label: '商品数', value: rows.length, format: 'number' },
+      { label: '库存总量', value: rows.reduce((sum, item) => sum + item.current_stock, 0), format: 'number' },
+      { label: '库存总价值', value: report.convert(totalValue), format: 'money' }
+    ];
+    const itemColumns: PdfReport['tables'][number]['columns'] = [
+      { header: '商品名称', key: 'item_name', width: 3 },
+      { header: '库存', key: 'current_stock', format: 'number' },
+      { header: '单位成本', key: 'unit_cost', format: 'money' },
+      { header: '库存价值', key: 'stock_value', width: 1.3, format: 'money' },
+      { header: '占比', key: 'share', format: 'percent' }
+    ];
+
+    if (!filters.groupByCategory) {
+      return {
+        summary,
+        charts: [{
+          title: `库存价值前${CHART_LIMIT}名`,
+          labels: rows.slice(0, CHART_LIMIT).map(item => item.item_name),
+          values: rows.slice(0, CHART_LIMIT).map(item => item.stock_value),
+          format: 'money'
+        }],
+        tables: [{ title: '商品明细', columns: itemColumns, rows }]
+      };
+    }
+
+    // 属于多个分类的商品会分别计入每个分类，因此各分类价值之和可能大于库存总价值
+    const groups = new Map<string, { category: string; item_count: number; total_stock: number; stock_value: number }>();
+    for (const item of items) {
+      for (const category of categoryNames.get(item.id) || ['未分类']) {
+        const group = groups.get(category) || { category, item_count: 0, total_stock: 0, stock_value: 0 };
+        group.item_count++;
+        group.total_stock += item.current_stock;
+        group.stock_value += item.stock_value;
+        groups.set(category, group);
+      }
+    }
+    const categoryRows = [...groups.values()]
+      .sort((a, b) => b.stock_value - a.stock_value)
+      .map(group => ({
+        ...group,
+        stock_value: report.convert(group.stock_value),
+        share: totalValue > 0 ? group.stock_value / totalValue : 0
+      }));
+
+    return {
+      summary,
+      charts: [{
+        title: '各分类库存价值',
+        labels: categoryRows.slice(0, CHART_LIMIT).map(group => group.category),
+        values: categoryRows.slice(0, CHART_LIMIT).map(group => group.stock_value),
+        format: 'money'
+      }],
+      tables: [
+        {
+          title: '分类汇总',
+          columns: [
+            { header: '分类', key: 'category', width: 3 },
+            { header: '商品数', key: 'item_count', format: 'number' },
+            { header: '库存总量', key: 'total_stock', format: 'number' },
+            { header: '库存价值', key: 'stock_value', width: 1.3, format: 'money' },
+            { header: '占比', key: 'share', format: 'percent' }
+          ],
+          rows: categoryRows
+        },
+        {
+          title: '商品明细',
+          columns: [itemColumns[0], { header: '分类', key: 'categories', width: 2 }, ...itemColumns.slice(1)],
+          rows
+        }
+      ]
+    };
+  }
+
+  private async buildMovementAnalysis(filters: Record<string, any>): ReturnType<ReportBuilder> {
+    const days = Math.max(1, Math.floor(Number(filters.period) || 30));
+    const analysis = await InventoryService.getInstance().getMovementAnalysis(days, Boolean(filters.includeInactive));
+    const topOutbound = [...analysis.items]
+      .filter(item => item.outbound_quantity > 0)
+      .slice(0, CHART_LIMIT);
+
+    return {
+      summary: [
+        { label: '统计天数', value: days, format: 'number' },
+        { label: '入库总量', value: analysis.items.reduce((sum, item) => sum + item.inbound_quantity, 0), format: 'number' },
+        { label: '出库总量', value: analysis.items.reduce((sum, item) => sum + item.outbound_quantity, 0), format: 'number' },
+        { label: '变动次数', value: analysis.bySource.reduce((sum, row) => sum + row.movement_count, 0), format: 'number' }
+      ],
+      charts: [{
+        title: `出库量前${CHART_LIMIT}名`,
+        labels: topOutbound.map(item => item.item_name),
+        values: topOutbound.map(item => item.outbound_quantity),
+        format: 'number'
+      }],
+      tables: [
+        {
+          title: '按来源汇总',
+          columns: [
+            { header: '来源', key: 'source_label', width: 2 },
+            { header: '变动次数', key: 'movement_count', format: 'number' },
+            { header: '数量变化', key: 'total_delta', format: 'number' }
+          ],
+          rows: analysis.bySource.map(row => ({ ...row, source_label: MOVEMENT_SOURCE_LABELS[row.source] || row.source }))
+        },
+        {
+          title: '商品流动明细',
+          columns: [
+            { header: '商品名称', key: 'item_name', width: 3 },
+            { header: '当前库存', key: 'current_stock', format: 'number' },
+            { header: '入库', key: 'inbound_quantity', format: 'number' },
+            { header: '出库', key: 'outbound_quantity', format: 'number' },
+            { header: '净变化', key: 'net_change', format: 'number' },
+            { header: '最近变动', key: 'last_movement_at', width: 1.8 }
+          ],
+          rows: analysis.items
+        }
+      ]
+    };
+  }
+}
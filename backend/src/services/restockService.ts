@@ -0,0 +1,323 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getInventoryConfig } from '../config/inventory';
+import { BusinessError } from '../utils/businessError';
+
+export const SHOPPING_LIST_STATUSES = ['draft', 'purchased', 'dismissed'];
+
+/**
+ * 建议补货数量的依据：consumption (近期日均消耗)、purchase_history (历史收据的平均采购量)、default (默认补货数量)
+ */
+export type QuantityBasis = 'consumption' | 'purchase_history' | 'default';
+
+export interface RestockEstimate {
+  quantity: number;
+  dailyConsumption: number;
+  basis: QuantityBasis;
+}
+
+export interface PreferredStore {
+  storeId: number;
+  purchaseCount: number;
+  lastUnitPrice: number | null;
+  currency: string | null;
+}
+
+export interface ShoppingListItemUpdate {
+  quantity?: number;
+  storeId?: number | null;
+  status?: string;
+  notes?: string | null;
+}
+
+/** 冲正类流水和盘点调整不算作消耗 */
+const NON_CONSUMPTION_SOURCES = ['receipt_edit', 'receipt_delete', 'stocktake'];
+
+/**
+ * 补货服务
+ * 库存降到补货触发阈值时按近期消耗量生成采购清单草稿，并按常去的采购门店分组
+ */
+export class RestockService {
+  private static instance: RestockService;
+
+  private constructor() {}
+
+  public static getInstance(): RestockService {
+    if (!RestockService.instance) {
+      RestockService.instance = new RestockService();
+    }
+    return RestockService.instance;
+  }
+
+  public getRestockConfig() {
+    const { autoRestock } = getInventoryConfig() as { autoRestock: Record<string, any> };
+    return {
+      enabled: autoRestock?.enabled === true,
+      defaultRestockQuantity: Math.max(1, Number(autoRestock?.defaultRestockQuantity) || 50),
+      restockTriggerThreshold: Number(autoRestock?.restockTriggerThreshold ?? 5),
+      consumptionLookbackDays: Math.max(1, Number(autoRestock?.consumptionLookbackDays) || 90),
+      coverageDays: Math.max(1, Number(autoRestock?.coverageDays) || 30)
+    };
+  }
+
+  /**
+   * 库存是否由触发阈值以上降到阈值及以下（仅在开启自动补货时生效）
+   */
+  public shouldTrigger(previousStock: number, currentStock: number): boolean {
+    const { enabled, restockTriggerThreshold } = this.getRestockConfig();
+    return enabled && previousStock > restockTriggerThreshold && currentStock <= restockTriggerThreshold;
+  }
+
+  /**
+   * 估算补货数量：
+   * 有出库记录时补足 coverageDays 天的用量并回到触发阈值以上；
+   * 没有出库记录时使用历史收据的平均采购量；都没有时使用默认补货数量
+   */
+  public async estimateQuantity(
+    inventory: { id: number; item_name: string; current_stock: number; product_id?: number | null },
+    tx?: TransactionContext
+  ): Promise<RestockEstimate> {
+    const config = this.getRestockConfig();
+    const query = (sql: string, params: any[]) => tx ? tx.query(sql, params) : connectionPool.query(sql, params);
+
+    const [consumption] = await query(
+      `SELECT COALESCE(SUM(-delta), 0) as consumed
+       FROM inventory_movements
+       WHERE inventory_id = ? AND delta < 0
+         AND source NOT IN (${NON_CONSUMPTION_SOURCES.map(() => '?').join(',')})
+         AND created_at >= datetime('now', ?)`,
+      [inventory.id, ...NON_CONSUMPTION_SOURCES, `-${config.consumptionLookbackDays} days`]
+    );
+    const dailyConsumption = parseFloat((consumption.consumed / config.consumptionLookbackDays).toFixed(4));
+
+    if (dailyConsumption > 0) {
+      const target = Math.ceil(dailyConsumption * config.coverageDays) + config.restockTriggerThreshold;
+      return {
+        quantity: Math.max(1, target - inventory.current_stock),
+        dailyConsumption,
+        basis: 'consumption'
+      };
+    }
+
+    const [purchases] = await query(
+      `SELECT AVG(ri.quantity) as average_quantity
+       FROM receipt_items ri
+       JOIN receipts r ON r.id = ri.receipt_id
+       WHERE r.status = 'approved' AND (ri.product_id = ? OR ri.item_name = ?)`,
+      [inventory.product_id ?? null, inventory.item_name]
+    );
+    if (purchases.average_quantity) {
+      return { quantity: Math.max(1, Math.round(purchases.average_quantity)), dailyConsumption: 0, basis: 'purchase_history' };
+    }
+
+    return { quantity: config.defaultRestockQuantity, dailyConsumption: 0, basis: 'default' };
+  }
+
+  /**
+   * 商品最常采购的门店（按已入库收据次数，相同时取最近采购的），以及在该门店最近一次的采购单价
+   */
+  public async findPreferredStore(
+    inventory: { item_name: string; product_id?: number | null },
+    tx?: TransactionContext
+  ): Promise<PreferredStore | null> {
+    const query = (sql: string, params: any[]) => tx ? tx.query(sql, params) : connectionPool.query(sql, params);
+    const itemParams = [inventory.product_id ?? null, inventory.item_name];
+
+    const [store] = await query(
+      `SELECT r.store_id, COUNT(DISTINCT r.id) as purchase_count, MAX(COALESCE(r.purchased_at, r.created_at)) as last_purchased_at
+       FROM receipt_items ri
+       JOIN receipts r ON r.id = ri.receipt_id
+       WHERE r.status = 'approved' AND r.store_id IS NOT NULL AND (ri.product_id = ? OR ri.item_name = ?)
+       GROUP BY r.store_id
+       ORDER BY purchase_count DESC, last_purchased_at DESC
+       LIMIT 1`,
+      itemParams
+    );
+    if (!store) {
+      return null;
+    }
+
+    const [lastPurchase] = await query(
+      `SELECT ri.unit_price, r.currency
+       FROM receipt_items ri
+       JOIN receipts r ON r.id = ri.receipt_id
+       WHERE r.status = 'approved' AND r.store_id = ? AND (ri.product_id = ? OR ri.item_name = ?)
+       ORDER BY COALESCE(r.purchased_at, r.created_at) DESC, ri.id DESC
+       LIMIT 1`,
+      [store.store_id, ...itemParams]
+    );
+
+    return {
+      storeId: store.store_id,
+      purchaseCount: store.purchase_count,
+      lastUnitPrice: lastPurchase?.unit_price ?? null,
+      currency: lastPurchase?.currency ?? null
+    };
+  }
+
+  /**
+   * 为商品生成采购清单草稿，商品已有草稿时不重复生成，返回 null
+   * 未指定数量时按 estimateQuantity 估算
+   */
+  public async createDraft(
+    inventoryId: number,
+    options: { source: 'auto' | 'manual'; userId?: number | null; quantity?: number; notes?: string | null }
+  ) {
+    return connectionPool.transaction(async tx => {
+      const inventory = await tx.get(
+        'SELECT id, item_name, current_stock, product_id FROM inventory WHERE id = ?',
+        [inventoryId]
+      );
+      if (!inventory) {
+        throw new BusinessError('库存项目不存在', 404);
+      }
+
+      const existing = await tx.get(
+        `SELECT id FROM shopping_list_items WHERE inventory_id = ? AND status = 'draft'`,
+        [inventoryId]
+      );
+      if (existing) {
+        return null;
+      }
+
+      const estimate = await this.estimateQuantity(inventory, tx);
+      const store = await this.findPreferredStore(inventory, tx);
+      const result = await tx.run(
+        `INSERT INTO shopping_list_items
+          (inventory_id, item_name, store_id, suggested_quantity, quantity, stock_at_creation, daily_consumption,
+           quantity_basis, last_unit_price, currency, source, notes, created_by, updated_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          inventory.id,
+          inventory.item_name,
+          store?.storeId ?? null,
+          estimate.quantity,
+          options.quantity ?? estimate.quantity,
+          inventory.current_stock,
+          estimate.dailyConsumption,
+          estimate.basis,
+          store?.lastUnitPrice ?? null,
+          store?.currency ?? null,
+          options.source,
+          options.notes || null,
+          options.userId ?? null,
+          options.userId ?? null
+        ]
+      );
+
+      return tx.get('SELECT * FROM shopping_list_items WHERE id = ?', [result.lastID]);
+    });
+  }
+
+  /**
+   * 为所有库存在补货触发阈值及以下、且没有草稿的商品生成采购清单草稿
+   * 手动生成不受 autoRestock.enabled 限制
+   */
+  public async generateDrafts(userId?: number | null) {
+    const { restockTriggerThreshold } = this.getRestockConfig();
+    const candidates = await connectionPool.query(
+      `SELECT i.id FROM inventory i
+       WHERE i.current_stock <= ?
+         AND NOT EXISTS (SELECT 1 FROM shopping_list_items s WHERE s.inventory_id = i.id AND s.status = 'draft')
+       ORDER BY i.item_name`,
+      [restockTriggerThreshold]
+    );
+
+    const created = [];
+    for (const candidate of candidates) {
+      const item = await this.createDraft(candidate.id, { source: 'manual', userId });
+      if (item) {
+        created.push(item);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * 按门店分组的采购清单，未知门店的商品归入 storeId 为 null 的分组并排在最后
+   */
+  public async getShoppingLists(filters: { status?: string; storeId?: number } = {}) {
+    const status = filters.status || 'draft';
+    let whereClause = 's.status = ?';
+    const params: any[] = [status];
+
+    if (filters.storeId) {
+      whereClause += ' AND s.store_id = ?';
+      params.push(filters.storeId);
+    }
+
+    const items = await connectionPool.query(
+      `SELECT s.*, i.current_stock, st.name as store_name, st.address as store_address
+       FROM shopping_list_items s
+       JOIN inventory i ON i.id = s.inventory_id
+       LEFT JOIN stores st ON st.id = s.store_id
+       WHERE ${whereClause}
+       ORDER BY st.name IS NULL, st.name, s.item_name`,
+      params
+    );
+
+    const groups = new Map<number | null, any>();
+    for (const item of items) {
+      const key = item.store_id ?? null;
+      if (!groups.has(key)) {
+        groups.set(key, {
+          storeId: key,
+          storeName: item.store_name ?? null,
+          storeAddress: item.store_address ?? null,
+          itemCount: 0,
+          totalQuantity: 0,
+          items: []
+        });
+      }
+
+      const group = groups.get(key);
+      group.itemCount++;
+      group.totalQuantity += item.quantity;
+      group.items.push(item);
+    }
+
+    return { status, total: items.length, stores: [...groups.values()] };
+  }
+
+  /**
+   * 修改采购清单项的数量、门店、备注或状态，只有草稿可以修改
+   */
+  public async updateItem(id: number, update: ShoppingListItemUpdate, userId?: number | null) {
+    const [item] = await connectionPool.query('SELECT * FROM shopping_list_items WHERE id = ?', [id]);
+    if (!item) {
+      throw new BusinessError('采购清单项不存在', 404);
+    }
+    if (item.status !== 'draft') {
+      throw new BusinessError('只能修改草稿状态的采购清单项', 409);
+    }
+
+    if (update.quantity !== undefined && (!Number.isInteger(Number(update.quantity)) || Number(update.quantity) <= 0)) {
+      throw new BusinessError('采购数量必须是正整数');
+    }
+    if (update.status !== undefined && !SHOPPING_LIST_STATUSES.includes(update.status)) {
+      throw new BusinessError(`无效的采购清单状态，可选值: ${SHOPPING_LIST_STATUSES.join(', ')}`);
+    }
+    if (update.storeId) {
+      const [store] = await connectionPool.query('SELECT id FROM stores WHERE id = ?', [update.storeId]);
+      if (!store) {
+        throw new BusinessError('门店不存在', 404);
+      }
+    }
+
+    await connectionPool.run(
+      `UPDATE shopping_list_items
+       SET quantity = ?, store_id = ?, status = ?, notes = ?, updated_by = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        update.quantity !== undefined ? Number(update.quantity) : item.quantity,
+        update.storeId !== undefined ? update.storeId || null : item.store_id,
+        update.status ?? item.status,
+        update.notes !== undefined ? update.notes : item.notes,
+        userId ?? null,
+        id
+      ]
+    );
+
+    const [updated] = await connectionPool.query('SELECT * FROM shopping_list_items WHERE id = ?', [id]);
+    return updated;
+  }
+}
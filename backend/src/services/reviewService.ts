@@ -0,0 +1,151 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { getOCRConfig } from '../config/ocr';
+import { BusinessError } from '../utils/businessError';
+import {
+  findLineMathIssues,
+  ReceiptTotals,
+  ReconciliationIssue,
+  totalMismatchIssue
+} from '../utils/receiptTotals';
+import { InventoryService } from './inventoryService';
+import { LandedCostService } from './landedCostService';
+
+export type ReceiptStatus = 'approved' | 'pending_review' | 'rejected';
+
+const ISSUE_TYPES: ReconciliationIssue['type'][] = ['low_confidence', 'line_math', 'total_mismatch'];
+
+/**
+ * 收据审核服务
+ * 识别置信度低、行金额计算不符或总额不符的收据进入待审核状态，审核通过后才入库
+ */
+export class ReviewService {
+  private static instance: ReviewService;
+
+  private constructor() {}
+
+  public static getInstance(): ReviewService {
+    if (!ReviewService.instance) {
+      ReviewService.instance = new ReviewService();
+    }
+    return ReviewService.instance;
+  }
+
+  /**
+   * 检查收据是否需要人工审核，返回发现的问题
+   * ocrIssues 为OCR识别时发现并已自动修正的问题，修正后的商品行无法再检出
+   */
+  public evaluate(input: {
+    items: any[];
+    totals: ReceiptTotals;
+    confidence?: number | null;
+    ocrIssues?: any[];
+  }): ReconciliationIssue[] {
+    const issues: ReconciliationIssue[] = [];
+    const config = getOCRConfig();
+    const threshold = Number(config.recognition?.confidenceThreshold ?? 0.7);
+
+    if (input.confidence !== undefined && input.confidence !== null && Number(input.confidence) < threshold) {
+      issues.push({
+        type: 'low_confidence',
+        message: `识别置信度 ${input.confidence} 低于阈值 ${threshold}`,
+        expected: threshold,
+        actual: Number(input.confidence)
+      });
+    }
+
+    if (Array.isArray(input.ocrIssues)) {
+      for (const issue of input.ocrIssues) {
+        if (ISSUE_TYPES.includes(issue?.type) && issue.type !== 'low_confidence' && issue.message) {
+          issues.push({ ...issue, message: String(issue.message) });
+        }
+      }
+    }
+
+    issues.push(...findLineMathIssues(input.items));
+
+    const mismatch = totalMismatchIssue(input.totals);
+    if (mismatch && !issues.some(issue => issue.type === 'total_mismatch')) {
+      issues.push(mismatch);
+    }
+
+    return issues;
+  }
+
+  /**
+   * 根据审核问题确定新收据的状态，关闭审核时直接通过
+   */
+  public resolveStatus(issues: ReconciliationIssue[]): ReceiptStatus {
+    const config = getOCRConfig();
+    return issues.length > 0 && config.review?.enabled !== false ? 'pending_review' : 'approved';
+  }
+
+  /**
+   * 将收据项目入库并记录入库流水，库存单价按本位币记录
+   * 批次成本和移动加权平均成本使用含已分摊附加成本的到岸单位成本
+   */
+  public async stockReceipt(tx: TransactionContext, receiptId: number, userId: number): Promise<void> {
+    const receipt = await tx.get('SELECT exchange_rate FROM receipts WHERE id = ?', [receiptId]);
+    const items = await tx.query('SELECT * FROM receipt_items WHERE receipt_id = ? ORDER BY id', [receiptId]);
+    const inventoryService = InventoryService.getInstance();
+
+    for (const item of items) {
+      await inventoryService.receiveItem(
+        tx,
+        {
+          itemName: item.item_name,
+          quantity: item.quantity,
+          unitPrice: item.unit_price * receipt.exchange_rate,
+          unitCost: item.unit_price * receipt.exchange_rate + (item.quantity > 0 ? (item.landed_cost || 0) / item.quantity : 0),
+          productId: item.product_id,
+          receiptItemId: item.id,
+          expiryDate: item.expiry_date,
+          batchNumber: item.batch_number
+        },
+        { userId, referenceId: receiptId }
+      );
+    }
+
+    // 最新采购价变化后同步刷新库存到岸成本
+    await LandedCostService.getInstance().refreshInventoryCosts(tx, items.map(item => item.item_name));
+  }
+
+  /**
+   * 审核通过：收据入库并标记为已通过
+   */
+  public async approve(receiptId: number, userId: number, notes?: string): Promise<void> {
+    await connectionPool.transaction(async (tx) => {
+      await this.getPendingReceipt(tx, receiptId);
+      await tx.run(
+        `UPDATE receipts SET status = 'approved', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, review_notes = ?
+         WHERE id = ?`,
+        [userId, notes || null, receiptId]
+      );
+      await this.stockReceipt(tx, receiptId, userId);
+    });
+  }
+
+  /**
+   * 审核驳回：收据保留备查，不影响库存
+   */
+  public async reject(receiptId: number, userId: number, notes?: string): Promise<void> {
+    await connectionPool.transaction(async (tx) => {
+      await this.getPendingReceipt(tx, receiptId);
+      await tx.run(
+        `UPDATE receipts SET status = 'rejected', reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, review_notes = ?
+         WHERE id = ?`,
+        [userId, notes || null, receiptId]
+      );
+    });
+  }
+
+  private async getPendingReceipt(tx: TransactionContext, receiptId: number) {
+    const receipt = await tx.get('SELECT id, status FROM receipts WHERE id = ?', [receiptId]);
+    if (!receipt) {
+      throw new BusinessError('收据不存在', 404);
+    }
+    if (receipt.status !== 'pending_review') {
+      throw new BusinessError('收据不在待审核状态', 409, { status: receipt.status });
+    }
+    return receipt;
+  }
+}
@@ -0,0 +1,166 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { InventoryService } from './inventoryService';
+
+export interface SaleItemInput {
+  inventoryId?: number;
+  itemName?: string;
+  quantity: number;
+  unitPrice: number;
+  orderItemId?: number | null;
+  /** 出库位置，未指定时按默认位置优先扣减 */
+  locationId?: number | null;
+}
+
+export interface SaleInput {
+  userId: number;
+  customerId?: number | null;
+  orderId?: number | null;
+  notes?: string;
+  items: SaleItemInput[];
+}
+
+export interface StockShortage {
+  inventoryId: number;
+  itemName: string;
+  requested: number;
+  available: number;
+}
+
+export interface SaleResult {
+  saleId: number;
+  totalAmount: number;
+  items: Array<{
+    inventoryId: number;
+    itemName: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    remainingStock: number;
+  }>;
+}
+
+/**
+ * 销售出库服务
+ * 负责在事务中扣减库存、拒绝超卖并记录售价
+ */
+export class SalesService {
+  private static instance: SalesService;
+
+  private constructor() {}
+
+  public static getInstance(): SalesService {
+    if (!SalesService.instance) {
+      SalesService.instance = new SalesService();
+    }
+    return SalesService.instance;
+  }
+
+  /**
+   * 记录一笔销售出库（独立事务）
+   */
+  public async recordSale(input: SaleInput): Promise<SaleResult> {
+    return connectionPool.transaction(tx => this.recordSaleInTransaction(tx, input));
+  }
+
+  /**
+   * 在调用方提供的事务中记录销售出库
+   * 任一商品库存不足时抛出409错误，整笔出库不会生效
+   */
+  public async recordSaleInTransaction(tx: TransactionContext, input: SaleInput): Promise<SaleResult> {
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new BusinessError('出库项目不能为空');
+    }
+
+    // 解析每个出库项目对应的库存记录
+    const resolved: Array<{ item: SaleItemInput; inventory: any }> = [];
+    for (const item of input.items) {
+      const quantity = Number(item.quantity);
+      const unitPrice = Number(item.unitPrice);
+
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new BusinessError(`出库数量无效: ${item.itemName || item.inventoryId}`);
+      }
+      if (isNaN(unitPrice) || unitPrice < 0) {
+        throw new BusinessError(`销售单价无效: ${item.itemName || item.inventoryId}`);
+      }
+
+      const inventory = item.inventoryId
+        ? await tx.get('SELECT * FROM inventory WHERE id = ?', [item.inventoryId])
+        : await tx.get('SELECT * FROM inventory WHERE item_name = ?', [(item.itemName || '').trim()]);
+
+      if (!inventory) {
+        throw new BusinessError(`库存商品不存在: ${item.itemName || item.inventoryId}`, 404);
+      }
+
+      resolved.push({ item: { ...item, quantity, unitPrice }, inventory });
+    }
+
+    // 同一商品可能出现在多行中，按库存记录汇总后再检查是否超卖
+    const requestedByInventory = new Map<number, number>();
+    for (const { item, inventory } of resolved) {
+      requestedByInventory.set(inventory.id, (requestedByInventory.get(inventory.id) || 0) + item.quantity);
+    }
+
+    const shortages: StockShortage[] = [];
+    for (const [inventoryId, requested] of requestedByInventory.entries()) {
+      const inventory = resolved.find(r => r.inventory.id === inventoryId)!.inventory;
+      if (inventory.current_stock < requested) {
+        shortages.push({
+          inventoryId,
+          itemName: inventory.item_name,
+          requested,
+          available: inventory.current_stock
+        });
+      }
+    }
+
+    if (shortages.length > 0) {
+      throw new BusinessError('库存不足，无法出库', 409, { shortages });
+    }
+
+    const saleResult = await tx.run(
+      'INSERT INTO sales (user_id, customer_id, order_id, notes) VALUES (?, ?, ?, ?)',
+      [input.userId, input.customerId || null, input.orderId || null, input.notes]
+    );
+    const saleId = saleResult.lastID;
+
+    let totalAmount = 0;
+    const items: SaleResult['items'] = [];
+
+    for (const { item, inventory } of resolved) {
+      const totalPrice = item.unitPrice * item.quantity;
+      totalAmount += totalPrice;
+
+      // 带条件的扣减作为最后一道防线，防止并发出库造成负库存
+      const movement = await InventoryService.getInstance().applyMovement(tx, {
+        inventoryId: inventory.id,
+        delta: -item.quantity,
+        source: 'sale',
+        userId: input.userId,
+        referenceId: saleId,
+        unitPrice: item.unitPrice,
+        locationId: item.locationId
+      });
+
+      // 成本使用出库流水按计价方法计算的销货成本单价
+      await tx.run(
+        'INSERT INTO sale_items (sale_id, inventory_id, item_name, quantity, unit_price, total_price, unit_cost, order_item_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [saleId, inventory.id, inventory.item_name, item.quantity, item.unitPrice, totalPrice, movement.unitCost, item.orderItemId || null]
+      );
+
+      items.push({
+        inventoryId: inventory.id,
+        itemName: inventory.item_name,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice,
+        remainingStock: movement.balanceAfter
+      });
+    }
+
+    await tx.run('UPDATE sales SET total_amount = ? WHERE id = ?', [totalAmount, saleId]);
+
+    return { saleId, totalAmount, items };
+  }
+}
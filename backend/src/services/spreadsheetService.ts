@@ -0,0 +1,218 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import { BusinessError } from '../utils/businessError';
+
+export interface SheetColumn {
+  header: string;
+  key: string;
+  width?: number;
+  /** 数字格式，如金额 '#,##0.00'、数量 '0' */
+  numFmt?: string;
+}
+
+/** 导出工作簿中的一个工作表 */
+export interface SheetSection {
+  name: string;
+  columns: SheetColumn[];
+  rows: Record<string, any>[];
+}
+
+/** 导入时的列定义，headers 为可识别的表头写法（中文或英文） */
+export interface ImportColumn {
+  key: string;
+  headers: string[];
+  required?: boolean;
+}
+
+export interface ImportRow {
+  /** 表格中的行号（含表头行，从1开始），用于错误报告 */
+  rowNumber: number;
+  values: Record<string, any>;
+}
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+export const MONEY_FORMAT = '#,##0.00';
+export const RATE_FORMAT = '0.000000';
+
+/**
+ * 电子表格服务
+ * 负责生成 XLSX 工作簿（每个部分一个工作表，数字保存为数值单元格）以及解析导入的 XLSX/CSV 文件
+ */
+export class SpreadsheetService {
+  private static instance: SpreadsheetService;
+
+  private constructor() {}
+
+  public static getInstance(): SpreadsheetService {
+    if (!SpreadsheetService.instance) {
+      SpreadsheetService.instance = new SpreadsheetService();
+    }
+    return SpreadsheetService.instance;
+  }
+
+  /**
+   * 生成 XLSX 工作簿
+   */
+  public async buildWorkbook(sections: SheetSection[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = '代购管理系统';
+    workbook.created = new Date();
+
+    for (const section of sections) {
+      const sheet = workbook.addWorksheet(section.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+      sheet.columns = section.columns.map(column => ({
+        header: column.header,
+        key: column.key,
+        width: column.width || Math.max(12, column.header.length * 2 + 2),
+        style: column.numFmt ? { numFmt: column.numFmt } : {}
+      }));
+      sheet.getRow(1).font = { bold: true };
+
+      for (const row of section.rows) {
+        sheet.addRow(this.toCellValues(section.columns, row));
+      }
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * 生成导入错误报告工作簿，每个错误一行
+   */
+  public buildErrorReport(errors: Array<{ row: number | null; column?: string; value?: any; message: string }>): Promise<Buffer> {
+    return this.buildWorkbook([{
+      name: '错误报告',
+      columns: [
+        { header: '行号', key: 'row', width: 8, numFmt: '0' },
+        { header: '列', key: 'column', width: 14 },
+        { header: '值', key: 'value', width: 24 },
+        { header: '错误说明', key: 'message', width: 48 }
+      ],
+      rows: errors.map(error => ({ ...error, value: error.value !== undefined ? String(error.value) : null }))
+    }]);
+  }
+
+  /**
+   * 根据文件名或 MIME 类型判断导入文件格式，不支持时返回 null
+   */
+  public detectFormat(filename: string, mimeType?: string): SpreadsheetFormat | null {
+    const lower = filename.toLowerCase();
+    if (lower.endsWith('.xlsx') || mimeType === XLSX_CONTENT_TYPE) {
+      return 'xlsx';
+    }
+    if (lower.endsWith('.csv') || mimeType === 'text/csv') {
+      return 'csv';
+    }
+    return null;
+  }
+
+  /**
+   * 读取第一个工作表，按表头把每行转换为以列 key 为键的对象，跳过空行
+   * 缺少必需的列时抛出400错误
+   */
+  public async readRows(buffer: Buffer, format: SpreadsheetFormat, columns: ImportColumn[]): Promise<ImportRow[]> {
+    const workbook = new ExcelJS.Workbook();
+    let sheet: ExcelJS.Worksheet | undefined;
+
+    try {
+      if (format === 'xlsx') {
+        // ExcelJS 的类型声明把 Buffer 定义为 ArrayBuffer，运行时接受 Node.js Buffer
+        await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+        sheet = workbook.worksheets[0];
+      } else {
+        // 去除 Excel 导出的 UTF-8 BOM；CSV 的值保留为文本，避免条码前导零丢失或编号被识别为日期
+        const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+        const options: Partial<ExcelJS.CsvReadOptions> = {
+          map: (value: string) => value,
+          parserOptions: { trim: true }
+        };
+        sheet = await workbook.csv.read(Readable.from([text]), options);
+      }
+    } catch (error) {
+      throw new BusinessError('无法读取文件，请上传有效的 XLSX 或 CSV 文件');
+    }
+
+    if (!sheet || sheet.rowCount === 0) {
+      throw new BusinessError('文件中没有数据');
+    }
+
+    // 表头匹配时忽略大小写、空格和下划线
+    const normalizeHeader = (value: unknown) => String(value ?? '').toLowerCase().replace(/[\s_]/g, '');
+    const headerRow = sheet.getRow(1);
+    const columnIndexes = new Map<string, number>();
+    headerRow.eachCell((cell, colNumber) => {
+      const header = normalizeHeader(this.cellValue(cell.value));
+      const column = columns.find(c => c.headers.some(h => normalizeHeader(h) === header));
+      if (column && !columnIndexes.has(column.key)) {
+        columnIndexes.set(column.key, colNumber);
+      }
+    });
+
+    const missing = columns.filter(column => column.required && !columnIndexes.has(column.key));
+    if (missing.length > 0) {
+      throw new BusinessError(`缺少必需的列: ${missing.map(column => column.headers[0]).join(', ')}`);
+    }
+
+    const rows: ImportRow[] = [];
+    for (let rowNumber = 2; rowNumber <= sheet.rowCount; rowNumber++) {
+      const row = sheet.getRow(rowNumber);
+      const values: Record<string, any> = {};
+      let hasValue = false;
+
+      for (const [key, colNumber] of columnIndexes) {
+        let value = this.cellValue(row.getCell(colNumber).value);
+        if (typeof value === 'string') {
+          value = value.trim();
+        }
+        if (value !== null && value !== undefined && value !== '') {
+          values[key] = value;
+          hasValue = true;
+        }
+      }
+
+      if (hasValue) {
+        rows.push({ rowNumber, values });
+      }
+    }
+
+    return rows;
+  }
+
+  private toCellValues(columns: SheetColumn[], row: Record<string, any>): Record<string, any> {
+    const values: Record<string, any> = {};
+    for (const column of columns) {
+      const value = row[column.key];
+      // 带数字格式的列写入数值单元格，数据库中以文本保存的数字也转换为数值
+      if (column.numFmt && value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value))) {
+        values[column.key] = Number(value);
+      } else {
+        values[column.key] = value ?? null;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * 把 ExcelJS 的富文本、公式、超链接单元格转换为普通值
+   */
+  private cellValue(value: ExcelJS.CellValue): any {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date || typeof value !== 'object') {
+      return value;
+    }
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('');
+    }
+    if ('result' in value) {
+      return this.cellValue(value.result as ExcelJS.CellValue);
+    }
+    if ('text' in value) {
+      return value.text;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,258 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { LocationService } from './locationService';
+
+export const TRANSFER_STATUSES = ['draft', 'in_transit', 'received', 'cancelled'];
+
+export interface TransferItemInput {
+  inventoryId: number;
+  quantity: number;
+}
+
+export interface TransferInput {
+  fromLocationId: number;
+  toLocationId: number;
+  items: TransferItemInput[];
+  trackingNumber?: string | null;
+  notes?: string | null;
+  /** 创建后立即发出 */
+  ship?: boolean;
+}
+
+/**
+ * 调拨服务
+ * 发出时从调出位置扣减，接收时计入调入位置；在途期间数量仍计入商品总库存，调拨不产生库存流水
+ */
+export class StockTransferService {
+  private static instance: StockTransferService;
+  private locationService = LocationService.getInstance();
+
+  private constructor() {}
+
+  public static getInstance(): StockTransferService {
+    if (!StockTransferService.instance) {
+      StockTransferService.instance = new StockTransferService();
+    }
+    return StockTransferService.instance;
+  }
+
+  public async create(input: TransferInput, userId: number) {
+    const fromLocationId = Number(input.fromLocationId);
+    const toLocationId = Number(input.toLocationId);
+    if (!fromLocationId || !toLocationId) {
+      throw new BusinessError('请指定调出和调入位置');
+    }
+    if (fromLocationId === toLocationId) {
+      throw new BusinessError('调出和调入位置不能相同');
+    }
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new BusinessError('调拨商品不能为空');
+    }
+
+    // 同一商品合并数量
+    const quantities = new Map<number, number>();
+    for (const item of input.items) {
+      const quantity = Number(item.quantity);
+      if (!item.inventoryId || !Number.isInteger(quantity) || quantity <= 0) {
+        throw new BusinessError('调拨数量必须是正整数');
+      }
+      quantities.set(Number(item.inventoryId), (quantities.get(Number(item.inventoryId)) || 0) + quantity);
+    }
+
+    const id = await connectionPool.transaction(async tx => {
+      for (const locationId of [fromLocationId, toLocationId]) {
+        const location = await this.locationService.getLocation(locationId, tx);
+        if (!location.is_active) {
+          throw new BusinessError(`存放位置已停用: ${location.name}`);
+        }
+      }
+
+      const result = await tx.run(
+        `INSERT INTO stock_transfers (from_location_id, to_location_id, tracking_number, notes, created_by)
+         VALUES (?, ?, ?, ?, ?)`,
+        [fromLocationId, toLocationId, input.trackingNumber || null, input.notes || null, userId]
+      );
+
+      for (const [inventoryId, quantity] of quantities.entries()) {
+        const inventory = await tx.get('SELECT id, item_name FROM inventory WHERE id = ?', [inventoryId]);
+        if (!inventory) {
+          throw new BusinessError(`库存项目不存在: ${inventoryId}`, 404);
+        }
+        await tx.run(
+          'INSERT INTO stock_transfer_items (transfer_id, inventory_id, item_name, quantity) VALUES (?, ?, ?, ?)',
+          [result.lastID, inventory.id, inventory.item_name, quantity]
+        );
+      }
+
+      if (input.ship) {
+        await this.shipInTransaction(tx, result.lastID, userId);
+      }
+      return result.lastID;
+    });
+
+    return this.getTransfer(id);
+  }
+
+  public async getTransfer(id: number) {
+    const [transfer] = await connectionPool.query(
+      `SELECT t.*, fl.name as from_location_name, tl.name as to_location_name, u.username as created_by_username
+       FROM stock_transfers t
+       JOIN locations fl ON fl.id = t.from_location_id
+       JOIN locations tl ON tl.id = t.to_location_id
+       LEFT JOIN users u ON u.id = t.created_by
+       WHERE t.id = ?`,
+      [id]
+    );
+    if (!transfer) {
+      throw new BusinessError('调拨单不存在', 404);
+    }
+
+    const items = await connectionPool.query(
+      'SELECT * FROM stock_transfer_items WHERE transfer_id = ? ORDER BY id',
+      [id]
+    );
+    return { ...transfer, items };
+  }
+
+  /**
+   * 调拨单列表，locationId 同时匹配调出和调入位置
+   */
+  public async listTransfers(query: { status?: string; locationId?: number; page?: number; limit?: number } = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.max(1, Number(query.limit) || 20);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (query.status) {
+      whereClause += ' AND t.status = ?';
+      params.push(query.status);
+    }
+
+    if (query.locationId) {
+      whereClause += ' AND (t.from_location_id = ? OR t.to_location_id = ?)';
+      params.push(query.locationId, query.locationId);
+    }
+
+    const transfers = await connectionPool.query(
+      `SELECT t.*, fl.name as from_location_name, tl.name as to_location_name,
+         (SELECT COUNT(*) FROM stock_transfer_items ti WHERE ti.transfer_id = t.id) as item_count,
+         (SELECT COALESCE(SUM(ti.quantity), 0) FROM stock_transfer_items ti WHERE ti.transfer_id = t.id) as total_quantity
+       FROM stock_transfers t
+       JOIN locations fl ON fl.id = t.from_location_id
+       JOIN locations tl ON tl.id = t.to_location_id
+       WHERE ${whereClause}
+       ORDER BY t.created_at DESC, t.id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM stock_transfers t WHERE ${whereClause}`,
+      params
+    );
+
+    return { transfers, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * 发出调拨单，从调出位置扣减数量，任一商品不足时整单不发出并抛出409错误
+   */
+  public async ship(id: number, userId: number, trackingNumber?: string | null) {
+    await connectionPool.transaction(async tx => {
+      if (trackingNumber) {
+        await tx.run('UPDATE stock_transfers SET tracking_number = ? WHERE id = ?', [trackingNumber, id]);
+      }
+      await this.shipInTransaction(tx, id, userId);
+    });
+    return this.getTransfer(id);
+  }
+
+  /**
+   * 接收调拨单，在途数量计入调入位置
+   */
+  public async receive(id: number, userId: number) {
+    await connectionPool.transaction(async tx => {
+      await this.getTransferForUpdate(tx, id, 'in_transit', '只能接收在途的调拨单');
+
+      await tx.run(
+        `UPDATE stock_transfers SET status = 'received', received_by = ?, received_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [userId, id]
+      );
+
+      const transfer = await tx.get('SELECT to_location_id FROM stock_transfers WHERE id = ?', [id]);
+      for (const item of await this.getLiveItems(tx, id)) {
+        await this.locationService.addQuantity(tx, item.inventory_id, transfer.to_location_id, item.quantity);
+      }
+    });
+    return this.getTransfer(id);
+  }
+
+  /**
+   * 取消调拨单；在途的调拨单取消后数量退回调出位置
+   */
+  public async cancel(id: number) {
+    await connectionPool.transaction(async tx => {
+      const transfer = await tx.get('SELECT * FROM stock_transfers WHERE id = ?', [id]);
+      if (!transfer) {
+        throw new BusinessError('调拨单不存在', 404);
+      }
+      if (!['draft', 'in_transit'].includes(transfer.status)) {
+        throw new BusinessError('只能取消草稿或在途的调拨单', 409, { status: transfer.status });
+      }
+
+      await tx.run(
+        `UPDATE stock_transfers SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [id]
+      );
+
+      if (transfer.status === 'in_transit') {
+        for (const item of await this.getLiveItems(tx, id)) {
+          await this.locationService.addQuantity(tx, item.inventory_id, transfer.from_location_id, item.quantity);
+        }
+      }
+    });
+    return this.getTransfer(id);
+  }
+
+  private async shipInTransaction(tx: TransactionContext, id: number, userId: number) {
+    const transfer = await this.getTransferForUpdate(tx, id, 'draft', '只能发出草稿状态的调拨单');
+
+    // 先扣减调出位置再标记在途，扣减时在途数量尚不包含本单
+    for (const item of await this.getLiveItems(tx, id)) {
+      const inventory = await tx.get('SELECT id, item_name, current_stock FROM inventory WHERE id = ?', [item.inventory_id]);
+      await this.locationService.applyStockDelta(
+        tx, inventory, -item.quantity, inventory.current_stock, transfer.from_location_id
+      );
+    }
+
+    await tx.run(
+      `UPDATE stock_transfers SET status = 'in_transit', shipped_by = ?, shipped_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [userId, id]
+    );
+  }
+
+  private async getTransferForUpdate(tx: TransactionContext, id: number, status: string, message: string) {
+    const transfer = await tx.get('SELECT * FROM stock_transfers WHERE id = ?', [id]);
+    if (!transfer) {
+      throw new BusinessError('调拨单不存在', 404);
+    }
+    if (transfer.status !== status) {
+      throw new BusinessError(message, 409, { status: transfer.status });
+    }
+    return transfer;
+  }
+
+  /** 调拨单明细中库存项目仍存在的商品 */
+  private async getLiveItems(tx: TransactionContext, id: number) {
+    return tx.query(
+      `SELECT ti.inventory_id, ti.quantity
+       FROM stock_transfer_items ti
+       JOIN inventory i ON i.id = ti.inventory_id
+       WHERE ti.transfer_id = ?`,
+      [id]
+    );
+  }
+}
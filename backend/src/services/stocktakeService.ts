@@ -0,0 +1,365 @@
+import { connectionPool } from '../database/connectionPool';
+import { BusinessError } from '../utils/businessError';
+import { InventoryService } from './inventoryService';
+import { CostingService } from './costingService';
+
+export const STOCKTAKE_STATUSES = ['open', 'posted', 'cancelled'];
+
+/**
+ * 盘点差异原因代码
+ */
+export const STOCKTAKE_REASON_CODES: Record<string, string> = {
+  count_correction: '账实不符更正',
+  damaged: '损坏',
+  expired: '过期',
+  lost: '丢失',
+  theft: '被盗',
+  found: '盘盈',
+  other: '其他'
+};
+
+export interface StocktakeCountInput {
+  inventoryId: number;
+  quantity: number;
+}
+
+/** 金额保留两位小数 */
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 盘点服务
+ * 盘点单打开后可由多人录入实盘数量，复核差异后过账，按差异生成 stocktake 库存流水
+ */
+export class StocktakeService {
+  private static instance: StocktakeService;
+  private inventoryService = InventoryService.getInstance();
+
+  private constructor() {}
+
+  public static getInstance(): StocktakeService {
+    if (!StocktakeService.instance) {
+      StocktakeService.instance = new StocktakeService();
+    }
+    return StocktakeService.instance;
+  }
+
+  public async create(name: string, notes: string | null | undefined, userId: number) {
+    const result = await connectionPool.run(
+      'INSERT INTO stocktakes (name, notes, created_by) VALUES (?, ?, ?)',
+      [name.trim(), notes || null, userId]
+    );
+    return this.getStocktake(result.lastID);
+  }
+
+  public async getStocktake(id: number) {
+    const [stocktake] = await connectionPool.query(
+      `SELECT s.*, u.username as created_by_username, p.username as posted_by_username
+       FROM stocktakes s
+       LEFT JOIN users u ON u.id = s.created_by
+       LEFT JOIN users p ON p.id = s.posted_by
+       WHERE s.id = ?`,
+      [id]
+    );
+    if (!stocktake) {
+      throw new BusinessError('盘点单不存在', 404);
+    }
+    return stocktake;
+  }
+
+  public async listStocktakes(query: { status?: string; page?: number; limit?: number } = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.max(1, Number(query.limit) || 20);
+
+    let whereClause = '1=1';
+    const params: any[] = [];
+
+    if (query.status) {
+      whereClause += ' AND s.status = ?';
+      params.push(query.status);
+    }
+
+    const stocktakes = await connectionPool.query(
+      `SELECT s.*, u.username as created_by_username,
+         (SELECT COUNT(*) FROM stocktake_lines l WHERE l.stocktake_id = s.id) as line_count,
+         (SELECT COUNT(*) FROM stocktake_lines l WHERE l.stocktake_id = s.id AND l.counted_quantity != l.system_quantity) as variance_count
+       FROM stocktakes s
+       LEFT JOIN users u ON u.id = s.created_by
+       WHERE ${whereClause}
+       ORDER BY s.created_at DESC, s.id DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+    const [{ total }] = await connectionPool.query(
+      `SELECT COUNT(*) as total FROM stocktakes s WHERE ${whereClause}`,
+      params
+    );
+
+    return { stocktakes, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * 录入当前用户的实盘数量，同一用户重复录入同一商品时覆盖其上次的数量
+   * 首次盘点某商品时记录当时的账面库存和单位成本，差异按该快照计算
+   */
+  public async recordCounts(stocktakeId: number, counts: StocktakeCountInput[], userId: number) {
+    if (!Array.isArray(counts) || counts.length === 0) {
+      throw new BusinessError('盘点数据不能为空');
+    }
+    for (const count of counts) {
+      if (!count.inventoryId || !Number.isInteger(Number(count.quantity)) || Number(count.quantity) < 0) {
+        throw new BusinessError(`盘点数量无效: ${count.inventoryId}`);
+      }
+    }
+
+    await connectionPool.transaction(async tx => {
+      const stocktake = await tx.get('SELECT status FROM stocktakes WHERE id = ?', [stocktakeId]);
+      if (!stocktake) {
+        throw new BusinessError('盘点单不存在', 404);
+      }
+      if (stocktake.status !== 'open') {
+        throw new BusinessError('盘点单已关闭，不能继续录入', 409);
+      }
+
+      for (const count of counts) {
+        let line = await tx.get(
+          'SELECT id FROM stocktake_lines WHERE stocktake_id = ? AND inventory_id = ?',
+          [stocktakeId, count.inventoryId]
+        );
+
+        if (!line) {
+          const inventory = await tx.get(
+            `SELECT i.id, i.item_name, i.current_stock, COALESCE(${CostingService.getInstance().getUnitCostExpression()}, 0) as unit_cost
+             FROM inventory i WHERE i.id = ?`,
+            [count.inventoryId]
+          );
+          if (!inventory) {
+            throw new BusinessError(`库存项目不存在: ${count.inventoryId}`, 404);
+          }
+
+          const result = await tx.run(
+            `INSERT INTO stocktake_lines (stocktake_id, inventory_id, item_name, system_quantity, unit_cost)
+             VALUES (?, ?, ?, ?, ?)`,
+            [stocktakeId, inventory.id, inventory.item_name, inventory.current_stock, inventory.unit_cost]
+          );
+          line = { id: result.lastID };
+        }
+
+        await tx.run(
+          `INSERT INTO stocktake_counts (line_id, user_id, quantity) VALUES (?, ?, ?)
+           ON CONFLICT(line_id, user_id) DO UPDATE SET quantity = excluded.quantity, counted_at = CURRENT_TIMESTAMP`,
+          [line.id, userId, Number(count.quantity)]
+        );
+        await tx.run(
+          `UPDATE stocktake_lines
+           SET counted_quantity = (SELECT SUM(quantity) FROM stocktake_counts WHERE line_id = ?), updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [line.id, line.id]
+        );
+      }
+
+      await tx.run('UPDATE stocktakes SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', [stocktakeId]);
+    });
+
+    return this.getLines(stocktakeId);
+  }
+
+  /**
+   * 盘点明细及各人的计数
+   */
+  public async getLines(stocktakeId: number) {
+    const lines = await connectionPool.query(
+      `SELECT l.*, l.counted_quantity - l.system_quantity as variance,
+         (l.counted_quantity - l.system_quantity) * l.unit_cost as variance_value
+       FROM stocktake_lines l
+       WHERE l.stocktake_id = ?
+       ORDER BY l.item_name`,
+      [stocktakeId]
+    );
+    const counts = await connectionPool.query(
+      `SELECT c.line_id, c.user_id, u.username, c.quantity, c.counted_at
+       FROM stocktake_counts c
+       JOIN stocktake_lines l ON l.id = c.line_id
+       LEFT JOIN users u ON u.id = c.user_id
+       WHERE l.stocktake_id = ?
+       ORDER BY c.counted_at`,
+      [stocktakeId]
+    );
+
+    return lines.map(line => ({
+      ...line,
+      variance_value: round(line.variance_value),
+      counts: counts.filter(count => count.line_id === line.id)
+    }));
+  }
+
+  /**
+   * 设置盘点差异的原因代码和备注
+   */
+  public async updateLine(stocktakeId: number, lineId: number, update: { reasonCode?: string | null; notes?: string | null }) {
+    if (update.reasonCode && !STOCKTAKE_REASON_CODES[update.reasonCode]) {
+      throw new BusinessError(`无效的原因代码，可选值: ${Object.keys(STOCKTAKE_REASON_CODES).join(', ')}`);
+    }
+
+    const stocktake = await this.getStocktake(stocktakeId);
+    if (stocktake.status !== 'open') {
+      throw new BusinessError('盘点单已关闭，不能修改', 409);
+    }
+
+    const [line] = await connectionPool.query(
+      'SELECT * FROM stocktake_lines WHERE id = ? AND stocktake_id = ?',
+      [lineId, stocktakeId]
+    );
+    if (!line) {
+      throw new BusinessError('盘点明细不存在', 404);
+    }
+
+    await connectionPool.run(
+      'UPDATE stocktake_lines SET reason_code = ?, notes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [
+        update.reasonCode !== undefined ? update.reasonCode || null : line.reason_code,
+        update.notes !== undefined ? update.notes : line.notes,
+        lineId
+      ]
+    );
+
+    const [updated] = await connectionPool.query('SELECT * FROM stocktake_lines WHERE id = ?', [lineId]);
+    return updated;
+  }
+
+  /**
+   * 过账：按实盘数量与快照的差额调整库存，差异行都必须有原因代码（可用 defaultReasonCode 补齐）
+   * 调整按差额记入流水，盘点期间发生的出入库不会被覆盖
+   */
+  public async post(stocktakeId: number, userId: number, defaultReasonCode?: string) {
+    if (defaultReasonCode && !STOCKTAKE_REASON_CODES[defaultReasonCode]) {
+      throw new BusinessError(`无效的原因代码，可选值: ${Object.keys(STOCKTAKE_REASON_CODES).join(', ')}`);
+    }
+
+    await connectionPool.transaction(async tx => {
+      const stocktake = await tx.get('SELECT status FROM stocktakes WHERE id = ?', [stocktakeId]);
+      if (!stocktake) {
+        throw new BusinessError('盘点单不存在', 404);
+      }
+      if (stocktake.status !== 'open') {
+        throw new BusinessError('盘点单已关闭，不能重复过账', 409);
+      }
+
+      const lines = await tx.query('SELECT * FROM stocktake_lines WHERE stocktake_id = ? ORDER BY id', [stocktakeId]);
+      if (lines.length === 0) {
+        throw new BusinessError('盘点单没有盘点记录');
+      }
+
+      const varianceLines = lines.filter(line => line.counted_quantity !== line.system_quantity);
+      const missingReasons = varianceLines.filter(line => !line.reason_code && !defaultReasonCode);
+      if (missingReasons.length > 0) {
+        throw new BusinessError('盘点差异缺少原因代码', 400, {
+          lines: missingReasons.map(line => ({ lineId: line.id, itemName: line.item_name }))
+        });
+      }
+
+      for (const line of varianceLines) {
+        const reasonCode = line.reason_code || defaultReasonCode;
+        const movement = await this.inventoryService.applyMovement(tx, {
+          inventoryId: line.inventory_id,
+          delta: line.counted_quantity - line.system_quantity,
+          source: 'stocktake',
+          referenceId: stocktakeId,
+          userId,
+          notes: `盘点调整: ${STOCKTAKE_REASON_CODES[reasonCode]}${line.notes ? ` (${line.notes})` : ''}`
+        });
+        await tx.run(
+          'UPDATE stocktake_lines SET reason_code = ?, movement_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [reasonCode, movement.movementId, line.id]
+        );
+      }
+
+      await tx.run(
+        `UPDATE stocktakes SET status = 'posted', posted_by = ?, posted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [userId, stocktakeId]
+      );
+    });
+
+    return this.getVarianceReport(stocktakeId);
+  }
+
+  public async cancel(stocktakeId: number) {
+    const result = await connectionPool.run(
+      `UPDATE stocktakes SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'open'`,
+      [stocktakeId]
+    );
+    if (result.changes === 0) {
+      await this.getStocktake(stocktakeId);
+      throw new BusinessError('只能取消未过账的盘点单', 409);
+    }
+  }
+
+  /**
+   * 盘点差异报表（按单位成本计算金额，人民币）
+   * 明细按差异金额绝对值从大到小排列，并按原因代码汇总
+   */
+  public async getVarianceReport(stocktakeId: number) {
+    const stocktake = await this.getStocktake(stocktakeId);
+    const lines = (await this.getLines(stocktakeId))
+      .map(({ counts, ...line }) => ({ ...line, counter_count: counts.length }))
+      .sort((a, b) => Math.abs(b.variance_value) - Math.abs(a.variance_value) || a.item_name.localeCompare(b.item_name));
+
+    const summary = {
+      countedItems: lines.length,
+      itemsWithVariance: 0,
+      systemQuantity: 0,
+      countedQuantity: 0,
+      systemValue: 0,
+      countedValue: 0,
+      gainValue: 0,
+      lossValue: 0,
+      varianceValue: 0
+    };
+    const byReason = new Map<string, { reasonCode: string | null; label: string; itemCount: number; quantity: number; value: number }>();
+
+    for (const line of lines) {
+      summary.systemQuantity += line.system_quantity;
+      summary.countedQuantity += line.counted_quantity;
+      summary.systemValue += line.system_quantity * line.unit_cost;
+      summary.countedValue += line.counted_quantity * line.unit_cost;
+      if (line.variance === 0) {
+        continue;
+      }
+
+      summary.itemsWithVariance++;
+      if (line.variance_value > 0) {
+        summary.gainValue += line.variance_value;
+      } else {
+        summary.lossValue += line.variance_value;
+      }
+
+      const key = line.reason_code || '';
+      if (!byReason.has(key)) {
+        byReason.set(key, {
+          reasonCode: line.reason_code,
+          label: line.reason_code ? STOCKTAKE_REASON_CODES[line.reason_code] : '未填写原因',
+          itemCount: 0,
+          quantity: 0,
+          value: 0
+        });
+      }
+      const reason = byReason.get(key)!;
+      reason.itemCount++;
+      reason.quantity += line.variance;
+      reason.value = round(reason.value + line.variance_value);
+    }
+
+    summary.systemValue = round(summary.systemValue);
+    summary.countedValue = round(summary.countedValue);
+    summary.gainValue = round(summary.gainValue);
+    summary.lossValue = round(summary.lossValue);
+    summary.varianceValue = round(summary.countedValue - summary.systemValue);
+
+    return {
+      stocktake,
+      summary,
+      byReason: [...byReason.values()].sort((a, b) => a.value - b.value),
+      lines
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { connectionPool, TransactionContext } from '../database/connectionPool';
+import { ReceiptMerchantInfo } from './ocrService';
+import { BusinessError } from '../utils/businessError';
+import { normalizeText } from '../utils/normalizeText';
+
+export interface StoreMatch {
+  storeId: number;
+  name: string;
+  address: string | null;
+  score: number;
+}
+
+/**
+ * 门店服务
+ * 负责把OCR识别的店名、地址与门店登记表匹配，未登记的门店自动登记
+ */
+export class StoreService {
+  private static instance: StoreService;
+  private readonly matchThreshold = 0.75;
+
+  private constructor() {}
+
+  public static getInstance(): StoreService {
+    if (!StoreService.instance) {
+      StoreService.instance = new StoreService();
+    }
+    return StoreService.instance;
+  }
+
+  /**
+   * 规范化店名/地址：全角转半角、统一小写、去除空白和常见标点
+   */
+  public normalize(value?: string | null): string {
+    return normalizeText(value);
+  }
+
+  /**
+   * 查找与店名、地址最相近的门店，低于匹配阈值时返回 null
+   */
+  public async findBestMatch(
+    merchant: { name?: string | null; address?: string | null },
+    tx?: TransactionContext
+  ): Promise<StoreMatch | null> {
+    const name = this.normalize(merchant.name);
+    if (!name) {
+      return null;
+    }
+
+    const sql = 'SELECT id, name, normalized_name, address FROM stores';
+    const stores = tx ? await tx.query(sql) : await connectionPool.query(sql);
+    const address = this.normalize(merchant.address);
+
+    let best: StoreMatch | null = null;
+    for (const store of stores) {
+      let score = this.nameSimilarity(name, store.normalized_name);
+
+      // 同一品牌多家分店时用地址区分
+      const storeAddress = this.normalize(store.address);
+      if (address && storeAddress) {
+        score += this.diceCoefficient(address, storeAddress) >= 0.8 ? 0.1 : -0.1;
+      }
+
+      score = Math.max(0, Math.min(1, score));
+      if (score >= this.matchThreshold && (!best || score > best.score)) {
+        best = { storeId: store.id, name: store.name, address: store.address, score: parseFloat(score.toFixed(2)) };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 在事务中解析收据的门店：优先匹配已登记门店，未匹配时自动登记新门店
+   */
+  public async resolveStore(
+    tx: TransactionContext,
+    merchant: { name?: string | null; address?: string | null }
+  ): Promise<number | null> {
+    if (!this.normalize(merchant.name)) {
+      return null;
+    }
+
+    const match = await this.findBestMatch(merchant, tx);
+    if (match) {
+      return match.storeId;
+    }
+
+    const result = await tx.run(
+      'INSERT INTO stores (name, normalized_name, address) VALUES (?, ?, ?)',
+      [merchant.name!.trim(), this.normalize(merchant.name), merchant.address?.trim() || null]
+    );
+    return result.lastID;
+  }
+
+  /**
+   * 确定收据关联的门店：显式指定的门店优先，否则按商户信息匹配或登记
+   */
+  public async resolveReceiptStore(
+    tx: TransactionContext,
+    storeId: number | null | undefined,
+    merchant?: ReceiptMerchantInfo | null
+  ): Promise<number | null> {
+    if (storeId) {
+      const store = await tx.get('SELECT id FROM stores WHERE id = ?', [storeId]);
+      if (!store) {
+        throw new BusinessError('门店不存在', 404);
+      }
+      return store.id;
+    }
+
+    return merchant ? this.resolveStore(tx, merchant) : null;
+  }
+
+  private nameSimilarity(a: string, b: string): number {
+    if (a === b) {
+      return 1;
+    }
+    if (a.includes(b) || b.includes(a)) {
+      return 0.85;
+    }
+    return this.diceCoefficient(a, b);
+  }
+
+  /**
+   * 基于字符二元组的 Dice 相似度
+   */
+  private diceCoefficient(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) {
+      return a === b ? 1 : 0;
+    }
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.substring(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let intersection = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.substring(i, i + 2);
+      const count = bigrams.get(bigram) || 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        intersection++;
+      }
+    }
+
+    return (2 * intersection) / (a.length + b.length - 2);
+  }
+}
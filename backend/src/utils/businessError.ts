@@ -0,0 +1,14 @@
+/**
+ * 业务规则错误（如库存不足），携带HTTP状态码和附加信息
+ */
+export class BusinessError extends Error {
+  public readonly statusCode: number;
+  public readonly details?: Record<string, any>;
+
+  constructor(message: string, statusCode: number = 400, details?: Record<string, any>) {
+    super(message);
+    this.name = 'BusinessError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
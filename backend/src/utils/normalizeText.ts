@@ -0,0 +1,9 @@
+/**
+ * 规范化名称用于匹配：全角转半角、统一小写、去除空白和常见标点
+ */
+export function normalizeText(value?: string | null): string {
+  return (value || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\-_·・,.，。、()（）\[\]【】「」'"]/g, '');
+}
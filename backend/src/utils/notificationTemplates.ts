@@ -0,0 +1,72 @@
+/** 通知事件类型，对应发件箱的 event_type */
+export type NotificationEvent = 'low_stock' | 'report' | 'review_queue' | 'monitoring_alert' | 'test';
+
+export interface RenderedMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SUBJECT_PREFIX = '[代购管理系统]';
+
+/**
+ * 各事件的邮件模板，返回主题和正文段落
+ */
+const TEMPLATES: Record<NotificationEvent, (data: any) => { subject: string; lines: string[] }> = {
+  low_stock: data => ({
+    subject: `${SUBJECT_PREFIX} ${data.outOfStock ? '缺货' : '低库存'}提醒：${data.itemName}`,
+    lines: [
+      `商品「${data.itemName}」${data.outOfStock ? '已缺货' : '库存已降至阈值以下'}。`,
+      `当前库存：${data.currentStock}`,
+      `低库存阈值：${data.threshold}`,
+      '请及时安排补货。'
+    ]
+  }),
+  report: data => ({
+    subject: `${SUBJECT_PREFIX} ${data.reportName}`,
+    lines: [
+      `附件为 ${data.generatedAt} (UTC) 生成的${data.reportName}。`,
+      `文件：${data.fileName}`
+    ]
+  }),
+  review_queue: data => ({
+    subject: `${SUBJECT_PREFIX} 收据 #${data.receiptId} 等待审核`,
+    lines: [
+      `${data.username || '用户'} 保存的收据 #${data.receiptId}${data.merchantName ? `（${data.merchantName}）` : ''}需要人工审核，审核通过后才会入库。`,
+      `收据金额：${data.totalAmount} ${data.currency}`,
+      '审核原因：',
+      ...(data.issues || []).map((issue: { message: string }) => `- ${issue.message}`)
+    ]
+  }),
+  monitoring_alert: data => ({
+    subject: `${SUBJECT_PREFIX} 系统警报 (${data.severity})：${data.message}`,
+    lines: [
+      data.message,
+      `类型：${data.type}`,
+      `时间：${data.timestamp}`,
+      `详情：${JSON.stringify(data.context)}`
+    ]
+  }),
+  test: () => ({
+    subject: `${SUBJECT_PREFIX} 测试邮件`,
+    lines: ['这是一封测试邮件，收到说明邮件通知配置正确。']
+  })
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * 渲染通知邮件，同时生成纯文本和 HTML 正文
+ */
+export function renderNotification(event: NotificationEvent, data: Record<string, any> = {}): RenderedMessage {
+  const { subject, lines } = TEMPLATES[event](data);
+  return {
+    subject,
+    text: lines.join('\n'),
+    html: lines.map(line => `<p>${escapeHtml(line)}</p>`).join('\n')
+  };
+}
@@ -0,0 +1,45 @@
+import { BusinessError } from './businessError';
+
+/** 统计收据时可选的日期字段：购买时间（收据上打印的时间）或上传时间 */
+export const RECEIPT_DATE_FIELDS = ['purchased_at', 'created_at'] as const;
+export type ReceiptDateField = typeof RECEIPT_DATE_FIELDS[number];
+
+/**
+ * 解析统计所用的日期字段，默认按购买时间统计
+ */
+export function resolveReceiptDateField(value: unknown): ReceiptDateField {
+  if (value === undefined || value === '') {
+    return 'purchased_at';
+  }
+  if (!RECEIPT_DATE_FIELDS.includes(value as ReceiptDateField)) {
+    throw new BusinessError(`无效的日期字段，可选值: ${RECEIPT_DATE_FIELDS.join(', ')}`);
+  }
+  return value as ReceiptDateField;
+}
+
+/**
+ * 规范化购买时间为 YYYY-MM-DD HH:mm:ss，无法识别时返回 undefined
+ * 支持 2023-12-01、2023/12/01 14:32、2023年12月1日 14:32 等收据常见格式
+ */
+export function parsePurchaseDateTime(value?: string | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value
+    .replace(/年|月|\/|\./g, '-')
+    .replace(/日/g, ' ')
+    .match(/(\d{4})-(\d{1,2})-(\d{1,2})(?:\s*T?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const pad = (part: string) => part.padStart(2, '0');
+  const date = new Date(`${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}`);
+  if (isNaN(date.getTime())) {
+    return undefined;
+  }
+
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
@@ -0,0 +1,166 @@
+import { BusinessError } from './businessError';
+
+/** 收据上的非商品行：折扣、优惠券和税额 */
+export const RECEIPT_ADJUSTMENT_TYPES = ['discount', 'coupon', 'tax'] as const;
+export type ReceiptAdjustmentType = typeof RECEIPT_ADJUSTMENT_TYPES[number];
+
+/**
+ * 计税方式
+ * exclusive: 外税，税额另计入应付总额
+ * inclusive: 内税，商品价格已含税，税额行仅作记录
+ * exempt: 免税
+ */
+export const RECEIPT_TAX_MODES = ['exclusive', 'inclusive', 'exempt'] as const;
+export type ReceiptTaxMode = typeof RECEIPT_TAX_MODES[number];
+
+export interface ReceiptAdjustment {
+  type: ReceiptAdjustmentType;
+  description?: string;
+  /** 金额取正数，折扣和优惠券从总额中扣除 */
+  amount: number;
+}
+
+export interface ReceiptTotals {
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  grandTotal: number;
+  printedTotal: number | null;
+  difference: number | null;
+  reconciled: boolean;
+}
+
+/** 需要人工审核的原因：置信度低、行金额计算不符、总额不符 */
+export type ReconciliationIssueType = 'low_confidence' | 'line_math' | 'total_mismatch';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  message: string;
+  itemName?: string;
+  expected?: number;
+  actual?: number;
+}
+
+const TOTAL_TOLERANCE = 0.01;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 校验并规范化折扣、优惠券和税额行，无效时抛出400错误
+ */
+export function normalizeAdjustments(adjustments: unknown): ReceiptAdjustment[] {
+  if (adjustments === undefined || adjustments === null) {
+    return [];
+  }
+  if (!Array.isArray(adjustments)) {
+    throw new BusinessError('折扣和税额格式无效');
+  }
+
+  return adjustments.map((adjustment: any) => {
+    if (!RECEIPT_ADJUSTMENT_TYPES.includes(adjustment?.type)) {
+      throw new BusinessError(`无效的调整类型，可选值: ${RECEIPT_ADJUSTMENT_TYPES.join(', ')}`);
+    }
+
+    // 收据上折扣常印为负数，统一按绝对值记录
+    const amount = Math.abs(Number(adjustment.amount));
+    if (!Number.isFinite(amount) || amount === 0) {
+      throw new BusinessError(`调整金额无效: ${adjustment.description || adjustment.type}`);
+    }
+
+    return {
+      type: adjustment.type,
+      description: adjustment.description ? String(adjustment.description).trim() : undefined,
+      amount: round(amount)
+    };
+  });
+}
+
+/**
+ * 校验计税方式，默认按内税处理
+ */
+export function normalizeTaxMode(taxMode: unknown): ReceiptTaxMode {
+  if (taxMode === undefined || taxMode === null || taxMode === '') {
+    return 'inclusive';
+  }
+  if (!RECEIPT_TAX_MODES.includes(taxMode as ReceiptTaxMode)) {
+    throw new BusinessError(`无效的计税方式，可选值: ${RECEIPT_TAX_MODES.join(', ')}`);
+  }
+  return taxMode as ReceiptTaxMode;
+}
+
+/**
+ * 由商品小计、折扣和税额计算应付总额，并与收据上打印的总额核对
+ */
+export function calculateReceiptTotals(
+  items: Array<{ totalPrice: number }>,
+  adjustments: ReceiptAdjustment[],
+  taxMode: ReceiptTaxMode,
+  printedTotal?: number | null
+): ReceiptTotals {
+  const subtotal = round(items.reduce((sum, item) => sum + (Number(item.totalPrice) || 0), 0));
+  const discountTotal = round(adjustments
+    .filter(adjustment => adjustment.type !== 'tax')
+    .reduce((sum, adjustment) => sum + adjustment.amount, 0));
+  const taxTotal = taxMode === 'exempt'
+    ? 0
+    : round(adjustments
+      .filter(adjustment => adjustment.type === 'tax')
+      .reduce((sum, adjustment) => sum + adjustment.amount, 0));
+
+  const grandTotal = round(subtotal - discountTotal + (taxMode === 'exclusive' ? taxTotal : 0));
+
+  const hasPrintedTotal = printedTotal !== undefined && printedTotal !== null && !isNaN(Number(printedTotal));
+  const difference = hasPrintedTotal ? round(Number(printedTotal) - grandTotal) : null;
+
+  return {
+    subtotal,
+    discountTotal,
+    taxTotal,
+    grandTotal,
+    printedTotal: hasPrintedTotal ? Number(printedTotal) : null,
+    difference,
+    reconciled: difference === null || Math.abs(difference) <= TOTAL_TOLERANCE
+  };
+}
+
+/**
+ * 检查每个商品行的 单价 × 数量 是否等于小计
+ */
+export function findLineMathIssues(
+  items: Array<{ itemName?: string; name?: string; unitPrice: number; quantity: number; totalPrice: number }>
+): ReconciliationIssue[] {
+  const issues: ReconciliationIssue[] = [];
+
+  for (const item of items) {
+    const itemName = item.itemName || item.name;
+    const expected = round(Number(item.unitPrice) * Number(item.quantity));
+    const actual = Number(item.totalPrice);
+    if (!Number.isFinite(actual) || Math.abs(expected - actual) > TOTAL_TOLERANCE) {
+      issues.push({
+        type: 'line_math',
+        message: `${itemName}: 单价 × 数量 = ${expected}，小计为 ${item.totalPrice}`,
+        itemName,
+        expected,
+        actual
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 将总额核对结果转换为审核问题，核对通过时返回 null
+ */
+export function totalMismatchIssue(totals: ReceiptTotals): ReconciliationIssue | null {
+  if (totals.reconciled) {
+    return null;
+  }
+
+  return {
+    type: 'total_mismatch',
+    message: `收据打印总额 ${totals.printedTotal} 与计算总额 ${totals.grandTotal} 相差 ${totals.difference}`,
+    expected: totals.grandTotal,
+    actual: totals.printedTotal ?? undefined
+  };
+}
@@ -0,0 +1,245 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import salesRoutes from '../src/routes/sales';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { BatchService } from '../src/services/batchService';
+import { MonitoringService } from '../src/services/monitoringService';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/sales', salesRoutes);
+
+describe('Inventory batches and expiry tracking', () => {
+  let authToken: string;
+  const suffix = Date.now();
+
+  const isoDate = (offsetDays: number) => new Date(Date.now() + offsetDays * 86400000).toISOString().slice(0, 10);
+
+  const saveReceipt = (itemName: string, quantity: number, expiryDate?: string, batchNumber?: string) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({
+      items: [{ itemName, unitPrice: 50, quantity, totalPrice: 50 * quantity, expiryDate, batchNumber }],
+      totalAmount: 50 * quantity,
+      allowDuplicate: true
+    });
+
+  const getInventoryId = async (itemName: string) => {
+    const [row] = await connectionPool.query('SELECT id FROM inventory WHERE item_name = ?', [itemName]);
+    return row.id;
+  };
+
+  const getBatches = async (inventoryId: number, includeDepleted = false) => {
+    const response = await request(app)
+      .get(`/api/inventory/${inventoryId}/batches`)
+      .query({ includeDepleted })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    return response.body.batches.map((batch: any) => [batch.batch_number, batch.remaining_quantity]);
+  };
+
+  const sell = (inventoryId: number, quantity: number) => request(app)
+    .post('/api/sales/create')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ items: [{ inventoryId, quantity, unitPrice: 80 }] })
+    .expect(201);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `batch_user_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'batchpass123', role: 'admin' });
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'batchpass123' });
+    authToken = response.body.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a batch per receipt line and deduct the earliest expiry first', async () => {
+    const itemName = `奶粉_${suffix}`;
+
+    await saveReceipt(itemName, 5, 'not-a-date').expect(400);
+    await saveReceipt(itemName, 5, isoDate(400), 'LOT-A').expect(200);
+    const second = await saveReceipt(itemName, 3, isoDate(60), 'LOT-B').expect(200);
+    const inventoryId = await getInventoryId(itemName);
+
+    const [receiptItem] = await connectionPool.query(
+      'SELECT expiry_date, batch_number FROM receipt_items WHERE receipt_id = ?',
+      [second.body.receiptId]
+    );
+    expect(receiptItem).toEqual({ expiry_date: isoDate(60), batch_number: 'LOT-B' });
+    expect(await getBatches(inventoryId)).toEqual([['LOT-B', 3], ['LOT-A', 5]]);
+
+    const sale = await sell(inventoryId, 4);
+    expect(await getBatches(inventoryId)).toEqual([['LOT-A', 4]]);
+    expect(await getBatches(inventoryId, true)).toEqual([['LOT-B', 0], ['LOT-A', 4]]);
+
+    const links = await connectionPool.query(
+      `SELECT b.batch_number, bm.quantity
+       FROM inventory_batch_movements bm
+       JOIN inventory_batches b ON b.id = bm.batch_id
+       JOIN inventory_movements m ON m.id = bm.movement_id
+       WHERE m.source = 'sale' AND m.reference_id = ?
+       ORDER BY bm.id`,
+      [sale.body.saleId]
+    );
+    expect(links).toEqual([{ batch_number: 'LOT-B', quantity: -3 }, { batch_number: 'LOT-A', quantity: -1 }]);
+  });
+
+  it('should deduct the oldest batch first under FIFO and reverse a deleted receipt from its own batch', async () => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({
+      ...config,
+      batchTracking: { deductionStrategy: 'fifo', expiryAlertDays: 30 }
+    });
+
+    const itemName = `面霜_${suffix}`;
+    const addResponse = await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ item_name: itemName, current_stock: 2, unit_price: 40 })
+      .expect(201);
+    const inventoryId = addResponse.body.id;
+
+    await saveReceipt(itemName, 4, isoDate(100), 'OLD').expect(200);
+    const latest = await saveReceipt(itemName, 6, isoDate(20), 'NEW').expect(200);
+
+    await sell(inventoryId, 3);
+    expect(await getBatches(inventoryId)).toEqual([['NEW', 6], ['OLD', 3]]);
+
+    await request(app)
+      .delete(`/api/receipts/${latest.body.receiptId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(await getBatches(inventoryId)).toEqual([['OLD', 3]]);
+
+    const [inventory] = await connectionPool.query('SELECT current_stock FROM inventory WHERE id = ?', [inventoryId]);
+    expect(inventory.current_stock).toBe(3);
+  });
+
+  it('should link batches to the new receipt items after the receipt is edited', async () => {
+    const itemName = `精华_${suffix}`;
+    const saved = await saveReceipt(itemName, 5, isoDate(300), 'LOT-E').expect(200);
+    const receiptId = saved.body.receiptId;
+
+    await request(app)
+      .put(`/api/receipts/${receiptId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [{ itemName, unitPrice: 50, quantity: 7, totalPrice: 350, expiryDate: isoDate(320), batchNumber: 'LOT-F' }],
+        totalAmount: 350
+      })
+      .expect(200);
+
+    const [receiptItem] = await connectionPool.query('SELECT id FROM receipt_items WHERE receipt_id = ?', [receiptId]);
+    const batches = await connectionPool.query(
+      'SELECT batch_number, remaining_quantity, receipt_item_id FROM inventory_batches WHERE receipt_id = ? ORDER BY id',
+      [receiptId]
+    );
+    expect(batches).toEqual([
+      { batch_number: 'LOT-E', remaining_quantity: 5, receipt_item_id: receiptItem.id },
+      { batch_number: 'LOT-F', remaining_quantity: 2, receipt_item_id: receiptItem.id }
+    ]);
+  });
+
+  it('should list expiring batches and raise each expiry alert once', async () => {
+    const itemName = `维生素_${suffix}`;
+    await saveReceipt(itemName, 2, isoDate(-3), 'EXPIRED').expect(200);
+    await saveReceipt(itemName, 4, isoDate(10), 'SOON').expect(200);
+    await saveReceipt(itemName, 6, isoDate(200), 'LATER').expect(200);
+    const inventoryId = await getInventoryId(itemName);
+
+    const expiring = await request(app)
+      .get('/api/inventory/batches/expiring')
+      .query({ days: 30, inventoryId })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(expiring.body.batches.map((batch: any) => [batch.batch_number, batch.is_expired, batch.days_until_expiry])).toEqual([
+      ['EXPIRED', 1, -3],
+      ['SOON', 0, 10]
+    ]);
+    expect(expiring.body.summary).toMatchObject({
+      expiredBatches: 1,
+      expiredQuantity: 2,
+      expiringBatches: 1,
+      expiringQuantity: 4,
+      totalValue: 300
+    });
+
+    await request(app)
+      .get('/api/inventory/batches/expiring')
+      .query({ days: -1 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+
+    const recordExpiryAlert = jest.spyOn(MonitoringService.getInstance(), 'recordExpiryAlert').mockImplementation(() => {});
+    const ownAlerts = () => recordExpiryAlert.mock.calls
+      .map(([alert]) => alert)
+      .filter(alert => alert.inventoryId === inventoryId)
+      .map(alert => [alert.batchNumber, alert.expired]);
+
+    await BatchService.getInstance().checkExpiringBatches();
+    expect(ownAlerts()).toEqual([['EXPIRED', true], ['SOON', false]]);
+
+    recordExpiryAlert.mockClear();
+    await BatchService.getInstance().checkExpiringBatches();
+    expect(ownAlerts()).toEqual([]);
+
+    // 修改保质期后重新判断是否需要警报
+    const [later] = await connectionPool.query(
+      `SELECT id FROM inventory_batches WHERE inventory_id = ? AND batch_number = 'LATER'`,
+      [inventoryId]
+    );
+    await request(app)
+      .put(`/api/inventory/batches/${later.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ expiry_date: isoDate(5) })
+      .expect(200);
+    await request(app)
+      .put(`/api/inventory/batches/${later.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ expiry_date: '2024-02-30' })
+      .expect(400);
+
+    await BatchService.getInstance().checkExpiringBatches();
+    expect(ownAlerts()).toEqual([['LATER', false]]);
+  });
+
+  it('should drop the batches of a deleted item from the expiry list and alerts', async () => {
+    const itemName = `鱼油_${suffix}`;
+    await saveReceipt(itemName, 3, isoDate(2), 'DELETED').expect(200);
+    const inventoryId = await getInventoryId(itemName);
+
+    await request(app)
+      .delete(`/api/inventory/${inventoryId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const expiring = await request(app)
+      .get('/api/inventory/batches/expiring')
+      .query({ days: 30 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(expiring.body.batches.filter((batch: any) => batch.inventory_id === inventoryId)).toEqual([]);
+
+    const recordExpiryAlert = jest.spyOn(MonitoringService.getInstance(), 'recordExpiryAlert').mockImplementation(() => {});
+    await BatchService.getInstance().checkExpiringBatches();
+    expect(recordExpiryAlert.mock.calls.filter(([alert]) => alert.inventoryId === inventoryId)).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import categoryRoutes from '../src/routes/categories';
+import tagRoutes from '../src/routes/tags';
+import analyticsRoutes from '../src/routes/analytics';
+import receiptRoutes from '../src/routes/receipts';
+import { initDatabase } from '../src/database/init';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/receipts', receiptRoutes);
+
+describe('Inventory categories and tags', () => {
+  let authToken: string;
+  let cosmeticsId: number;
+  let foodId: number;
+  let hotTagId: number;
+  let itemId: number;
+  const suffix = Date.now();
+
+  const post = (url: string, body: any) => request(app)
+    .post(url)
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `categories_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'categorypass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'categorypass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create, rename and reject duplicate categories and tags', async () => {
+    cosmeticsId = (await post('/api/categories/add', { name: `化妆品_${suffix}`, color: '#eb2f96' }).expect(201)).body.id;
+    foodId = (await post('/api/categories/add', { name: `食品_${suffix}` }).expect(201)).body.id;
+    hotTagId = (await post('/api/tags/add', { name: `热销_${suffix}` }).expect(201)).body.id;
+
+    await post('/api/categories/add', { name: `化妆品_${suffix}` }).expect(409);
+    await post('/api/tags/add', { name: ' ' }).expect(400);
+
+    await request(app)
+      .put(`/api/categories/${foodId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `零食_${suffix}` })
+      .expect(200);
+
+    const list = await request(app)
+      .get('/api/categories/list')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(list.body.categories).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: foodId, name: `零食_${suffix}`, item_count: 0 })
+    ]));
+  });
+
+  it('should attach categories and tags to items and filter the inventory list', async () => {
+    itemId = (await post('/api/inventory/add', {
+      item_name: `分类测试商品_${suffix}`,
+      current_stock: 4,
+      unit_price: 25,
+      category_ids: [cosmeticsId],
+      tag_ids: [hotTagId]
+    }).expect(201)).body.id;
+
+    await post('/api/inventory/add', {
+      item_name: `分类测试无效_${suffix}`,
+      current_stock: 1,
+      unit_price: 1,
+      category_ids: [99999999]
+    }).expect(400);
+
+    const byCategory = await request(app)
+      .get('/api/inventory/list')
+      .query({ categoryId: cosmeticsId })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(byCategory.body.items).toEqual([expect.objectContaining({
+      id: itemId,
+      categories: [{ id: cosmeticsId, name: `化妆品_${suffix}`, color: '#eb2f96' }],
+      tags: [{ id: hotTagId, name: `热销_${suffix}`, color: null }]
+    })]);
+
+    await request(app)
+      .put(`/api/inventory/${itemId}/categories`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ category_ids: [foodId, cosmeticsId] })
+      .expect(200);
+
+    const byTag = await request(app)
+      .get('/api/inventory/list')
+      .query({ tagId: hotTagId, categoryId: foodId })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(byTag.body.items.map((item: any) => item.id)).toEqual([itemId]);
+    expect(byTag.body.items[0].categories).toHaveLength(2);
+
+    const analytics = await request(app)
+      .get('/api/analytics/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(analytics.body.categories).toEqual(expect.arrayContaining([
+      expect.objectContaining({ categoryId: foodId, itemCount: 1, totalStock: 4, stockValue: 100 }),
+      expect.objectContaining({ categoryId: cosmeticsId, itemCount: 1, totalStock: 4 })
+    ]));
+  });
+
+  it('should enforce validation.requireCategory', async () => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({
+      ...config,
+      validation: { ...config.validation, requireCategory: true }
+    });
+
+    const missing = await post('/api/inventory/add', {
+      item_name: `未分类商品_${suffix}`,
+      current_stock: 1,
+      unit_price: 1
+    }).expect(400);
+    expect(missing.body.error).toBe('库存项目必须设置分类');
+
+    await request(app)
+      .put(`/api/inventory/${itemId}/categories`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ category_ids: [] })
+      .expect(400);
+
+    // 删除其中一个分类后该项目仍有分类，可以删除；再删除最后一个分类则会使项目失去分类
+    await request(app)
+      .delete(`/api/categories/${foodId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const conflict = await request(app)
+      .delete(`/api/categories/${cosmeticsId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(409);
+    expect(conflict.body.inventoryIds).toEqual([itemId]);
+  });
+
+  it('should let receipts create unlabelled items and list them for labelling', async () => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({
+      ...config,
+      validation: { ...config.validation, requireCategory: true, requireTags: true }
+    });
+
+    const itemName = `收据新商品_${suffix}`;
+    await post('/api/receipts/save', {
+      items: [{ itemName, unitPrice: 12, quantity: 2, totalPrice: 24 }],
+      totalAmount: 24,
+      allowDuplicate: true
+    }).expect(200);
+
+    for (const query of [{ categoryId: 'none' }, { tagId: 'none' }]) {
+      const response = await request(app)
+        .get('/api/inventory/list')
+        .query({ ...query, search: itemName })
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(response.body.items.map((item: any) => [item.item_name, item.current_stock])).toEqual([[itemName, 2]]);
+    }
+
+    const labelled = await request(app)
+      .get('/api/inventory/list')
+      .query({ tagId: 'none', search: `_${suffix}` })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(labelled.body.items.map((item: any) => item.id)).not.toContain(itemId);
+  });
+});
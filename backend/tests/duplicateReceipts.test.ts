@@ -0,0 +1,152 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { ImageProcessingService } from '../src/services/imageProcessingService';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+
+// 每次运行随机生成 8x9 的色块，使本次的图像哈希与之前运行保存的收据不同
+const cells = Array.from({ length: 72 }, () => Math.floor(Math.random() * 220));
+
+// 生成由随机色块组成的测试收据图像
+const createReceiptImage = (width: number, height: number, invert = false) => {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = cells[Math.floor((y * 8) / height) * 9 + Math.floor((x * 9) / width)] + 20;
+      if (invert) {
+        value = 255 - value;
+      }
+      pixels[y * width + x] = value;
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } });
+};
+
+describe('Duplicate receipt detection', () => {
+  let authToken: string;
+  const suffix = Date.now();
+  const year = String(1901 + Math.floor(suffix / 1000) % 98);
+  let originalReceiptId: number;
+  const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'receipt-duplicates-'));
+  const imageProcessingService = ImageProcessingService.getInstance();
+
+  const saveReceipt = (body: Record<string, any>) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({
+      items: [
+        { itemName: `重复检测商品A_${suffix}`, unitPrice: 300, quantity: 1, totalPrice: 300 },
+        { itemName: `重复检测商品B_${suffix}`, unitPrice: 150, quantity: 2, totalPrice: 300 }
+      ],
+      totalAmount: 600,
+      merchant: { name: `重复检测门店_${suffix}`, purchasedAt: `${year}-06-01 10:15` },
+      ...body
+    });
+
+  beforeAll(async () => {
+    process.env.UPLOAD_PATH = uploadDir;
+    await initDatabase();
+
+    const username = `duplicates_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'duplicatepass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'duplicatepass123' });
+
+    authToken = loginResponse.body.token;
+
+    await createReceiptImage(400, 600).jpeg({ quality: 90 }).toFile(path.join(uploadDir, 'original.jpg'));
+    await createReceiptImage(200, 300).jpeg({ quality: 40 }).toFile(path.join(uploadDir, 'resized.jpg'));
+    await createReceiptImage(400, 600, true).png().toFile(path.join(uploadDir, 'different.png'));
+  });
+
+  afterAll(async () => {
+    const receipts = await connectionPool.query('SELECT id FROM receipts WHERE merchant_name LIKE ?', [`%_${suffix}`]);
+    for (const receipt of receipts) {
+      await request(app)
+        .delete(`/api/receipts/${receipt.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+    }
+
+    delete process.env.UPLOAD_PATH;
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should give resized copies of an image a close perceptual hash', async () => {
+    const original = await imageProcessingService.computePerceptualHash(path.join(uploadDir, 'original.jpg'));
+    const resized = await imageProcessingService.computePerceptualHash(path.join(uploadDir, 'resized.jpg'));
+    const different = await imageProcessingService.computePerceptualHash(path.join(uploadDir, 'different.png'));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(imageProcessingService.hashDistance(original, resized)).toBeLessThanOrEqual(10);
+    expect(imageProcessingService.hashDistance(original, different)).toBeGreaterThan(10);
+  });
+
+  it('should block a second upload of the same receipt unless explicitly allowed', async () => {
+    const first = await saveReceipt({ imagePath: 'original.jpg' }).expect(200);
+    expect(first.body.duplicates).toEqual([]);
+    originalReceiptId = first.body.receiptId;
+
+    // 另一位成员用不同照片上传同一张收据
+    const duplicate = await saveReceipt({ imagePath: 'different.png' }).expect(409);
+    expect(duplicate.body.duplicates[0]).toMatchObject({
+      receiptId: first.body.receiptId,
+      score: 1,
+      signals: { image: null, store: 1, date: 1, total: 1, items: 1 }
+    });
+
+    const [{ count }] = await connectionPool.query(
+      'SELECT COUNT(*) as count FROM receipts WHERE merchant_name = ?',
+      [`重复检测门店_${suffix}`]
+    );
+    expect(count).toBe(1);
+
+    const forced = await saveReceipt({ imagePath: 'different.png', allowDuplicate: true }).expect(200);
+    expect(forced.body.duplicates.map((d: any) => d.receiptId)).toContain(first.body.receiptId);
+  });
+
+  it('should match re-uploaded images even when the recognized content differs', async () => {
+    const response = await saveReceipt({
+      imagePath: 'resized.jpg',
+      items: [{ itemName: `识别有误的商品_${suffix}`, unitPrice: 590, quantity: 1, totalPrice: 590 }],
+      totalAmount: 590,
+      merchant: { name: `识别有误的门店_${suffix}` }
+    }).expect(409);
+
+    const [candidate] = response.body.duplicates;
+    expect(candidate.receiptId).toBe(originalReceiptId);
+    expect(candidate.signals.image).toBeGreaterThan(0.8);
+  });
+
+  it('should not flag a different purchase at the same store', async () => {
+    await saveReceipt({
+      items: [{ itemName: `重复检测商品C_${suffix}`, unitPrice: 120, quantity: 1, totalPrice: 120 }],
+      totalAmount: 120
+    }).expect(200);
+  });
+
+  it('should only compare totals with receipts in the same currency', async () => {
+    await connectionPool.run(
+      `INSERT OR IGNORE INTO exchange_rates (currency, rate, rate_date) VALUES ('JPY', 0.05, '1900-01-01')`
+    );
+
+    // 门店、日期和商品相同，但 600 日元与 600 元不是同一笔金额
+    const response = await saveReceipt({ currency: 'JPY' }).expect(200);
+    expect(response.body.duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import analyticsRoutes from '../src/routes/analytics';
+import exchangeRateRoutes from '../src/routes/exchangeRates';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+
+describe('Exchange rates and multi-currency receipts', () => {
+  let authToken: string;
+  const itemName = `日元商品_${Date.now()}`;
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `currencyadmin_${Date.now()}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'currencypass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'currencypass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should store manual and imported rates', async () => {
+    await request(app)
+      .post('/api/exchange-rates/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ currency: 'jpy', rate: 0.05 })
+      .expect(201);
+
+    const imported = await request(app)
+      .post('/api/exchange-rates/import')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ rates: [{ currency: 'USD', rate: 8 }, { currency: 'KRW', rate: 0.005 }] })
+      .expect(200);
+    expect(imported.body.imported).toBe(2);
+
+    const latest = await request(app)
+      .get('/api/exchange-rates/latest')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(latest.body.rates).toEqual(expect.arrayContaining([
+      expect.objectContaining({ currency: 'JPY', rate: 0.05, source: 'manual' }),
+      expect.objectContaining({ currency: 'USD', rate: 8, source: 'import' })
+    ]));
+  });
+
+  it('should reject invalid rates', async () => {
+    await request(app)
+      .post('/api/exchange-rates/import')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ rates: [{ currency: 'EUR', rate: 7.8 }, { currency: 'EUR', rate: -1 }] })
+      .expect(400);
+
+    await request(app)
+      .post('/api/exchange-rates/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ currency: 'CNY', rate: 1 })
+      .expect(400);
+  });
+
+  it('should snapshot the rate when a receipt is saved', async () => {
+    const response = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        currency: 'JPY',
+        items: [{ itemName, unitPrice: 500, quantity: 2, totalPrice: 1000 }],
+        totalAmount: 1000
+      })
+      .expect(200);
+
+    // 之后汇率变化不影响已保存的收据
+    await request(app)
+      .post('/api/exchange-rates/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ currency: 'JPY', rate: 0.06 })
+      .expect(201);
+
+    const [receipt] = await connectionPool.query('SELECT currency, exchange_rate FROM receipts WHERE id = ?', [response.body.receiptId]);
+    expect(receipt).toEqual({ currency: 'JPY', exchange_rate: 0.05 });
+
+    const [inventory] = await connectionPool.query('SELECT unit_price FROM inventory WHERE item_name = ?', [itemName]);
+    expect(inventory.unit_price).toBeCloseTo(25);
+  });
+
+  it('should refuse to save receipts in a currency without a rate', async () => {
+    await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        currency: 'GBP',
+        items: [{ itemName, unitPrice: 10, quantity: 1, totalPrice: 10 }],
+        totalAmount: 10
+      })
+      .expect(400);
+  });
+
+  it('should convert analytics amounts into the report currency', async () => {
+    const base = await request(app)
+      .get('/api/analytics/price-trends')
+      .query({ itemName })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(base.body.reportCurrency).toBe('CNY');
+    expect(base.body.trends[0].avgPrice).toBeCloseTo(25);
+
+    const usd = await request(app)
+      .get('/api/analytics/price-trends')
+      .query({ itemName, reportCurrency: 'USD' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(usd.body.reportCurrency).toBe('USD');
+    expect(usd.body.trends[0].avgPrice).toBeCloseTo(25 / 8);
+
+    await request(app)
+      .get('/api/analytics/summary')
+      .query({ reportCurrency: 'XYZ' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+});
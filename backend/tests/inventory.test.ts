@@ -0,0 +1,309 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import salesRoutes from '../src/routes/sales';
+import { initDatabase } from '../src/database/init';
+import { MonitoringService } from '../src/services/monitoringService';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/sales', salesRoutes);
+
+describe('Inventory movements API', () => {
+  let authToken: string;
+  let inventoryId: number;
+  const itemName = `流水测试商品_${Date.now()}`;
+
+  const getMovements = async (id: number) => {
+    const response = await request(app)
+      .get(`/api/inventory/${id}/movements`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    return response.body;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `inventoryadmin_${Date.now()}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'inventorypass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'inventorypass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should journal every stock change with a running balance', async () => {
+    const receipt = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [{ itemName, unitPrice: 30, quantity: 8, totalPrice: 240 }],
+        totalAmount: 240
+      })
+      .expect(200);
+
+    const list = await request(app)
+      .get('/api/inventory/list')
+      .query({ search: itemName })
+      .set('Authorization', `Bearer ${authToken}`);
+    inventoryId = list.body.items[0].id;
+
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ inventoryId, quantity: 3, unitPrice: 60 }] })
+      .expect(201);
+
+    await request(app)
+      .put(`/api/inventory/${inventoryId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ current_stock: 4, unit_price: 30 })
+      .expect(200);
+
+    await request(app)
+      .post('/api/inventory/batch-update')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ updates: [{ id: inventoryId, current_stock: 10, unit_price: 32 }] })
+      .expect(200);
+
+    const history = await getMovements(inventoryId);
+
+    expect(history.openingBalance).toBe(0);
+    expect(history.movements.map((m: any) => [m.source, m.delta, m.balance_after])).toEqual([
+      ['receipt', 8, 8],
+      ['sale', -3, 5],
+      ['manual_update', -1, 4],
+      ['batch_update', 6, 10]
+    ]);
+    expect(history.movements[0].reference_id).toBe(receipt.body.receiptId);
+    expect(history.movements[0].username).toBeDefined();
+    expect(history.item.current_stock).toBe(10);
+  });
+
+  it('should not journal updates that leave the stock unchanged', async () => {
+    await request(app)
+      .put(`/api/inventory/${inventoryId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ current_stock: 10, unit_price: 35 })
+      .expect(200);
+
+    const history = await getMovements(inventoryId);
+    expect(history.total).toBe(4);
+  });
+
+  it('should record the initial stock of manually added items', async () => {
+    const response = await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ item_name: `${itemName}_手工`, current_stock: 12, unit_price: 5 })
+      .expect(201);
+
+    const history = await getMovements(response.body.id);
+    expect(history.movements).toHaveLength(1);
+    expect(history.movements[0]).toMatchObject({ source: 'initial', delta: 12, balance_after: 12 });
+  });
+
+  it('should reject negative stock updates', async () => {
+    await request(app)
+      .put(`/api/inventory/${inventoryId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ current_stock: -1, unit_price: 30 })
+      .expect(400);
+  });
+
+  it('should summarise movements for the movement analysis report', async () => {
+    const response = await request(app)
+      .get('/api/inventory/movement-analysis')
+      .query({ period: 7 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const item = response.body.items.find((i: any) => i.id === inventoryId);
+    expect(item).toMatchObject({ inbound_quantity: 14, outbound_quantity: 4, net_change: 10 });
+    expect(response.body.bySource.map((s: any) => s.source)).toContain('sale');
+  });
+
+  describe('low-stock thresholds', () => {
+    let thresholdItemId: number;
+    const thresholdItemName = `阈值测试商品_${Date.now()}`;
+
+    beforeAll(async () => {
+      const response = await request(app)
+        .post('/api/inventory/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ item_name: thresholdItemName, current_stock: 30, unit_price: 10 });
+      thresholdItemId = response.body.id;
+    });
+
+    const isListedAsLowStock = async () => {
+      const response = await request(app)
+        .get('/api/inventory/low-stock')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      return response.body.items.find((item: any) => item.id === thresholdItemId);
+    };
+
+    it('should fall back to the global threshold', async () => {
+      expect(await isListedAsLowStock()).toBeUndefined();
+
+      const response = await request(app)
+        .post('/api/inventory/set-threshold')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ item_id: thresholdItemId, threshold: null })
+        .expect(200);
+
+      expect(response.body.threshold).toBeNull();
+      expect(response.body.effective_threshold).toBe(10);
+    });
+
+    it('should use the per-item threshold for listings and alert when crossing it', async () => {
+      const alertSpy = jest.spyOn(MonitoringService.getInstance(), 'recordLowStockAlert').mockImplementation(() => {});
+
+      await request(app)
+        .post('/api/inventory/set-threshold')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ item_id: thresholdItemId, threshold: 25 })
+        .expect(200);
+
+      await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ inventoryId: thresholdItemId, quantity: 6, unitPrice: 20 }] })
+        .expect(201);
+
+      const item = await isListedAsLowStock();
+      expect(item).toMatchObject({ current_stock: 24, effective_threshold: 25, shortage: 1 });
+      expect(alertSpy).toHaveBeenCalledTimes(1);
+      expect(alertSpy).toHaveBeenCalledWith(expect.objectContaining({ inventoryId: thresholdItemId, threshold: 25 }));
+
+      const list = await request(app)
+        .get('/api/inventory/list')
+        .query({ search: thresholdItemName, lowStock: 'true' })
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(list.body.items[0]).toMatchObject({ low_stock_threshold: 25, is_low_stock: 1 });
+
+      alertSpy.mockRestore();
+    });
+
+    it('should reject invalid thresholds and unknown items', async () => {
+      await request(app)
+        .post('/api/inventory/set-threshold')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ item_id: thresholdItemId, threshold: -1 })
+        .expect(400);
+
+      await request(app)
+        .post('/api/inventory/set-threshold')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ item_id: 99999999, threshold: 5 })
+        .expect(404);
+    });
+  });
+
+  describe('receipt corrections', () => {
+    const correctedName = `冲回测试商品_${Date.now()}`;
+    const addedName = `${correctedName}_新增`;
+
+    const getStockByName = async (name: string) => {
+      const response = await request(app)
+        .get('/api/inventory/list')
+        .query({ search: name })
+        .set('Authorization', `Bearer ${authToken}`);
+      const item = response.body.items.find((i: any) => i.item_name === name);
+      return item ? item.current_stock : undefined;
+    };
+
+    const saveReceipt = async (quantity: number) => {
+      const response = await request(app)
+        .post('/api/receipts/save')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          items: [{ itemName: correctedName, unitPrice: 10, quantity, totalPrice: 10 * quantity }],
+          totalAmount: 10 * quantity
+        })
+        .expect(200);
+      return response.body.receiptId;
+    };
+
+    it('should apply only the quantity difference when a receipt is edited', async () => {
+      const receiptId = await saveReceipt(5);
+      expect(await getStockByName(correctedName)).toBe(5);
+
+      await request(app)
+        .put(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          items: [
+            { itemName: correctedName, unitPrice: 10, quantity: 3, totalPrice: 30 },
+            { itemName: addedName, unitPrice: 8, quantity: 2, totalPrice: 16 }
+          ],
+          totalAmount: 46
+        })
+        .expect(200);
+
+      expect(await getStockByName(correctedName)).toBe(3);
+      expect(await getStockByName(addedName)).toBe(2);
+    });
+
+    it('should reverse the stock a receipt added when it is deleted', async () => {
+      const receiptId = await saveReceipt(4);
+      expect(await getStockByName(correctedName)).toBe(7);
+
+      await request(app)
+        .delete(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(await getStockByName(correctedName)).toBe(3);
+
+      const list = await request(app)
+        .get('/api/inventory/list')
+        .query({ search: correctedName })
+        .set('Authorization', `Bearer ${authToken}`);
+      const history = await getMovements(list.body.items.find((i: any) => i.item_name === correctedName).id);
+      const last = history.movements[history.movements.length - 1];
+      expect(last).toMatchObject({ source: 'receipt_delete', delta: -4, reference_id: receiptId });
+    });
+
+    it('should refuse to reverse stock that has already been sold', async () => {
+      const receiptId = await saveReceipt(2);
+
+      await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ itemName: correctedName, quantity: 5, unitPrice: 20 }] })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409);
+
+      expect(await getStockByName(correctedName)).toBe(0);
+
+      await request(app)
+        .get(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+    });
+
+    it('should return 404 for unknown receipts', async () => {
+      await request(app)
+        .delete('/api/receipts/99999999')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import inventoryRoutes from '../src/routes/inventory';
+import shipmentRoutes from '../src/routes/shipments';
+import landedCostRoutes from '../src/routes/landedCosts';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/shipments', shipmentRoutes);
+app.use('/api/landed-costs', landedCostRoutes);
+
+describe('Landed cost allocation', () => {
+  let authToken: string;
+  let firstReceiptId: number;
+  let secondReceiptId: number;
+  const suffix = Date.now();
+  const itemX = `到岸商品X_${suffix}`;
+  const itemY = `到岸商品Y_${suffix}`;
+  const itemZ = `到岸商品Z_${suffix}`;
+
+  const getLandedCosts = async (receiptId: number) => {
+    const rows = await connectionPool.query(
+      'SELECT item_name, landed_cost FROM receipt_items WHERE receipt_id = ? ORDER BY id',
+      [receiptId]
+    );
+    return Object.fromEntries(rows.map(row => [row.item_name, row.landed_cost]));
+  };
+
+  const getInventory = async (itemName: string) => {
+    const [row] = await connectionPool.query('SELECT * FROM inventory WHERE item_name = ?', [itemName]);
+    return row;
+  };
+
+  const addCost = (body: Record<string, any>) => request(app)
+    .post('/api/landed-costs/add')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send(body);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `landedadmin_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'landedpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'landedpass123' });
+
+    authToken = loginResponse.body.token;
+
+    const first = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [
+          { itemName: itemX, unitPrice: 100, quantity: 2, totalPrice: 200 },
+          { itemName: itemY, unitPrice: 300, quantity: 1, totalPrice: 300 }
+        ],
+        totalAmount: 500
+      });
+    firstReceiptId = first.body.receiptId;
+
+    const second = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [{ itemName: itemZ, unitPrice: 25, quantity: 4, totalPrice: 100 }],
+        totalAmount: 100
+      });
+    secondReceiptId = second.body.receiptId;
+  });
+
+  it('should allocate receipt costs by value and by quantity', async () => {
+    await addCost({ receiptId: firstReceiptId, costType: 'shipping', amount: 50, allocationMethod: 'value' }).expect(201);
+    expect(await getLandedCosts(firstReceiptId)).toEqual({ [itemX]: 20, [itemY]: 30 });
+
+    await addCost({ receiptId: firstReceiptId, costType: 'fee', amount: 30, allocationMethod: 'quantity' }).expect(201);
+    expect(await getLandedCosts(firstReceiptId)).toEqual({ [itemX]: 40, [itemY]: 40 });
+
+    expect((await getInventory(itemX)).landed_unit_cost).toBe(120);
+    expect((await getInventory(itemY)).landed_unit_cost).toBe(340);
+  });
+
+  it('should allocate shipment costs across all receipts in the batch', async () => {
+    const shipment = await request(app)
+      .post('/api/shipments/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `批次_${suffix}`, receiptIds: [firstReceiptId, secondReceiptId] })
+      .expect(201);
+
+    await addCost({ shipmentId: shipment.body.id, costType: 'duty', amount: 60 }).expect(201);
+
+    expect(await getLandedCosts(firstReceiptId)).toEqual({ [itemX]: 60, [itemY]: 70 });
+    expect(await getLandedCosts(secondReceiptId)).toEqual({ [itemZ]: 10 });
+    expect((await getInventory(itemZ)).landed_unit_cost).toBe(27.5);
+
+    // 移出批次后该收据不再承担批次成本
+    await request(app)
+      .put(`/api/shipments/${shipment.body.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ receiptIds: [secondReceiptId] })
+      .expect(200);
+
+    expect(await getLandedCosts(firstReceiptId)).toEqual({ [itemX]: 40, [itemY]: 40 });
+    expect(await getLandedCosts(secondReceiptId)).toEqual({ [itemZ]: 60 });
+  });
+
+  it('should value inventory at landed cost', async () => {
+    const list = await request(app)
+      .get('/api/inventory/list')
+      .query({ search: itemX })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(list.body.items[0]).toMatchObject({ unit_price: 100, landed_unit_cost: 120, total_value: 240 });
+
+    const stats = await request(app)
+      .get('/api/inventory/stats')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(stats.body.total_value).toBeGreaterThan(stats.body.total_purchase_value);
+  });
+
+  it('should reallocate when a cost line is removed', async () => {
+    const list = await request(app)
+      .get('/api/landed-costs/list')
+      .query({ receiptId: firstReceiptId })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    const fee = list.body.costs.find((cost: any) => cost.cost_type === 'fee');
+
+    await request(app)
+      .delete(`/api/landed-costs/${fee.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(await getLandedCosts(firstReceiptId)).toEqual({ [itemX]: 20, [itemY]: 30 });
+  });
+
+  it('should validate cost lines', async () => {
+    await addCost({ receiptId: firstReceiptId, costType: 'tips', amount: 10 }).expect(400);
+    await addCost({ receiptId: firstReceiptId, costType: 'fee', amount: 0 }).expect(400);
+    await addCost({ costType: 'fee', amount: 10 }).expect(400);
+    await addCost({ receiptId: 99999999, costType: 'fee', amount: 10 }).expect(404);
+  });
+});
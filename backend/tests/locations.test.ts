@@ -0,0 +1,285 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import salesRoutes from '../src/routes/sales';
+import locationRoutes from '../src/routes/locations';
+import transferRoutes from '../src/routes/transfers';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/transfers', transferRoutes);
+
+describe('Storage locations and stock transfers', () => {
+  let adminToken: string;
+  let userToken: string;
+  let hotelId: number;
+  let officeId: number;
+  const suffix = Date.now();
+
+  const login = async (username: string, role: string) => {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'locationpass123', role });
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'locationpass123' });
+    return response.body.token;
+  };
+
+  const createLocation = async (name: string, location_type: string) => {
+    const response = await request(app)
+      .post('/api/locations')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name, location_type })
+      .expect(201);
+    return response.body.id as number;
+  };
+
+  const addItem = async (name: string, stock: number, locationId?: number) => {
+    const response = await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ item_name: name, current_stock: stock, unit_price: 10, location_id: locationId })
+      .expect(201);
+    return response.body.id as number;
+  };
+
+  const getLocations = async (inventoryId: number) => {
+    const response = await request(app)
+      .get(`/api/inventory/${inventoryId}/locations`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    return {
+      total: response.body.item.current_stock,
+      inTransit: response.body.in_transit,
+      byLocation: Object.fromEntries(response.body.locations.map((l: any) => [l.location_id, l.quantity]))
+    };
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    adminToken = await login(`location_admin_${suffix}`, 'admin');
+    userToken = await login(`location_user_${suffix}`, 'user');
+
+    hotelId = await createLocation(`东京酒店_${suffix}`, 'hotel');
+    officeId = await createLocation(`上海办公室_${suffix}`, 'office');
+  });
+
+  it('should move stock through in-transit state and keep the item total unchanged', async () => {
+    const itemId = await addItem(`调拨商品_${suffix}`, 10, hotelId);
+    expect(await getLocations(itemId)).toEqual({ total: 10, inTransit: 0, byLocation: { [hotelId]: 10 } });
+
+    await request(app)
+      .post('/api/transfers')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({ fromLocationId: hotelId, toLocationId: officeId, items: [{ inventoryId: itemId, quantity: 1 }] })
+      .expect(403);
+
+    const tooMany = await request(app)
+      .post('/api/transfers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromLocationId: hotelId, toLocationId: officeId, items: [{ inventoryId: itemId, quantity: 11 }], ship: true })
+      .expect(409);
+    expect(tooMany.body.error).toContain(`东京酒店_${suffix}`);
+
+    const created = await request(app)
+      .post('/api/transfers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromLocationId: hotelId, toLocationId: officeId, items: [{ inventoryId: itemId, quantity: 4 }, { inventoryId: itemId, quantity: 2 }] })
+      .expect(201);
+    expect(created.body).toMatchObject({ status: 'draft', to_location_name: `上海办公室_${suffix}` });
+    expect(created.body.items).toEqual([expect.objectContaining({ inventory_id: itemId, quantity: 6 })]);
+
+    await request(app)
+      .post(`/api/transfers/${created.body.id}/receive`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(409);
+
+    const shipped = await request(app)
+      .post(`/api/transfers/${created.body.id}/ship`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ trackingNumber: `EMS${suffix}` })
+      .expect(200);
+    expect(shipped.body.transfer).toMatchObject({ status: 'in_transit', tracking_number: `EMS${suffix}` });
+    expect(await getLocations(itemId)).toEqual({ total: 10, inTransit: 6, byLocation: { [hotelId]: 4 } });
+
+    // 在途数量不能出库
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ inventoryId: itemId, quantity: 5, unitPrice: 20 }] })
+      .expect(409);
+
+    const received = await request(app)
+      .post(`/api/transfers/${created.body.id}/receive`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(received.body.transfer.status).toBe('received');
+    expect(await getLocations(itemId)).toEqual({ total: 10, inTransit: 0, byLocation: { [hotelId]: 4, [officeId]: 6 } });
+
+    await request(app)
+      .post(`/api/transfers/${created.body.id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    // 指定位置出库，流水记录出库位置
+    const sale = await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ inventoryId: itemId, quantity: 5, unitPrice: 20, locationId: officeId }] })
+      .expect(201);
+    expect(sale.body.items[0].remainingStock).toBe(5);
+    expect(await getLocations(itemId)).toEqual({ total: 5, inTransit: 0, byLocation: { [hotelId]: 4, [officeId]: 1 } });
+
+    const movements = await request(app)
+      .get(`/api/inventory/${itemId}/movements`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(movements.body.movements.map((m: any) => [m.source, m.delta, m.location_name])).toEqual([
+      ['initial', 10, `东京酒店_${suffix}`],
+      ['sale', -5, `上海办公室_${suffix}`]
+    ]);
+  });
+
+  it('should deduct unassigned sales across locations and return cancelled in-transit stock', async () => {
+    const itemId = await addItem(`多位置商品_${suffix}`, 3, officeId);
+
+    // 未指定位置的入库计入默认位置
+    await request(app)
+      .put(`/api/inventory/${itemId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ current_stock: 8, unit_price: 10 })
+      .expect(200);
+
+    const [defaultLocation] = await connectionPool.query('SELECT id FROM locations WHERE is_default = 1');
+    expect((await getLocations(itemId)).byLocation).toEqual({ [defaultLocation.id]: 5, [officeId]: 3 });
+
+    const sale = await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ inventoryId: itemId, quantity: 6, unitPrice: 20 }] })
+      .expect(201);
+
+    const movements = await connectionPool.query(
+      `SELECT delta, balance_after, location_id FROM inventory_movements WHERE source = 'sale' AND reference_id = ? ORDER BY id`,
+      [sale.body.saleId]
+    );
+    expect(movements).toEqual([
+      { delta: -5, balance_after: 3, location_id: defaultLocation.id },
+      { delta: -1, balance_after: 2, location_id: officeId }
+    ]);
+
+    const transfer = await request(app)
+      .post('/api/transfers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromLocationId: officeId, toLocationId: hotelId, items: [{ inventoryId: itemId, quantity: 2 }], ship: true })
+      .expect(201);
+    expect(transfer.body.status).toBe('in_transit');
+
+    // 在途数量不属于任何位置
+    const office = await request(app)
+      .get(`/api/locations/${officeId}/stock`)
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(office.body.items.map((item: any) => item.id)).not.toContain(itemId);
+
+    await request(app)
+      .post(`/api/transfers/${transfer.body.id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(await getLocations(itemId)).toEqual({ total: 2, inTransit: 0, byLocation: { [officeId]: 2 } });
+  });
+
+  it('should filter inventory list and stats by location', async () => {
+    const itemId = await addItem(`酒店专属商品_${suffix}`, 7, hotelId);
+
+    const list = await request(app)
+      .get('/api/inventory/list')
+      .query({ locationId: hotelId, search: `_${suffix}`, limit: 100 })
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    const item = list.body.items.find((row: any) => row.id === itemId);
+    expect(item).toMatchObject({ location_stock: 7, locations: [{ id: hotelId, name: `东京酒店_${suffix}`, quantity: 7 }] });
+    expect(list.body.items.every((row: any) => row.location_stock > 0)).toBe(true);
+
+    const officeList = await request(app)
+      .get('/api/inventory/list')
+      .query({ locationId: officeId, search: `_${suffix}`, limit: 100 })
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(officeList.body.items.map((row: any) => row.id)).not.toContain(itemId);
+
+    const stats = await request(app)
+      .get('/api/inventory/stats')
+      .query({ locationId: hotelId })
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    expect(stats.body.location.id).toBe(hotelId);
+    expect(stats.body.total_stock).toBe(11);
+
+    await request(app)
+      .get('/api/inventory/stats')
+      .query({ locationId: 99999999 })
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(404);
+
+    // 仍有库存的位置不能停用，默认位置不能停用
+    await request(app)
+      .put(`/api/locations/${hotelId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ is_active: false })
+      .expect(409);
+
+    const locations = await request(app)
+      .get('/api/locations')
+      .set('Authorization', `Bearer ${userToken}`)
+      .expect(200);
+    const defaultLocation = locations.body.find((location: any) => location.is_default === 1);
+    await request(app)
+      .put(`/api/locations/${defaultLocation.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ is_active: false })
+      .expect(400);
+    expect(locations.body.find((location: any) => location.id === hotelId)).toMatchObject({ total_quantity: 11 });
+  });
+
+  it('should count low stock items by the quantity at the location', async () => {
+    const warehouseId = await createLocation(`仓库_${suffix}`, 'warehouse');
+    const shelfId = await createLocation(`货架_${suffix}`, 'other');
+    const spreadId = await addItem(`分散存放商品_${suffix}`, 101, warehouseId);
+    const lowId = await addItem(`少量存放商品_${suffix}`, 3, warehouseId);
+    await connectionPool.run('UPDATE inventory SET low_stock_threshold = 5 WHERE id IN (?, ?)', [spreadId, lowId]);
+
+    const transfer = await request(app)
+      .post('/api/transfers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fromLocationId: warehouseId, toLocationId: shelfId, items: [{ inventoryId: spreadId, quantity: 1 }], ship: true })
+      .expect(201);
+    await request(app)
+      .post(`/api/transfers/${transfer.body.id}/receive`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const lowStockItems = async (locationId: number) => {
+      const response = await request(app)
+        .get('/api/inventory/stats')
+        .query({ locationId })
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+      return response.body.low_stock_items;
+    };
+    // 货架上只有 1 件（总库存 101），仓库里 100 件不算低库存
+    expect(await lowStockItems(shelfId)).toBe(1);
+    expect(await lowStockItems(warehouseId)).toBe(1);
+  });
+});
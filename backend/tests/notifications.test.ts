@@ -0,0 +1,221 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import salesRoutes from '../src/routes/sales';
+import notificationRoutes from '../src/routes/notifications';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { NotificationService } from '../src/services/notificationService';
+import * as notificationConfig from '../src/config/notification';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/notifications', notificationRoutes);
+
+describe('Email notifications', () => {
+  let authToken: string;
+  let smtpServer: SMTPServer;
+  let smtpPort: number;
+  const suffix = Date.now();
+  const notificationService = NotificationService.getInstance();
+  const received: Array<{ to: string[]; data: string }> = [];
+
+  const mockNotificationConfig = (overrides: Record<string, any> = {}) => {
+    const config = notificationConfig.getNotificationConfig();
+    jest.spyOn(notificationConfig, 'getNotificationConfig').mockReturnValue({
+      ...config,
+      enabled: true,
+      smtp: { ...config.smtp, host: '127.0.0.1', port: smtpPort, secure: false, user: '', pass: '' },
+      alertEmails: [`ops_${suffix}@example.com`],
+      ...overrides
+    });
+  };
+
+  const getOutboxRows = (eventType: string, recipient: string) => connectionPool.query(
+    'SELECT * FROM notification_outbox WHERE event_type = ? AND recipients LIKE ?',
+    [eventType, `%${recipient}%`]
+  );
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    smtpServer = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        let data = '';
+        stream.on('data', chunk => { data += chunk.toString(); });
+        stream.on('end', () => {
+          received.push({ to: session.envelope.rcptTo.map(rcpt => rcpt.address), data });
+          callback();
+        });
+      }
+    });
+    await new Promise<void>(resolve => smtpServer.listen(0, '127.0.0.1', resolve));
+    smtpPort = (smtpServer.server.address() as AddressInfo).port;
+
+    const username = `notifier_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'notifierpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'notifierpass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notificationService.setTransport(undefined);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => smtpServer.close(() => resolve()));
+  });
+
+  it('should deliver a test email through the SMTP transport', async () => {
+    mockNotificationConfig();
+    const recipient = `admin_${suffix}@example.com`;
+
+    const response = await request(app)
+      .post('/api/notifications/test')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ to: recipient })
+      .expect(200);
+
+    expect(response.body.item).toMatchObject({ status: 'sent', attempts: 1, recipients: [recipient] });
+    const mail = received.find(m => m.to.includes(recipient));
+    expect(mail).toBeDefined();
+    expect(mail!.data).toContain('Subject:');
+
+    await request(app)
+      .post('/api/notifications/test')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ to: 'not-an-email' })
+      .expect(400);
+  });
+
+  it('should retry failed deliveries with backoff and mark them failed after max attempts', async () => {
+    mockNotificationConfig({ retry: { maxAttempts: 2, baseDelaySeconds: 60, maxDelaySeconds: 3600 } });
+    const send = jest.fn().mockRejectedValue(new Error('connection refused'));
+    notificationService.setTransport({ send });
+
+    const recipient = `retry_${suffix}@example.com`;
+    const id = (await notificationService.enqueue('test', {}, { recipients: [recipient] }))!;
+    const now = new Date(Date.now() + 1000);
+
+    expect(await notificationService.processOutbox(now)).toMatchObject({ retrying: 1, failed: 0 });
+    expect(await notificationService.getOutboxItem(id)).toMatchObject({ status: 'pending', attempts: 1, last_error: 'connection refused' });
+
+    // 退避时间未到时不会重试
+    await notificationService.processOutbox(now);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    expect(await notificationService.processOutbox(new Date(now.getTime() + 61 * 1000))).toMatchObject({ failed: 1 });
+    expect(await notificationService.getOutboxItem(id)).toMatchObject({ status: 'failed', attempts: 2 });
+
+    const failed = await request(app)
+      .get('/api/notifications/outbox')
+      .query({ status: 'failed', eventType: 'test', limit: 100 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(failed.body.items.map((item: any) => item.id)).toContain(id);
+
+    await request(app)
+      .post(`/api/notifications/outbox/${id}/retry`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    notificationService.setTransport({ send: jest.fn().mockResolvedValue(undefined) });
+    await notificationService.processOutbox(new Date(Date.now() + 1000));
+    expect(await notificationService.getOutboxItem(id)).toMatchObject({ status: 'sent', attempts: 1 });
+
+    await request(app)
+      .post(`/api/notifications/outbox/${id}/retry`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(409);
+  });
+
+  it('should queue one low-stock email when an item crosses its threshold', async () => {
+    mockNotificationConfig();
+    const recipient = `restock_${suffix}@example.com`;
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({
+      ...config,
+      autoRestock: { ...config.autoRestock, enableEmailNotifications: true, notificationEmails: [recipient] as any }
+    });
+
+    const item = await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ item_name: `通知测试商品_${suffix}`, current_stock: 12, unit_price: 10 })
+      .expect(201);
+
+    for (const quantity of [3, 1]) {
+      await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ inventoryId: item.body.id, quantity, unitPrice: 20 }] })
+        .expect(201);
+    }
+
+    const rows = await getOutboxRows('low_stock', recipient);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ status: 'pending', dedupe_key: `low_stock:${item.body.id}:low` });
+    expect(rows[0].subject).toContain(`通知测试商品_${suffix}`);
+  });
+
+  it('should queue an expiry alert email for each batch', async () => {
+    mockNotificationConfig({ alertEmails: [`expiry_${suffix}@example.com`] });
+    const alert = (batchId: number) => notificationService.notifyMonitoringAlert({
+      type: 'BATCH_EXPIRING',
+      message: `临期批次_${suffix} 批次将在 3 天后到期`,
+      severity: 'MEDIUM',
+      context: { batchId, itemName: `临期批次_${suffix}` },
+      timestamp: new Date().toISOString()
+    });
+
+    expect(await alert(suffix)).not.toBeNull();
+    expect(await alert(suffix + 1)).not.toBeNull();
+    // 同一批次在冷却时间内不重复发送
+    expect(await alert(suffix)).toBeNull();
+
+    const rows = await getOutboxRows('monitoring_alert', `expiry_${suffix}@example.com`);
+    expect(rows.map((row: any) => row.dedupe_key)).toEqual([
+      `monitoring_alert:BATCH_EXPIRING:${suffix}`,
+      `monitoring_alert:BATCH_EXPIRING:${suffix + 1}`
+    ]);
+  });
+
+  it('should notify alert recipients when a receipt is queued for review', async () => {
+    mockNotificationConfig();
+
+    const response = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [{ itemName: `待审核通知商品_${suffix}`, unitPrice: 100, quantity: 2, totalPrice: 200 }],
+        totalAmount: 200,
+        confidence: 0.4
+      })
+      .expect(200);
+    expect(response.body.status).toBe('pending_review');
+
+    const [row] = await getOutboxRows('review_queue', `ops_${suffix}@example.com`);
+    expect(row.subject).toContain(`#${response.body.receiptId}`);
+    expect(row.body_text).toContain(response.body.reviewIssues[0].message);
+  });
+});
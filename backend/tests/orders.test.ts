@@ -0,0 +1,192 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import customerRoutes from '../src/routes/customers';
+import orderRoutes from '../src/routes/orders';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/orders', orderRoutes);
+
+describe('Customers and Orders API', () => {
+  let authToken: string;
+  let customerId: number;
+  let receiptItemId: number;
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `orderadmin_${Date.now()}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'adminpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'adminpass123' });
+
+    authToken = loginResponse.body.token;
+
+    // 准备一条采购记录用于订单关联
+    const receipt = await connectionPool.run(
+      'INSERT INTO receipts (user_id, total_amount) VALUES (?, ?)',
+      [loginResponse.body.user.id, 200]
+    );
+    const receiptItem = await connectionPool.run(
+      'INSERT INTO receipt_items (receipt_id, item_name, unit_price, quantity, total_price) VALUES (?, ?, ?, ?, ?)',
+      [receipt.lastID, '订单测试商品', 100, 2, 200]
+    );
+    receiptItemId = receiptItem.lastID;
+  });
+
+  describe('POST /api/customers/add', () => {
+    it('should create a customer', async () => {
+      const response = await request(app)
+        .post('/api/customers/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: '测试客户', phone: '13800000000', wechat: 'test_wechat' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toHaveProperty('id');
+      customerId = response.body.id;
+    });
+
+    it('should reject a customer without name', async () => {
+      const response = await request(app)
+        .post('/api/customers/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ phone: '13800000000' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('客户名称不能为空');
+    });
+
+    it('should require authentication', async () => {
+      await request(app)
+        .post('/api/customers/add')
+        .send({ name: '未授权客户' })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/orders/create', () => {
+    it('should create an order linked to a receipt item', async () => {
+      const response = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          customerId,
+          items: [
+            { itemName: '订单测试商品', quantity: 2, unitPrice: 150, receiptItemId },
+            { itemName: '未采购商品', quantity: 1, unitPrice: 80 }
+          ]
+        });
+
+      expect(response.status).toBe(201);
+
+      const detail = await request(app)
+        .get(`/api/orders/${response.body.orderId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(detail.body.customer_name).toBe('测试客户');
+      expect(detail.body.status).toBe('pending');
+      expect(detail.body.total_amount).toBe(380);
+      expect(detail.body.items).toHaveLength(2);
+      expect(detail.body.items[0].receipt_item_id).toBe(receiptItemId);
+      expect(detail.body.items[0].purchase_unit_price).toBe(100);
+      expect(detail.body.items[1].receipt_item_id).toBeNull();
+    });
+
+    it('should reject unknown receipt items', async () => {
+      const response = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          customerId,
+          items: [{ itemName: '订单测试商品', quantity: 1, unitPrice: 150, receiptItemId: 999999 }]
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.receiptItemIds).toEqual([999999]);
+    });
+
+    it('should reject an order for a missing customer', async () => {
+      const response = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ customerId: 999999, items: [{ itemName: '商品', quantity: 1, unitPrice: 10 }] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/orders/:id', () => {
+    it('should update status and link items', async () => {
+      const created = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ customerId, items: [{ itemName: '订单测试商品', quantity: 1, unitPrice: 150 }], notes: '加急' });
+
+      const orderId = created.body.orderId;
+
+      await request(app)
+        .put(`/api/orders/${orderId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'purchased', notes: null })
+        .expect(200);
+
+      const detail = await request(app)
+        .get(`/api/orders/${orderId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      await request(app)
+        .post(`/api/orders/${orderId}/items/${detail.body.items[0].id}/link`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ receiptItemId })
+        .expect(200);
+
+      const linked = await request(app)
+        .get(`/api/orders/${orderId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(linked.body.status).toBe('purchased');
+      expect(linked.body.notes).toBeNull();
+      expect(linked.body.items[0].receipt_item_id).toBe(receiptItemId);
+    });
+
+    it('should reject invalid status', async () => {
+      const response = await request(app)
+        .put('/api/orders/1')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'unknown' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/customers/:id', () => {
+    it('should include customer orders', async () => {
+      const response = await request(app)
+        .get(`/api/customers/${customerId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.name).toBe('测试客户');
+      expect(response.body.orders.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should not delete a customer with orders', async () => {
+      const response = await request(app)
+        .delete(`/api/customers/${customerId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
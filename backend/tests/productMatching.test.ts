@@ -0,0 +1,108 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import productRoutes from '../src/routes/products';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { ProductMatchingService } from '../src/services/productMatchingService';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/products', productRoutes);
+
+describe('Product name matching', () => {
+  let authToken: string;
+  let essenceId: number;
+  let cleansingId: number;
+  const suffix = Date.now();
+  const matchingService = ProductMatchingService.getInstance();
+
+  const addProduct = async (body: Record<string, any>) => {
+    const response = await request(app)
+      .post('/api/products/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send(body)
+      .expect(201);
+    return response.body.id;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `matching_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'matchingpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'matchingpass123' });
+
+    authToken = loginResponse.body.token;
+
+    essenceId = await addProduct({ name: `SK-II 神仙水 230ml ${suffix}` });
+    cleansingId = await addProduct({
+      name: `ファンケル マイルドクレンジングオイル ${suffix}`,
+      aliases: [`芳珂卸妆油 ${suffix}`]
+    });
+  });
+
+  it('should fold katakana, hiragana and Chinese characters to the same key', () => {
+    expect(matchingService.matchKey('神仙水')).toBe(matchingService.matchKey('shen xian shui'));
+    expect(matchingService.matchKey('クレンジング')).toBe(matchingService.matchKey('くれんじんぐ'));
+    expect(matchingService.matchKey('ＳＫ－ＩＩ')).toBe('skii');
+  });
+
+  it('should score names by normalized edit distance', () => {
+    expect(matchingService.similarity('abcd', 'abcd')).toBe(1);
+    expect(matchingService.similarity('abcd', 'abce')).toBe(0.75);
+    expect(matchingService.similarity('', 'abc')).toBe(0);
+  });
+
+  it('should suggest the closest products for each OCR line in order', async () => {
+    const [typo, pinyinName, alias, unknown] = await matchingService.suggestForItems([
+      `SK-ll 神伽水 230ml ${suffix}`,
+      `SKII shenxianshui 230ml ${suffix}`,
+      `芳珂 卸妆油 ${suffix}`,
+      `完全无关的东西 qwertyuiop`
+    ], 3);
+
+    expect(typo[0]).toMatchObject({ productId: essenceId, matchedBy: 'name' });
+    expect(typo[0].score).toBeGreaterThan(0.8);
+    expect(pinyinName[0]).toMatchObject({ productId: essenceId, score: 1 });
+    expect(alias[0]).toMatchObject({ productId: cleansingId, matchedBy: 'alias', score: 1 });
+    expect(unknown.find(s => s.productId === essenceId || s.productId === cleansingId)).toBeUndefined();
+  });
+
+  it('should remember a confirmed match so the same OCR name resolves next time', async () => {
+    const ocrName = `ﾌｧﾝｹﾙ ﾏｲﾙﾄﾞｸﾚﾝｼﾞﾝｸﾞ ${suffix}`;
+    const items = (productId?: number) => [{ itemName: ocrName, productId, unitPrice: 1800, quantity: 1, totalPrice: 1800 }];
+
+    await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: items(cleansingId), totalAmount: 1800 })
+      .expect(200);
+
+    // 再次识别出同样的写法时无需指定商品
+    const saved = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: items(), totalAmount: 1800, allowDuplicate: true })
+      .expect(200);
+
+    const [item] = await connectionPool.query('SELECT product_id FROM receipt_items WHERE receipt_id = ?', [saved.body.receiptId]);
+    expect(item.product_id).toBe(cleansingId);
+
+    const suggest = await request(app)
+      .get('/api/products/suggest')
+      .query({ name: ocrName })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(suggest.body.suggestions[0]).toMatchObject({ productId: cleansingId, matchedBy: 'alias', score: 1 });
+  });
+});
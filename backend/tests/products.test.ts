@@ -0,0 +1,163 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import inventoryRoutes from '../src/routes/inventory';
+import productRoutes from '../src/routes/products';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { ProductService } from '../src/services/productService';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/products', productRoutes);
+
+// 为12位数字补上 EAN-13 校验位
+const withCheckDigit = (body: string) => {
+  const sum = body.split('').reverse().reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return body + ((10 - (sum % 10)) % 10);
+};
+
+describe('Product catalog', () => {
+  let authToken: string;
+  let productId: number;
+  const suffix = Date.now();
+  const productName = `SK-II 神仙水 230ml ${suffix}`;
+  const barcode = withCheckDigit(String(suffix).padStart(12, '4').slice(-12));
+  const productService = ProductService.getInstance();
+
+  const saveReceipt = (items: any[]) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ items, totalAmount: items.reduce((sum, item) => sum + item.totalPrice, 0) });
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `products_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'productpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'productpass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should validate JAN/EAN barcodes', () => {
+    expect(productService.normalizeBarcode('4901234567894')).toBe('4901234567894');
+    expect(() => productService.normalizeBarcode('4901234567890')).toThrow('条码校验位错误');
+    expect(() => productService.normalizeBarcode('12345')).toThrow('条码格式无效');
+  });
+
+  it('should create products with SKU, barcode and aliases', async () => {
+    const response = await request(app)
+      .post('/api/products/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        name: productName,
+        sku: `SKII-FTE-230-${suffix}`,
+        barcode,
+        brand: 'SK-II',
+        spec: '230ml',
+        category: '护肤',
+        aliases: [`SKII Facial Treatment Essence ${suffix}`]
+      })
+      .expect(201);
+    productId = response.body.id;
+
+    await request(app)
+      .post('/api/products/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `另一个商品_${suffix}`, barcode })
+      .expect(409);
+
+    const lookup = await request(app)
+      .get('/api/products/lookup')
+      .query({ barcode })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(lookup.body).toEqual({ productId, name: productName });
+  });
+
+  it('should resolve differently written receipt lines to one product and inventory row', async () => {
+    const saved = await saveReceipt([
+      { itemName: `SKII Facial Treatment Essence ${suffix}`, unitPrice: 100, quantity: 1, totalPrice: 100 },
+      { itemName: `ＳＫ－ＩＩ　神仙水　230ml ${suffix}`, unitPrice: 100, quantity: 2, totalPrice: 200 }
+    ]).expect(200);
+
+    const items = await connectionPool.query(
+      'SELECT item_name, product_id FROM receipt_items WHERE receipt_id = ?',
+      [saved.body.receiptId]
+    );
+    expect(items).toEqual([
+      { item_name: productName, product_id: productId },
+      { item_name: productName, product_id: productId }
+    ]);
+
+    const inventory = await connectionPool.query('SELECT item_name, current_stock FROM inventory WHERE product_id = ?', [productId]);
+    expect(inventory).toEqual([{ item_name: productName, current_stock: 3 }]);
+
+    const list = await request(app)
+      .get('/api/inventory/list')
+      .query({ search: barcode })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(list.body.items).toEqual([expect.objectContaining({ product_id: productId, brand: 'SK-II', spec: '230ml' })]);
+  });
+
+  it('should learn an alias when a line is linked to a product explicitly', async () => {
+    const ocrTypo = `SK-ll 神伽水 ${suffix}`;
+    await saveReceipt([{ itemName: ocrTypo, productId, unitPrice: 100, quantity: 1, totalPrice: 100 }]).expect(200);
+
+    expect(await productService.findByName(ocrTypo)).toEqual({ productId, name: productName });
+
+    const detail = await request(app)
+      .get(`/api/products/${productId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(detail.body.aliases.map((a: any) => a.source)).toEqual(['manual', 'manual', 'confirmed']);
+    expect(detail.body.inventory.current_stock).toBe(4);
+
+    await saveReceipt([{ itemName: ocrTypo, productId: 99999999, unitPrice: 1, quantity: 1, totalPrice: 1 }]).expect(404);
+  });
+
+  it('should rename products everywhere and keep the old name as an alias', async () => {
+    const renamed = `SK-II フェイシャルトリートメントエッセンス 230ml ${suffix}`;
+    await request(app)
+      .put(`/api/products/${productId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: renamed })
+      .expect(200);
+
+    const [inventory] = await connectionPool.query('SELECT item_name FROM inventory WHERE product_id = ?', [productId]);
+    expect(inventory.item_name).toBe(renamed);
+    const [{ count }] = await connectionPool.query(
+      'SELECT COUNT(*) as count FROM receipt_items WHERE product_id = ? AND item_name != ?',
+      [productId, renamed]
+    );
+    expect(count).toBe(0);
+    expect(await productService.findByName(productName)).toEqual({ productId, name: renamed });
+
+    await request(app)
+      .delete(`/api/products/${productId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(409);
+  });
+
+  it('should link legacy inventory rows to new products', async () => {
+    const legacyName = `旧库存商品_${suffix}`;
+    await connectionPool.run('INSERT INTO inventory (item_name, current_stock, unit_price) VALUES (?, 5, 10)', [legacyName]);
+
+    expect(await productService.backfillProducts()).toBeGreaterThanOrEqual(1);
+
+    const [inventory] = await connectionPool.query('SELECT product_id FROM inventory WHERE item_name = ?', [legacyName]);
+    expect(await productService.findByName(legacyName)).toEqual({ productId: inventory.product_id, name: legacyName });
+  });
+});
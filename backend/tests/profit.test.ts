@@ -0,0 +1,121 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import orderRoutes from '../src/routes/orders';
+import customerRoutes from '../src/routes/customers';
+import salesRoutes from '../src/routes/sales';
+import landedCostRoutes from '../src/routes/landedCosts';
+import analyticsRoutes from '../src/routes/analytics';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/customers', customerRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/landed-costs', landedCostRoutes);
+app.use('/api/analytics', analyticsRoutes);
+
+describe('Profit analytics API', () => {
+  let authToken: string;
+  let customerId: number;
+  const itemName = `毛利测试商品_${Date.now()}`;
+
+  const getProfit = (query: Record<string, any>) => request(app)
+    .get('/api/analytics/profit')
+    .query(query)
+    .set('Authorization', `Bearer ${authToken}`);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `profituser_${Date.now()}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'profitpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'profitpass123' });
+
+    authToken = loginResponse.body.token;
+
+    const receipt = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ itemName, unitPrice: 60, quantity: 5, totalPrice: 300 }], totalAmount: 300 });
+
+    const [receiptItem] = await connectionPool.query(
+      'SELECT id FROM receipt_items WHERE receipt_id = ?',
+      [receipt.body.receiptId]
+    );
+
+    const customer = await request(app)
+      .post('/api/customers/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: '毛利测试客户' });
+    customerId = customer.body.id;
+
+    // 订单项目关联的采购项目分摊了运费，成本以该采购项目为准
+    await request(app)
+      .post('/api/landed-costs/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ receiptId: receipt.body.receiptId, costType: 'shipping', amount: 50 });
+
+    const order = await request(app)
+      .post('/api/orders/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ customerId, items: [{ itemName, quantity: 2, unitPrice: 100, receiptItemId: receiptItem.id }] });
+
+    await request(app)
+      .post(`/api/orders/${order.body.orderId}/deliver`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    // 未关联采购项目的零售按出库时的库存到岸成本计算
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ itemName, quantity: 1, unitPrice: 90 }] })
+      .expect(201);
+  });
+
+  it('should compute gross profit, margin and markup per item', async () => {
+    const response = await getProfit({ groupBy: 'item', limit: 1000 }).expect(200);
+    const group = response.body.groups.find((g: any) => g.key === itemName);
+
+    // 收入 2*100 + 90 = 290，成本 3*(60 + 50/5) = 210
+    expect(group).toMatchObject({
+      totalQuantity: 3,
+      revenue: 290,
+      cost: 210,
+      grossProfit: 80,
+      marginPercent: 27.59,
+      markupPercent: 38.1
+    });
+  });
+
+  it('should group by customer', async () => {
+    const response = await getProfit({ groupBy: 'customer', customerId }).expect(200);
+
+    expect(response.body.groups).toHaveLength(1);
+    expect(response.body.groups[0]).toMatchObject({ label: '毛利测试客户', revenue: 200, cost: 140, grossProfit: 60 });
+    expect(response.body.summary).toMatchObject({ revenue: 200, cost: 140, marginPercent: 30 });
+  });
+
+  it('should group by period', async () => {
+    const response = await getProfit({ groupBy: 'period', period: 'day' }).expect(200);
+    const today = new Date().toISOString().split('T')[0];
+
+    expect(response.body.groups.map((g: any) => g.key)).toContain(today);
+  });
+
+  it('should reject unknown groupings', async () => {
+    await getProfit({ groupBy: 'colour' }).expect(400);
+  });
+});
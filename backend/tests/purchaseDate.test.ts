@@ -0,0 +1,138 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import analyticsRoutes from '../src/routes/analytics';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/analytics', analyticsRoutes);
+
+describe('Receipt purchase date', () => {
+  let authToken: string;
+  let backdatedReceiptId: number;
+  let undatedReceiptId: number;
+  const suffix = Date.now();
+  // 每次运行使用不同的早年年份，避免与其他测试或上次运行写入的收据混在一起
+  const year = String(1901 + Math.floor(suffix / 1000) % 98);
+
+  const saveReceipt = (body: Record<string, any>) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ items: [{ itemName: `购买日期商品_${suffix}`, unitPrice: 10, quantity: 1, totalPrice: 10 }], totalAmount: 10, ...body });
+
+  const getReceipt = async (receiptId: number) => {
+    const [row] = await connectionPool.query('SELECT * FROM receipts WHERE id = ?', [receiptId]);
+    return row;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `purchasedate_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'purchasepass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'purchasepass123' });
+
+    authToken = loginResponse.body.token;
+
+    const backdated = await saveReceipt({ merchant: { name: `购买日期门店_${suffix}`, purchasedAt: `${year}/03/15 14:20` } }).expect(200);
+    backdatedReceiptId = backdated.body.receiptId;
+
+    const undated = await saveReceipt({}).expect(200);
+    undatedReceiptId = undated.body.receiptId;
+  });
+
+  afterAll(async () => {
+    for (const receiptId of [backdatedReceiptId, undatedReceiptId]) {
+      await request(app)
+        .delete(`/api/receipts/${receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+    }
+  });
+
+  it('should store the OCR purchase time and default to the upload time', async () => {
+    expect((await getReceipt(backdatedReceiptId)).purchased_at).toBe(`${year}-03-15 14:20:00`);
+
+    const undated = await getReceipt(undatedReceiptId);
+    expect(undated.purchased_at).toBe(undated.created_at);
+
+    await saveReceipt({ purchasedAt: 'yesterday' }).expect(400);
+  });
+
+  it('should let users correct the purchase time', async () => {
+    const receipt = await getReceipt(backdatedReceiptId);
+    await request(app)
+      .put(`/api/receipts/${backdatedReceiptId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({
+        items: [{ itemName: `购买日期商品_${suffix}`, unitPrice: 10, quantity: 1, totalPrice: 10 }],
+        totalAmount: 10,
+        purchasedAt: `${year}-04-02`
+      })
+      .expect(200);
+
+    const updated = await getReceipt(backdatedReceiptId);
+    expect(updated.purchased_at).toBe(`${year}-04-02 00:00:00`);
+    expect(updated.created_at).toBe(receipt.created_at);
+  });
+
+  it('should group trends by purchase date unless upload date is requested', async () => {
+    const byPurchase = await request(app)
+      .get('/api/analytics/trends')
+      .query({ period: 'month', startDate: `${year}-01-01`, endDate: `${year}-12-31` })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(byPurchase.body.dateField).toBe('purchased_at');
+    expect(byPurchase.body.amountTrends).toEqual([
+      expect.objectContaining({ period: `${year}-04`, receiptCount: 1 })
+    ]);
+
+    const byUpload = await request(app)
+      .get('/api/analytics/trends')
+      .query({ period: 'month', startDate: `${year}-01-01`, endDate: `${year}-12-31`, dateField: 'created_at' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(byUpload.body.amountTrends).toEqual([]);
+
+    const seasonal = await request(app)
+      .get('/api/analytics/seasonal-patterns')
+      .query({ year })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(seasonal.body.monthly).toEqual([expect.objectContaining({ month: 4, receiptCount: 1 })]);
+
+    await request(app)
+      .get('/api/analytics/trends')
+      .query({ dateField: 'shipped_at' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+
+  it('should support the date field in receipt stats', async () => {
+    const response = await request(app)
+      .get('/api/receipts/stats')
+      .query({ startDate: `${year}-01-01`, endDate: `${year}-12-31` })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.summary.total_receipts).toBe(1);
+    expect(response.body.daily_stats[0].date).toBe(`${year}-04-02`);
+
+    await request(app)
+      .get('/api/receipts/stats')
+      .query({ dateField: 'shipped_at' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+});
@@ -0,0 +1,129 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { calculateReceiptTotals, normalizeAdjustments } from '../src/utils/receiptTotals';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+
+describe('Receipt totals reconciliation', () => {
+  const items = [
+    { totalPrice: 1000 },
+    { totalPrice: 500 }
+  ];
+
+  it('should add exclusive tax and subtract discounts and coupons', () => {
+    const adjustments = normalizeAdjustments([
+      { type: 'discount', description: '会員10%OFF', amount: -150 },
+      { type: 'coupon', description: 'クーポン', amount: 100 },
+      { type: 'tax', description: '消費税10%', amount: 125 }
+    ]);
+
+    expect(calculateReceiptTotals(items, adjustments, 'exclusive', 1375)).toEqual({
+      subtotal: 1500,
+      discountTotal: 250,
+      taxTotal: 125,
+      grandTotal: 1375,
+      printedTotal: 1375,
+      difference: 0,
+      reconciled: true
+    });
+  });
+
+  it('should not add inclusive tax and ignore tax on tax-free receipts', () => {
+    const adjustments = normalizeAdjustments([{ type: 'tax', description: '内消費税', amount: 136 }]);
+
+    expect(calculateReceiptTotals(items, adjustments, 'inclusive', 1500)).toMatchObject({ taxTotal: 136, grandTotal: 1500, reconciled: true });
+    expect(calculateReceiptTotals(items, adjustments, 'exempt', 1500)).toMatchObject({ taxTotal: 0, grandTotal: 1500, reconciled: true });
+  });
+
+  it('should flag totals that do not match the printed total', () => {
+    expect(calculateReceiptTotals(items, [], 'inclusive', 1350)).toMatchObject({ difference: -150, reconciled: false });
+    expect(() => normalizeAdjustments([{ type: 'service', amount: 10 }])).toThrow('无效的调整类型');
+  });
+
+  describe('receipt API', () => {
+    let authToken: string;
+    const itemName = `税额测试商品_${Date.now()}`;
+
+    beforeAll(async () => {
+      await initDatabase();
+
+      const username = `totalsuser_${Date.now()}`;
+      await request(app)
+        .post('/api/auth/register')
+        .send({ username, password: 'totalspass123', role: 'admin' });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ username, password: 'totalspass123' });
+
+      authToken = loginResponse.body.token;
+    });
+
+    it('should store subtotal, discount, tax and grand total with the adjustment lines', async () => {
+      const saved = await request(app)
+        .post('/api/receipts/save')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          items: [{ itemName, unitPrice: 500, quantity: 2, totalPrice: 1000 }],
+          adjustments: [
+            { type: 'discount', description: '会員割引', amount: 100 },
+            { type: 'tax', description: '消費税', amount: 90 }
+          ],
+          taxMode: 'exclusive',
+          totalAmount: 990
+        })
+        .expect(200);
+
+      expect(saved.body.totals).toMatchObject({ grandTotal: 990, reconciled: true });
+
+      const detail = await request(app)
+        .get(`/api/receipts/${saved.body.receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(detail.body).toMatchObject({
+        subtotal: 1000,
+        discount_amount: 100,
+        tax_amount: 90,
+        grand_total: 990,
+        total_amount: 990,
+        tax_mode: 'exclusive'
+      });
+      expect(detail.body.adjustments.map((a: any) => a.adjustment_type)).toEqual(['discount', 'tax']);
+
+      // 修改商品行时沿用原有折扣和税额重新核对
+      const updated = await request(app)
+        .put(`/api/receipts/${saved.body.receiptId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ itemName, unitPrice: 500, quantity: 3, totalPrice: 1500 }], totalAmount: 990 })
+        .expect(200);
+
+      expect(updated.body.totals).toMatchObject({ grandTotal: 1490, difference: -500, reconciled: false });
+
+      const [{ count }] = await connectionPool.query(
+        'SELECT COUNT(*) as count FROM receipt_adjustments WHERE receipt_id = ?',
+        [saved.body.receiptId]
+      );
+      expect(count).toBe(2);
+    });
+
+    it('should reject invalid adjustment lines and tax modes', async () => {
+      const send = (body: Record<string, any>) => request(app)
+        .post('/api/receipts/save')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ itemName, unitPrice: 10, quantity: 1, totalPrice: 10 }], ...body });
+
+      await send({ adjustments: [{ type: 'tip', amount: 5 }] }).expect(400);
+      await send({ adjustments: [{ type: 'tax', amount: 0 }] }).expect(400);
+      await send({ taxMode: 'vat' }).expect(400);
+    });
+  });
+});
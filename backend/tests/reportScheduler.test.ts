@@ -0,0 +1,166 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import authRoutes from '../src/routes/auth';
+import reportRoutes from '../src/routes/reports';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { getNextRunAt, ReportSchedulerService } from '../src/services/reportSchedulerService';
+import { ReportService } from '../src/services/reportService';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/reports', reportRoutes);
+
+describe('Scheduled report runs', () => {
+  let authToken: string;
+  let lastRunIdBefore: number;
+  const suffix = Date.now();
+  const exportPath = path.join(os.tmpdir(), `report_exports_${suffix}`);
+  const scheduler = ReportSchedulerService.getInstance();
+
+  const mockReportConfig = (overrides: Record<string, any>) => {
+    const config = inventoryConfig.getInventoryReportConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryReportConfig').mockReturnValue({ ...config, exportPath, ...overrides });
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `scheduler_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'schedulerpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'schedulerpass123' });
+
+    authToken = loginResponse.body.token;
+
+    // 只检查和清理本次运行产生的记录
+    const [{ lastRunId }] = await connectionPool.query('SELECT COALESCE(MAX(id), 0) as lastRunId FROM report_runs');
+    lastRunIdBefore = lastRunId;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await connectionPool.run('DELETE FROM report_runs WHERE id > ?', [lastRunIdBefore]);
+    fs.rmSync(exportPath, { recursive: true, force: true });
+  });
+
+  it('should compute the next run at UTC midnight for each schedule', () => {
+    const wednesday = new Date(Date.UTC(2024, 0, 31, 10, 30));
+    expect(getNextRunAt('daily', wednesday)!.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(getNextRunAt('weekly', wednesday)!.toISOString()).toBe('2024-02-05T00:00:00.000Z');
+    expect(getNextRunAt('weekly', new Date(Date.UTC(2024, 1, 5)))!.toISOString()).toBe('2024-02-12T00:00:00.000Z');
+    expect(getNextRunAt('monthly', wednesday)!.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(getNextRunAt('manual', wednesday)).toBeNull();
+  });
+
+  it('should run due jobs into exportPath only when autoExport is on and advance the schedule', async () => {
+    mockReportConfig({ autoExport: false, defaultFormat: 'pdf' });
+    await scheduler.syncJobs();
+    await connectionPool.run(
+      "UPDATE report_jobs SET next_run_at = '2000-01-01 00:00:00' WHERE report_id IN ('low-stock', 'movement-analysis')"
+    );
+    expect(await scheduler.runDueJobs()).toEqual([]);
+
+    mockReportConfig({ autoExport: true, defaultFormat: 'pdf' });
+    const runs = await scheduler.runDueJobs();
+
+    // movement-analysis 在默认配置中未启用，到期后只推进时间不运行
+    expect(runs).toEqual([expect.objectContaining({ report_id: 'low-stock', trigger_type: 'schedule', status: 'success', format: 'pdf' })]);
+    expect(path.dirname(runs[0].file_path!)).toBe(exportPath);
+    expect(fs.readFileSync(runs[0].file_path!).subarray(0, 5).toString()).toBe('%PDF-');
+
+    const jobs = await connectionPool.query("SELECT * FROM report_jobs WHERE report_id IN ('low-stock', 'movement-analysis')");
+    for (const job of jobs) {
+      expect(new Date(`${job.next_run_at}Z`).getTime()).toBeGreaterThan(Date.now());
+    }
+    expect(await scheduler.runDueJobs()).toEqual([]);
+  });
+
+  it('should record failures and allow admins to list, re-run and download runs', async () => {
+    mockReportConfig({ defaultFormat: 'excel' });
+    jest.spyOn(ReportService.getInstance(), 'build').mockRejectedValueOnce(new Error('数据库繁忙'));
+
+    const failed = await request(app)
+      .post('/api/reports/runs')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ reportId: 'stock-value' })
+      .expect(500);
+    expect(failed.body.run).toMatchObject({ report_id: 'stock-value', trigger_type: 'manual', status: 'failed', error: '数据库繁忙' });
+
+    const jobs = await request(app)
+      .get('/api/reports/runs/jobs')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(jobs.body.jobs.find((job: any) => job.report_id === 'stock-value'))
+      .toMatchObject({ schedule: 'weekly', last_status: 'failed', last_error: '数据库繁忙', consecutive_failures: 1 });
+
+    const rerun = await request(app)
+      .post(`/api/reports/runs/${failed.body.run.id}/rerun`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(201);
+    expect(rerun.body.run).toMatchObject({ report_id: 'stock-value', status: 'success', format: 'excel' });
+    expect(rerun.body.run.file_path).toMatch(/\.xlsx$/);
+
+    const history = await request(app)
+      .get('/api/reports/runs')
+      .query({ reportId: 'stock-value' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(history.body.runs.filter((run: any) => run.id > lastRunIdBefore).map((run: any) => run.status)).toEqual(['success', 'failed']);
+
+    const [job] = await connectionPool.query("SELECT consecutive_failures FROM report_jobs WHERE report_id = 'stock-value'");
+    expect(job.consecutive_failures).toBe(0);
+
+    await request(app)
+      .get(`/api/reports/runs/${rerun.body.run.id}/download`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    await request(app)
+      .get(`/api/reports/runs/${failed.body.run.id}/download`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(404);
+    await request(app)
+      .post('/api/reports/runs')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ reportId: 'unknown-report' })
+      .expect(404);
+  });
+
+  it('should reject a concurrent run of the same report', async () => {
+    mockReportConfig({ defaultFormat: 'pdf' });
+
+    const [first, second] = await Promise.allSettled([
+      scheduler.runReport('low-stock', 'manual'),
+      scheduler.runReport('low-stock', 'manual')
+    ]);
+    expect(first).toMatchObject({ status: 'fulfilled', value: { status: 'success' } });
+    expect(second).toMatchObject({ status: 'rejected', reason: { statusCode: 409 } });
+
+    // 写入运行记录失败时不能一直处于运行中
+    jest.spyOn(connectionPool, 'run').mockRejectedValueOnce(new Error('磁盘已满'));
+    await expect(scheduler.runReport('low-stock', 'manual')).rejects.toThrow('磁盘已满');
+    expect((await scheduler.listJobs()).find(job => job.report_id === 'low-stock')!.running).toBe(false);
+  });
+
+  it('should mark runs interrupted by a restart as failed', async () => {
+    const { lastID } = await connectionPool.run(
+      "INSERT INTO report_runs (report_id, trigger_type, status, format) VALUES ('low-stock', 'schedule', 'running', 'pdf')"
+    );
+
+    expect(await scheduler.recoverInterruptedRuns()).toBe(1);
+    expect(await scheduler.getRun(lastID)).toMatchObject({ status: 'failed', error: '服务重启，运行中断' });
+  });
+});
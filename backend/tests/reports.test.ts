@@ -0,0 +1,111 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import categoryRoutes from '../src/routes/categories';
+import reportRoutes from '../src/routes/reports';
+import { initDatabase } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/reports', reportRoutes);
+
+// 以 Buffer 形式接收 PDF 响应
+const binaryParser = (res: any, callback: (err: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Inventory reports', () => {
+  let authToken: string;
+  let categoryId: number;
+  const suffix = Date.now();
+
+  const get = (url: string, query: Record<string, any> = {}) => request(app)
+    .get(url)
+    .query(query)
+    .set('Authorization', `Bearer ${authToken}`);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `reports_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'reportspass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'reportspass123' });
+
+    authToken = loginResponse.body.token;
+
+    categoryId = (await request(app)
+      .post('/api/categories/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `报表分类_${suffix}` })).body.id;
+
+    for (const item of [
+      { item_name: `报表缺货商品_${suffix}`, current_stock: 0, unit_price: 20 },
+      { item_name: `报表低库存商品_${suffix}`, current_stock: 3, unit_price: 10, category_ids: [categoryId] },
+      { item_name: `报表充足商品_${suffix}`, current_stock: 50, unit_price: 2, category_ids: [categoryId] }
+    ]) {
+      await request(app)
+        .post('/api/inventory/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(item)
+        .expect(201);
+    }
+  });
+
+  it('should list configured reports and build report data as JSON', async () => {
+    const list = await get('/api/reports').expect(200);
+    expect(list.body.reports.map((report: any) => report.id)).toEqual(['low-stock', 'stock-value', 'movement-analysis']);
+
+    const lowStock = await get('/api/reports/low-stock', { format: 'json', threshold: 5, includeOutOfStock: 'false' }).expect(200);
+    expect(lowStock.body).toMatchObject({ id: 'low-stock', title: '低库存报表', filters: { threshold: 5, includeOutOfStock: false } });
+    const names = lowStock.body.tables[0].rows.map((row: any) => row.item_name);
+    expect(names).toContain(`报表低库存商品_${suffix}`);
+    expect(names).not.toContain(`报表缺货商品_${suffix}`);
+    expect(lowStock.body.tables[0].rows.find((row: any) => row.item_name === `报表低库存商品_${suffix}`))
+      .toMatchObject({ effective_threshold: 5, shortage: 2, restock_cost: 20 });
+
+    const stockValue = await get('/api/reports/stock-value', { format: 'json' }).expect(200);
+    const [categories, items] = stockValue.body.tables;
+    expect(categories.rows).toEqual(expect.arrayContaining([
+      expect.objectContaining({ category: `报表分类_${suffix}`, item_count: 2, total_stock: 53, stock_value: 130 })
+    ]));
+    // 默认不包含价值为0的商品
+    expect(items.rows.map((row: any) => row.item_name)).not.toContain(`报表缺货商品_${suffix}`);
+    expect(stockValue.body.charts[0].labels).toContain(`报表分类_${suffix}`);
+
+    const movement = await get('/api/reports/movement-analysis', { format: 'json', period: 7 }).expect(200);
+    expect(movement.body.summary[0]).toEqual({ label: '统计天数', value: 7, format: 'number' });
+    expect(movement.body.tables[1].rows).toEqual(expect.arrayContaining([
+      expect.objectContaining({ item_name: `报表充足商品_${suffix}`, inbound_quantity: 50 })
+    ]));
+  });
+
+  it('should render every report as a PDF', async () => {
+    for (const id of ['low-stock', 'stock-value', 'movement-analysis']) {
+      const response = await get(`/api/reports/${id}`).buffer(true).parse(binaryParser).expect(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toContain(`${id}_`);
+      expect(response.body.subarray(0, 5).toString()).toBe('%PDF-');
+    }
+  });
+
+  it('should reject unknown reports, formats and filters', async () => {
+    await get('/api/reports/unknown-report').expect(404);
+    await get('/api/reports/low-stock', { format: 'docx' }).expect(400);
+
+    const invalid = await get('/api/reports/movement-analysis', { format: 'json', period: 'abc' }).expect(400);
+    expect(invalid.body.error).toBe('无效的报表参数: period');
+  });
+});
@@ -0,0 +1,130 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import reviewQueueRoutes from '../src/routes/reviewQueue';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/review-queue', reviewQueueRoutes);
+
+describe('Receipt review queue', () => {
+  let authToken: string;
+  const suffix = Date.now();
+
+  const saveReceipt = (itemName: string, body: Record<string, any>) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ items: [{ itemName, unitPrice: 100, quantity: 2, totalPrice: 200 }], totalAmount: 200, ...body });
+
+  const getStock = async (itemName: string) => {
+    const [row] = await connectionPool.query('SELECT current_stock FROM inventory WHERE item_name = ?', [itemName]);
+    return row ? row.current_stock : 0;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `reviewer_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'reviewpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'reviewpass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should stock reconciled receipts immediately', async () => {
+    const itemName = `审核通过商品_${suffix}`;
+    const response = await saveReceipt(itemName, { confidence: 0.95 }).expect(200);
+
+    expect(response.body.status).toBe('approved');
+    expect(response.body.reviewIssues).toEqual([]);
+    expect(await getStock(itemName)).toBe(2);
+  });
+
+  it('should queue low-confidence, line-math and total-mismatch receipts without touching stock', async () => {
+    const lowConfidence = await saveReceipt(`低置信度商品_${suffix}`, { confidence: 0.4 }).expect(200);
+    expect(lowConfidence.body.status).toBe('pending_review');
+    expect(lowConfidence.body.reviewIssues.map((i: any) => i.type)).toEqual(['low_confidence']);
+
+    const lineMath = await request(app)
+      .post('/api/receipts/save')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ itemName: `行金额商品_${suffix}`, unitPrice: 100, quantity: 2, totalPrice: 150 }], totalAmount: 150 })
+      .expect(200);
+    expect(lineMath.body.reviewIssues.map((i: any) => i.type)).toEqual(['line_math']);
+
+    const mismatch = await saveReceipt(`总额不符商品_${suffix}`, { totalAmount: 180 }).expect(200);
+    expect(mismatch.body.reviewIssues).toEqual([
+      expect.objectContaining({ type: 'total_mismatch', expected: 200, actual: 180 })
+    ]);
+
+    expect(await getStock(`低置信度商品_${suffix}`)).toBe(0);
+    expect(await getStock(`行金额商品_${suffix}`)).toBe(0);
+    expect(await getStock(`总额不符商品_${suffix}`)).toBe(0);
+
+    const queue = await request(app)
+      .get('/api/review-queue/list')
+      .query({ limit: 100 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const queued = queue.body.receipts.find((r: any) => r.id === lowConfidence.body.receiptId);
+    expect(queued).toMatchObject({ status: 'pending_review', ocr_confidence: 0.4, item_count: 1 });
+    expect(queued.review_reasons[0].type).toBe('low_confidence');
+  });
+
+  it('should stock receipts on approval and leave stock unchanged on rejection', async () => {
+    const approvedItem = `待审核通过商品_${suffix}`;
+    const rejectedItem = `待审核驳回商品_${suffix}`;
+    const toApprove = await saveReceipt(approvedItem, { confidence: 0.3 }).expect(200);
+    const toReject = await saveReceipt(rejectedItem, { confidence: 0.3 }).expect(200);
+
+    await request(app)
+      .post(`/api/review-queue/${toApprove.body.receiptId}/approve`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ notes: '已核对原始收据' })
+      .expect(200);
+    expect(await getStock(approvedItem)).toBe(2);
+
+    // 重复审核不应再次入库
+    const again = await request(app)
+      .post(`/api/review-queue/${toApprove.body.receiptId}/approve`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(409);
+    expect(again.body.status).toBe('approved');
+    expect(await getStock(approvedItem)).toBe(2);
+
+    await request(app)
+      .post(`/api/review-queue/${toReject.body.receiptId}/reject`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({})
+      .expect(400);
+
+    await request(app)
+      .post(`/api/review-queue/${toReject.body.receiptId}/reject`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ notes: '收据模糊无法核对' })
+      .expect(200);
+    expect(await getStock(rejectedItem)).toBe(0);
+
+    const [rejected] = await connectionPool.query('SELECT status, review_notes FROM receipts WHERE id = ?', [toReject.body.receiptId]);
+    expect(rejected).toEqual({ status: 'rejected', review_notes: '收据模糊无法核对' });
+
+    // 删除未入库的收据不应扣减库存
+    await request(app)
+      .delete(`/api/receipts/${toReject.body.receiptId}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(await getStock(rejectedItem)).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import salesRoutes from '../src/routes/sales';
+import orderRoutes from '../src/routes/orders';
+import customerRoutes from '../src/routes/customers';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/customers', customerRoutes);
+
+describe('Sales API', () => {
+  let authToken: string;
+  let inventoryId: number;
+  const itemName = `出库测试商品_${Date.now()}`;
+
+  const getStock = async (id: number) => {
+    const [row] = await connectionPool.query('SELECT current_stock FROM inventory WHERE id = ?', [id]);
+    return row.current_stock;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `salesuser_${Date.now()}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'salespass123', role: 'user' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'salespass123' });
+
+    authToken = loginResponse.body.token;
+
+    const inventory = await connectionPool.run(
+      'INSERT INTO inventory (item_name, current_stock, unit_price) VALUES (?, ?, ?)',
+      [itemName, 10, 50]
+    );
+    inventoryId = inventory.lastID;
+  });
+
+  describe('POST /api/sales/create', () => {
+    it('should deduct stock and record the sale price', async () => {
+      const response = await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ inventoryId, quantity: 3, unitPrice: 80 }] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.totalAmount).toBe(240);
+      expect(response.body.items[0].remainingStock).toBe(7);
+      expect(await getStock(inventoryId)).toBe(7);
+
+      const detail = await request(app)
+        .get(`/api/sales/${response.body.saleId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(detail.body.items[0].unit_price).toBe(80);
+      expect(detail.body.items[0].unit_cost).toBe(50);
+    });
+
+    it('should reject overselling without touching stock', async () => {
+      const response = await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          items: [
+            { itemName, quantity: 5, unitPrice: 80 },
+            { itemName, quantity: 5, unitPrice: 80 }
+          ]
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.shortages[0]).toMatchObject({ inventoryId, requested: 10, available: 7 });
+      expect(await getStock(inventoryId)).toBe(7);
+    });
+
+    it('should reject unknown inventory items', async () => {
+      const response = await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ itemName: '不存在的商品', quantity: 1, unitPrice: 10 }] });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject invalid quantities', async () => {
+      const response = await request(app)
+        .post('/api/sales/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ items: [{ inventoryId, quantity: 0, unitPrice: 10 }] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/orders/:id/deliver', () => {
+    let customerId: number;
+
+    beforeAll(async () => {
+      const response = await request(app)
+        .post('/api/customers/add')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: '出库测试客户' });
+      customerId = response.body.id;
+    });
+
+    it('should deliver an order and deduct stock', async () => {
+      const created = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ customerId, items: [{ itemName, quantity: 2, unitPrice: 90 }] });
+
+      const response = await request(app)
+        .post(`/api/orders/${created.body.orderId}/deliver`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.totalAmount).toBe(180);
+      expect(await getStock(inventoryId)).toBe(5);
+
+      const order = await request(app)
+        .get(`/api/orders/${created.body.orderId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(order.body.status).toBe('delivered');
+
+      // 重复交付会被拒绝
+      await request(app)
+        .post(`/api/orders/${created.body.orderId}/deliver`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    });
+
+    it('should keep the order pending when stock is insufficient', async () => {
+      const created = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ customerId, items: [{ itemName, quantity: 50, unitPrice: 90 }] });
+
+      await request(app)
+        .post(`/api/orders/${created.body.orderId}/deliver`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(409);
+
+      const order = await request(app)
+        .get(`/api/orders/${created.body.orderId}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(order.body.status).toBe('pending');
+      expect(await getStock(inventoryId)).toBe(5);
+    });
+
+    it('should not allow marking an order delivered directly', async () => {
+      const created = await request(app)
+        .post('/api/orders/create')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ customerId, items: [{ itemName, quantity: 1, unitPrice: 90 }] });
+
+      await request(app)
+        .put(`/api/orders/${created.body.orderId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: 'delivered' })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import salesRoutes from '../src/routes/sales';
+import storeRoutes from '../src/routes/stores';
+import shoppingListRoutes from '../src/routes/shoppingLists';
+import { initDatabase, connectionPool } from '../src/database/init';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/stores', storeRoutes);
+app.use('/api/shopping-lists', shoppingListRoutes);
+
+describe('Auto-restock shopping lists', () => {
+  let authToken: string;
+  let storeA: number;
+  let storeB: number;
+  const suffix = Date.now();
+  const sold = `补货消耗商品_${suffix}`;
+  const purchasedOnly = `补货采购商品_${suffix}`;
+  const noHistory = `补货新商品_${suffix}`;
+  const disabledItem = `补货关闭商品_${suffix}`;
+
+  const mockRestockConfig = (enabled: boolean) => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({
+      ...config,
+      autoRestock: {
+        ...config.autoRestock,
+        enabled,
+        defaultRestockQuantity: 50,
+        restockTriggerThreshold: 5,
+        consumptionLookbackDays: 20,
+        coverageDays: 30
+      }
+    });
+  };
+
+  const saveReceipt = (storeId: number, itemName: string, quantity: number, unitPrice: number) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({
+      items: [{ itemName, unitPrice, quantity, totalPrice: unitPrice * quantity }],
+      totalAmount: unitPrice * quantity,
+      storeId
+    })
+    .expect(200);
+
+  const getInventoryId = async (itemName: string) => {
+    const [row] = await connectionPool.query('SELECT id FROM inventory WHERE item_name = ?', [itemName]);
+    return row.id;
+  };
+
+  const getShoppingLists = async (query: Record<string, any> = {}) => {
+    const response = await request(app)
+      .get('/api/shopping-lists')
+      .query(query)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    return response.body;
+  };
+
+  const findEntry = (lists: any, itemName: string) => {
+    for (const store of lists.stores) {
+      const item = store.items.find((i: any) => i.item_name === itemName);
+      if (item) {
+        return { store, item };
+      }
+    }
+    return undefined;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `buyer_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'buyerpass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'buyerpass123' });
+
+    authToken = loginResponse.body.token;
+
+    const addStore = (name: string) => request(app)
+      .post('/api/stores/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name, country: 'JP' });
+    storeA = (await addStore(`补货门店A_${suffix}`)).body.id;
+    storeB = (await addStore(`补货门店B_${suffix}`)).body.id;
+
+    await saveReceipt(storeA, sold, 10, 100);
+    await saveReceipt(storeA, sold, 6, 120);
+    await saveReceipt(storeB, sold, 4, 90);
+    await saveReceipt(storeB, purchasedOnly, 3, 500);
+    await saveReceipt(storeB, disabledItem, 6, 80);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should draft an entry sized by consumption when a sale crosses the restock trigger', async () => {
+    mockRestockConfig(true);
+    const inventoryId = await getInventoryId(sold);
+
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ inventoryId, quantity: 16, unitPrice: 200 }] })
+      .expect(201);
+
+    const entry = findEntry(await getShoppingLists(), sold);
+    expect(entry).toBeDefined();
+    // 20 天消耗 16 件，日均 0.8 件：补足 30 天用量 24 件并回到触发阈值 5 以上，减去现有库存 4
+    expect(entry!.item).toMatchObject({
+      status: 'draft',
+      source: 'auto',
+      quantity: 25,
+      suggested_quantity: 25,
+      stock_at_creation: 4,
+      daily_consumption: 0.8,
+      quantity_basis: 'consumption',
+      last_unit_price: 120,
+      currency: 'CNY'
+    });
+    expect(entry!.store.storeId).toBe(storeA);
+  });
+
+  it('should not draft entries from sales while auto-restock is disabled', async () => {
+    mockRestockConfig(false);
+    const inventoryId = await getInventoryId(disabledItem);
+
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ inventoryId, quantity: 2, unitPrice: 160 }] })
+      .expect(201);
+
+    expect(findEntry(await getShoppingLists(), disabledItem)).toBeUndefined();
+  });
+
+  it('should generate drafts for items at or below the trigger grouped by store', async () => {
+    mockRestockConfig(false);
+    await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ item_name: noHistory, current_stock: 2, unit_price: 10 })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/shopping-lists/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const createdNames = response.body.items.map((item: any) => item.item_name);
+    expect(createdNames).toEqual(expect.arrayContaining([purchasedOnly, noHistory, disabledItem]));
+    expect(createdNames).not.toContain(sold);
+
+    const lists = await getShoppingLists();
+    const purchased = findEntry(lists, purchasedOnly)!;
+    expect(purchased.store).toMatchObject({ storeId: storeB, storeName: `补货门店B_${suffix}` });
+    expect(purchased.item).toMatchObject({ quantity: 3, quantity_basis: 'purchase_history', source: 'manual' });
+
+    const unknown = findEntry(lists, noHistory)!;
+    expect(unknown.store.storeId).toBeNull();
+    expect(unknown.item).toMatchObject({ quantity: 50, quantity_basis: 'default' });
+    expect(lists.stores[lists.stores.length - 1].storeId).toBeNull();
+
+    const storeOnly = await getShoppingLists({ storeId: storeA });
+    expect(storeOnly.stores.map((s: any) => s.storeId)).toEqual([storeA]);
+  });
+
+  it('should let buyers adjust drafts and mark them purchased', async () => {
+    const { item } = findEntry(await getShoppingLists(), sold)!;
+
+    await request(app)
+      .put(`/api/shopping-lists/items/${item.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ quantity: 0 })
+      .expect(400);
+
+    const updated = await request(app)
+      .put(`/api/shopping-lists/items/${item.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ quantity: 30, storeId: storeB, status: 'purchased' })
+      .expect(200);
+    expect(updated.body).toMatchObject({ quantity: 30, suggested_quantity: 25, store_id: storeB, status: 'purchased' });
+
+    await request(app)
+      .put(`/api/shopping-lists/items/${item.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ quantity: 10 })
+      .expect(409);
+
+    const purchased = await getShoppingLists({ status: 'purchased' });
+    expect(findEntry(purchased, sold)).toBeDefined();
+
+    const inventoryId = await getInventoryId(sold);
+    const manual = await request(app)
+      .post('/api/shopping-lists/items')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ inventoryId, quantity: 12 })
+      .expect(201);
+    expect(manual.body).toMatchObject({ quantity: 12, source: 'manual', store_id: storeA });
+
+    await request(app)
+      .post('/api/shopping-lists/items')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ inventoryId })
+      .expect(409);
+
+    await request(app)
+      .post('/api/shopping-lists/items')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ inventoryId: 99999999 })
+      .expect(404);
+  });
+});
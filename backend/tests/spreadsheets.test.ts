@@ -0,0 +1,167 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import ExcelJS from 'exceljs';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import analyticsRoutes from '../src/routes/analytics';
+import { initDatabase, connectionPool } from '../src/database/init';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/analytics', analyticsRoutes);
+
+// 以 Buffer 形式接收 XLSX 响应
+const binaryParser = (res: any, callback: (err: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+const loadWorkbook = async (buffer: Buffer) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  return workbook;
+};
+
+describe('Spreadsheet import and export', () => {
+  let authToken: string;
+  const suffix = Date.now();
+
+  const upload = (url: string, content: Buffer | string, filename: string) => request(app)
+    .post(url)
+    .set('Authorization', `Bearer ${authToken}`)
+    .attach('file', typeof content === 'string' ? Buffer.from(content) : content, filename);
+
+  const download = (url: string, query: Record<string, any> = {}) => request(app)
+    .get(url)
+    .query(query)
+    .set('Authorization', `Bearer ${authToken}`)
+    .buffer(true)
+    .parse(binaryParser);
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `sheets_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'sheetspass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'sheetspass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should reject an opening stock file with row errors and import nothing', async () => {
+    const csv = [
+      '商品名称,数量,单价,条码',
+      `期初商品A_${suffix},10,12.5,`,
+      `期初商品B_${suffix},abc,3,`,
+      `期初商品A_${suffix},1,1,`,
+      `期初商品C_${suffix},2,1,4901234567890`
+    ].join('\n');
+
+    const response = await upload('/api/inventory/import', csv, 'stock.csv').expect(400);
+    expect(response.body.imported).toBe(0);
+    expect(response.body.errors).toEqual([
+      expect.objectContaining({ row: 3, column: '数量', value: 'abc', message: '数量必须为数字' }),
+      expect.objectContaining({ row: 4, column: '商品名称', message: '与第 2 行商品重复' }),
+      expect.objectContaining({ row: 5, column: '条码', message: '条码校验位错误' })
+    ]);
+
+    const [{ count }] = await connectionPool.query(
+      'SELECT COUNT(*) as count FROM inventory WHERE item_name LIKE ?',
+      [`期初商品%_${suffix}`]
+    );
+    expect(count).toBe(0);
+
+    const report = await upload('/api/inventory/import?errorReport=xlsx', csv, 'stock.csv').buffer(true).parse(binaryParser).expect(400);
+    const sheet = (await loadWorkbook(report.body)).getWorksheet('错误报告')!;
+    expect(sheet.rowCount).toBe(4);
+    expect(sheet.getRow(2).getCell(1).value).toBe(3);
+  });
+
+  it('should import opening stock from CSV with a dry run first', async () => {
+    const csv = '\uFEFF商品名称,数量,单价,SKU\n' +
+      `期初商品A_${suffix},10,"1,200",SKU-A-${suffix}\n` +
+      `期初商品B_${suffix},0,30,\n`;
+
+    const dryRun = await upload('/api/inventory/import?dryRun=true', csv, 'stock.csv').expect(200);
+    expect(dryRun.body).toMatchObject({ total: 2, imported: 2, dryRun: true, errors: [] });
+    const [{ count }] = await connectionPool.query('SELECT COUNT(*) as count FROM inventory WHERE item_name = ?', [`期初商品A_${suffix}`]);
+    expect(count).toBe(0);
+
+    await upload('/api/inventory/import', csv, 'stock.csv').expect(200);
+
+    const [item] = await connectionPool.query(
+      `SELECT i.current_stock, i.unit_price, p.sku,
+         (SELECT source FROM inventory_movements m WHERE m.inventory_id = i.id) as movement_source
+       FROM inventory i JOIN products p ON i.product_id = p.id WHERE i.item_name = ?`,
+      [`期初商品A_${suffix}`]
+    );
+    expect(item).toEqual({ current_stock: 10, unit_price: 1200, sku: `SKU-A-${suffix}`, movement_source: 'initial' });
+
+    const again = await upload('/api/inventory/import', csv, 'stock.csv').expect(400);
+    expect(again.body.errors[0].message).toContain('库存中已存在该商品');
+  });
+
+  it('should import historical receipts from XLSX and stock them', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('收据');
+    sheet.addRow(['收据编号', '购买日期', '门店', '商品名称', '单价', '数量', '小计', '收据总额']);
+    sheet.addRow([`R-${suffix}-1`, new Date(Date.UTC(2024, 0, 15, 10, 30)), `导入门店_${suffix}`, `历史商品_${suffix}`, 50, 2, 100, 130]);
+    sheet.addRow([`R-${suffix}-1`, null, null, `期初商品B_${suffix}`, 30, 1, null, null]);
+    sheet.addRow([`R-${suffix}-2`, '2024/01/20', null, `历史商品_${suffix}`, 40, 1, 40, null]);
+    const file = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const response = await upload('/api/receipts/import', file, 'receipts.xlsx').expect(200);
+    expect(response.body).toMatchObject({ total: 2, imported: 2, errors: [] });
+
+    const receipts = await connectionPool.query(
+      `SELECT r.receipt_number, r.purchased_at, r.total_amount, r.status, s.name as store_name
+       FROM receipts r LEFT JOIN stores s ON r.store_id = s.id
+       WHERE r.receipt_number LIKE ? ORDER BY r.receipt_number`,
+      [`R-${suffix}-%`]
+    );
+    expect(receipts).toEqual([
+      { receipt_number: `R-${suffix}-1`, purchased_at: '2024-01-15 10:30:00', total_amount: 130, status: 'approved', store_name: `导入门店_${suffix}` },
+      { receipt_number: `R-${suffix}-2`, purchased_at: '2024-01-20 00:00:00', total_amount: 40, status: 'approved', store_name: null }
+    ]);
+
+    const [stock] = await connectionPool.query('SELECT current_stock FROM inventory WHERE item_name = ?', [`历史商品_${suffix}`]);
+    expect(stock.current_stock).toBe(3);
+
+    const duplicate = await upload('/api/receipts/import', file, 'receipts.xlsx').expect(400);
+    expect(duplicate.body.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ row: 2, column: '收据编号', message: expect.stringContaining('请勿重复导入') })
+    ]));
+  });
+
+  it('should export inventory, receipts and analytics summaries as XLSX with numeric cells', async () => {
+    const inventory = await download('/api/inventory/export/xlsx', { search: `_${suffix}` }).expect(200);
+    expect(inventory.headers['content-type']).toContain('spreadsheetml');
+    const inventoryBook = await loadWorkbook(inventory.body);
+    expect(inventoryBook.worksheets.map(sheet => sheet.name)).toEqual(['库存', '库存统计', '低库存']);
+    const stockSheet = inventoryBook.getWorksheet('库存')!;
+    expect(stockSheet.rowCount).toBe(4);
+    expect(typeof stockSheet.getRow(2).getCell(9).value).toBe('number');
+
+    const receipts = await download('/api/receipts/export/xlsx').expect(200);
+    const receiptBook = await loadWorkbook(receipts.body);
+    expect(receiptBook.worksheets.map(sheet => sheet.name)).toEqual(['收据', '收据明细', '折扣与税额']);
+    const imported = receiptBook.getWorksheet('收据')!.getColumn(2).values.indexOf(`R-${suffix}-1`);
+    expect(receiptBook.getWorksheet('收据')!.getRow(imported).getCell(12).value).toBe(130);
+
+    const summary = await download('/api/analytics/summary', { format: 'xlsx' }).expect(200);
+    const summaryBook = await loadWorkbook(summary.body);
+    expect(summaryBook.worksheets.map(sheet => sheet.name)).toEqual(['概览', '热门商品', '活跃用户', '近7天趋势']);
+  });
+});
@@ -0,0 +1,217 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import salesRoutes from '../src/routes/sales';
+import stocktakeRoutes from '../src/routes/stocktakes';
+import { initDatabase, connectionPool } from '../src/database/init';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/stocktakes', stocktakeRoutes);
+
+describe('Stocktake sessions', () => {
+  let adminToken: string;
+  let counterToken: string;
+  const suffix = Date.now();
+  const items: Record<string, number> = {};
+
+  const login = async (username: string, role: string) => {
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'countpass123', role });
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'countpass123' });
+    return response.body.token;
+  };
+
+  const addItem = async (key: string, stock: number, unitPrice: number) => {
+    const response = await request(app)
+      .post('/api/inventory/add')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ item_name: `盘点商品${key}_${suffix}`, current_stock: stock, unit_price: unitPrice })
+      .expect(201);
+    items[key] = response.body.id;
+  };
+
+  const recordCounts = (token: string, stocktakeId: number, counts: Array<[string, number]>) => request(app)
+    .post(`/api/stocktakes/${stocktakeId}/counts`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ items: counts.map(([key, quantity]) => ({ inventoryId: items[key], quantity })) });
+
+  const getStock = async (key: string) => {
+    const [row] = await connectionPool.query('SELECT current_stock FROM inventory WHERE id = ?', [items[key]]);
+    return row.current_stock;
+  };
+
+  const createStocktake = async (name: string) => {
+    const response = await request(app)
+      .post('/api/stocktakes')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name })
+      .expect(201);
+    expect(response.body.status).toBe('open');
+    return response.body.id as number;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    adminToken = await login(`stocktake_admin_${suffix}`, 'admin');
+    counterToken = await login(`stocktake_counter_${suffix}`, 'user');
+
+    await addItem('A', 10, 20);
+    await addItem('B', 5, 100);
+    await addItem('C', 8, 3);
+    await addItem('D', 4, 10);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should combine counts from several users, require reasons and post adjustments by difference', async () => {
+    await request(app)
+      .post('/api/stocktakes')
+      .set('Authorization', `Bearer ${counterToken}`)
+      .send({ name: '无权限' })
+      .expect(403);
+
+    const id = await createStocktake(`月末盘点_${suffix}`);
+
+    await recordCounts(adminToken, id, [['A', 6], ['B', 7]]).expect(200);
+    await recordCounts(counterToken, id, [['A', 3], ['C', 8]]).expect(200);
+    // 重新录入时覆盖本人上次的数量
+    const recount = await recordCounts(adminToken, id, [['A', 4]]).expect(200);
+
+    const lineA = recount.body.lines.find((line: any) => line.inventory_id === items.A);
+    expect(lineA).toMatchObject({ system_quantity: 10, counted_quantity: 7, variance: -3, variance_value: -60 });
+    expect(lineA.counts.map((count: any) => count.quantity).sort()).toEqual([3, 4]);
+
+    await recordCounts(counterToken, id, [['A', -1]]).expect(400);
+
+    // 盘点期间的销售不会被过账覆盖
+    await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ inventoryId: items.A, quantity: 2, unitPrice: 30 }] })
+      .expect(201);
+
+    const missing = await request(app)
+      .post(`/api/stocktakes/${id}/post`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+    expect(missing.body.lines.map((line: any) => line.itemName).sort()).toEqual([`盘点商品A_${suffix}`, `盘点商品B_${suffix}`]);
+
+    const lineB = recount.body.lines.find((line: any) => line.inventory_id === items.B);
+    await request(app)
+      .put(`/api/stocktakes/${id}/lines/${lineB.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reasonCode: 'unknown' })
+      .expect(400);
+    await request(app)
+      .put(`/api/stocktakes/${id}/lines/${lineB.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reasonCode: 'found', notes: '仓库角落找到' })
+      .expect(200);
+
+    const posted = await request(app)
+      .post(`/api/stocktakes/${id}/post`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ defaultReasonCode: 'damaged' })
+      .expect(200);
+
+    expect(posted.body.stocktake.status).toBe('posted');
+    expect(posted.body.summary).toMatchObject({
+      countedItems: 3,
+      itemsWithVariance: 2,
+      systemValue: 724,
+      countedValue: 864,
+      gainValue: 200,
+      lossValue: -60,
+      varianceValue: 140
+    });
+    expect(posted.body.byReason).toEqual([
+      expect.objectContaining({ reasonCode: 'damaged', itemCount: 1, quantity: -3, value: -60 }),
+      expect.objectContaining({ reasonCode: 'found', itemCount: 1, quantity: 2, value: 200 })
+    ]);
+    expect(posted.body.lines[0].inventory_id).toBe(items.B);
+
+    expect(await getStock('A')).toBe(5);
+    expect(await getStock('B')).toBe(7);
+    expect(await getStock('C')).toBe(8);
+
+    const movements = await connectionPool.query(
+      `SELECT inventory_id, delta, notes FROM inventory_movements WHERE source = 'stocktake' AND reference_id = ? ORDER BY inventory_id`,
+      [id]
+    );
+    expect(movements).toEqual([
+      expect.objectContaining({ inventory_id: items.A, delta: -3, notes: '盘点调整: 损坏' }),
+      expect.objectContaining({ inventory_id: items.B, delta: 2, notes: '盘点调整: 盘盈 (仓库角落找到)' })
+    ]);
+
+    await recordCounts(adminToken, id, [['C', 1]]).expect(409);
+    await request(app)
+      .post(`/api/stocktakes/${id}/post`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+  });
+
+  it('should leave stock untouched when a stocktake is cancelled', async () => {
+    const id = await createStocktake(`取消的盘点_${suffix}`);
+    await recordCounts(counterToken, id, [['C', 1]]).expect(200);
+
+    const report = await request(app)
+      .get(`/api/stocktakes/${id}/variance`)
+      .set('Authorization', `Bearer ${counterToken}`)
+      .expect(200);
+    expect(report.body.byReason).toEqual([expect.objectContaining({ reasonCode: null, value: -21 })]);
+
+    await request(app)
+      .post(`/api/stocktakes/${id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(await getStock('C')).toBe(8);
+
+    await request(app)
+      .post(`/api/stocktakes/${id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(409);
+
+    const list = await request(app)
+      .get('/api/stocktakes')
+      .query({ status: 'cancelled', limit: 100 })
+      .set('Authorization', `Bearer ${counterToken}`)
+      .expect(200);
+    expect(list.body.stocktakes.map((s: any) => s.id)).toContain(id);
+
+    await request(app)
+      .get('/api/stocktakes/99999999')
+      .set('Authorization', `Bearer ${counterToken}`)
+      .expect(404);
+  });
+
+  it('should snapshot the unit cost by the configured costing method', async () => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({ ...config, costing: { method: 'moving_average' } });
+    await connectionPool.run('UPDATE inventory SET average_unit_cost = 7 WHERE id = ?', [items.D]);
+
+    const id = await createStocktake(`加权平均盘点_${suffix}`);
+    const response = await recordCounts(adminToken, id, [['D', 2]]).expect(200);
+    const line = response.body.lines.find((l: any) => l.inventory_id === items.D);
+    expect(line).toMatchObject({ unit_cost: 7, variance: -2, variance_value: -14 });
+
+    await request(app)
+      .post(`/api/stocktakes/${id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+  });
+});
@@ -0,0 +1,127 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import receiptRoutes from '../src/routes/receipts';
+import storeRoutes from '../src/routes/stores';
+import analyticsRoutes from '../src/routes/analytics';
+import { initDatabase, connectionPool } from '../src/database/init';
+import { StoreService } from '../src/services/storeService';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/stores', storeRoutes);
+app.use('/api/analytics', analyticsRoutes);
+
+describe('Stores registry', () => {
+  let authToken: string;
+  const suffix = Date.now();
+  const storeName = `マツモトキヨシ 新宿東口店 ${suffix}`;
+  const storeService = StoreService.getInstance();
+
+  const saveReceipt = (body: Record<string, any>) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({ items: [{ itemName: `门店测试商品_${suffix}`, unitPrice: 10, quantity: 1, totalPrice: 10 }], totalAmount: 10, ...body });
+
+  const getReceipt = async (receiptId: number) => {
+    const [row] = await connectionPool.query('SELECT * FROM receipts WHERE id = ?', [receiptId]);
+    return row;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `storeadmin_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'storepass123', role: 'admin' });
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'storepass123' });
+
+    authToken = loginResponse.body.token;
+  });
+
+  it('should normalize full-width characters, case and punctuation', () => {
+    expect(storeService.normalize('ＣＯＳＴＣＯ　幕張倉庫店')).toBe(storeService.normalize('Costco 幕張倉庫店'));
+    expect(storeService.normalize('Don Quijote (Shibuya)')).toBe('donquijoteshibuya');
+  });
+
+  it('should register a store from merchant details and reuse it for similar names', async () => {
+    const first = await saveReceipt({
+      merchant: { name: storeName, address: '東京都新宿区新宿3-1', receiptNumber: 'R-0001' }
+    }).expect(200);
+
+    const firstReceipt = await getReceipt(first.body.receiptId);
+    expect(firstReceipt.store_id).toBeTruthy();
+    expect(firstReceipt).toMatchObject({ merchant_name: storeName, receipt_number: 'R-0001' });
+
+    // OCR结果中的全角字符和空格差异不应产生新门店（同店同日同额，需确认非重复上传）
+    const second = await saveReceipt({
+      merchant: { name: storeName.replace(/ /g, '　'), address: '東京都新宿区新宿3-1' },
+      allowDuplicate: true
+    }).expect(200);
+    expect((await getReceipt(second.body.receiptId)).store_id).toBe(firstReceipt.store_id);
+
+    const match = await storeService.findBestMatch({ name: storeName });
+    expect(match).toMatchObject({ storeId: firstReceipt.store_id, score: 1 });
+    expect(await storeService.findBestMatch({ name: `完全不同的商店_${suffix}` })).toBeNull();
+  });
+
+  it('should prefer an explicit store and reject unknown stores', async () => {
+    const store = await request(app)
+      .post('/api/stores/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `Costco 幕張倉庫店 ${suffix}`, country: 'JP' })
+      .expect(201);
+
+    const saved = await saveReceipt({ storeId: store.body.id, merchant: { name: storeName } }).expect(200);
+    expect((await getReceipt(saved.body.receiptId)).store_id).toBe(store.body.id);
+
+    await saveReceipt({ storeId: 99999999 }).expect(404);
+  });
+
+  it('should list stores with receipt counts and spending', async () => {
+    const response = await request(app)
+      .get('/api/stores/list')
+      .query({ search: storeName })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.stores).toHaveLength(1);
+    expect(response.body.stores[0]).toMatchObject({ name: storeName, receipt_count: 2, total_spent: 20 });
+  });
+
+  it('should group purchase analytics by store', async () => {
+    const response = await request(app)
+      .get('/api/analytics/stores')
+      .query({ limit: 1000 })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const group = response.body.stores.find((s: any) => s.storeName === storeName);
+    expect(group).toMatchObject({ receiptCount: 2, totalSpent: 20 });
+  });
+
+  it('should detach receipts when a store is deleted', async () => {
+    const [store] = await connectionPool.query('SELECT id FROM stores WHERE name = ?', [storeName]);
+
+    await request(app)
+      .delete(`/api/stores/${store.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const [{ count }] = await connectionPool.query('SELECT COUNT(*) as count FROM receipts WHERE store_id = ?', [store.id]);
+    expect(count).toBe(0);
+
+    await request(app)
+      .get(`/api/stores/${store.id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,221 @@
+import request from 'supertest';
+import express from 'express';
+import cors from 'cors';
+import authRoutes from '../src/routes/auth';
+import inventoryRoutes from '../src/routes/inventory';
+import receiptRoutes from '../src/routes/receipts';
+import salesRoutes from '../src/routes/sales';
+import landedCostRoutes from '../src/routes/landedCosts';
+import locationRoutes from '../src/routes/locations';
+import { initDatabase, connectionPool } from '../src/database/init';
+import * as inventoryConfig from '../src/config/inventory';
+
+const app = express();
+app.use(cors());
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use('/api/inventory', inventoryRoutes);
+app.use('/api/receipts', receiptRoutes);
+app.use('/api/sales', salesRoutes);
+app.use('/api/landed-costs', landedCostRoutes);
+app.use('/api/locations', locationRoutes);
+
+describe('Inventory costing methods and valuation', () => {
+  let authToken: string;
+  const suffix = Date.now();
+
+  const useCostingMethod = (method: string) => {
+    const config = inventoryConfig.getInventoryConfig();
+    jest.spyOn(inventoryConfig, 'getInventoryConfig').mockReturnValue({ ...config, costing: { method } });
+  };
+
+  const saveReceipt = (itemName: string, quantity: number, unitPrice: number) => request(app)
+    .post('/api/receipts/save')
+    .set('Authorization', `Bearer ${authToken}`)
+    .send({
+      items: [{ itemName, unitPrice, quantity, totalPrice: unitPrice * quantity }],
+      totalAmount: unitPrice * quantity,
+      allowDuplicate: true
+    })
+    .expect(200);
+
+  const getInventoryId = async (itemName: string) => {
+    const [row] = await connectionPool.query('SELECT id FROM inventory WHERE item_name = ?', [itemName]);
+    return row.id;
+  };
+
+  const sell = async (inventoryId: number, quantity: number) => {
+    const response = await request(app)
+      .post('/api/sales/create')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ items: [{ inventoryId, quantity, unitPrice: 100 }] })
+      .expect(201);
+    const [saleItem] = await connectionPool.query('SELECT unit_cost FROM sale_items WHERE sale_id = ?', [response.body.saleId]);
+    const [movement] = await connectionPool.query(
+      `SELECT unit_cost, cost_amount FROM inventory_movements WHERE source = 'sale' AND reference_id = ?`,
+      [response.body.saleId]
+    );
+    return { saleItemCost: saleItem.unit_cost, movement };
+  };
+
+  const getValuation = async (inventoryId: number, query: Record<string, string>) => {
+    const response = await request(app)
+      .get('/api/inventory/valuation')
+      .query(query)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    return response.body.items.find((item: any) => item.inventory_id === inventoryId) || null;
+  };
+
+  beforeAll(async () => {
+    await initDatabase();
+
+    const username = `valuation_user_${suffix}`;
+    await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: 'valuationpass123', role: 'admin' });
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ username, password: 'valuationpass123' });
+    authToken = response.body.token;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should cost sales at the moving weighted average and keep stock value stable across receipts', async () => {
+    useCostingMethod('moving_average');
+    const itemName = `香水_${suffix}`;
+
+    await saveReceipt(itemName, 4, 10);
+    await saveReceipt(itemName, 6, 20);
+    const inventoryId = await getInventoryId(itemName);
+
+    const [inventory] = await connectionPool.query('SELECT unit_price, average_unit_cost FROM inventory WHERE id = ?', [inventoryId]);
+    expect(inventory).toEqual({ unit_price: 20, average_unit_cost: 16 });
+
+    expect(await sell(inventoryId, 5)).toEqual({ saleItemCost: 16, movement: { unit_cost: 16, cost_amount: -80 } });
+
+    const stats = await request(app)
+      .get('/api/inventory/stats')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(stats.body.costing_method).toBe('moving_average');
+
+    expect(await getValuation(inventoryId, {})).toMatchObject({ quantity: 5, unit_cost: 16, value: 80 });
+    // 出库按 FEFO/FIFO 先扣减较早的批次，剩余数量都来自第二张收据
+    expect(await getValuation(inventoryId, { method: 'fifo' })).toMatchObject({ quantity: 5, value: 100 });
+    expect(await getValuation(inventoryId, { method: 'latest' })).toMatchObject({ quantity: 5, value: 100 });
+  });
+
+  it('should cost sales from the consumed FIFO layers and summarize cost of goods sold', async () => {
+    useCostingMethod('fifo');
+    const itemName = `口红_${suffix}`;
+
+    await saveReceipt(itemName, 3, 10);
+    await saveReceipt(itemName, 2, 30);
+    const inventoryId = await getInventoryId(itemName);
+
+    expect(await sell(inventoryId, 4)).toEqual({ saleItemCost: 15, movement: { unit_cost: 15, cost_amount: -60 } });
+    expect(await getValuation(inventoryId, {})).toMatchObject({ quantity: 1, unit_cost: 30, value: 30 });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const cogs = await request(app)
+      .get('/api/inventory/cogs')
+      .query({ startDate: today, endDate: today })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(cogs.body.items.find((item: any) => item.inventory_id === inventoryId)).toMatchObject({ quantity: 4, cost: 60 });
+    expect(cogs.body.bySource.map((row: any) => row.source)).toContain('sale');
+
+    await request(app)
+      .get('/api/inventory/cogs')
+      .query({ startDate: 'yesterday' })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+  });
+
+  it('should value stock as of a past date from the movements and layers at that time', async () => {
+    const itemName = `面膜_${suffix}`;
+
+    await saveReceipt(itemName, 4, 10);
+    const inventoryId = await getInventoryId(itemName);
+    await connectionPool.run(`UPDATE inventory_movements SET created_at = '2024-01-10 09:00:00' WHERE inventory_id = ?`, [inventoryId]);
+    await connectionPool.run(`UPDATE inventory_batches SET received_at = '2024-01-10 09:00:00' WHERE inventory_id = ?`, [inventoryId]);
+
+    await sell(inventoryId, 1);
+    await saveReceipt(itemName, 2, 25);
+
+    expect(await getValuation(inventoryId, { asOf: '2024-01-09' })).toBeNull();
+    for (const method of ['fifo', 'moving_average', 'latest']) {
+      expect(await getValuation(inventoryId, { asOf: '2024-01-15', method })).toMatchObject({ quantity: 4, value: 40 });
+    }
+
+    expect(await getValuation(inventoryId, { method: 'fifo' })).toMatchObject({ quantity: 5, value: 80 });
+    expect(await getValuation(inventoryId, { method: 'moving_average' })).toMatchObject({ quantity: 5, unit_cost: 16, value: 80 });
+    expect(await getValuation(inventoryId, { method: 'latest' })).toMatchObject({ quantity: 5, unit_cost: 25, value: 125 });
+
+    for (const query of [{ asOf: '2024-02-30' }, { method: 'lifo' }]) {
+      await request(app)
+        .get('/api/inventory/valuation')
+        .query(query)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(400);
+    }
+  });
+
+  it('should include allocated landed costs in batch and moving average costs', async () => {
+    useCostingMethod('moving_average');
+    const itemName = `护手霜_${suffix}`;
+
+    const receipt = await saveReceipt(itemName, 4, 10);
+    const inventoryId = await getInventoryId(itemName);
+    const addCost = (amount: number) => request(app)
+      .post('/api/landed-costs/add')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ receiptId: receipt.body.receiptId, costType: 'shipping', amount })
+      .expect(201);
+    const getCosts = async () => {
+      const [batch] = await connectionPool.query('SELECT unit_cost FROM inventory_batches WHERE inventory_id = ?', [inventoryId]);
+      const [inventory] = await connectionPool.query('SELECT average_unit_cost FROM inventory WHERE id = ?', [inventoryId]);
+      return { batchCost: batch.unit_cost, averageCost: inventory.average_unit_cost };
+    };
+
+    await addCost(8);
+    expect(await getCosts()).toEqual({ batchCost: 12, averageCost: 12 });
+    expect(await sell(inventoryId, 2)).toEqual({ saleItemCost: 12, movement: { unit_cost: 12, cost_amount: -24 } });
+
+    // 追加附加成本只影响剩余库存，已出库的销货成本不变
+    await addCost(4);
+    expect(await getCosts()).toEqual({ batchCost: 13, averageCost: 13 });
+    expect(await getValuation(inventoryId, {})).toMatchObject({ quantity: 2, unit_cost: 13, value: 26 });
+    for (const method of ['fifo', 'latest']) {
+      expect(await getValuation(inventoryId, { method })).toMatchObject({ quantity: 2, value: 26 });
+    }
+  });
+
+  it('should value the inventory list and location stock by the costing method', async () => {
+    useCostingMethod('moving_average');
+    const itemName = `眼霜_${suffix}`;
+
+    await saveReceipt(itemName, 4, 10);
+    await saveReceipt(itemName, 6, 20);
+    const inventoryId = await getInventoryId(itemName);
+
+    const list = await request(app)
+      .get('/api/inventory/list')
+      .query({ search: itemName })
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(list.body.items.find((item: any) => item.id === inventoryId).total_value).toBe(160);
+
+    const [location] = await connectionPool.query('SELECT id FROM locations WHERE is_default = 1');
+    const stock = await request(app)
+      .get(`/api/locations/${location.id}/stock`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    expect(stock.body.items.find((item: any) => item.id === inventoryId)).toMatchObject({ quantity: 10, total_value: 160 });
+  });
+});